@@ -0,0 +1,117 @@
+const ForwardRequestComponents = [
+	{
+		"internalType": "address",
+		"name": "from",
+		"type": "address",
+	},
+	{
+		"internalType": "address",
+		"name": "to",
+		"type": "address",
+	},
+	{
+		"internalType": "uint256",
+		"name": "value",
+		"type": "uint256",
+	},
+	{
+		"internalType": "uint256",
+		"name": "gas",
+		"type": "uint256",
+	},
+	{
+		"internalType": "uint256",
+		"name": "nonce",
+		"type": "uint256",
+	},
+	{
+		"internalType": "bytes",
+		"name": "data",
+		"type": "bytes",
+	},
+]
+
+/**
+ * Methods abi of EIP-2771 trusted forwarder (OpenZeppelin MinimalForwarder)
+ */
+export const ForwarderAbi = [
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "from",
+				"type": "address",
+			},
+		],
+		"name": "getNonce",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256",
+			},
+		],
+		"stateMutability": "view",
+		"type": "function",
+	},
+	{
+		"inputs": [
+			{
+				"components": ForwardRequestComponents,
+				"internalType": "struct MinimalForwarder.ForwardRequest",
+				"name": "req",
+				"type": "tuple",
+			},
+			{
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes",
+			},
+		],
+		"name": "verify",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool",
+			},
+		],
+		"stateMutability": "view",
+		"type": "function",
+	},
+	{
+		"inputs": [
+			{
+				"components": ForwardRequestComponents,
+				"internalType": "struct MinimalForwarder.ForwardRequest",
+				"name": "req",
+				"type": "tuple",
+			},
+			{
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes",
+			},
+		],
+		"name": "execute",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool",
+			},
+			{
+				"internalType": "bytes",
+				"name": "",
+				"type": "bytes",
+			},
+		],
+		"stateMutability": "payable",
+		"type": "function",
+	},
+]
+
+/**
+ * EIP-712 type of the request signed for the forwarder
+ */
+export const FORWARD_REQUEST_TYPE = ForwardRequestComponents.map(({ name, type }) => ({ name, type }))
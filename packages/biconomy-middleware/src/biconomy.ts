@@ -1,8 +1,7 @@
-import { providerAsMiddleware, providerFromEngine } from "eth-json-rpc-middleware"
-import { JsonRpcEngine } from "json-rpc-engine"
 import type { SafeEventEmitterProvider } from "eth-json-rpc-middleware/dist/utils/cache"
-import { biconomyMiddleware } from "./middleware"
 import type { IBiconomyConfig, IContractRegistry, ILimitsRegistry } from "./types"
+import { withRelayerMiddleware } from "./relayer"
+import { BiconomyRelayer } from "./relayers/biconomy-relayer"
 
 /**
  * Apply biconomy middleware to provider
@@ -17,8 +16,5 @@ export function withBiconomyMiddleware(
 	limitsRegistry: ILimitsRegistry,
 	config: IBiconomyConfig
 ): SafeEventEmitterProvider {
-	const engine = new JsonRpcEngine()
-	engine.push(biconomyMiddleware(provider, registry, limitsRegistry, config))
-	engine.push(providerAsMiddleware(provider as any))
-	return providerFromEngine(engine)
+	return withRelayerMiddleware(provider, registry, limitsRegistry, new BiconomyRelayer(provider, config))
 }
@@ -0,0 +1,15 @@
+export class InvalidContractMetadataError extends Error {
+	constructor(readonly address: string, reason: string) {
+		super(`Invalid metadata of contract ${address}: ${reason}`)
+		Object.setPrototypeOf(this, InvalidContractMetadataError.prototype)
+		this.name = "InvalidContractMetadataError"
+	}
+}
+
+export class DomainChainMismatchError extends Error {
+	constructor(readonly address: string, readonly domainChainId: number, readonly chainId: number) {
+		super(`EIP-712 domain of contract ${address} is for chainId=${domainChainId}, but provider chainId=${chainId}`)
+		Object.setPrototypeOf(this, DomainChainMismatchError.prototype)
+		this.name = "DomainChainMismatchError"
+	}
+}
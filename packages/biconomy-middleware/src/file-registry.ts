@@ -0,0 +1,17 @@
+import { promises as fs } from "fs"
+import type { BaseRegistryOptions } from "./registry"
+import { BaseRegistry } from "./registry"
+
+/**
+ * Registry loaded from local JSON file, it's not exported from the package index to keep it usable in browsers:
+ * import { FileRegistry } from "@rarible/biconomy-middleware/build/file-registry"
+ */
+export class FileRegistry extends BaseRegistry {
+	constructor(private readonly path: string, options?: BaseRegistryOptions) {
+		super(options)
+	}
+
+	protected async fetchData(): Promise<unknown> {
+		return JSON.parse(await fs.readFile(this.path, "utf8"))
+	}
+}
@@ -1,4 +1,12 @@
 export * from "./biconomy"
+export * from "./relayer"
 export * from "./registry"
+export * from "./registry-validation"
+export * from "./errors"
 export * from "./types"
 export * from "./limits-registry"
+export * from "./relayers/biconomy-relayer"
+export * from "./relayers/trusted-forwarder-relayer"
+export * from "./relayers/local-relayer"
+export * from "./sponsorship-policy"
+export * from "./sponsorship-store"
@@ -1,56 +1,59 @@
 import { ethers } from "ethers"
-import { Biconomy } from "@biconomy/mexa"
 import type { JsonRpcMiddleware } from "json-rpc-engine"
 import { createAsyncMiddleware } from "json-rpc-engine"
-import type { Block } from "eth-json-rpc-middleware/dist/utils/cache"
-import type { IBiconomyConfig, IContractRegistry, ILimitsRegistry } from "./types"
+import type {
+	ContractMetadata,
+	ForwardRequest,
+	IContractRegistry,
+	ILimitsRegistry,
+	IRelayer,
+	SignedMetaTransaction,
+} from "./types"
 import { MetaContractAbi } from "./abi/methods-abi"
+import { FORWARD_REQUEST_TYPE, ForwarderAbi } from "./abi/forwarder-abi"
 import { providerRequest } from "./utils/provider-request"
+import type { SendFunction } from "./sign-typed-data"
 import { signTypedData } from "./sign-typed-data"
+import { checkDomainChainId } from "./registry-validation"
 
-export function biconomyMiddleware(
+/**
+ * Middleware which replaces sending of transactions to contracts from registry with gasless meta transactions
+ * @param provider web3 provider
+ * @param registry contracts registry
+ * @param limitsRegistry registry that checks limits of user or whole dapp
+ * @param relayer relayer which sends signed meta transactions
+ * @returns middleware which responds to eth_sendTransaction with hash of the relayed transaction,
+ * other requests are passed to the next middleware
+ */
+export function relayerMiddleware(
 	provider: any,
 	registry: IContractRegistry,
 	limitsRegistry: ILimitsRegistry,
-	biconomyConfig: IBiconomyConfig
-): JsonRpcMiddleware<string[], Block> {
-	const biconomy = new Biconomy(getBiconomySupportedProvider(provider), biconomyConfig)
+	relayer: IRelayer
+): JsonRpcMiddleware<unknown[], string> {
 	const ethersProvider = new ethers.providers.Web3Provider(provider)
-	const signer = ethersProvider.getSigner()
-	const biconomyState = new Promise(((resolve, reject) => {
-		biconomy.onEvent(biconomy.READY, resolve)
-		biconomy.onEvent(biconomy.ERROR, (error: any, message: any) => reject(new Error(error.message + (message ? "\n" + message : ""))))
-	}))
+	const send = ((method: string, params?: any) => providerRequest(provider, method, params))
 
 	return createAsyncMiddleware(async (req, res, next) => {
 		if (req.method === "eth_sendTransaction" && req.params) {
-			const [tx] = req.params as unknown[]
+			const [tx] = req.params
 			if (isTransactionParams(tx) && hasNullValue(tx)) {
 				try {
 					const metadata = await registry.getMetadata(tx.to, tx.data)
 					if (metadata) {
-						await biconomyState
-						const limits = await limitsRegistry.checkLimits(tx.from)
+						const { chainId } = await ethersProvider.getNetwork()
+						checkDomainChainId(tx.to, metadata, chainId)
+						const sponsoredTx = { to: tx.to, data: tx.data, gas: tx.gas }
+						const limits = await limitsRegistry.checkLimits(tx.from, sponsoredTx)
 						if (!limits.allowed) {
 							return next()
 						}
-						const contract = new ethers.Contract(tx.to, MetaContractAbi, signer)
-						const interfaceHelper = new ethers.utils.Interface(MetaContractAbi)
-
-						const dataToSign = {
-							...metadata,
-							message: {
-								nonce: parseInt(await contract.getNonce(tx.from)),
-								from: tx.from,
-								functionSignature: tx.data,
-							},
-						}
-						const send = ((method: string, params?: any) => providerRequest(provider, method, params))
-						const signature = await signTypedData(send, tx.from, dataToSign as any)
-						const {r, s, v} = getSignatureParameters(signature)
-
-						tx.data = interfaceHelper.encodeFunctionData("executeMetaTransaction", [tx.from, tx.data, r, s, v])
-						res.result = await providerRequest(biconomy, "eth_sendTransaction", [tx])
+						const metaTx = metadata.metaTxType === "forwarder"
+							? await signForwardRequest(ethersProvider, send, metadata, tx)
+							: await signNativeMetaTransaction(ethersProvider, send, metadata, tx)
+						res.result = await relayer.submit(metaTx)
+						// transaction is already relayed, so failed usage accounting isn't reported as its failure
+						await limitsRegistry.recordUsage?.(tx.from, sponsoredTx).catch(() => undefined)
 
 						return
 					}
@@ -63,21 +66,73 @@ export function biconomyMiddleware(
 	})
 }
 
-function getBiconomySupportedProvider(provider: any) {
-	try {
-		if (provider.send) {
-			// eslint-disable-next-line @typescript-eslint/no-unused-vars
-			provider.send()
-		} else {
-			provider.send = provider.sendAsync
-		}
-	} catch (e: any) {
-		if (e.toString().includes("does not support synchronous requests")) {
-			provider.send = provider.sendAsync
-		}
+async function signNativeMetaTransaction(
+	ethersProvider: ethers.providers.Web3Provider,
+	send: SendFunction,
+	metadata: ContractMetadata,
+	tx: TransactionParams,
+): Promise<SignedMetaTransaction> {
+	const contract = new ethers.Contract(tx.to, MetaContractAbi, ethersProvider.getSigner())
+	const interfaceHelper = new ethers.utils.Interface(MetaContractAbi)
+
+	const dataToSign = {
+		...metadata,
+		message: {
+			nonce: parseInt(await contract.getNonce(tx.from)),
+			from: tx.from,
+			functionSignature: tx.data,
+		},
+	}
+	const signature = await signTypedData(send, tx.from, dataToSign as any)
+	const {r, s, v} = getSignatureParameters(signature)
+
+	return {
+		from: tx.from,
+		to: tx.to,
+		data: interfaceHelper.encodeFunctionData("executeMetaTransaction", [tx.from, tx.data, r, s, v]),
+		functionSignature: tx.data,
+		signature,
+		gas: tx.gas,
+	}
+}
+
+async function signForwardRequest(
+	ethersProvider: ethers.providers.Web3Provider,
+	send: SendFunction,
+	metadata: ContractMetadata,
+	tx: TransactionParams,
+): Promise<SignedMetaTransaction> {
+	if (!metadata.forwarder) {
+		throw new Error(`Forwarder address is not specified for contract ${tx.to}`)
 	}
+	const forwarder = new ethers.Contract(metadata.forwarder, ForwarderAbi, ethersProvider)
+	const gas = tx.gas ?? await ethersProvider.estimateGas({ from: tx.from, to: tx.to, data: tx.data })
+	const request: ForwardRequest = {
+		from: tx.from,
+		to: tx.to,
+		value: "0",
+		gas: ethers.BigNumber.from(gas).toString(),
+		nonce: (await forwarder.getNonce(tx.from)).toString(),
+		data: tx.data,
+	}
+	const signature = await signTypedData(send, tx.from, {
+		types: {
+			EIP712Domain: metadata.types.EIP712Domain,
+			ForwardRequest: FORWARD_REQUEST_TYPE,
+		},
+		domain: metadata.domain,
+		primaryType: "ForwardRequest",
+		message: request,
+	})
 
-	return provider
+	return {
+		from: tx.from,
+		to: metadata.forwarder,
+		data: forwarder.interface.encodeFunctionData("execute", [request, signature]),
+		functionSignature: tx.data,
+		signature,
+		forwardRequest: request,
+	}
 }
 
 function getSignatureParameters(signature: string) {
@@ -104,6 +159,7 @@ type TransactionParams = {
 	to: string
 	data: string
 	value: string | undefined
+	gas?: string
 }
 
 function isTransactionParams(x: unknown): x is TransactionParams {
@@ -0,0 +1,98 @@
+import { ethers } from "ethers"
+import type { ContractMetadata } from "./types"
+import { DomainChainMismatchError, InvalidContractMetadataError } from "./errors"
+
+const MAX_SAFE_INTEGER = ethers.BigNumber.from("0x1fffffffffffff")
+
+/**
+ * Validate registry entries against ContractMetadata schema, addresses are converted to lower case.
+ * Invalid entries are skipped, so one broken entry doesn't disable meta transactions for other contracts
+ * @param data registry data
+ * @param onInvalidEntry called for every skipped entry
+ */
+export function validateRegistryData(
+	data: unknown,
+	onInvalidEntry?: (error: InvalidContractMetadataError) => void,
+): Record<string, ContractMetadata> {
+	if (!isObject(data)) {
+		throw new Error("Registry data should be an object of contract address -> metadata")
+	}
+	return Object.keys(data).reduce<Record<string, ContractMetadata>>((result, address) => {
+		try {
+			result[address.toLowerCase()] = validateContractMetadata(address, data[address])
+		} catch (e) {
+			if (!(e instanceof InvalidContractMetadataError)) {
+				throw e
+			}
+			onInvalidEntry?.(e)
+		}
+		return result
+	}, {})
+}
+
+export function validateContractMetadata(address: string, value: unknown): ContractMetadata {
+	const fail = (reason: string): never => {
+		throw new InvalidContractMetadataError(address, reason)
+	}
+	if (!isObject(value)) {
+		return fail("metadata should be an object")
+	}
+	const { types, domain, primaryType, allowedFunctions, metaTxType, forwarder } = value
+	if (!isObject(types) || !isTypeProperties(types.EIP712Domain)) {
+		return fail("types.EIP712Domain should be a list of { name, type }")
+	}
+	if (!isObject(domain)) {
+		return fail("domain should be an object")
+	}
+	if (typeof primaryType !== "string") {
+		return fail("primaryType should be a string")
+	}
+	if (allowedFunctions !== undefined &&
+		!(Array.isArray(allowedFunctions) && allowedFunctions.every(fn => typeof fn === "string"))) {
+		return fail("allowedFunctions should be a list of method ids")
+	}
+	if (metaTxType === undefined || metaTxType === "native") {
+		if (!isTypeProperties(types.MetaTransaction)) {
+			return fail("types.MetaTransaction should be a list of { name, type }")
+		}
+	} else if (metaTxType === "forwarder") {
+		if (typeof forwarder !== "string" || !ethers.utils.isAddress(forwarder)) {
+			return fail("forwarder address is required for forwarder meta transactions")
+		}
+	} else {
+		return fail(`unsupported metaTxType ${metaTxType}`)
+	}
+	return value as ContractMetadata
+}
+
+/**
+ * Throw DomainChainMismatchError if EIP-712 domain of the contract is for another chain.
+ * Chain is taken from domain's chainId or salt (used by contracts with custom domain, e.g. on Polygon),
+ * salt which is too big for chain id isn't checked
+ */
+export function checkDomainChainId(address: string, metadata: ContractMetadata, chainId: number) {
+	const domainChainId = getDomainChainId(metadata.domain)
+	if (domainChainId !== undefined && domainChainId !== chainId) {
+		throw new DomainChainMismatchError(address, domainChainId, chainId)
+	}
+}
+
+function getDomainChainId(domain: Record<string, any>): number | undefined {
+	if (domain.chainId !== undefined) {
+		return ethers.BigNumber.from(domain.chainId).toNumber()
+	}
+	if (typeof domain.salt === "string" && ethers.utils.isHexString(domain.salt, 32)) {
+		const salt = ethers.BigNumber.from(domain.salt)
+		return salt.lte(MAX_SAFE_INTEGER) ? salt.toNumber() : undefined
+	}
+	return undefined
+}
+
+function isTypeProperties(value: unknown): boolean {
+	return Array.isArray(value) &&
+		value.every(item => isObject(item) && typeof item.name === "string" && typeof item.type === "string")
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return typeof value === "object" && value !== null
+}
@@ -1,41 +1,61 @@
 import { handleFetchErrorResponse, NetworkError } from "@rarible/logger/build"
 import type { ContractMetadata, IContractRegistry } from "./types"
 import { NetworkErrorCode } from "./domain"
+import { validateRegistryData } from "./registry-validation"
+import { getMethodId } from "./utils/method-id"
 
-export class Registry implements IContractRegistry {
-	private registryData!: Record<string, ContractMetadata>
+export type BaseRegistryOptions = {
+	/**
+	 * Called with InvalidContractMetadataError for every skipped registry entry
+	 * and with the error of failed refresh, when previously loaded data is used
+	 */
+	onError?: (error: Error) => void
+}
+
+/**
+ * Base of registries which load the whole contract address -> metadata map from some source.
+ * Loaded entries are validated against ContractMetadata schema, invalid entries are skipped
+ */
+export abstract class BaseRegistry implements IContractRegistry {
+	private registryData: Record<string, ContractMetadata> | undefined = undefined
+
+	constructor(protected readonly options: BaseRegistryOptions = {}) {}
 
-	constructor(private readonly registryUrl: string) {
+	protected abstract fetchData(): Promise<unknown>
+
+	/**
+	 * Loaded data is reloaded on the next request if it's expired
+	 */
+	protected isExpired(): boolean {
+		return false
 	}
 
-	private async fetchData() {
-		let response
+	private async getData(): Promise<Record<string, ContractMetadata>> {
+		if (this.registryData && !this.isExpired()) {
+			return this.registryData
+		}
 		try {
-		  response = await fetch(this.registryUrl)
+			this.registryData = validateRegistryData(await this.fetchData(), this.options.onError)
+			return this.registryData
 		} catch (e) {
-			throw new NetworkError({
-				url: this.registryUrl,
-				data: (e as Error).message,
-				code: NetworkErrorCode.BICONOMY_EXTERNAL_ERR,
-			})
+			if (!this.registryData) {
+				throw e
+			}
+			this.options.onError?.(e as Error)
+			return this.registryData
 		}
-		await handleFetchErrorResponse(response, { code: NetworkErrorCode.BICONOMY_EXTERNAL_ERR })
-		this.registryData = await response.json()
 	}
 
 	async getMetadata(address: string, data?: string): Promise<ContractMetadata | undefined> {
-		if (!this.registryData) {
-			await this.fetchData()
-		}
-
-		const metadata = this.registryData[address.toLowerCase()]
+		const registryData = await this.getData()
+		const metadata = registryData[address.toLowerCase()]
 
 		if (Array.isArray(metadata?.allowedFunctions)) {
 			if (!data || !metadata.allowedFunctions.length) {
 				return undefined
 			}
-			const methodId = normalize(data)
-			const allowedFunctions = metadata.allowedFunctions.map(value => normalize(value))
+			const methodId = getMethodId(data)
+			const allowedFunctions = metadata.allowedFunctions.map(value => getMethodId(value))
 			if (allowedFunctions.includes(methodId)) {
 				return metadata
 			}
@@ -46,7 +66,54 @@ export class Registry implements IContractRegistry {
 	}
 }
 
-function normalize(signature: string): string {
-	const normalized = signature.startsWith("0x") ? signature.slice(0, 10) : `0x${signature.slice(0, 8)}`
-	return normalized.toLowerCase()
+export type RegistryOptions = BaseRegistryOptions & {
+	/**
+	 * Registry is fetched again after this time, it's fetched only once if not set
+	 */
+	ttlMs?: number
+}
+
+/**
+ * Registry fetched from remote url
+ */
+export class Registry extends BaseRegistry {
+	private fetchedAt = 0
+
+	constructor(private readonly registryUrl: string, protected readonly options: RegistryOptions = {}) {
+		super(options)
+	}
+
+	protected async fetchData(): Promise<unknown> {
+		let response
+		try {
+		  response = await fetch(this.registryUrl)
+		} catch (e) {
+			throw new NetworkError({
+				url: this.registryUrl,
+				data: (e as Error).message,
+				code: NetworkErrorCode.BICONOMY_EXTERNAL_ERR,
+			})
+		}
+		await handleFetchErrorResponse(response, { code: NetworkErrorCode.BICONOMY_EXTERNAL_ERR })
+		const data = await response.json()
+		this.fetchedAt = Date.now()
+		return data
+	}
+
+	protected isExpired(): boolean {
+		return this.options.ttlMs !== undefined && Date.now() - this.fetchedAt >= this.options.ttlMs
+	}
+}
+
+/**
+ * Registry with contracts metadata defined in code
+ */
+export class StaticRegistry extends BaseRegistry {
+	constructor(private readonly data: Record<string, ContractMetadata>, options?: BaseRegistryOptions) {
+		super(options)
+	}
+
+	protected async fetchData(): Promise<unknown> {
+		return this.data
+	}
 }
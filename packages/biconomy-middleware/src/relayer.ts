@@ -0,0 +1,24 @@
+import { providerAsMiddleware, providerFromEngine } from "eth-json-rpc-middleware"
+import { JsonRpcEngine } from "json-rpc-engine"
+import type { SafeEventEmitterProvider } from "eth-json-rpc-middleware/dist/utils/cache"
+import { relayerMiddleware } from "./middleware"
+import type { IContractRegistry, ILimitsRegistry, IRelayer } from "./types"
+
+/**
+ * Apply meta transactions middleware with custom relayer to provider
+ * @param provider web3 provider
+ * @param registry contracts registry
+ * @param limitsRegistry registry that checks limits of user or whole dapp
+ * @param relayer relayer which sends signed meta transactions, e.g. BiconomyRelayer or TrustedForwarderRelayer
+ */
+export function withRelayerMiddleware(
+	provider: any,
+	registry: IContractRegistry,
+	limitsRegistry: ILimitsRegistry,
+	relayer: IRelayer
+): SafeEventEmitterProvider {
+	const engine = new JsonRpcEngine()
+	engine.push(relayerMiddleware(provider, registry, limitsRegistry, relayer))
+	engine.push(providerAsMiddleware(provider as any))
+	return providerFromEngine(engine)
+}
@@ -0,0 +1,49 @@
+import { ethers } from "ethers"
+import { Biconomy } from "@biconomy/mexa"
+import type { IBiconomyConfig, IRelayer, RelayedTransactionStatus, SignedMetaTransaction } from "../types"
+import { providerRequest } from "../utils/provider-request"
+import { getRelayedTransactionStatus } from "../utils/relayed-transaction-status"
+
+/**
+ * Relayer which sends meta transactions through Biconomy
+ */
+export class BiconomyRelayer implements IRelayer {
+	private readonly biconomy: any
+	private readonly biconomyState: Promise<unknown>
+	private readonly ethersProvider: ethers.providers.Web3Provider
+
+	constructor(provider: any, config: IBiconomyConfig) {
+		this.biconomy = new Biconomy(getBiconomySupportedProvider(provider), config)
+		this.ethersProvider = new ethers.providers.Web3Provider(provider)
+		this.biconomyState = new Promise(((resolve, reject) => {
+			this.biconomy.onEvent(this.biconomy.READY, resolve)
+			this.biconomy.onEvent(this.biconomy.ERROR, (error: any, message: any) => reject(new Error(error.message + (message ? "\n" + message : ""))))
+		}))
+	}
+
+	async submit(tx: SignedMetaTransaction): Promise<string> {
+		await this.biconomyState
+		return providerRequest(this.biconomy, "eth_sendTransaction", [{ from: tx.from, to: tx.to, data: tx.data, gas: tx.gas }])
+	}
+
+	getStatus(hash: string): Promise<RelayedTransactionStatus> {
+		return getRelayedTransactionStatus(this.ethersProvider, hash)
+	}
+}
+
+function getBiconomySupportedProvider(provider: any) {
+	try {
+		if (provider.send) {
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			provider.send()
+		} else {
+			provider.send = provider.sendAsync
+		}
+	} catch (e: any) {
+		if (e.toString().includes("does not support synchronous requests")) {
+			provider.send = provider.sendAsync
+		}
+	}
+
+	return provider
+}
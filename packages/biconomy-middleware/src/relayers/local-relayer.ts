@@ -0,0 +1,28 @@
+import { ethers } from "ethers"
+import type { IRelayer, RelayedTransactionStatus, SignedMetaTransaction } from "../types"
+import { getRelayedTransactionStatus } from "../utils/relayed-transaction-status"
+
+/**
+ * In-process relayer for tests: sends meta transactions from unlocked account of the local node (e.g. ganache)
+ */
+export class LocalRelayer implements IRelayer {
+	private readonly ethersProvider: ethers.providers.Web3Provider
+
+	/**
+	 * @param provider web3 provider of the local node
+	 * @param relayerAddress unlocked account which pays for gas, the first account of the node is used by default
+	 */
+	constructor(provider: any, private readonly relayerAddress?: string) {
+		this.ethersProvider = new ethers.providers.Web3Provider(provider)
+	}
+
+	submit(tx: SignedMetaTransaction): Promise<string> {
+		return this.ethersProvider
+			.getSigner(this.relayerAddress)
+			.sendUncheckedTransaction({ to: tx.to, data: tx.data, gasLimit: tx.gas })
+	}
+
+	getStatus(hash: string): Promise<RelayedTransactionStatus> {
+		return getRelayedTransactionStatus(this.ethersProvider, hash)
+	}
+}
@@ -0,0 +1,62 @@
+import { ethers } from "ethers"
+import type { IRelayer, RelayedTransactionStatus, SignedMetaTransaction } from "../types"
+import { ForwarderAbi } from "../abi/forwarder-abi"
+import { getRelayedTransactionStatus } from "../utils/relayed-transaction-status"
+
+export type TrustedForwarderRelayerConfig = {
+	/**
+	 * Account which sends relayed transactions and pays for gas
+	 */
+	signer: ethers.Signer
+	/**
+	 * Addresses of accepted forwarders, any forwarder is accepted if not set
+	 */
+	forwarders?: string[]
+}
+
+/**
+ * Relayer of EIP-2771 forward requests: verifies request signature on the trusted forwarder
+ * and calls forwarder's execute from its own account
+ */
+export class TrustedForwarderRelayer implements IRelayer {
+	private readonly forwarderInterface = new ethers.utils.Interface(ForwarderAbi)
+
+	constructor(private readonly config: TrustedForwarderRelayerConfig) {}
+
+	async submit(tx: SignedMetaTransaction): Promise<string> {
+		const { forwarders } = this.config
+		if (forwarders && !forwarders.some(forwarder => forwarder.toLowerCase() === tx.to.toLowerCase())) {
+			throw new Error(`Forwarder ${tx.to} is not trusted by relayer`)
+		}
+		const [request, signature] = this.parseExecuteCall(tx.data)
+		if (request.from.toLowerCase() !== tx.from.toLowerCase()) {
+			throw new Error(`Forward request is signed by ${request.from}, expected ${tx.from}`)
+		}
+		const forwarder = new ethers.Contract(tx.to, ForwarderAbi, this.config.signer)
+		if (!await forwarder.verify(request, signature)) {
+			throw new Error("Forward request signature is not valid")
+		}
+		const sent = await this.config.signer.sendTransaction({ to: tx.to, data: tx.data })
+		return sent.hash
+	}
+
+	getStatus(hash: string): Promise<RelayedTransactionStatus> {
+		if (!this.config.signer.provider) {
+			throw new Error("Relayer signer should be connected to provider")
+		}
+		return getRelayedTransactionStatus(this.config.signer.provider, hash)
+	}
+
+	private parseExecuteCall(data: string): ethers.utils.Result {
+		let parsed: ethers.utils.TransactionDescription
+		try {
+			parsed = this.forwarderInterface.parseTransaction({ data })
+		} catch (e) {
+			throw new Error("Only execute calls of trusted forwarder can be relayed")
+		}
+		if (parsed.name !== "execute") {
+			throw new Error("Only execute calls of trusted forwarder can be relayed")
+		}
+		return parsed.args
+	}
+}
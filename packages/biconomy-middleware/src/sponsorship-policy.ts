@@ -0,0 +1,174 @@
+import type { BigNumberish } from "ethers"
+import { ethers } from "ethers"
+import type { BiconomyApiLimitResponse, ILimitsRegistry, SponsoredTransaction } from "./types"
+import type { ISponsorshipStore, SponsorshipUsage } from "./sponsorship-store"
+import { MemorySponsorshipStore } from "./sponsorship-store"
+import { getMethodId } from "./utils/method-id"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BUDGET_KEY = "budget"
+
+export enum SponsorshipLimitType {
+	TX_COUNT = 0,
+	BUDGET = 1,
+	METHOD_NOT_ALLOWED = 2,
+	DENYLIST = 3,
+}
+
+export type SponsorshipBudget = {
+	/**
+	 * Total amount of wei which can be spent on sponsored transactions during the period
+	 */
+	amount: BigNumberish
+	periodMs: number
+	/**
+	 * Estimate cost of the transaction in wei, see createGasCostEstimator
+	 */
+	estimateCost: (from: string, tx: SponsoredTransaction) => Promise<BigNumberish>
+}
+
+export type SponsorshipRules = {
+	/**
+	 * Users whose transactions are never sponsored
+	 */
+	denylist?: string[]
+	/**
+	 * Contract address -> allowed method ids, contracts not listed here are not restricted
+	 */
+	allowedMethods?: Record<string, string[]>
+	/**
+	 * Max number of sponsored transactions of a user per day
+	 */
+	dailyTxLimit?: number
+	budget?: SponsorshipBudget
+}
+
+/**
+ * Limits registry which evaluates sponsorship rules locally.
+ * Usage is recorded when middleware submits the allowed transaction, so it sends usual transactions
+ * when limits are reached. Transactions checked concurrently may exceed limits before their usage is recorded
+ */
+export class SponsorshipPolicy implements ILimitsRegistry {
+	/**
+	 * Costs estimated by checkLimits, they are used to record usage of transactions submitted by middleware
+	 */
+	private readonly estimatedCosts = new Map<string, ethers.BigNumber>()
+
+	constructor(
+		private readonly rules: SponsorshipRules,
+		private readonly store: ISponsorshipStore = new MemorySponsorshipStore(),
+	) {}
+
+	async checkLimits(userAddress: string, tx?: SponsoredTransaction): Promise<BiconomyApiLimitResponse> {
+		const { denylist, allowedMethods, dailyTxLimit, budget } = this.rules
+		const user = userAddress.toLowerCase()
+		const now = Date.now()
+
+		if (denylist && denylist.some(address => address.toLowerCase() === user)) {
+			return deny(SponsorshipLimitType.DENYLIST, "User is not allowed to send sponsored transactions")
+		}
+		if (allowedMethods && !isMethodAllowed(allowedMethods, tx)) {
+			return deny(SponsorshipLimitType.METHOD_NOT_ALLOWED, "Method is not allowed to be sponsored")
+		}
+
+		if (dailyTxLimit !== undefined) {
+			const txCount = getCurrentUsage(await this.store.get(getTxCountKey(user)), DAY_MS, now)
+			const left = dailyTxLimit - parseInt(txCount.value)
+			if (left <= 0) {
+				return deny(SponsorshipLimitType.TX_COUNT, "Daily limit of transactions is reached", 0, txCount.resetTime)
+			}
+		}
+
+		if (budget) {
+			if (!tx) {
+				return deny(SponsorshipLimitType.BUDGET, "Transaction is required to check budget")
+			}
+			const spent = getCurrentUsage(await this.store.get(BUDGET_KEY), budget.periodMs, now)
+			const cost = ethers.BigNumber.from(await budget.estimateCost(userAddress, tx))
+			const left = ethers.BigNumber.from(budget.amount).sub(spent.value)
+			if (cost.gt(left)) {
+				const limitLeft = left.toString()
+				return deny(SponsorshipLimitType.BUDGET, "Sponsorship budget is exhausted", limitLeft, spent.resetTime)
+			}
+			this.estimatedCosts.set(getTxKey(user, tx), cost)
+		}
+		return { code: 200, message: "Allowed", allowed: true }
+	}
+
+	async recordUsage(userAddress: string, tx: SponsoredTransaction): Promise<void> {
+		const { budget } = this.rules
+		const user = userAddress.toLowerCase()
+		const now = Date.now()
+
+		await this.addUsage(getTxCountKey(user), DAY_MS, now, 1)
+		if (budget) {
+			const txKey = getTxKey(user, tx)
+			const cost = this.estimatedCosts.get(txKey) ?? await budget.estimateCost(userAddress, tx)
+			this.estimatedCosts.delete(txKey)
+			await this.addUsage(BUDGET_KEY, budget.periodMs, now, cost)
+		}
+	}
+
+	private addUsage(key: string, periodMs: number, now: number, amount: BigNumberish): Promise<void> {
+		return this.store.update(key, usage => {
+			const current = getCurrentUsage(usage, periodMs, now)
+			return { ...current, value: ethers.BigNumber.from(current.value).add(amount).toString() }
+		})
+	}
+}
+
+/**
+ * Estimate transaction cost as gas limit (taken from tx or estimated) multiplied by current gas price
+ * @param provider web3 provider
+ */
+export function createGasCostEstimator(provider: any): SponsorshipBudget["estimateCost"] {
+	const ethersProvider = new ethers.providers.Web3Provider(provider)
+	return async (from, tx) => {
+		const gas = tx.gas ?? await ethersProvider.estimateGas({ from, to: tx.to, data: tx.data })
+		const gasPrice = await ethersProvider.getGasPrice()
+		return gasPrice.mul(gas)
+	}
+}
+
+function isMethodAllowed(allowedMethods: Record<string, string[]>, tx: SponsoredTransaction | undefined): boolean {
+	if (!tx) {
+		return false
+	}
+	const contract = Object.keys(allowedMethods).find(address => address.toLowerCase() === tx.to.toLowerCase())
+	if (!contract) {
+		return true
+	}
+	const methodId = getMethodId(tx.data)
+	return allowedMethods[contract].some(method => getMethodId(method) === methodId)
+}
+
+function getCurrentUsage(usage: SponsorshipUsage | undefined, periodMs: number, now: number): SponsorshipUsage {
+	if (!usage || usage.resetTime <= now) {
+		return { value: "0", resetTime: now + periodMs }
+	}
+	return usage
+}
+
+function getTxCountKey(user: string) {
+	return `txCount:${user}`
+}
+
+function getTxKey(user: string, tx: SponsoredTransaction) {
+	return `${user}:${tx.to.toLowerCase()}:${tx.data}`
+}
+
+function deny(
+	type: SponsorshipLimitType, message: string, limitLeft: number | string = 0, resetTime = 0,
+): BiconomyApiLimitResponse {
+	return {
+		code: type === SponsorshipLimitType.TX_COUNT || type === SponsorshipLimitType.BUDGET ? 429 : 403,
+		message,
+		allowed: false,
+		limit: {
+			allowed: false,
+			limitLeft,
+			resetTime,
+			type,
+		},
+	}
+}
@@ -0,0 +1,48 @@
+/**
+ * Usage accumulated during current period, value is a decimal string (tx count or wei)
+ */
+export type SponsorshipUsage = {
+	value: string
+	resetTime: number
+}
+
+export type SponsorshipStoreState = Record<string, SponsorshipUsage>
+
+/**
+ * Storage of sponsorship usage counters, implement it to keep counters in a database
+ */
+export interface ISponsorshipStore {
+	get(key: string): Promise<SponsorshipUsage | undefined>
+	/**
+	 * Replace usage with the result of `update`. Read and write should be atomic (e.g. done in a transaction),
+	 * so concurrent updates of the same key are not lost
+	 */
+	update(key: string, update: (usage: SponsorshipUsage | undefined) => SponsorshipUsage): Promise<void>
+}
+
+/**
+ * In-memory store of sponsorship usage
+ * @param initialState previously persisted state
+ * @param persist called with the whole state after every change
+ */
+export class MemorySponsorshipStore implements ISponsorshipStore {
+	private readonly state: SponsorshipStoreState
+
+	constructor(
+		initialState: SponsorshipStoreState = {},
+		private readonly persist?: (state: SponsorshipStoreState) => Promise<void>,
+	) {
+		this.state = { ...initialState }
+	}
+
+	async get(key: string): Promise<SponsorshipUsage | undefined> {
+		return this.state[key]
+	}
+
+	async update(key: string, update: (usage: SponsorshipUsage | undefined) => SponsorshipUsage): Promise<void> {
+		this.state[key] = update(this.state[key])
+		if (this.persist) {
+			await this.persist({ ...this.state })
+		}
+	}
+}
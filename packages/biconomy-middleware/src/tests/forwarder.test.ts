@@ -0,0 +1,111 @@
+import { createGanacheProvider } from "@rarible/ethereum-sdk-test-common"
+import { ethers } from "ethers"
+import { withRelayerMiddleware } from "../relayer"
+import { LocalRelayer } from "../relayers/local-relayer"
+import { SponsorshipPolicy } from "../sponsorship-policy"
+import { FORWARD_REQUEST_TYPE, ForwarderAbi } from "../abi/forwarder-abi"
+import type { ContractMetadata, ILimitsRegistry, IRelayer, SignedMetaTransaction } from "../types"
+import { minimalForwarderBytecode } from "./forwarder/contract"
+
+const testLimitsRegistry: ILimitsRegistry = {
+	checkLimits() {
+		return Promise.resolve({ allowed: true, message: "Allowed", code: 200 })
+	},
+}
+
+describe("forwarder meta transactions", () => {
+	const { provider, addresses } = createGanacheProvider()
+	const ethersProvider = new ethers.providers.Web3Provider(provider as any)
+	const [user, relayerAccount, target] = addresses
+
+	async function deployForwarder() {
+		const forwarder = await new ethers.ContractFactory(
+			ForwarderAbi,
+			minimalForwarderBytecode,
+			ethersProvider.getSigner(relayerAccount),
+		).deploy()
+		await forwarder.deployed()
+		const { chainId } = await ethersProvider.getNetwork()
+
+		const metadata: ContractMetadata = {
+			types: {
+				EIP712Domain: [
+					{ name: "name", type: "string" },
+					{ name: "version", type: "string" },
+					{ name: "chainId", type: "uint256" },
+					{ name: "verifyingContract", type: "address" },
+				],
+			},
+			domain: { name: "MinimalForwarder", version: "0.0.1", chainId, verifyingContract: forwarder.address },
+			primaryType: "ForwardRequest",
+			metaTxType: "forwarder",
+			forwarder: forwarder.address,
+		}
+		const registry = {
+			getMetadata: async (address: string) => address.toLowerCase() === target.toLowerCase() ? metadata : undefined,
+		}
+		return { forwarder, metadata, registry }
+	}
+
+	test("should sign ForwardRequest and relay it through forwarder", async () => {
+		const { forwarder, metadata, registry } = await deployForwarder()
+		const submitted: SignedMetaTransaction[] = []
+		const localRelayer = new LocalRelayer(provider, relayerAccount)
+		const relayer: IRelayer = {
+			submit(tx) {
+				submitted.push(tx)
+				return localRelayer.submit(tx)
+			},
+			getStatus: hash => localRelayer.getStatus(hash),
+		}
+		const relayerProvider = new ethers.providers.Web3Provider(
+			withRelayerMiddleware(provider, registry, testLimitsRegistry, relayer) as any
+		)
+
+		const hash = await relayerProvider.send("eth_sendTransaction", [{ from: user, to: target, data: "0x12345678" }])
+
+		expect(submitted).toHaveLength(1)
+		const [metaTx] = submitted
+		const request = metaTx.forwardRequest!
+		expect(request).toEqual({
+			from: user,
+			to: target,
+			value: "0",
+			gas: expect.any(String),
+			nonce: "0",
+			data: "0x12345678",
+		})
+		expect(metaTx.to).toBe(forwarder.address)
+		const types = { ForwardRequest: FORWARD_REQUEST_TYPE }
+		expect(ethers.utils.verifyTypedData(metadata.domain, types, request, metaTx.signature))
+			.toBe(ethers.utils.getAddress(user))
+
+		const [executedRequest, signature] = forwarder.interface.decodeFunctionData("execute", metaTx.data)
+		expect(executedRequest.from.toLowerCase()).toBe(user.toLowerCase())
+		expect(executedRequest.nonce.toString()).toBe("0")
+		expect(signature).toBe(metaTx.signature)
+
+		const tx = await ethersProvider.getTransaction(hash)
+		expect(tx.from.toLowerCase()).toBe(relayerAccount.toLowerCase())
+		expect(tx.to).toBe(forwarder.address)
+		expect((await tx.wait()).status).toBe(1)
+		// forwarder increments nonce only if signature matches the request
+		expect((await forwarder.getNonce(user)).toString()).toBe("1")
+	})
+
+	test("should not record sponsorship usage if relayer fails", async () => {
+		const { registry } = await deployForwarder()
+		const policy = new SponsorshipPolicy({ dailyTxLimit: 1 })
+		const relayer: IRelayer = {
+			submit: () => Promise.reject(new Error("Relayer is unavailable")),
+			getStatus: () => Promise.resolve("failed"),
+		}
+		const relayerProvider = new ethers.providers.Web3Provider(
+			withRelayerMiddleware(provider, registry, policy, relayer) as any
+		)
+
+		await expect(relayerProvider.send("eth_sendTransaction", [{ from: user, to: target, data: "0x12345678" }]))
+			.rejects.toThrow("Relayer is unavailable")
+		expect((await policy.checkLimits(user, { to: target, data: "0x12345678" })).allowed).toBe(true)
+	})
+})
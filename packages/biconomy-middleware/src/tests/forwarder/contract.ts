@@ -0,0 +1,5 @@
+/**
+ * OpenZeppelin MinimalForwarder compatible EIP-2771 forwarder (solc 0.8.17, optimizer 200 runs),
+ * its EIP-712 domain is {name: "MinimalForwarder", version: "0.0.1"}
+ */
+export const minimalForwarderBytecode = "0x60a060405234801561001057600080fd5b50604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f9e0923a39f515e9a8cebc9fb694b9abf7e4b8c3f7ab6f81b56eabdac504b08dc918101919091527fae209a0b48f21c054280f2455d32cf309387644879d9acbd8ffc19916381188560608201524660808201523060a082015260c00160408051601f19818403018152919052805160209091012060805260805161073b6100ce6000396000610256015261073b6000f3fe6080604052600436106100345760003560e01c80632d0335ab1461003957806347153f8214610082578063bf5d3bdb146100a3575b600080fd5b34801561004557600080fd5b5061006f6100543660046104b8565b6001600160a01b031660009081526020819052604090205490565b6040519081526020015b60405180910390f35b6100956100903660046104e1565b6100d3565b6040516100799291906105a4565b3480156100af57600080fd5b506100c36100be3660046104e1565b610251565b6040519015158152602001610079565b600060606100e2858585610251565b61014d5760405162461bcd60e51b815260206004820152603260248201527f4d696e696d616c466f727761726465723a207369676e617475726520646f6573604482015271081b9bdd081b585d18da081c995c5d595cdd60721b606482015260840160405180910390fd5b61015c608086013560016105e0565b60008061016c60208901896104b8565b6001600160a01b03166001600160a01b03168152602001908152602001600020819055506000808660200160208101906101a691906104b8565b6001600160a01b0316606088013560408901356101c660a08b018b610607565b6101d360208d018d6104b8565b6040516020016101e593929190610655565b60408051601f19818403018152908290526101ff9161067b565b600060405180830381858888f193505050503d806000811461023d576040519150601f19603f3d011682016040523d82523d6000602084013e610242565b606091505b50909890975095505050505050565b6000807f00000000000000000000000000000000000000000000000000000000000000007fdd8f4b70b0f4393e889bd39128a30628a78b61816a9eb8199759e7a349657e486102a360208801886104b8565b6102b36040890160208a016104b8565b604089013560608a013560808b01356102cf60a08d018d610607565b6040516102dd929190610697565b6040805191829003822060208301989098526001600160a01b0396871690820152949093166060850152608084019190915260a083015260c082015260e0810191909152610100016040516020818303038152906040528051906020012060405160200161036292919061190160f01b81526002810192909252602282015260420190565b60408051601f19818403018152919052805160209091012090506041831461038e5760009150506104b1565b600061039d60208286886106a7565b6103a6916106d1565b905060006103b86040602087896106a7565b6103c1916106d1565b90506000868660408181106103d8576103d86106ef565b919091013560f81c91505060808801356000806103f860208c018c6104b8565b6001600160a01b03166001600160a01b03168152602001908152602001600020541480156104aa575061042e60208901896104b8565b6001600160a01b031660018583868660405160008152602001604052604051610473949392919093845260ff9290921660208401526040830152606082015260800190565b6020604051602081039080840390855afa158015610495573d6000803e3d6000fd5b505050602060405103516001600160a01b0316145b9450505050505b9392505050565b6000602082840312156104ca57600080fd5b81356001600160a01b03811681146104b157600080fd5b6000806000604084860312156104f657600080fd5b833567ffffffffffffffff8082111561050e57600080fd5b9085019060c0828803121561052257600080fd5b9093506020850135908082111561053857600080fd5b818601915086601f83011261054c57600080fd5b81358181111561055b57600080fd5b87602082850101111561056d57600080fd5b6020830194508093505050509250925092565b60005b8381101561059b578181015183820152602001610583565b50506000910152565b821515815260406020820152600082518060408401526105cb816060850160208701610580565b601f01601f1916919091016060019392505050565b8082018082111561060157634e487b7160e01b600052601160045260246000fd5b92915050565b6000808335601e1984360301811261061e57600080fd5b83018035915067ffffffffffffffff82111561063957600080fd5b60200191503681900382131561064e57600080fd5b9250929050565b8284823760609190911b6bffffffffffffffffffffffff19169101908152601401919050565b6000825161068d818460208701610580565b9190910192915050565b8183823760009101908152919050565b600080858511156106b757600080fd5b838611156106c457600080fd5b5050820193919092039150565b8035602083101561060157600019602084900360031b1b1692915050565b634e487b7160e01b600052603260045260246000fdfea264697066735822122066a2ea80eb7da42714a3aaf3bbe4064a6e6e01261c893ff2ee847684085c16d864736f6c63430008110033"
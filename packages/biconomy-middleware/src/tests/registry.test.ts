@@ -1,4 +1,34 @@
-import {Registry} from "../registry"
+import { tmpdir } from "os"
+import { join } from "path"
+import { promises as fs } from "fs"
+import {Registry, StaticRegistry} from "../registry"
+import { FileRegistry } from "../file-registry"
+import { checkDomainChainId } from "../registry-validation"
+import { DomainChainMismatchError, InvalidContractMetadataError } from "../errors"
+import type { ContractMetadata } from "../types"
+
+const metaTxMetadata: ContractMetadata = {
+	types: {
+		EIP712Domain: [
+			{ name: "name", type: "string" },
+			{ name: "version", type: "string" },
+			{ name: "verifyingContract", type: "address" },
+			{ name: "salt", type: "bytes32" },
+		],
+		MetaTransaction: [
+			{ name: "nonce", type: "uint256" },
+			{ name: "from", type: "address" },
+			{ name: "functionSignature", type: "bytes" },
+		],
+	},
+	domain: {
+		name: "ERC721RaribleMeta",
+		version: "1",
+		verifyingContract: "0x329ee2ea52e74ddd622bf06412f49e0177840d3c",
+		salt: "0x0000000000000000000000000000000000000000000000000000000000000004",
+	},
+	primaryType: "MetaTransaction",
+}
 
 describe("registry test", function () {
 	it("should check allowed functions", async () => {
@@ -67,4 +97,68 @@ describe("registry test", function () {
 		const metadata2 = await registry.getMetadata("0x321", "0x123456789")
 		expect(metadata2).toEqual(undefined)
 	})
+
+	it("static registry should find metadata case insensitive", async () => {
+		const registry = new StaticRegistry({
+			"0x329EE2EA52E74DDD622BF06412F49E0177840D3C": metaTxMetadata,
+		})
+		const metadata = await registry.getMetadata("0x329ee2ea52e74ddd622bf06412f49e0177840d3c")
+		expect(metadata).toEqual(metaTxMetadata)
+	})
+
+	it("should skip and report invalid registry entries", async () => {
+		const onError = jest.fn()
+		const registry = new StaticRegistry({
+			"0x123": { ...metaTxMetadata, metaTxType: "forwarder" },
+			"0x321": metaTxMetadata,
+		}, { onError })
+
+		expect(await registry.getMetadata("0x123")).toBeUndefined()
+		expect(await registry.getMetadata("0x321")).toEqual(metaTxMetadata)
+		expect(onError).toHaveBeenCalledTimes(1)
+		expect(onError.mock.calls[0][0]).toBeInstanceOf(InvalidContractMetadataError)
+		expect(onError.mock.calls[0][0].address).toBe("0x123")
+	})
+
+	it("should report failed refresh and use previously loaded data", async () => {
+		const onError = jest.fn()
+		const registry = new Registry("https://example.com", { ttlMs: 1000, onError })
+		registry["registryData"] = { "0x123": metaTxMetadata }
+		const error = new Error("Unavailable")
+		jest.spyOn(registry as any, "fetchData").mockRejectedValue(error)
+
+		expect(await registry.getMetadata("0x123")).toEqual(metaTxMetadata)
+		expect(onError).toHaveBeenCalledWith(error)
+	})
+
+	it("file registry should load metadata from json file", async () => {
+		const path = join(tmpdir(), `registry-${Date.now()}.json`)
+		await fs.writeFile(path, JSON.stringify({ "0x123": metaTxMetadata }))
+		try {
+			const registry = new FileRegistry(path)
+			expect(await registry.getMetadata("0x123")).toEqual(metaTxMetadata)
+		} finally {
+			await fs.unlink(path)
+		}
+	})
+
+	it("should refresh remote registry after ttl", async () => {
+		const registry = new Registry("https://example.com", { ttlMs: 1000 })
+		registry["registryData"] = {}
+		registry["fetchedAt"] = Date.now() - 2000
+		const fetchData = jest.spyOn(registry as any, "fetchData").mockResolvedValue({ "0x123": metaTxMetadata })
+
+		expect(await registry.getMetadata("0x123")).toEqual(metaTxMetadata)
+		expect(fetchData).toHaveBeenCalledTimes(1)
+	})
+
+	it("should throw if domain is for another chain", () => {
+		expect(() => checkDomainChainId("0x123", metaTxMetadata, 4)).not.toThrow()
+		expect(() => checkDomainChainId("0x123", metaTxMetadata, 137)).toThrow(DomainChainMismatchError)
+	})
+
+	it("should not check salt which isn't chain id", () => {
+		const metadata = { ...metaTxMetadata, domain: { ...metaTxMetadata.domain, salt: `0x${"ab".repeat(32)}` } }
+		expect(() => checkDomainChainId("0x123", metadata, 137)).not.toThrow()
+	})
 })
@@ -0,0 +1,42 @@
+import { createGanacheProvider } from "@rarible/ethereum-sdk-test-common"
+import { ethers } from "ethers"
+import { LocalRelayer } from "../relayers/local-relayer"
+import { TrustedForwarderRelayer } from "../relayers/trusted-forwarder-relayer"
+
+describe("relayers test", () => {
+	const { provider, addresses } = createGanacheProvider()
+
+	test("local relayer should send transaction from relayer account", async () => {
+		const relayer = new LocalRelayer(provider, addresses[1])
+		const hash = await relayer.submit({
+			from: addresses[0],
+			to: addresses[2],
+			data: "0x",
+			functionSignature: "0x",
+			signature: "0x",
+		})
+
+		const tx = await new ethers.providers.Web3Provider(provider).getTransaction(hash)
+		expect(tx.from.toLowerCase()).toBe(addresses[1].toLowerCase())
+		expect(await relayer.getStatus(hash)).toBe("mined")
+	})
+
+	test("trusted forwarder relayer should accept only execute calls of trusted forwarders", async () => {
+		const forwarder = addresses[3]
+		const relayer = new TrustedForwarderRelayer({
+			signer: ethers.Wallet.createRandom(),
+			forwarders: [forwarder],
+		})
+		const tx = {
+			from: addresses[0],
+			data: "0x12345678",
+			functionSignature: "0x12345678",
+			signature: "0x",
+		}
+
+		await expect(relayer.submit({ ...tx, to: addresses[2] }))
+			.rejects.toThrow(`Forwarder ${addresses[2]} is not trusted by relayer`)
+		await expect(relayer.submit({ ...tx, to: forwarder }))
+			.rejects.toThrow("Only execute calls of trusted forwarder can be relayed")
+	})
+})
@@ -0,0 +1,111 @@
+import { SponsorshipLimitType, SponsorshipPolicy } from "../sponsorship-policy"
+import type { SponsorshipStoreState } from "../sponsorship-store"
+import { MemorySponsorshipStore } from "../sponsorship-store"
+
+const user = "0x9c8d17a16e7ccf7b7d4e5e0b6d5b6e8f7a1b2c3d"
+const contract = "0x329ee2ea52e74ddd622bf06412f49e0177840d3c"
+const tx = { to: contract, data: "0xa22cb4650000000000000000000000000000000000000000" }
+
+/**
+ * Check limits and record usage of allowed transaction, as middleware does after submitting it
+ */
+async function sponsor(policy: SponsorshipPolicy) {
+	const result = await policy.checkLimits(user, tx)
+	if (result.allowed) {
+		await policy.recordUsage(user, tx)
+	}
+	return result
+}
+
+describe("sponsorship policy", () => {
+	it("should deny users from denylist", async () => {
+		const policy = new SponsorshipPolicy({ denylist: [user.toUpperCase().replace("0X", "0x")] })
+		const result = await policy.checkLimits(user, tx)
+		expect(result.allowed).toBe(false)
+		expect(!result.allowed && result.limit.type).toBe(SponsorshipLimitType.DENYLIST)
+	})
+
+	it("should check allowed methods of contract", async () => {
+		const policy = new SponsorshipPolicy({ allowedMethods: { [contract]: ["0x23b872dd"] } })
+		expect((await policy.checkLimits(user, tx)).allowed).toBe(false)
+		expect((await policy.checkLimits(user, { ...tx, data: "0x23b872dd00" })).allowed).toBe(true)
+		expect((await policy.checkLimits(user, { ...tx, to: "0x0000000000000000000000000000000000000001" })).allowed)
+			.toBe(true)
+	})
+
+	it("should limit daily transactions count and persist usage", async () => {
+		let persisted: SponsorshipStoreState = {}
+		const store = new MemorySponsorshipStore({}, async state => {
+			persisted = state
+		})
+		const policy = new SponsorshipPolicy({ dailyTxLimit: 2 }, store)
+
+		expect((await sponsor(policy)).allowed).toBe(true)
+		expect((await sponsor(policy)).allowed).toBe(true)
+		const result = await sponsor(policy)
+		expect(result.allowed).toBe(false)
+		expect(!result.allowed && result.limit.type).toBe(SponsorshipLimitType.TX_COUNT)
+		expect(persisted[`txCount:${user}`].value).toBe("2")
+
+		const restored = new SponsorshipPolicy({ dailyTxLimit: 2 }, new MemorySponsorshipStore(persisted))
+		expect((await restored.checkLimits(user, tx)).allowed).toBe(false)
+	})
+
+	it("should reset usage after period", async () => {
+		const store = new MemorySponsorshipStore({
+			[`txCount:${user}`]: { value: "5", resetTime: Date.now() - 1 },
+		})
+		const policy = new SponsorshipPolicy({ dailyTxLimit: 5 }, store)
+		expect((await policy.checkLimits(user, tx)).allowed).toBe(true)
+	})
+
+	it("should stop sponsoring when budget is spent", async () => {
+		const policy = new SponsorshipPolicy({
+			budget: {
+				amount: "250",
+				periodMs: 60000,
+				estimateCost: async () => "100",
+			},
+		})
+		expect((await sponsor(policy)).allowed).toBe(true)
+		expect((await sponsor(policy)).allowed).toBe(true)
+		const result = await sponsor(policy)
+		expect(result.allowed).toBe(false)
+		expect(!result.allowed && result.limit).toEqual(expect.objectContaining({
+			type: SponsorshipLimitType.BUDGET,
+			limitLeft: "50",
+		}))
+	})
+
+	it("should report budget left in wei without precision loss", async () => {
+		const policy = new SponsorshipPolicy({
+			budget: {
+				amount: "1000000000000000001",
+				periodMs: 60000,
+				estimateCost: async () => "2000000000000000000",
+			},
+		})
+		const result = await policy.checkLimits(user, tx)
+		expect(!result.allowed && result.limit.limitLeft).toBe("1000000000000000001")
+	})
+
+	it("should record usage only of submitted transactions", async () => {
+		const policy = new SponsorshipPolicy({ dailyTxLimit: 1 })
+
+		expect((await policy.checkLimits(user, tx)).allowed).toBe(true)
+		expect((await policy.checkLimits(user, tx)).allowed).toBe(true)
+		await policy.recordUsage(user, tx)
+		expect((await policy.checkLimits(user, tx)).allowed).toBe(false)
+	})
+
+	it("should not lose concurrently recorded usage", async () => {
+		const store = new MemorySponsorshipStore({}, () => new Promise(resolve => setTimeout(resolve, 10)))
+		const policy = new SponsorshipPolicy({
+			budget: { amount: "1000", periodMs: 60000, estimateCost: async () => "100" },
+		}, store)
+
+		await Promise.all([1, 2, 3, 4, 5].map(() => policy.recordUsage(user, tx)))
+		expect((await store.get(`txCount:${user}`))?.value).toBe("5")
+		expect((await store.get("budget"))?.value).toBe("500")
+	})
+})
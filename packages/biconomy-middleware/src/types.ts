@@ -3,17 +3,50 @@ export interface IBiconomyConfig {
 	debug?: boolean,
 }
 
+/**
+ * Meta transactions pattern supported by contract:
+ * native - contract implements executeMetaTransaction,
+ * forwarder - contract trusts EIP-2771 forwarder which executes signed ForwardRequest
+ */
+export type MetaTransactionType = "native" | "forwarder"
+
 export type ContractMetadata = {
 	types: {
 		EIP712Domain: {name: string, type: string}[]
-		MetaTransaction: {name: string, type: string}[],
+		/**
+		 * Required for native meta transactions
+		 */
+		MetaTransaction?: {name: string, type: string}[],
 	},
+	/**
+	 * EIP-712 domain of the contract, or domain of the forwarder for "forwarder" type
+	 */
 	domain: Record<string, any>,
 	primaryType: string,
 	allowedFunctions?: string[],
+	/**
+	 * "native" is used by default
+	 */
+	metaTxType?: MetaTransactionType
+	/**
+	 * Address of EIP-2771 trusted forwarder, required for "forwarder" type
+	 */
+	forwarder?: string
 	[key: string]: any
 }
 
+/**
+ * Request executed by EIP-2771 forwarder (OpenZeppelin MinimalForwarder)
+ */
+export type ForwardRequest = {
+	from: string
+	to: string
+	value: string
+	gas: string
+	nonce: string
+	data: string
+}
+
 type BiconomyApiCommonResponse = {
 	code: number
 	message: string
@@ -22,7 +55,10 @@ type BiconomyApiCommonResponse = {
 export type BiconomyApiLimitResponse = BiconomyApiCommonResponse & ({
 	limit: {
 		allowed: boolean
-		limitLeft: number
+		/**
+		 * Decimal string of wei for budget limits
+		 */
+		limitLeft: number | string
 		resetTime: number
 		type: number
 	}
@@ -35,6 +71,68 @@ export interface IContractRegistry {
 	getMetadata(address: string, data?: string): Promise<ContractMetadata | undefined>
 }
 
+/**
+ * Transaction which is going to be sent as meta transaction
+ */
+export type SponsoredTransaction = {
+	to: string
+	data: string
+	gas?: string
+}
+
 export interface ILimitsRegistry {
-	checkLimits(userAddress: string): Promise<BiconomyApiLimitResponse>
+	/**
+	 * Check if meta transaction of the user can be sponsored
+	 * @param userAddress sender of the transaction
+	 * @param tx transaction to sponsor, passed by middleware
+	 */
+	checkLimits(userAddress: string, tx?: SponsoredTransaction): Promise<BiconomyApiLimitResponse>
+	/**
+	 * Record usage of limits, called by middleware after the allowed meta transaction is submitted to relayer
+	 * @param userAddress sender of the transaction
+	 * @param tx sponsored transaction
+	 */
+	recordUsage?(userAddress: string, tx: SponsoredTransaction): Promise<void>
+}
+
+/**
+ * Meta transaction signed by the user. Relayer sends `data` to `to` address and pays for gas
+ */
+export type SignedMetaTransaction = {
+	/**
+	 * User who signed the meta transaction
+	 */
+	from: string
+	/**
+	 * Contract called by relayer
+	 */
+	to: string
+	/**
+	 * Calldata of the relayed call, it contains user signature
+	 */
+	data: string
+	/**
+	 * Calldata of the original user transaction
+	 */
+	functionSignature: string
+	signature: string
+	/**
+	 * Gas limit of the original user transaction
+	 */
+	gas?: string
+	/**
+	 * Signed request if meta transaction is sent through EIP-2771 forwarder
+	 */
+	forwardRequest?: ForwardRequest
+}
+
+export type RelayedTransactionStatus = "pending" | "mined" | "failed"
+
+export interface IRelayer {
+	/**
+	 * Submit signed meta transaction
+	 * @returns hash of the relayed transaction
+	 */
+	submit(tx: SignedMetaTransaction): Promise<string>
+	getStatus(hash: string): Promise<RelayedTransactionStatus>
 }
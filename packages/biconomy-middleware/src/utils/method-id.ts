@@ -0,0 +1,7 @@
+/**
+ * Get lower case method id (0x + 4 bytes) from calldata or method signature hash
+ */
+export function getMethodId(signature: string): string {
+	const normalized = signature.startsWith("0x") ? signature.slice(0, 10) : `0x${signature.slice(0, 8)}`
+	return normalized.toLowerCase()
+}
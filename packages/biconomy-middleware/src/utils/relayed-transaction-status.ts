@@ -0,0 +1,13 @@
+import type { ethers } from "ethers"
+import type { RelayedTransactionStatus } from "../types"
+
+export async function getRelayedTransactionStatus(
+	provider: ethers.providers.Provider,
+	hash: string,
+): Promise<RelayedTransactionStatus> {
+	const receipt = await provider.getTransactionReceipt(hash)
+	if (!receipt) {
+		return "pending"
+	}
+	return receipt.status === 1 ? "mined" : "failed"
+}
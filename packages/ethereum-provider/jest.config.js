@@ -0,0 +1,7 @@
+module.exports = {
+	roots: ["<rootDir>/src"],
+	bail: true,
+	transform: {
+		"^.+\\.ts?$": "ts-jest",
+	},
+}
@@ -1,6 +1,11 @@
 import type { Address, BigNumber, Binary, Word } from "@rarible/types"
 import type { MessageTypes, TypedMessage } from "./domain"
+import type { EthereumTransactionWaitOptions } from "./wait-confirmations"
 export * from "./domain"
+export * from "./wait-confirmations"
+export * from "./multicall"
+export * from "./readonly-error"
+export * from "./replacement-fees"
 
 export type EthereumTransactionEvent = {
 	event: string,
@@ -30,17 +35,50 @@ export interface EthereumTransaction {
 	to?: Address
 	data: Binary
 	nonce: number
-	wait(): Promise<EthereumTransactionReceipt>
+	/**
+	 * Wait for the receipt, if transaction has been replaced using speedUp or cancel the replacement is awaited.
+	 * With confirmations > 1 receipt is tracked until it's deep enough, if its block is reorged out
+	 * promise is rejected with TransactionWaitError ("dropped" or "replaced")
+	 */
+	wait(options?: EthereumTransactionWaitOptions): Promise<EthereumTransactionReceipt>
 	getEvents(): Promise<EthereumTransactionEvent[]>
+	/**
+	 * Resend pending transaction with the same nonce and higher fees.
+	 * Fees lower than 110% of the current ones are bumped, so node accepts the replacement
+	 * @returns replacement transaction
+	 */
+	speedUp(fees?: EthereumTransactionFees): Promise<EthereumTransaction>
+	/**
+	 * Replace pending transaction with zero-value transfer to the sender (same nonce, higher fees)
+	 * @returns replacement transaction
+	 */
+	cancel(fees?: EthereumTransactionFees): Promise<EthereumTransaction>
 }
 
 export interface EthereumSendOptions {
 	value?: number | string
 	gas?: number
+	/**
+	 * Gas price of legacy transaction, shouldn't be used together with EIP-1559 fee fields
+	 */
 	gasPrice?: number
+	/**
+	 * Max total fee per gas (base fee + priority fee) of EIP-1559 (type 2) transaction
+	 */
+	maxFeePerGas?: number | string
+	/**
+	 * Max priority fee per gas (miner tip) of EIP-1559 (type 2) transaction
+	 */
+	maxPriorityFeePerGas?: number | string
+	/**
+	 * Nonce of the transaction, it's assigned by the wallet if not set
+	 */
+	nonce?: number
 	additionalData?: Binary
 }
 
+export type EthereumTransactionFees = Pick<EthereumSendOptions, "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas">
+
 export interface EthereumEstimateGasOptions {
 	from?: string
 	value?: number | string
@@ -75,6 +113,10 @@ export interface Ethereum {
 	decodeParameter(type: any, data: string): any
 	getBalance(address: Address): Promise<BigNumber>
 	getChainId(): Promise<number>
+	/**
+	 * Send raw JSON-RPC request to the node (e.g. eth_feeHistory), can be not supported by the provider
+	 */
+	send?(method: string, params: unknown[]): Promise<any>
 }
 
 export { signTypedData } from "./sign-typed-data"
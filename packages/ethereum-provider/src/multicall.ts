@@ -0,0 +1,320 @@
+import type { Address } from "@rarible/types"
+import type { MessageTypes, TypedMessage } from "./domain"
+import type {
+	Ethereum,
+	EthereumContract,
+	EthereumEstimateGasOptions,
+	EthereumFunctionCall,
+	EthereumFunctionCallInfo,
+	EthereumSendOptions,
+	EthereumTransaction,
+} from "./index"
+
+/**
+ * Multicall3 is deployed to the same address on most of EVM chains
+ */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11"
+
+/**
+ * aggregate3 is payable, but it's declared as view here: it's only used with eth_call
+ */
+export const MULTICALL3_AGGREGATE3_ABI = [
+	{
+		inputs: [
+			{
+				components: [
+					{ internalType: "address", name: "target", type: "address" },
+					{ internalType: "bool", name: "allowFailure", type: "bool" },
+					{ internalType: "bytes", name: "callData", type: "bytes" },
+				],
+				internalType: "struct Multicall3.Call3[]",
+				name: "calls",
+				type: "tuple[]",
+			},
+		],
+		name: "aggregate3",
+		outputs: [
+			{
+				components: [
+					{ internalType: "bool", name: "success", type: "bool" },
+					{ internalType: "bytes", name: "returnData", type: "bytes" },
+				],
+				internalType: "struct Multicall3.Result[]",
+				name: "returnData",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+/**
+ * Read-only functions which are batched by default: their results don't depend on msg.sender
+ */
+export const MULTICALL_DEFAULT_METHODS = [
+	"name",
+	"symbol",
+	"decimals",
+	"totalSupply",
+	"balanceOf",
+	"allowance",
+	"ownerOf",
+	"getApproved",
+	"isApprovedForAll",
+	"baseURI",
+	"tokenURI",
+	"uri",
+]
+
+export type MulticallOptions = {
+	/**
+	 * Address of Multicall3 contract, MULTICALL3_ADDRESS by default
+	 */
+	address?: string
+	/**
+	 * Names of contract functions which are batched, MULTICALL_DEFAULT_METHODS by default.
+	 * Only functions which don't depend on msg.sender should be listed
+	 */
+	methods?: string[]
+	/**
+	 * Max number of calls in one aggregate3 request, 100 by default
+	 */
+	maxBatchSize?: number
+}
+
+type AbiParameter = {
+	name?: string
+	type: string
+	components?: AbiParameter[]
+}
+
+type PendingCall = {
+	target: string
+	call: EthereumFunctionCall
+	outputs: AbiParameter[]
+	resolve: (value: any) => void
+	reject: (error: any) => void
+}
+
+/**
+ * Ethereum which batches concurrent read-only calls (`.call()` without options) made within one tick
+ * into a single Multicall3 `aggregate3` request.
+ * Calls are made directly if Multicall3 is not deployed or if a call fails inside the batch,
+ * so errors are the same as without batching.
+ * Results are decoded with `decodeParameter` of the wrapped Ethereum.
+ *
+ * Batched calls are executed by Multicall3 contract, so msg.sender of the called contract is Multicall3 address,
+ * not the user. That's why only functions from the allow-list (MulticallOptions.methods) are batched,
+ * calls of other functions and calls with options are made directly
+ */
+export class MulticallEthereum implements Ethereum {
+	private readonly batcher: CallBatcher
+	private readonly methods: Set<string>
+	readonly send?: Ethereum["send"]
+
+	constructor(readonly ethereum: Ethereum, options: MulticallOptions = {}) {
+		this.batcher = new CallBatcher(ethereum, options)
+		this.methods = new Set(options.methods ?? MULTICALL_DEFAULT_METHODS)
+		if (ethereum.send) {
+			this.send = ethereum.send.bind(ethereum)
+		}
+	}
+
+	createContract(abi: any, address?: string): EthereumContract {
+		const contract = this.ethereum.createContract(abi, address)
+		if (!address) {
+			return contract
+		}
+		return new MulticallContract(this.batcher, this.methods, contract, abi, address)
+	}
+
+	getFrom() {
+		return this.ethereum.getFrom()
+	}
+
+	personalSign(message: string) {
+		return this.ethereum.personalSign(message)
+	}
+
+	signTypedData<T extends MessageTypes>(data: TypedMessage<T>) {
+		return this.ethereum.signTypedData(data)
+	}
+
+	encodeParameter(type: any, parameter: any) {
+		return this.ethereum.encodeParameter(type, parameter)
+	}
+
+	decodeParameter(type: any, data: string) {
+		return this.ethereum.decodeParameter(type, data)
+	}
+
+	getBalance(address: Address) {
+		return this.ethereum.getBalance(address)
+	}
+
+	getChainId() {
+		return this.ethereum.getChainId()
+	}
+}
+
+class MulticallContract implements EthereumContract {
+	constructor(
+		private readonly batcher: CallBatcher,
+		private readonly methods: Set<string>,
+		private readonly contract: EthereumContract,
+		private readonly abi: any,
+		private readonly address: string,
+	) {}
+
+	functionCall(name: string, ...args: any): EthereumFunctionCall {
+		const functionCall = this.contract.functionCall(name, ...args)
+		if (!this.methods.has(name)) {
+			return functionCall
+		}
+		const outputs = getOutputs(this.abi, name)
+		if (!outputs) {
+			return functionCall
+		}
+		return new MulticallFunctionCall(this.batcher, functionCall, this.address, outputs)
+	}
+}
+
+class MulticallFunctionCall implements EthereumFunctionCall {
+	constructor(
+		private readonly batcher: CallBatcher,
+		private readonly functionCall: EthereumFunctionCall,
+		private readonly target: string,
+		private readonly outputs: AbiParameter[],
+	) {}
+
+	getData(): Promise<string> {
+		return this.functionCall.getData()
+	}
+
+	getCallInfo(): Promise<EthereumFunctionCallInfo> {
+		return this.functionCall.getCallInfo()
+	}
+
+	estimateGas(options?: EthereumEstimateGasOptions): Promise<number> {
+		return this.functionCall.estimateGas(options)
+	}
+
+	call(options?: EthereumSendOptions): Promise<any> {
+		if (options) {
+			return this.functionCall.call(options)
+		}
+		return this.batcher.enqueue(this.target, this.functionCall, this.outputs)
+	}
+
+	send(options?: EthereumSendOptions): Promise<EthereumTransaction> {
+		return this.functionCall.send(options)
+	}
+}
+
+class CallBatcher {
+	private readonly multicall: EthereumContract
+	private readonly maxBatchSize: number
+	private queue: PendingCall[] = []
+	private scheduled = false
+	private readonly address: string
+	/**
+	 * undefined until the first successful aggregate3 request, false if Multicall3 is not deployed
+	 */
+	private available: boolean | undefined = undefined
+
+	constructor(private readonly ethereum: Ethereum, options: MulticallOptions) {
+		this.address = options.address ?? MULTICALL3_ADDRESS
+		this.multicall = ethereum.createContract(MULTICALL3_AGGREGATE3_ABI, this.address)
+		this.maxBatchSize = options.maxBatchSize ?? 100
+	}
+
+	enqueue(target: string, call: EthereumFunctionCall, outputs: AbiParameter[]): Promise<any> {
+		if (this.available === false) {
+			return call.call()
+		}
+		return new Promise((resolve, reject) => {
+			this.queue.push({ target, call, outputs, resolve, reject })
+			if (!this.scheduled) {
+				this.scheduled = true
+				setTimeout(() => this.flush(), 0)
+			}
+		})
+	}
+
+	private flush() {
+		const queue = this.queue
+		this.queue = []
+		this.scheduled = false
+		for (let i = 0; i < queue.length; i += this.maxBatchSize) {
+			this.execute(queue.slice(i, i + this.maxBatchSize))
+		}
+	}
+
+	private async execute(batch: PendingCall[]) {
+		if (batch.length === 1 || this.available === false) {
+			batch.forEach(callDirectly)
+			return
+		}
+		let results: any[]
+		try {
+			const calls = await Promise.all(batch.map(async ({ target, call }) => [target, true, await call.getData()]))
+			results = await this.multicall.functionCall("aggregate3", calls).call()
+			this.available = true
+		} catch (e) {
+			if (this.available === undefined && await this.isNotDeployed()) {
+				this.available = false
+			}
+			batch.forEach(callDirectly)
+			return
+		}
+		batch.forEach((pending, index) => {
+			const result = results[index]
+			if (!result[0]) {
+				callDirectly(pending)
+				return
+			}
+			try {
+				pending.resolve(this.decode(pending.outputs, result[1]))
+			} catch (e) {
+				callDirectly(pending)
+			}
+		})
+	}
+
+	/**
+	 * Failed aggregate3 request disables batching only if Multicall3 has no code,
+	 * other errors (e.g. network errors) can be temporary
+	 */
+	private async isNotDeployed(): Promise<boolean> {
+		if (!this.ethereum.send) {
+			return false
+		}
+		try {
+			const code = await this.ethereum.send("eth_getCode", [this.address, "latest"])
+			return code === "0x" || code === "0x0"
+		} catch (e) {
+			return false
+		}
+	}
+
+	private decode(outputs: AbiParameter[], data: string): any {
+		const decoded = this.ethereum.decodeParameter({ type: "tuple", components: outputs }, data)[0]
+		return outputs.length === 1 ? decoded[0] : decoded
+	}
+}
+
+function callDirectly({ call, resolve, reject }: PendingCall) {
+	call.call().then(resolve, reject)
+}
+
+function getOutputs(abi: any, name: string): AbiParameter[] | undefined {
+	if (!Array.isArray(abi)) {
+		return undefined
+	}
+	const functions = abi.filter(item => item.type === "function" && item.name === name)
+	if (functions.length !== 1 || !Array.isArray(functions[0].outputs) || !functions[0].outputs.length) {
+		return undefined
+	}
+	return functions[0].outputs
+}
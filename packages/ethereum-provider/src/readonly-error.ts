@@ -0,0 +1,10 @@
+/**
+ * Thrown by read-only Ethereum implementations on signing or sending of transactions
+ */
+export class ReadonlyEthereumError extends Error {
+	constructor(readonly operation: string) {
+		super(`Unable to ${operation}: Ethereum is read-only, connect a wallet to sign messages and send transactions`)
+		Object.setPrototypeOf(this, ReadonlyEthereumError.prototype)
+		this.name = "ReadonlyEthereumError"
+	}
+}
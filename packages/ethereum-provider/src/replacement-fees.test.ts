@@ -0,0 +1,33 @@
+import { getReplacementFees } from "./replacement-fees"
+
+describe("getReplacementFees", () => {
+	test("should bump legacy gas price by 10%", () => {
+		const fees = getReplacementFees({ gasPrice: "1000000001" })
+		expect(fees.gasPrice).toBe("1100000002")
+		expect(fees.maxFeePerGas).toBeUndefined()
+	})
+
+	test("should keep gas price above max safe integer", () => {
+		const fees = getReplacementFees({ gasPrice: "9007199254740993000" })
+		expect(fees.gasPrice).toBe("9907919180215092300")
+	})
+
+	test("should use requested fees if they are higher", () => {
+		const fees = getReplacementFees({
+			maxFeePerGas: "100",
+			maxPriorityFeePerGas: "10",
+		}, {
+			maxFeePerGas: "200",
+			maxPriorityFeePerGas: 5,
+		})
+		expect(fees.maxFeePerGas).toBe("200")
+		expect(fees.maxPriorityFeePerGas).toBe("11")
+	})
+
+	test("should switch legacy transaction to EIP-1559 fees if they are requested", () => {
+		const fees = getReplacementFees({ gasPrice: "100" }, { maxFeePerGas: "50" })
+		expect(fees.maxFeePerGas).toBe("110")
+		expect(fees.maxPriorityFeePerGas).toBe("110")
+		expect(fees.gasPrice).toBeUndefined()
+	})
+})
@@ -0,0 +1,56 @@
+import type { BigNumberValue } from "@rarible/utils"
+import { BigNumber, toBn } from "@rarible/utils"
+import type { EthereumTransactionFees } from "./index"
+
+// nodes accept replacement transaction only if its fees are at least 10% higher
+const MIN_FEE_BUMP_PERCENT = 10
+
+export type OriginalTransactionFees = {
+	gasPrice?: BigNumberValue
+	maxFeePerGas?: BigNumberValue
+	maxPriorityFeePerGas?: BigNumberValue
+}
+
+/**
+ * Fees of the replacement transaction in wei (decimal strings)
+ */
+export type ReplacementFees = {
+	gasPrice?: string
+	maxFeePerGas?: string
+	maxPriorityFeePerGas?: string
+}
+
+/**
+ * Get fees of the transaction which replaces the original one (speed up or cancel):
+ * requested fees, but not lower than fees of the original transaction bumped by 10%
+ */
+export function getReplacementFees(
+	original: OriginalTransactionFees,
+	fees: EthereumTransactionFees = {},
+): ReplacementFees {
+	if (original.maxFeePerGas != null || fees.maxFeePerGas != null) {
+		const maxPriorityFeePerGas = BigNumber.max(
+			toBn(fees.maxPriorityFeePerGas ?? 0),
+			bump(original.maxPriorityFeePerGas ?? original.gasPrice),
+		)
+		const maxFeePerGas = BigNumber.max(
+			toBn(fees.maxFeePerGas ?? 0),
+			bump(original.maxFeePerGas ?? original.gasPrice),
+			maxPriorityFeePerGas,
+		)
+		return {
+			maxFeePerGas: maxFeePerGas.toFixed(),
+			maxPriorityFeePerGas: maxPriorityFeePerGas.toFixed(),
+		}
+	}
+	return {
+		gasPrice: BigNumber.max(toBn(fees.gasPrice ?? 0), bump(original.gasPrice)).toFixed(),
+	}
+}
+
+function bump(value: BigNumberValue | undefined) {
+	return toBn(value ?? 0)
+		.multipliedBy(100 + MIN_FEE_BUMP_PERCENT)
+		.plus(99)
+		.dividedToIntegerBy(100)
+}
@@ -0,0 +1,159 @@
+import type { TransactionConfirmationSource, WaitConfirmationsParams } from "./wait-confirmations"
+import { TransactionWaitError, waitConfirmations } from "./wait-confirmations"
+import type { EthereumTransactionReceipt } from "./index"
+
+const hash = "0x01"
+const from = "0x0000000000000000000000000000000000000001"
+
+/**
+ * Chain which mines a block on every receipt request, its state can be changed when the block is mined
+ */
+class TestChain implements TransactionConfirmationSource {
+	blockNumber: number
+	receipts: Record<string, EthereumTransactionReceipt | undefined> = {}
+	pending = new Set<string>()
+	transactionCount = 0
+	private readonly onBlock: Record<number, () => void> = {}
+
+	constructor(blockNumber: number) {
+		this.blockNumber = blockNumber
+	}
+
+	at(blockNumber: number, change: () => void) {
+		this.onBlock[blockNumber] = change
+	}
+
+	async getReceipt(txHash: string) {
+		this.blockNumber += 1
+		this.onBlock[this.blockNumber]?.()
+		return this.receipts[txHash]
+	}
+
+	async isPending(txHash: string) {
+		return this.pending.has(txHash)
+	}
+
+	async getTransactionCount() {
+		return this.transactionCount
+	}
+
+	async getBlockNumber() {
+		return this.blockNumber
+	}
+}
+
+function createReceipt(blockNumber: number, blockHash: string = `0xb${blockNumber}`): EthereumTransactionReceipt {
+	return {
+		to: from,
+		from,
+		status: true,
+		transactionIndex: 0,
+		transactionHash: hash,
+		blockHash,
+		blockNumber,
+	}
+}
+
+function getParams(chain: TestChain, firstReceipt: Promise<EthereumTransactionReceipt>): WaitConfirmationsParams {
+	return { hash, from, nonce: 5, firstReceipt, source: chain, pollIntervalMs: 1 }
+}
+
+describe("waitConfirmations", () => {
+	test("should return first receipt if one confirmation is required", async () => {
+		const chain = new TestChain(10)
+		const receipt = createReceipt(10)
+
+		expect(await waitConfirmations(getParams(chain, Promise.resolve(receipt)))).toBe(receipt)
+		expect(chain.blockNumber).toBe(10)
+	})
+
+	test("should wait until receipt is deep enough", async () => {
+		const chain = new TestChain(10)
+		chain.receipts[hash] = createReceipt(10)
+
+		const receipt = await waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), {
+			confirmations: 3,
+		})
+		expect(receipt.blockNumber).toBe(10)
+		expect(chain.blockNumber).toBeGreaterThanOrEqual(12)
+	})
+
+	test("should follow transaction mined again after reorg", async () => {
+		const chain = new TestChain(10)
+		chain.receipts[hash] = createReceipt(10)
+		chain.pending.add(hash)
+		chain.at(11, () => {
+			chain.receipts[hash] = undefined
+		})
+		chain.at(12, () => {
+			chain.receipts[hash] = createReceipt(12, "0xreorged")
+		})
+
+		const receipt = await waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), {
+			confirmations: 2,
+		})
+		expect(receipt.blockHash).toBe("0xreorged")
+		expect(receipt.blockNumber).toBe(12)
+	})
+
+	test("should not return receipt from the reorged block", async () => {
+		const chain = new TestChain(11)
+		chain.receipts[hash] = createReceipt(10)
+		chain.at(12, () => {
+			chain.receipts[hash] = createReceipt(12, "0xreorged")
+		})
+
+		const receipt = await waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), {
+			confirmations: 2,
+		})
+		expect(receipt.blockHash).toBe("0xreorged")
+		expect(chain.blockNumber).toBeGreaterThanOrEqual(13)
+	})
+
+	test("should reject if transaction is replaced after reorg", async () => {
+		const chain = new TestChain(10)
+		chain.receipts[hash] = createReceipt(10)
+		chain.transactionCount = 6
+		chain.at(11, () => {
+			chain.receipts[hash] = undefined
+		})
+
+		const promise = waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), { confirmations: 3 })
+		await expect(promise).rejects.toBeInstanceOf(TransactionWaitError)
+		await expect(promise).rejects.toHaveProperty("reason", "replaced")
+	})
+
+	test("should reject if transaction is dropped after reorg", async () => {
+		const chain = new TestChain(10)
+		chain.receipts[hash] = createReceipt(10)
+		chain.transactionCount = 5
+		chain.at(11, () => {
+			chain.receipts[hash] = undefined
+		})
+
+		const promise = waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), { confirmations: 3 })
+		await expect(promise).rejects.toHaveProperty("reason", "dropped")
+	})
+
+	test("should reject with timeout if transaction isn't mined", async () => {
+		const chain = new TestChain(10)
+		const never = new Promise<EthereumTransactionReceipt>(() => {})
+
+		const promise = waitConfirmations(getParams(chain, never), { timeoutMs: 10 })
+		await expect(promise).rejects.toHaveProperty("reason", "timeout")
+	})
+
+	test("should reject with timeout if transaction isn't confirmed", async () => {
+		const chain = new TestChain(10)
+		chain.pending.add(hash)
+		chain.at(11, () => {
+			chain.receipts[hash] = undefined
+		})
+
+		const promise = waitConfirmations(getParams(chain, Promise.resolve(createReceipt(10))), {
+			confirmations: 2,
+			timeoutMs: 20,
+		})
+		await expect(promise).rejects.toHaveProperty("reason", "timeout")
+	})
+})
@@ -0,0 +1,120 @@
+import type { EthereumTransactionReceipt } from "./index"
+
+export type EthereumTransactionWaitOptions = {
+	/**
+	 * Number of blocks including the block of the transaction, 1 by default
+	 */
+	confirmations?: number
+	/**
+	 * Reject with "timeout" reason if transaction isn't confirmed in time
+	 */
+	timeoutMs?: number
+}
+
+export type TransactionWaitFailReason = "dropped" | "replaced" | "timeout"
+
+export class TransactionWaitError extends Error {
+	constructor(readonly reason: TransactionWaitFailReason, readonly hash: string) {
+		super(`Transaction ${hash} is not confirmed: ${reason}`)
+		Object.setPrototypeOf(this, TransactionWaitError.prototype)
+		this.name = "TransactionWaitError"
+	}
+}
+
+/**
+ * Chain queries used to follow the transaction after the first receipt
+ */
+export type TransactionConfirmationSource = {
+	getReceipt(hash: string): Promise<EthereumTransactionReceipt | undefined>
+	/**
+	 * Is transaction known by the node, it's called only if there is no receipt
+	 */
+	isPending(hash: string): Promise<boolean>
+	getTransactionCount(address: string): Promise<number>
+	getBlockNumber(): Promise<number>
+}
+
+export type WaitConfirmationsParams = {
+	/**
+	 * Hash of the sent transaction, the hash of the first receipt is followed then
+	 */
+	hash: string
+	from: string
+	nonce: number
+	firstReceipt: Promise<EthereumTransactionReceipt>
+	source: TransactionConfirmationSource
+	pollIntervalMs?: number
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 4000
+
+/**
+ * Wait until transaction has the required number of confirmations.
+ * If block of the receipt is reorged out transaction is followed until it's mined again,
+ * rejects with "replaced" reason if other transaction with the same nonce is mined and with "dropped"
+ * if transaction disappears from the node
+ */
+export async function waitConfirmations(
+	params: WaitConfirmationsParams,
+	options: EthereumTransactionWaitOptions = {},
+): Promise<EthereumTransactionReceipt> {
+	const { source } = params
+	const confirmations = options.confirmations ?? 1
+	const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined
+	const pollIntervalMs = params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+
+	let receipt: EthereumTransactionReceipt | undefined = await withDeadline(params.firstReceipt, params.hash, deadline)
+	if (confirmations <= 1) {
+		return receipt
+	}
+	// first receipt can belong to the replacement of the transaction
+	const hash = receipt.transactionHash
+
+	while (true) {
+		if (receipt) {
+			const blockNumber = await source.getBlockNumber()
+			if (blockNumber - receipt.blockNumber + 1 >= confirmations) {
+				const current = await source.getReceipt(hash)
+				if (current && current.blockHash === receipt.blockHash) {
+					return current
+				}
+				receipt = current
+				continue
+			}
+		}
+		if (deadline !== undefined && Date.now() >= deadline) {
+			throw new TransactionWaitError("timeout", hash)
+		}
+		await delay(pollIntervalMs)
+
+		const current = await source.getReceipt(hash)
+		if (current) {
+			receipt = current
+		} else if (!await source.isPending(hash)) {
+			const count = await source.getTransactionCount(params.from)
+			throw new TransactionWaitError(count > params.nonce ? "replaced" : "dropped", hash)
+		} else {
+			// block with the transaction is reorged out, transaction is back in mempool
+			receipt = undefined
+		}
+	}
+}
+
+async function withDeadline<T>(promise: Promise<T>, hash: string, deadline: number | undefined): Promise<T> {
+	if (deadline === undefined) {
+		return promise
+	}
+	let timer: ReturnType<typeof setTimeout> | undefined = undefined
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new TransactionWaitError("timeout", hash)), Math.max(deadline - Date.now(), 0))
+	})
+	try {
+		return await Promise.race([promise, timeout])
+	} finally {
+		clearTimeout(timer)
+	}
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -2,10 +2,17 @@ import * as common from "@rarible/ethereum-sdk-test-common"
 import { ethers } from "ethers"
 import Web3 from "web3"
 import type { Ethereum } from "@rarible/ethereum-provider"
+import { ReadonlyEthereumError } from "@rarible/ethereum-provider"
 import { toAddress } from "@rarible/types"
 import { createGanacheProvider } from "@rarible/ethereum-sdk-test-common/build/create-ganache-provider"
 import { SeaportABI } from "@rarible/ethereum-sdk-test-common/build/contracts/opensea/test-seaport"
-import { EthersEthereum, EthersTransaction, EthersWeb3ProviderEthereum } from "./index"
+import {
+	EthersEthereum,
+	EthersTransaction,
+	EthersWeb3ProviderEthereum,
+	LocalSignerEthereum,
+	RpcReadonlyEthereum,
+} from "./index"
 
 const testPK = "d519f025ae44644867ee8384890c4a0b8a7b00ef844e8d64c566c0ac971c9469"
 
@@ -15,10 +22,12 @@ const web3Provider = new ethers.providers.Web3Provider(provider as any)
 const ethereum = new EthersWeb3ProviderEthereum(web3Provider)
 const wallet = new ethers.Wallet(testPK, web3Provider)
 const etheresEthereum = new EthersEthereum(wallet)
+const localSignerEthereum = new LocalSignerEthereum({ provider: web3Provider, privateKey: testPK })
 
 const data = [
 	ethereum,
 	etheresEthereum,
+	localSignerEthereum,
 ]
 
 
@@ -36,6 +45,14 @@ describe.each(data)("ethers.js Ethereum", (eth: Ethereum) => {
 		await common.testSimpleContract(web3, eth)
 	})
 
+	test(`${eth.constructor.name} replaces pending transaction with speedUp and cancel`, async () => {
+		await common.testTransactionReplacement(web3, eth)
+	})
+
+	test(`${eth.constructor.name} batches calls into aggregate3 of deployed multicall`, async () => {
+		await common.testMulticall(web3, eth)
+	})
+
 	test(`${eth.constructor.name} should return balance`, async () => {
 		const sender = toAddress(await eth.getFrom())
 		expect(await eth.getBalance(sender)).toBeTruthy()
@@ -110,3 +127,47 @@ describe("get transaction receipt events", () => {
 		expect(events.find(e => e.event === "OrderFulfilled")).toBeTruthy()
 	})
 })
+
+describe("LocalSignerEthereum", () => {
+	test("should send parallel transactions with different nonces", async () => {
+		const receiver = toAddress(ethers.Wallet.createRandom().address)
+		const signer = localSignerEthereum.signer
+		const txs = await Promise.all([1, 2, 3].map(value => signer.sendTransaction({ to: receiver, value })))
+
+		const nonces = txs.map(tx => tx.nonce)
+		expect(new Set(nonces).size).toBe(3)
+		await Promise.all(txs.map(tx => tx.wait()))
+		expect((await web3Provider.getBalance(receiver)).toString()).toBe("6")
+	})
+
+	test("should create signer from mnemonic", async () => {
+		const mnemonic = ethers.Wallet.createRandom().mnemonic.phrase
+		const local = new LocalSignerEthereum({ provider: web3Provider, mnemonic })
+		expect(await local.getFrom()).toBe(ethers.Wallet.fromMnemonic(mnemonic).address)
+	})
+})
+
+describe("RpcReadonlyEthereum", () => {
+	const readonlyEthereum = new RpcReadonlyEthereum(web3Provider)
+	const transferAbi = [{
+		inputs: [{ name: "to", type: "address" }, { name: "value", type: "uint256" }],
+		name: "transfer",
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "nonpayable",
+		type: "function",
+	}]
+
+	test("should read chain data", async () => {
+		expect(await readonlyEthereum.getChainId()).toEqual(await etheresEthereum.getChainId())
+		const balance = await readonlyEthereum.getBalance(toAddress(wallet.address))
+		expect(balance.toString()).toEqual((await wallet.getBalance()).toString())
+	})
+
+	test("should throw on signing and sending", async () => {
+		await expect(readonlyEthereum.personalSign()).rejects.toThrow(ReadonlyEthereumError)
+		await expect(readonlyEthereum.getFrom()).rejects.toThrow(ReadonlyEthereumError)
+
+		const contract = readonlyEthereum.createContract(transferAbi, wallet.address)
+		await expect(contract.functionCall("transfer", wallet.address, 1).send()).rejects.toThrow(ReadonlyEthereumError)
+	})
+})
@@ -1,8 +1,8 @@
 import type { Contract} from "ethers"
 import { ethers } from "ethers"
-import type { TransactionResponse } from "@ethersproject/abstract-provider"
+import type { TransactionReceipt, TransactionRequest, TransactionResponse } from "@ethersproject/abstract-provider"
 import type * as EthereumProvider from "@rarible/ethereum-provider"
-import { signTypedData } from "@rarible/ethereum-provider"
+import { getReplacementFees, ReadonlyEthereumError, signTypedData, waitConfirmations } from "@rarible/ethereum-provider"
 import type { Address, Binary, BigNumber, Word } from "@rarible/types"
 import { toAddress, toBigNumber, toBinary, toWord } from "@rarible/types"
 import type { MessageTypes, TypedMessage } from "@rarible/ethereum-provider"
@@ -11,6 +11,7 @@ import { BigNumber as EthersBN } from "ethers/lib/ethers"
 import type { EthereumTransactionEvent } from "@rarible/ethereum-provider/src"
 import { decodeParameters, encodeParameters } from "./abi-coder"
 import { getTxEvents } from "./utils/parse-logs"
+import { PendingNonceWallet } from "./utils/pending-nonce-wallet"
 
 export class EthersWeb3ProviderEthereum implements EthereumProvider.Ethereum {
 	constructor(readonly web3Provider: ethers.providers.Web3Provider, readonly from?: string) {
@@ -110,6 +111,130 @@ export class EthersEthereum implements EthereumProvider.Ethereum {
 	async getChainId(): Promise<number> {
 		return this.signer.getChainId()
 	}
+
+	send(method: string, params: unknown[]): Promise<any> {
+		if (!(this.signer.provider instanceof ethers.providers.JsonRpcProvider)) {
+			throw new Error("EthersEthereum: signer provider does not support JSON-RPC requests")
+		}
+		return this.signer.provider.send(method, params)
+	}
+}
+
+export type LocalSignerEthereumConfig = {
+	/**
+	 * JSON-RPC url or provider
+	 */
+	provider: string | ethers.providers.JsonRpcProvider
+} & ({
+	privateKey: string
+} | {
+	mnemonic: string
+	/**
+	 * HD path of the account, "m/44'/60'/0'/0/0" by default
+	 */
+	path?: string
+})
+
+/**
+ * Ethereum which signs with private key or mnemonic, for backend usage.
+ * Nonces of sent transactions are assigned locally, so transactions can be sent in parallel
+ */
+export class LocalSignerEthereum extends EthersEthereum {
+	constructor(config: LocalSignerEthereumConfig) {
+		const provider = typeof config.provider === "string"
+			? new ethers.providers.JsonRpcProvider(config.provider)
+			: config.provider
+		const account = "privateKey" in config
+			? new ethers.Wallet(config.privateKey)
+			: ethers.Wallet.fromMnemonic(config.mnemonic, config.path)
+		super(new PendingNonceWallet(account, provider))
+	}
+}
+
+/**
+ * Ethereum backed by JSON-RPC node without a wallet. Contract calls, encoding and chain queries are supported,
+ * signing messages and sending transactions fail with ReadonlyEthereumError
+ * @param provider JSON-RPC url or provider
+ * @param from address returned by getFrom and used as sender of calls
+ */
+export class RpcReadonlyEthereum implements EthereumProvider.Ethereum {
+	readonly provider: ethers.providers.JsonRpcProvider
+	private readonly signer: ReadonlySigner
+
+	constructor(provider: string | ethers.providers.JsonRpcProvider, readonly from?: string) {
+		this.provider = typeof provider === "string" ? new ethers.providers.JsonRpcProvider(provider) : provider
+		this.signer = new ReadonlySigner(from ?? ethers.constants.AddressZero, this.provider)
+		this.send = this.send.bind(this)
+	}
+
+	createContract(abi: any, address?: string): EthereumProvider.EthereumContract {
+		if (!address) {
+			throw new Error("No Contract address provided, it's required for RpcReadonlyEthereum")
+		}
+		return new EthersContract(new ethers.Contract(address, abi, this.signer), this.signer)
+	}
+
+	async personalSign(): Promise<string> {
+		throw new ReadonlyEthereumError("sign message")
+	}
+
+	async signTypedData(): Promise<string> {
+		throw new ReadonlyEthereumError("sign typed data")
+	}
+
+	async getFrom(): Promise<string> {
+		if (!this.from) {
+			throw new ReadonlyEthereumError("get wallet address")
+		}
+		return this.from
+	}
+
+	encodeParameter(type: any, parameter: any): string {
+		return encodeParameters([type], [parameter])
+	}
+
+	decodeParameter(type: any, data: string): any {
+		return decodeParameters([type], data)
+	}
+
+	async getBalance(address: Address): Promise<BigNumber> {
+		const balance = await this.provider.getBalance(address)
+		return toBigNumber(balance.toString())
+	}
+
+	async getChainId(): Promise<number> {
+		const { chainId } = await this.provider.getNetwork()
+		return chainId
+	}
+
+	send(method: string, params: unknown[]): Promise<any> {
+		return this.provider.send(method, params)
+	}
+}
+
+/**
+ * Signer which can be used for calls only
+ */
+class ReadonlySigner extends ethers.VoidSigner {
+	connect(provider: ethers.providers.Provider): ReadonlySigner {
+		return new ReadonlySigner(this.address, provider)
+	}
+
+	async signMessage(): Promise<string> {
+		throw new ReadonlyEthereumError("sign message")
+	}
+
+	async signTransaction(): Promise<string> {
+		throw new ReadonlyEthereumError("sign transaction")
+	}
+
+	async _signTypedData(): Promise<string> {
+		throw new ReadonlyEthereumError("sign typed data")
+	}
+
+	async sendTransaction(): Promise<TransactionResponse> {
+		throw new ReadonlyEthereumError("send transaction")
+	}
 }
 
 export class EthersContract implements EthereumProvider.EthereumContract {
@@ -171,47 +296,62 @@ export class EthersFunctionCall implements EthereumProvider.EthereumFunctionCall
 				to: this.contract.address,
 				data: `0x${sourceData}${additionalData}`,
 				gasLimit: options.gas,
-				gasPrice: options.gasPrice,
+				...toEthersFees(options),
+				nonce: options.nonce,
 				value: options.value !== undefined ? ethers.utils.hexValue(EthersBN.from(options.value)) : undefined,
 			})
 
 			return new EthersTransaction(
 				tx,
-				this.contract
+				this.contract,
+				this.signer,
 			)
 		}
 
 		const func = this.contract[this.name].bind(null, ...this.args)
 		if (options) {
-			return new EthersTransaction(await func(options))
+			return new EthersTransaction(await func(options), undefined, this.signer)
 		} else {
-			return new EthersTransaction(await func())
+			return new EthersTransaction(await func(), undefined, this.signer)
 		}
 	}
 }
 
 export class EthersTransaction implements EthereumProvider.EthereumTransaction {
+	private replacement: EthersTransaction | undefined = undefined
+	private resolveReplacement!: (tx: EthersTransaction) => void
+	private readonly replaced = new Promise<EthersTransaction>(resolve => {
+		this.resolveReplacement = resolve
+	})
+
 	constructor(
 		private readonly tx: TransactionResponse,
-		private readonly contract?: Contract
+		private readonly contract?: Contract,
+		private readonly signer?: ethers.Signer,
 	) {}
 
 	get hash(): Word {
 		return toWord(this.tx.hash)
 	}
 
-	async wait(): Promise<EthereumProvider.EthereumTransactionReceipt> {
-		const receipt = await this.tx.wait()
-		const status = receipt.status === 1
-
-		return {
-			...receipt,
-			status,
+	async wait(
+		options?: EthereumProvider.EthereumTransactionWaitOptions,
+	): Promise<EthereumProvider.EthereumTransactionReceipt> {
+		const firstReceipt = this.getReceipt().then(toEthereumReceipt)
+		if (!options) {
+			return firstReceipt
 		}
+		return waitConfirmations({
+			hash: this.tx.hash,
+			from: this.tx.from,
+			nonce: this.tx.nonce,
+			firstReceipt,
+			source: this.getConfirmationSource(),
+		}, options)
 	}
 
 	async getEvents(): Promise<EthereumTransactionEvent[]> {
-		const receipt = await this.tx.wait()
+		const receipt = await this.getReceipt()
 
 		if (this.contract) {
 			return getTxEvents(receipt, this.contract)
@@ -220,6 +360,85 @@ export class EthersTransaction implements EthereumProvider.EthereumTransaction {
 		return (receipt as any)?.events || []
 	}
 
+	async speedUp(fees?: EthereumProvider.EthereumTransactionFees): Promise<EthereumProvider.EthereumTransaction> {
+		if (this.replacement) {
+			return this.replacement.speedUp(fees)
+		}
+		return this.replace({
+			to: this.tx.to,
+			data: this.tx.data,
+			value: this.tx.value,
+			gasLimit: this.tx.gasLimit,
+		}, fees, this.contract)
+	}
+
+	async cancel(fees?: EthereumProvider.EthereumTransactionFees): Promise<EthereumProvider.EthereumTransaction> {
+		if (this.replacement) {
+			return this.replacement.cancel(fees)
+		}
+		return this.replace({
+			to: this.tx.from,
+			data: "0x",
+			value: 0,
+			gasLimit: 21000,
+		}, fees)
+	}
+
+	private async replace(
+		request: TransactionRequest,
+		fees: EthereumProvider.EthereumTransactionFees | undefined,
+		contract?: Contract,
+	): Promise<EthersTransaction> {
+		if (!this.signer) {
+			throw new Error("Signer is required to replace transaction")
+		}
+		const tx = await this.signer.sendTransaction({
+			...request,
+			nonce: this.tx.nonce,
+			...toEthersFees(getReplacementFees({
+				gasPrice: this.tx.gasPrice?.toString(),
+				maxFeePerGas: this.tx.maxFeePerGas?.toString(),
+				maxPriorityFeePerGas: this.tx.maxPriorityFeePerGas?.toString(),
+			}, fees)),
+		})
+		const replacement = new EthersTransaction(tx, contract, this.signer)
+		this.replacement = replacement
+		this.resolveReplacement(replacement)
+		return replacement
+	}
+
+	private getConfirmationSource(): EthereumProvider.TransactionConfirmationSource {
+		const getProvider = () => {
+			if (!this.signer?.provider) {
+				throw new Error("Signer provider is required to wait for confirmations")
+			}
+			return this.signer.provider
+		}
+		return {
+			getReceipt: async hash => {
+				const receipt = await getProvider().getTransactionReceipt(hash)
+				return receipt ? toEthereumReceipt(receipt) : undefined
+			},
+			isPending: async hash => !!await getProvider().getTransaction(hash),
+			getTransactionCount: address => getProvider().getTransactionCount(address, "latest"),
+			getBlockNumber: () => getProvider().getBlockNumber(),
+		}
+	}
+
+	private getReceipt(): Promise<TransactionReceipt> {
+		// receipt of the original transaction or of the one which replaced it
+		return Promise.race([
+			this.tx.wait().catch(error => {
+				// ethers detects replacement of the transaction by itself
+				if (error?.code === ethers.errors.TRANSACTION_REPLACED && error.receipt) {
+					return error.receipt as TransactionReceipt
+				}
+				throw error
+			}),
+			this.replaced.then(tx => tx.getReceipt()),
+		])
+	}
+
 	get to(): Address | undefined {
 		return this.tx.to ? toAddress(this.tx.to) : undefined
 	}
@@ -236,3 +455,32 @@ export class EthersTransaction implements EthereumProvider.EthereumTransaction {
 		return this.tx.nonce
 	}
 }
+
+function toEthereumReceipt(receipt: TransactionReceipt): EthereumProvider.EthereumTransactionReceipt {
+	return {
+		...receipt,
+		status: receipt.status === 1,
+	}
+}
+
+/**
+ * Signers accept only hex strings or BigNumbers as fees, Wallet rejects keys of the fees not used by transaction type
+ */
+type EthersFees = Pick<TransactionRequest, "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas">
+
+/**
+ * Only defined fees are set, ethers signers reject legacy transaction with EIP-1559 fee keys
+ */
+function toEthersFees(fees: EthereumProvider.ReplacementFees | EthereumProvider.EthereumTransactionFees): EthersFees {
+	const result: EthersFees = {}
+	if (fees.gasPrice !== undefined) {
+		result.gasPrice = EthersBN.from(fees.gasPrice)
+	}
+	if (fees.maxFeePerGas !== undefined) {
+		result.maxFeePerGas = EthersBN.from(fees.maxFeePerGas)
+	}
+	if (fees.maxPriorityFeePerGas !== undefined) {
+		result.maxPriorityFeePerGas = EthersBN.from(fees.maxPriorityFeePerGas)
+	}
+	return result
+}
@@ -0,0 +1,36 @@
+import { ethers } from "ethers"
+import type { TransactionRequest, TransactionResponse } from "@ethersproject/abstract-provider"
+
+/**
+ * Wallet which assigns nonces from local pending counter, so parallel sends don't get the same nonce.
+ * Every nonce is the greater of the counter and pending transaction count, so transactions sent by other
+ * instances of the account are taken into account. Counter is dropped after failed send
+ */
+export class PendingNonceWallet extends ethers.Wallet {
+	private pendingNonce: Promise<number> | undefined = undefined
+
+	async sendTransaction(transaction: TransactionRequest): Promise<TransactionResponse> {
+		if (transaction.nonce !== undefined && transaction.nonce !== null) {
+			return super.sendTransaction(transaction)
+		}
+		const nonce = this.reserveNonce()
+		try {
+			return await super.sendTransaction({ ...transaction, nonce: await nonce })
+		} catch (e) {
+			this.pendingNonce = undefined
+			throw e
+		}
+	}
+
+	connect(provider: ethers.providers.Provider): PendingNonceWallet {
+		return new PendingNonceWallet(this, provider)
+	}
+
+	private reserveNonce(): Promise<number> {
+		const local = this.pendingNonce
+		const nonce = this.getTransactionCount("pending")
+			.then(async pending => local ? Math.max(pending, await local) : pending)
+		this.pendingNonce = nonce.then(value => value + 1)
+		return nonce
+	}
+}
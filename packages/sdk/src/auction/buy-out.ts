@@ -15,6 +15,7 @@ import { checkChainId } from "../order/check-chain-id"
 import type { RaribleEthereumApis } from "../common/apis"
 import type { EthereumNetwork } from "../types"
 import { getBaseFee } from "../common/get-base-fee"
+import { WalletNotConnectedError } from "../common/errors"
 import { createEthereumAuctionContract } from "./contracts/auction"
 import {
 	AUCTION_BID_DATA_V1,
@@ -46,7 +47,7 @@ export class BuyoutAuction {
 		id: "approve" as const,
 		run: async (request: BuyOutRequest) => {
 			if (!this.ethereum) {
-				throw new Error("Wallet is undefined")
+				throw new WalletNotConnectedError()
 			}
 			const auction = await this.apis.auction.getAuctionByHash({ hash: request.hash })
 			this.validate(auction)
@@ -72,7 +73,7 @@ export class BuyoutAuction {
 			id: "sign" as const,
 			run: async ({ request, auction, price }: { request: BuyOutRequest, auction: Auction, price: BigNumber}) => {
 				if (!this.ethereum) {
-					throw new Error("Wallet is undefined")
+					throw new WalletNotConnectedError()
 				}
 				const buyerOriginFees = request.originFees || []
 				const bidData = this.ethereum.encodeParameter(AUCTION_BID_DATA_V1, {
@@ -3,6 +3,7 @@ import type { Ethereum } from "@rarible/ethereum-provider"
 import type { EthereumConfig } from "../config/type"
 import type { SendFunction } from "../common/send-transaction"
 import type { RaribleEthereumApis } from "../common/apis"
+import { WalletNotConnectedError } from "../common/errors"
 import { createEthereumAuctionContract } from "./contracts/auction"
 
 export async function cancelAuction(
@@ -13,7 +14,7 @@ export async function cancelAuction(
 	hash: string,
 ) {
 	if (!ethereum) {
-		throw new Error("Wallet is undefined")
+		throw new WalletNotConnectedError()
 	}
 	const auction = await apis.auction.getAuctionByHash({ hash })
 	const sender = await ethereum.getFrom()
@@ -5,6 +5,7 @@ import type { AssetType, Part } from "@rarible/ethereum-api-client"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { Auction } from "@rarible/ethereum-api-client/build/models"
 import { id } from "../../common/id"
+import { WalletNotConnectedError } from "../../common/errors"
 import type { EthereumConfig } from "../../config/type"
 import { addFee } from "../../order/add-fee"
 
@@ -22,7 +23,7 @@ export function getAuctionHash(
 	auctionId: BigNumber,
 ): string {
 	if (!ethereum) {
-		throw new Error("Wallet is undefined")
+		throw new WalletNotConnectedError()
 	}
 	const hash = ethereum.encodeParameter(AUCTION_HASH_TYPE, {
 		contractAddress: config.auction,
@@ -4,6 +4,7 @@ import type { Auction } from "@rarible/ethereum-api-client/build/models"
 import type { EthereumConfig } from "../config/type"
 import type { SendFunction } from "../common/send-transaction"
 import type { RaribleEthereumApis } from "../common/apis"
+import { WalletNotConnectedError } from "../common/errors"
 import { createEthereumAuctionContract } from "./contracts/auction"
 
 export async function finishAuction(
@@ -14,7 +15,7 @@ export async function finishAuction(
 	hash: string,
 ) {
 	if (!ethereum) {
-		throw new Error("Wallet is undefined")
+		throw new WalletNotConnectedError()
 	}
 	const auction = await apis.auction.getAuctionByHash({ hash })
 
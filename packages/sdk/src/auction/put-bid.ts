@@ -16,6 +16,7 @@ import { checkChainId } from "../order/check-chain-id"
 import { validateParts } from "../common/validate-part"
 import type { RaribleEthereumApis } from "../common/apis"
 import { getBaseFee } from "../common/get-base-fee"
+import { WalletNotConnectedError } from "../common/errors"
 import type { EthereumNetwork } from "../types"
 import { createEthereumAuctionContract } from "./contracts/auction"
 import { AUCTION_BID_DATA_V1, AUCTION_DATA_TYPE, calculatePartsSum, getAuctionOperationOptions } from "./common"
@@ -44,7 +45,7 @@ export class PutAuctionBid {
 		id: "approve" as const,
 		run: async (request: PutBidRequest) => {
 			if (!this.ethereum) {
-				throw new Error("Wallet is undefined")
+				throw new WalletNotConnectedError()
 			}
 			const auction = await this.apis.auction.getAuctionByHash({ hash: request.hash })
 			this.validate(request, auction)
@@ -67,7 +68,7 @@ export class PutAuctionBid {
 			id: "sign" as const,
 			run: async ({ request, auction, price }: { request: PutBidRequest, auction: Auction, price: BigNumber}) => {
 				if (!this.ethereum) {
-					throw new Error("Wallet is undefined")
+					throw new WalletNotConnectedError()
 				}
 				const bidderOriginFees = request.originFees || []
 				const bidData = this.ethereum.encodeParameter(AUCTION_BID_DATA_V1, {
@@ -21,6 +21,7 @@ import { checkChainId } from "../order/check-chain-id"
 import { isNft } from "../order/is-nft"
 import { isPaymentToken } from "../common/is-payment-token"
 import { validateParts } from "../common/validate-part"
+import { WalletNotConnectedError } from "../common/errors"
 import type { EthereumNetwork } from "../types"
 import { createEthereumAuctionContract } from "./contracts/auction"
 import { AUCTION_DATA_TYPE, AUCTION_DATA_V1, getAssetEncodedData, getAuctionHash } from "./common"
@@ -67,7 +68,7 @@ export class StartAuction {
 		id: "approve" as const,
 		run: async (request: CreateAuctionRequest) => {
 			if (!this.ethereum) {
-				throw new Error("Wallet is undefined")
+				throw new WalletNotConnectedError()
 			}
 			const makeAssetType = await this.checkAssetType(request.makeAssetType)
 			this.validate(request, makeAssetType)
@@ -89,7 +90,7 @@ export class StartAuction {
 			id: "sign" as const,
 			run: async ({ request, makeAssetType }: { request: CreateAuctionRequest, makeAssetType: AssetTypeResponse}) => {
 				if (!this.ethereum) {
-					throw new Error("Wallet is undefined")
+					throw new WalletNotConnectedError()
 				}
 				const sellAsset = {
 					assetType: {
@@ -0,0 +1,37 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { ethers } from "ethers"
+
+export type AbiEncoder = Pick<Ethereum, "encodeParameter">
+
+/**
+ * Encodes parameters the same way as Ethereum.encodeParameter, doesn't require connected wallet
+ */
+export const abiEncoder: AbiEncoder = {
+	encodeParameter: (type, parameter) => ethers.utils.defaultAbiCoder.encode([toParamType(type)], [parameter]),
+}
+
+type StructType = { [field: string]: string | StructType }
+type ParamTypeJson = { name: string, type: string, components?: ParamTypeJson[] }
+
+/**
+ * Converts simplified struct type of web3 ({ Name: { field: "type" } }) to ethers tuple type
+ */
+function toParamType(type: any): ethers.utils.ParamType {
+	if (typeof type === "object" && type.components === undefined && type.name === undefined) {
+		const [name] = Object.keys(type)
+		return ethers.utils.ParamType.from(toTupleType(name, type[name]))
+	}
+	return ethers.utils.ParamType.from(type)
+}
+
+function toTupleType(name: string, struct: StructType): ParamTypeJson {
+	const isArray = name.endsWith("[]")
+	return {
+		name: isArray ? name.slice(0, -2) : name,
+		type: isArray ? "tuple[]" : "tuple",
+		components: Object.keys(struct).map(field => {
+			const fieldType = struct[field]
+			return typeof fieldType === "object" ? toTupleType(field, fieldType) : { name: field, type: fieldType }
+		}),
+	}
+}
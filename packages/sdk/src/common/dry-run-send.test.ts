@@ -0,0 +1,34 @@
+import type { EthereumFunctionCall } from "@rarible/ethereum-provider"
+import { createPrepareMiddleware } from "./dry-run-send"
+import { runSendMiddlewares } from "./send-middleware"
+
+describe("createPrepareMiddleware", () => {
+	const from = "0x3c6a8e2b0b2f4b6a3e55c5c7b2ab2e2d1c0f6a11"
+	const contract = "0x74bddd22a6b9d8fae5b2047af0e0af02c42b7dae"
+
+	function createFunctionCall(estimateGas: () => Promise<number>): EthereumFunctionCall {
+		return {
+			getCallInfo: async () => ({ method: "approve", args: [], contract, from }),
+			getData: async () => "0x095ea7b3",
+			estimateGas,
+			send: async () => {
+				throw new Error("Transaction shouldn't be sent")
+			},
+		} as unknown as EthereumFunctionCall
+	}
+
+	test("should collect unsigned transactions instead of sending", async () => {
+		const { middleware, transactions } = createPrepareMiddleware()
+
+		const tx = await runSendMiddlewares([middleware], createFunctionCall(async () => 50000), { value: 10 })
+		expect((await tx.wait()).status).toBe(true)
+
+		await runSendMiddlewares([middleware], createFunctionCall(async () => {
+			throw new Error("execution reverted")
+		}))
+		expect(transactions).toEqual([
+			{ from, to: contract, data: "0x095ea7b3", value: "10", gas: 50000 },
+			{ from, to: contract, data: "0x095ea7b3", value: undefined, gas: undefined },
+		])
+	})
+})
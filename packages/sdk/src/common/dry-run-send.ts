@@ -0,0 +1,106 @@
+import type {
+	EthereumFunctionCall,
+	EthereumFunctionCallInfo,
+	EthereumSendOptions,
+	EthereumTransaction,
+} from "@rarible/ethereum-provider"
+import { toAddress, toBinary, ZERO_WORD } from "@rarible/types"
+import type { SendFunction } from "./send-transaction"
+import type { SendMiddleware } from "./send-middleware"
+
+export type DryRunCall = {
+	callInfo: EthereumFunctionCallInfo
+	data: string
+	options?: EthereumSendOptions
+}
+
+/**
+ * Send function which doesn't send anything, but records calls instead.
+ * Returned transactions are "mined" immediately, so flows with approvals can be executed without spending gas
+ */
+export function createDryRunSend(): { send: SendFunction, calls: DryRunCall[] } {
+	const calls: DryRunCall[] = []
+
+	const send: SendFunction = async (functionCall, options) => {
+		const call = await recordCall(functionCall, options)
+		calls.push(call)
+		return createDryRunTransaction(call)
+	}
+
+	return { send, calls }
+}
+
+/**
+ * Unsigned transaction, which can be signed and sent outside of sdk
+ */
+export type PreparedTransaction = {
+	from: string
+	to: string
+	data: string
+	value?: string
+	/**
+	 * Undefined if estimation failed, e.g. if transaction depends on the previous prepared ones (approvals)
+	 */
+	gas?: number
+}
+
+/**
+ * Send middleware which collects unsigned transactions instead of sending them.
+ * Like with createDryRunSend, returned transactions are "mined" immediately
+ */
+export function createPrepareMiddleware(): { middleware: SendMiddleware, transactions: PreparedTransaction[] } {
+	const transactions: PreparedTransaction[] = []
+
+	const middleware: SendMiddleware = async ({ functionCall, options, callInfo }) => {
+		const data = await functionCall.getData()
+		const value = options?.value !== undefined ? options.value.toString() : undefined
+		let gas: number | undefined = options?.gas
+		if (gas === undefined) {
+			try {
+				gas = await functionCall.estimateGas({ from: callInfo.from, value })
+			} catch (e) {
+				console.error("Unable to estimate gas of prepared transaction", e)
+			}
+		}
+		transactions.push({ from: callInfo.from, to: callInfo.contract, data, value, gas })
+		return createDryRunTransaction({ callInfo, data, options })
+	}
+
+	return { middleware, transactions }
+}
+
+async function recordCall(functionCall: EthereumFunctionCall, options?: EthereumSendOptions): Promise<DryRunCall> {
+	return {
+		callInfo: await functionCall.getCallInfo(),
+		data: await functionCall.getData(),
+		options,
+	}
+}
+
+function createDryRunTransaction({ callInfo, data }: DryRunCall): EthereumTransaction {
+	const from = toAddress(callInfo.from)
+	const to = toAddress(callInfo.contract)
+	return {
+		hash: ZERO_WORD,
+		from,
+		to,
+		data: toBinary(data),
+		nonce: -1,
+		wait: async () => ({
+			from,
+			to,
+			status: true,
+			transactionIndex: 0,
+			transactionHash: ZERO_WORD,
+			blockHash: ZERO_WORD,
+			blockNumber: 0,
+		}),
+		getEvents: async () => [],
+		speedUp: async () => {
+			throw new Error("Dry run transaction can't be replaced")
+		},
+		cancel: async () => {
+			throw new Error("Dry run transaction can't be replaced")
+		},
+	}
+}
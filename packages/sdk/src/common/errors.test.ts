@@ -0,0 +1,81 @@
+import { utils } from "ethers"
+import {
+	ContractRevertError,
+	decodeRevertData,
+	EthereumSdkErrorCode,
+	InsufficientFundsError,
+	OrderNotFillableError,
+	toEthereumSdkError,
+	UserRejectedError,
+	WalletNotConnectedError,
+} from "./errors"
+
+const orderHash = "0x1111111111111111111111111111111111111111111111111111111111111111"
+
+function encodeErrorString(reason: string) {
+	return utils.id("Error(string)").slice(0, 10) + utils.defaultAbiCoder.encode(["string"], [reason]).slice(2)
+}
+
+function encodeOrderIsCancelled(hash: string) {
+	return utils.id("OrderIsCancelled(bytes32)").slice(0, 10) + utils.defaultAbiCoder.encode(["bytes32"], [hash]).slice(2)
+}
+
+describe("decodeRevertData", () => {
+	test("should decode Error(string)", () => {
+		const decoded = decodeRevertData(encodeErrorString("Ownable: caller is not the owner"))
+		expect(decoded?.reason).toBe("Ownable: caller is not the owner")
+		expect(decoded?.errorName).toBeUndefined()
+	})
+
+	test("should decode seaport custom error", () => {
+		const decoded = decodeRevertData(encodeOrderIsCancelled(orderHash))
+		expect(decoded?.errorName).toBe("OrderIsCancelled")
+		expect(decoded?.args).toEqual([orderHash])
+	})
+
+	test("should return undefined for unknown selector", () => {
+		expect(decodeRevertData("0xdeadbeef")).toBeUndefined()
+	})
+})
+
+describe("toEthereumSdkError", () => {
+	test("should classify user rejection", () => {
+		expect(toEthereumSdkError({ code: 4001, message: "User denied transaction signature" }))
+			.toBeInstanceOf(UserRejectedError)
+		expect(toEthereumSdkError({ code: "ACTION_REJECTED" })).toBeInstanceOf(UserRejectedError)
+	})
+
+	test("should classify insufficient funds", () => {
+		const error = toEthereumSdkError(new Error("insufficient funds for gas * price + value"))
+		expect(error).toBeInstanceOf(InsufficientFundsError)
+		expect((error as InsufficientFundsError).code).toBe(EthereumSdkErrorCode.INSUFFICIENT_FUNDS)
+	})
+
+	test("should decode revert reason from provider error", () => {
+		const error = toEthereumSdkError({
+			code: -32603,
+			message: "Internal JSON-RPC error.",
+			data: { data: encodeErrorString("Ownable: caller is not the owner") },
+		})
+		expect(error).toBeInstanceOf(ContractRevertError)
+		expect((error as ContractRevertError).reason).toBe("Ownable: caller is not the owner")
+	})
+
+	test("should parse revert reason from message", () => {
+		const error = toEthereumSdkError(new Error("execution reverted: ERC20: transfer amount exceeds balance"))
+		expect(error).toBeInstanceOf(ContractRevertError)
+		expect((error as ContractRevertError).reason).toBe("ERC20: transfer amount exceeds balance")
+	})
+
+	test("should classify cancelled seaport order as not fillable", () => {
+		const error = toEthereumSdkError({ data: encodeOrderIsCancelled(orderHash) })
+		expect(error).toBeInstanceOf(OrderNotFillableError)
+	})
+
+	test("should keep sdk and unknown errors as is", () => {
+		const sdkError = new WalletNotConnectedError()
+		expect(toEthereumSdkError(sdkError)).toBe(sdkError)
+		const unknown = new Error("something else")
+		expect(toEthereumSdkError(unknown)).toBe(unknown)
+	})
+})
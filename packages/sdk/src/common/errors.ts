@@ -0,0 +1,208 @@
+import { utils } from "ethers"
+import { SeaportABI } from "../order/contracts/seaport"
+import { getErrorMessageString } from "./logger/logger"
+
+export enum EthereumSdkErrorCode {
+	WALLET_NOT_CONNECTED = "WALLET_NOT_CONNECTED",
+	USER_REJECTED = "USER_REJECTED",
+	WRONG_NETWORK = "WRONG_NETWORK",
+	INSUFFICIENT_FUNDS = "INSUFFICIENT_FUNDS",
+	ORDER_NOT_FILLABLE = "ORDER_NOT_FILLABLE",
+	CONTRACT_REVERT = "CONTRACT_REVERT",
+}
+
+/**
+ * Base class of errors thrown by sdk actions, use code to distinguish kind of error
+ */
+export class EthereumSdkError extends Error {
+	constructor(readonly code: EthereumSdkErrorCode, message: string, readonly cause?: unknown) {
+		super(message)
+		Object.setPrototypeOf(this, new.target.prototype)
+		this.name = "EthereumSdkError"
+	}
+}
+
+export class WalletNotConnectedError extends EthereumSdkError {
+	constructor() {
+		super(EthereumSdkErrorCode.WALLET_NOT_CONNECTED, "Wallet undefined")
+		this.name = "WalletNotConnectedError"
+	}
+}
+
+export class UserRejectedError extends EthereumSdkError {
+	constructor(cause?: unknown) {
+		super(EthereumSdkErrorCode.USER_REJECTED, "User rejected the request", cause)
+		this.name = "UserRejectedError"
+	}
+}
+
+export class WrongNetworkError extends EthereumSdkError {
+	constructor(readonly expectedChainId: number, readonly actualChainId: number) {
+		super(
+			EthereumSdkErrorCode.WRONG_NETWORK,
+			`Change network of your wallet. Config chainId=${expectedChainId}, but wallet chainId=${actualChainId}`,
+		)
+		this.name = "WrongNetworkError"
+	}
+}
+
+export class InsufficientFundsError extends EthereumSdkError {
+	constructor(cause?: unknown) {
+		super(EthereumSdkErrorCode.INSUFFICIENT_FUNDS, "Insufficient funds for gas * price + value", cause)
+		this.name = "InsufficientFundsError"
+	}
+}
+
+export class OrderNotFillableError extends EthereumSdkError {
+	constructor(message: string, cause?: unknown) {
+		super(EthereumSdkErrorCode.ORDER_NOT_FILLABLE, message, cause)
+		this.name = "OrderNotFillableError"
+	}
+}
+
+export type RevertInfo = {
+	/**
+	 * Message of Error(string) or name of the custom error
+	 */
+	reason: string
+	/**
+	 * Name of the custom error if it has been found in known ABIs
+	 */
+	errorName?: string
+	args?: any[]
+	data?: string
+}
+
+export class ContractRevertError extends EthereumSdkError {
+	readonly reason: string
+	readonly errorName?: string
+	readonly args?: any[]
+	readonly data?: string
+
+	constructor(revert: RevertInfo, cause?: unknown) {
+		super(EthereumSdkErrorCode.CONTRACT_REVERT, `Transaction reverted: ${revert.reason}`, cause)
+		this.name = "ContractRevertError"
+		this.reason = revert.reason
+		this.errorName = revert.errorName
+		this.args = revert.args
+		this.data = revert.data
+	}
+}
+
+export function isEthereumSdkError(error: unknown): error is EthereumSdkError {
+	return error instanceof EthereumSdkError
+}
+
+// selector of Error(string)
+const ERROR_STRING_SELECTOR = "0x08c379a0"
+
+// custom errors which mean the order is already filled, cancelled or expired
+const ORDER_NOT_FILLABLE_ERRORS = ["OrderAlreadyFilled", "OrderIsCancelled", "InvalidTime", "OrderPartiallyFilled"]
+
+const KNOWN_ABIS: any[][] = [SeaportABI]
+
+let customErrors: Record<string, utils.ErrorFragment> | undefined = undefined
+
+function getCustomErrors(): Record<string, utils.ErrorFragment> {
+	if (!customErrors) {
+		customErrors = {}
+		for (const abi of KNOWN_ABIS) {
+			for (const item of abi.filter(item => item.type === "error")) {
+				const fragment = utils.ErrorFragment.from(item)
+				customErrors[utils.id(fragment.format()).slice(0, 10)] = fragment
+			}
+		}
+	}
+	return customErrors
+}
+
+/**
+ * Decode revert data: Error(string) or custom error from known contracts (e.g. Seaport)
+ */
+export function decodeRevertData(data: string): RevertInfo | undefined {
+	const selector = data.slice(0, 10).toLowerCase()
+	try {
+		if (selector === ERROR_STRING_SELECTOR) {
+			const [reason] = utils.defaultAbiCoder.decode(["string"], `0x${data.slice(10)}`)
+			return { reason, data }
+		}
+		const fragment = getCustomErrors()[selector]
+		if (fragment) {
+			const args = utils.defaultAbiCoder.decode(fragment.inputs, `0x${data.slice(10)}`)
+			return { reason: fragment.name, errorName: fragment.name, args: Array.from(args), data }
+		}
+	} catch (e) {
+		// malformed revert data is handled as unknown revert
+	}
+	return undefined
+}
+
+function findRevertData(error: any): string | undefined {
+	const candidates = [error?.data, error?.data?.data, error?.error?.data, error?.error?.data?.data]
+	return candidates.find((value): value is string => typeof value === "string" && /^0x[0-9a-fA-F]{8}/.test(value))
+}
+
+/**
+ * Get revert info from the error thrown by provider, undefined if error isn't caused by revert
+ */
+export function getRevertInfo(error: any): RevertInfo | undefined {
+	const data = findRevertData(error)
+	const decoded = data ? decodeRevertData(data) : undefined
+	if (decoded) {
+		return decoded
+	}
+	if (error?.code === "CALL_EXCEPTION" && typeof error.reason === "string") {
+		return { reason: error.reason }
+	}
+	const message = getErrorMessageString(error)
+	const match = message.match(/execution reverted:?\s*([^"\n]*)/)
+	if (match) {
+		return { reason: match[1].trim() || "execution reverted", data }
+	}
+	return undefined
+}
+
+function isUserRejected(error: any): boolean {
+	return error?.code === 4001 ||
+		error?.code === "ACTION_REJECTED" ||
+		/user (denied|rejected)/i.test(getErrorMessageString(error))
+}
+
+function isInsufficientFunds(error: any): boolean {
+	return error?.code === "INSUFFICIENT_FUNDS" ||
+		/insufficient funds/i.test(getErrorMessageString(error))
+}
+
+/**
+ * Convert error thrown by provider to one of sdk errors, unknown errors are returned as is
+ */
+export function toEthereumSdkError(error: unknown): unknown {
+	if (isEthereumSdkError(error)) {
+		return error
+	}
+	if (isUserRejected(error)) {
+		return new UserRejectedError(error)
+	}
+	if (isInsufficientFunds(error)) {
+		return new InsufficientFundsError(error)
+	}
+	const revert = getRevertInfo(error)
+	if (revert) {
+		if (revert.errorName && ORDER_NOT_FILLABLE_ERRORS.indexOf(revert.errorName) !== -1) {
+			return new OrderNotFillableError(`Order can't be filled: ${revert.errorName}`, error)
+		}
+		return new ContractRevertError(revert, error)
+	}
+	return error
+}
+
+/**
+ * Rethrow rejection of the promise (e.g. wallet signature request) as one of sdk errors
+ */
+export async function withSdkError<T>(promise: Promise<T>): Promise<T> {
+	try {
+		return await promise
+	} catch (e) {
+		throw toEthereumSdkError(e)
+	}
+}
@@ -0,0 +1,49 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { applyFeeOptions, getFeeSuggestion } from "./fee-suggestion"
+
+describe("getFeeSuggestion", () => {
+	function createEthereum(history: any, calls: unknown[][] = []): Ethereum {
+		return {
+			send: async (method: string, params: unknown[]) => {
+				calls.push([method, params])
+				return history
+			},
+		} as Ethereum
+	}
+
+	test("should suggest fees using median of priority fees and next base fee", async () => {
+		const calls: unknown[][] = []
+		const ethereum = createEthereum({
+			baseFeePerGas: ["0x3b9aca00", "0x3b9aca00", "0x77359400"],
+			reward: [["0x3b9aca00"], ["0x77359400"], ["0xb2d05e00"]],
+		}, calls)
+
+		const fees = await getFeeSuggestion(ethereum, "fast")
+		expect(calls).toEqual([["eth_feeHistory", ["0xa", "latest", [90]]]])
+		expect(fees).toEqual({
+			maxFeePerGas: "6000000000",
+			maxPriorityFeePerGas: "2000000000",
+		})
+	})
+
+	test("should return undefined for network without EIP-1559", async () => {
+		const ethereum = createEthereum({ oldestBlock: "0x1", reward: [] })
+		expect(await getFeeSuggestion(ethereum)).toBeUndefined()
+	})
+
+	test("should return undefined if provider can't send requests", async () => {
+		expect(await getFeeSuggestion({} as Ethereum)).toBeUndefined()
+	})
+})
+
+describe("applyFeeOptions", () => {
+	const fees = { maxFeePerGas: "100", maxPriorityFeePerGas: "2" }
+
+	test("should add fees to options", async () => {
+		expect(await applyFeeOptions({ value: 1 }, async () => fees)).toEqual({ value: 1, ...fees })
+	})
+
+	test("should keep explicitly passed fees", async () => {
+		expect(await applyFeeOptions({ gasPrice: 10 }, async () => fees)).toEqual({ gasPrice: 10 })
+	})
+})
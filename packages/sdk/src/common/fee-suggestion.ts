@@ -0,0 +1,112 @@
+import type { Ethereum, EthereumSendOptions } from "@rarible/ethereum-provider"
+import type { Maybe } from "@rarible/types/build/maybe"
+import type { BigNumber } from "@rarible/utils"
+import { toBn } from "@rarible/utils/build/bn"
+
+export type GasFeeSpeed = "slow" | "normal" | "fast"
+
+export type Eip1559FeeOptions = {
+	maxFeePerGas: string
+	maxPriorityFeePerGas: string
+}
+
+/**
+ * Policy of EIP-1559 fees applied to sdk transactions: one of the presets based on eth_feeHistory
+ * or custom callback. If callback returns undefined, fees are left to the wallet
+ */
+export type GasFeePolicy = GasFeeSpeed | ((ethereum: Ethereum) => Promise<Eip1559FeeOptions | undefined>)
+
+type FeeHistory = {
+	baseFeePerGas?: string[]
+	reward?: string[][]
+}
+
+const FEE_HISTORY_BLOCKS = 10
+const REWARD_PERCENTILES: Record<GasFeeSpeed, number> = {
+	slow: 10,
+	normal: 50,
+	fast: 90,
+}
+// base fee can grow by 12.5% per block, doubled base fee covers ~6 full blocks in a row
+const BASE_FEE_MULTIPLIER = 2
+
+/**
+ * Suggest EIP-1559 fees using eth_feeHistory of the last blocks.
+ * Returns undefined if provider can't send JSON-RPC requests or network doesn't support EIP-1559
+ * @param ethereum Wallet
+ * @param speed percentile of priority fees paid in the last blocks: slow=10, normal=50, fast=90
+ */
+export async function getFeeSuggestion(
+	ethereum: Ethereum,
+	speed: GasFeeSpeed = "normal",
+): Promise<Eip1559FeeOptions | undefined> {
+	if (!ethereum.send) {
+		return undefined
+	}
+	const history: FeeHistory = await ethereum.send(
+		"eth_feeHistory",
+		[`0x${FEE_HISTORY_BLOCKS.toString(16)}`, "latest", [REWARD_PERCENTILES[speed]]],
+	)
+	if (!history?.baseFeePerGas?.length) {
+		return undefined
+	}
+	// the last item is base fee of the next block
+	const nextBaseFee = toBn(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+	const priorityFee = median((history.reward || []).map(([reward]) => toBn(reward)))
+	return {
+		maxFeePerGas: nextBaseFee.multipliedBy(BASE_FEE_MULTIPLIER).plus(priorityFee).toFixed(),
+		maxPriorityFeePerGas: priorityFee.toFixed(),
+	}
+}
+
+function median(values: BigNumber[]): BigNumber {
+	if (!values.length) {
+		return toBn(0)
+	}
+	const sorted = values.slice().sort((a, b) => a.comparedTo(b))
+	const middle = Math.floor(sorted.length / 2)
+	if (sorted.length % 2) {
+		return sorted[middle]
+	}
+	return sorted[middle - 1].plus(sorted[middle]).dividedToIntegerBy(2)
+}
+
+/**
+ * Create function which resolves fees of the policy for every transaction sent by sdk
+ */
+export function createFeeResolver(
+	ethereum: Maybe<Ethereum>,
+	policy: GasFeePolicy,
+): () => Promise<Eip1559FeeOptions | undefined> {
+	return async () => {
+		if (!ethereum) {
+			return undefined
+		}
+		if (typeof policy === "function") {
+			return policy(ethereum)
+		}
+		return getFeeSuggestion(ethereum, policy)
+	}
+}
+
+/**
+ * Add resolved fees to send options, explicitly passed gasPrice or EIP-1559 fields have priority
+ */
+export async function applyFeeOptions(
+	options: EthereumSendOptions | undefined,
+	getFeeOptions: (() => Promise<Eip1559FeeOptions | undefined>) | undefined,
+): Promise<EthereumSendOptions | undefined> {
+	if (!getFeeOptions) {
+		return options
+	}
+	if (options?.gasPrice !== undefined || options?.maxFeePerGas !== undefined) {
+		return options
+	}
+	try {
+		const fees = await getFeeOptions()
+		return fees ? { ...options, ...fees } : options
+	} catch (e) {
+		console.error("Unable to get fee suggestion", e)
+		return options
+	}
+}
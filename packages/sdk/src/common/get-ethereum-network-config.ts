@@ -0,0 +1,15 @@
+import type { EthereumNetworkConfig, IRaribleEthereumSdkConfig } from "../types"
+import type { EVMBlockchain } from "./get-blockchain-from-chain-id"
+
+export function getEthereumNetworkConfig(
+	blockchain: EVMBlockchain, sdkConfig?: IRaribleEthereumSdkConfig
+): EthereumNetworkConfig | void {
+	if (!sdkConfig) {
+		return
+	}
+	switch (blockchain) {
+		case "ETHEREUM": return sdkConfig.ethereum
+		case "POLYGON": return sdkConfig.polygon
+		default: return
+	}
+}
@@ -1,9 +1,10 @@
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { Ethereum } from "@rarible/ethereum-provider"
+import { WalletNotConnectedError } from "./errors"
 
 export function getRequiredWallet(ethereum: Maybe<Ethereum>): Ethereum {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	return ethereum
 }
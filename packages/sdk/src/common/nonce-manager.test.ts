@@ -0,0 +1,70 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { NonceManager } from "./nonce-manager"
+
+describe("NonceManager", () => {
+	const address = "0x3c6a8e2b0b2f4b6a3e55c5c7b2ab2e2d1c0f6a11"
+
+	/**
+	 * Ethereum which only responds to eth_getTransactionCount with given counts
+	 */
+	function createEthereum(counts: string[]): Ethereum {
+		const notUsed = () => {
+			throw new Error("Not used by NonceManager")
+		}
+		return {
+			createContract: notUsed,
+			getFrom: notUsed,
+			personalSign: notUsed,
+			signTypedData: notUsed,
+			encodeParameter: notUsed,
+			decodeParameter: notUsed,
+			getBalance: notUsed,
+			getChainId: notUsed,
+			send: async (method: string) => {
+				expect(method).toBe("eth_getTransactionCount")
+				return counts.shift()
+			},
+		}
+	}
+
+	test("should reserve sequential nonces for parallel sends", async () => {
+		const manager = new NonceManager(createEthereum(["0x5"]))
+
+		const nonces = await Promise.all([1, 2, 3].map(() => manager.reserve(address)))
+		expect(nonces).toEqual([5, 6, 7])
+		expect(manager.getQueueState(address)).toEqual({ nextNonce: 8, pending: 3 })
+
+		manager.release(address, 5, true)
+		expect(manager.getQueueState(address.toUpperCase())).toEqual({ nextNonce: 8, pending: 2 })
+	})
+
+	test("should resync nonce from node after failed send", async () => {
+		const manager = new NonceManager(createEthereum(["0x1", "0x1"]))
+
+		expect(await manager.reserve(address)).toBe(1)
+		manager.release(address, 1, false)
+		expect(manager.getQueueState(address)).toEqual({ nextNonce: undefined, pending: 0 })
+		expect(await manager.reserve(address)).toBe(1)
+	})
+
+	test("should reserve nonce of failed send again while other sends are in flight", async () => {
+		const manager = new NonceManager(createEthereum(["0x5", "0x8"]))
+
+		const nonces = await Promise.all([1, 2, 3].map(() => manager.reserve(address)))
+		expect(nonces).toEqual([5, 6, 7])
+		manager.release(address, 6, false)
+		expect(manager.getQueueState(address)).toEqual({ nextNonce: 6, pending: 2 })
+		expect(await manager.reserve(address)).toBe(6)
+		expect(await manager.reserve(address)).toBe(8)
+
+		manager.release(address, 5, true)
+		manager.release(address, 8, false)
+		manager.release(address, 6, true)
+		// nonce of the failed send is kept for the next send while 7 is in flight
+		expect(manager.getQueueState(address)).toEqual({ nextNonce: 8, pending: 1 })
+		manager.release(address, 7, true)
+		// nothing is in flight, next nonce is reloaded from the node
+		expect(manager.getQueueState(address)).toEqual({ nextNonce: undefined, pending: 0 })
+		expect(await manager.reserve(address)).toBe(8)
+	})
+})
@@ -0,0 +1,124 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+
+export type NonceQueueState = {
+	/**
+	 * Nonce which will be reserved for the next transaction, undefined until it's loaded from the node
+	 */
+	nextNonce: number | undefined
+	/**
+	 * Number of transactions with reserved nonces which are being sent now
+	 */
+	pending: number
+}
+
+type AccountState = {
+	/**
+	 * Nonce after the highest reserved one, undefined until it's loaded from the node
+	 */
+	nextNonce: number | undefined
+	loading: Promise<void> | undefined
+	/**
+	 * Reserved nonces of transactions which are being sent now
+	 */
+	pending: Set<number>
+	/**
+	 * Nonces of failed sends, they are reserved again before nextNonce (ascending order)
+	 */
+	released: number[]
+}
+
+/**
+ * Reserves nonces of sent transactions locally, so parallel sdk actions of one account don't get the same nonce.
+ * Nonces are loaded with eth_getTransactionCount(pending) on the first send.
+ * Nonce of the failed send is reserved again by the next send, so it doesn't leave a gap. Nonces are reloaded
+ * from the node only when nothing is being sent: reloading while other sends are in flight would reuse their nonces
+ */
+export class NonceManager {
+	private readonly accounts: Record<string, AccountState> = {}
+
+	constructor(private readonly ethereum: Ethereum) {
+		this.reserve = this.reserve.bind(this)
+		this.release = this.release.bind(this)
+	}
+
+	/**
+	 * Reserve nonce for the next transaction of the account, it should be released with `release` after sending
+	 */
+	async reserve(address: string): Promise<number> {
+		const account = this.getAccount(address)
+		while (account.nextNonce === undefined) {
+			if (!account.loading) {
+				account.loading = this.loadNonce(address).then(
+					nonce => {
+						account.loading = undefined
+						account.nextNonce = nonce
+					},
+					error => {
+						account.loading = undefined
+						throw error
+					},
+				)
+			}
+			await account.loading
+		}
+		let nonce = account.released.shift()
+		if (nonce === undefined) {
+			nonce = account.nextNonce
+			account.nextNonce = nonce + 1
+		}
+		account.pending.add(nonce)
+		return nonce
+	}
+
+	/**
+	 * Release reserved nonce. Nonce of failed send is reserved again by the next send,
+	 * manager reloads nonce from the node after failures when no other reserved nonce is being sent
+	 */
+	release(address: string, nonce: number, success: boolean) {
+		const account = this.getAccount(address)
+		if (!account.pending.delete(nonce)) {
+			return
+		}
+		if (!success) {
+			account.released.push(nonce)
+			account.released.sort((a, b) => a - b)
+		}
+		if (!account.pending.size && account.released.length) {
+			this.resync(address)
+		}
+	}
+
+	/**
+	 * Forget locally reserved nonces, next nonce is loaded from the node.
+	 * Nonces which are being sent now are still tracked, call it only when nothing is being sent
+	 */
+	resync(address: string) {
+		const account = this.getAccount(address)
+		account.nextNonce = undefined
+		account.released = []
+	}
+
+	getQueueState(address: string): NonceQueueState {
+		const account = this.getAccount(address)
+		return {
+			nextNonce: account.released[0] ?? account.nextNonce,
+			pending: account.pending.size,
+		}
+	}
+
+	private getAccount(address: string): AccountState {
+		const key = address.toLowerCase()
+		if (!this.accounts[key]) {
+			this.accounts[key] = { nextNonce: undefined, loading: undefined, pending: new Set(), released: [] }
+		}
+		return this.accounts[key]
+	}
+
+	private async loadNonce(address: string): Promise<number> {
+		if (!this.ethereum.send) {
+			throw new Error("Nonce manager requires Ethereum with JSON-RPC send support")
+		}
+		const count = await this.ethereum.send("eth_getTransactionCount", [address, "pending"])
+		return Number(count)
+	}
+}
@@ -0,0 +1,51 @@
+import type { EthereumFunctionCall, EthereumTransaction } from "@rarible/ethereum-provider"
+import type { SendMiddleware } from "./send-middleware"
+import { applySendMiddlewaresConfig, runSendMiddlewares } from "./send-middleware"
+
+describe("send middlewares", () => {
+	const tx = { hash: "0x01" } as EthereumTransaction
+
+	function createFunctionCall(send: jest.Mock): EthereumFunctionCall {
+		return {
+			getCallInfo: async () => ({ method: "mint", args: [], contract: "0x0", from: "0x1" }),
+			send,
+		} as unknown as EthereumFunctionCall
+	}
+
+	test("should run middlewares in order and send modified options", async () => {
+		const send = jest.fn().mockResolvedValue(tx)
+		const calls: string[] = []
+		const first: SendMiddleware = async (request, next) => {
+			calls.push("first")
+			const result = await next({ ...request, options: { ...request.options, gas: 100 } })
+			calls.push("first done")
+			return result
+		}
+		const second: SendMiddleware = async (request, next) => {
+			calls.push(`second ${request.callInfo.method}`)
+			return next(request)
+		}
+
+		const result = await runSendMiddlewares([first, second], createFunctionCall(send), { value: 1 })
+		expect(result).toBe(tx)
+		expect(send).toHaveBeenCalledWith({ value: 1, gas: 100 })
+		expect(calls).toEqual(["first", "second mint", "first done"])
+	})
+
+	test("should allow to short-circuit sending", async () => {
+		const send = jest.fn()
+		const dryRun: SendMiddleware = async () => tx
+
+		expect(await runSendMiddlewares([dryRun], createFunctionCall(send))).toBe(tx)
+		expect(send).not.toHaveBeenCalled()
+	})
+
+	test("should append custom middlewares or build chain from defaults", () => {
+		const a: SendMiddleware = (request, next) => next(request)
+		const b: SendMiddleware = (request, next) => next(request)
+
+		expect(applySendMiddlewaresConfig([a], [b])).toEqual([a, b])
+		expect(applySendMiddlewaresConfig([a], defaults => [b, ...defaults])).toEqual([b, a])
+		expect(applySendMiddlewaresConfig([a], undefined)).toEqual([a])
+	})
+})
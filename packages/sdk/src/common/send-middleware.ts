@@ -0,0 +1,202 @@
+import { toAddress, toBinary, toWord } from "@rarible/types"
+import type { GatewayControllerApi } from "@rarible/ethereum-api-client"
+import type {
+	EthereumFunctionCall,
+	EthereumFunctionCallInfo,
+	EthereumSendOptions,
+	EthereumTransaction,
+} from "@rarible/ethereum-provider"
+import { LogsLevel } from "../types"
+import type { ILoggerConfig } from "./logger/logger"
+import { getErrorMessageString } from "./logger/logger"
+import { estimateGas } from "./estimate-gas"
+import { toEthereumSdkError } from "./errors"
+import type { Eip1559FeeOptions } from "./fee-suggestion"
+import { applyFeeOptions } from "./fee-suggestion"
+import type { NonceManager } from "./nonce-manager"
+
+export type SendRequest = {
+	functionCall: EthereumFunctionCall
+	options?: EthereumSendOptions
+	/**
+	 * Info of the original function call, update it if functionCall is replaced
+	 */
+	callInfo: EthereumFunctionCallInfo
+}
+
+export type SendNext = (request: SendRequest) => Promise<EthereumTransaction>
+
+/**
+ * Step of sending sdk transactions. Middleware can modify request before passing it to `next`,
+ * return transaction without calling `next` or process transaction returned by `next`
+ */
+export type SendMiddleware = (request: SendRequest, next: SendNext) => Promise<EthereumTransaction>
+
+/**
+ * Middlewares added after the default ones (the closest to sending), or function which builds the whole chain
+ * from default middlewares. Defaults are created in this order by checkChainIdMiddleware, feeOptionsMiddleware,
+ * estimateGasMiddleware, logsMiddleware, pendingLogsMiddleware and nonceManagerMiddleware (if nonce manager is set)
+ */
+export type SendMiddlewaresConfig = SendMiddleware[] | ((defaults: SendMiddleware[]) => SendMiddleware[])
+
+export function applySendMiddlewaresConfig(
+	defaults: SendMiddleware[], config: SendMiddlewaresConfig | undefined,
+): SendMiddleware[] {
+	if (!config) {
+		return defaults
+	}
+	if (typeof config === "function") {
+		return config(defaults)
+	}
+	return [...defaults, ...config]
+}
+
+/**
+ * Run function call through middlewares, the last step sends the transaction
+ */
+export async function runSendMiddlewares(
+	middlewares: SendMiddleware[],
+	functionCall: EthereumFunctionCall,
+	options?: EthereumSendOptions,
+): Promise<EthereumTransaction> {
+	const dispatch = (index: number, request: SendRequest): Promise<EthereumTransaction> => {
+		if (index >= middlewares.length) {
+			return request.functionCall.send(request.options)
+		}
+		return middlewares[index](request, next => dispatch(index + 1, next))
+	}
+	return dispatch(0, { functionCall, options, callInfo: await functionCall.getCallInfo() })
+}
+
+export function checkChainIdMiddleware(checkChainId: () => Promise<boolean>): SendMiddleware {
+	return async (request, next) => {
+		await checkChainId()
+		return next(request)
+	}
+}
+
+export function feeOptionsMiddleware(
+	getFeeOptions: (() => Promise<Eip1559FeeOptions | undefined>) | undefined,
+): SendMiddleware {
+	return async (request, next) => {
+		return next({ ...request, options: await applyFeeOptions(request.options, getFeeOptions) })
+	}
+}
+
+export function estimateGasMiddleware(logger: ILoggerConfig | undefined): SendMiddleware {
+	return async (request, next) => {
+		const { functionCall, options, callInfo } = request
+		try {
+			await estimateGas(functionCall, { from: callInfo.from, value: options?.value }, logger)
+		} catch (e) {
+			console.error("EstimateGas failed with error", e)
+		}
+		return next(request)
+	}
+}
+
+/**
+ * Send remote logs of sent and failed transactions, errors are rethrown as sdk errors
+ */
+export function logsMiddleware(logger: ILoggerConfig | undefined): SendMiddleware {
+	return async (request, next) => {
+		const { functionCall, callInfo } = request
+		let tx: EthereumTransaction
+		try {
+			tx = await next(request)
+		} catch (err: any) {
+			try {
+				if (logger?.level && logger.level >= LogsLevel.ERROR) {
+					let data = undefined
+					try {
+						data = await functionCall.getData()
+					} catch (e: any) {
+						console.error("Unable to get tx data for log", e)
+					}
+
+					logger.instance.raw({
+						level: "ERROR",
+						method: callInfo.method,
+						message: getErrorMessageString(err),
+						from: callInfo.from,
+						provider: callInfo.provider,
+						args: JSON.stringify(callInfo.args),
+						data,
+					})
+				}
+			} catch (e) {
+				console.error("Error while sending logs", e, err)
+			}
+			throw toEthereumSdkError(err)
+		}
+		try {
+			if (logger?.level && logger.level >= LogsLevel.TRACE) {
+				logger.instance.raw({
+					level: "TRACE",
+					method: callInfo.method,
+					message: JSON.stringify(getTxData(tx)),
+					from: callInfo.from,
+					args: JSON.stringify(callInfo.args),
+					provider: callInfo.provider,
+				})
+			}
+		} catch (e) {
+			console.error("Error while sending logs", e)
+		}
+		return tx
+	}
+}
+
+export function pendingLogsMiddleware(api: GatewayControllerApi): SendMiddleware {
+	return async (request, next) => {
+		const tx = await next(request)
+		try {
+			await createPendingLogs(api, tx)
+		} catch (e) {
+			console.error("createPendingLogs error", e)
+		}
+		return tx
+	}
+}
+
+/**
+ * Send transaction with nonce reserved by nonce manager, if nonce is not set explicitly
+ */
+export function nonceManagerMiddleware(nonceManager: NonceManager): SendMiddleware {
+	return async (request, next) => {
+		if (request.options?.nonce !== undefined) {
+			return next(request)
+		}
+		const { from } = request.callInfo
+		const nonce = await nonceManager.reserve(from)
+		try {
+			const tx = await next({ ...request, options: { ...request.options, nonce } })
+			nonceManager.release(from, nonce, true)
+			return tx
+		} catch (e) {
+			nonceManager.release(from, nonce, false)
+			throw e
+		}
+	}
+}
+
+export async function createPendingLogs(api: GatewayControllerApi, tx: EthereumTransaction) {
+	const createTransactionRequest = {
+		hash: toWord(tx.hash),
+		from: toAddress(tx.from),
+		to: tx.to ? toAddress(tx.to) : undefined,
+		input: toBinary(tx.data),
+		nonce: tx.nonce,
+	}
+	return await api.createGatewayPendingTransactions({ createTransactionRequest })
+}
+
+function getTxData(tx: EthereumTransaction) {
+	return {
+		hash: tx.hash,
+		data: tx.data,
+		nonce: tx.nonce,
+		from: tx.from,
+		to: tx.to,
+	}
+}
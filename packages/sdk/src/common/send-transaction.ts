@@ -1,12 +1,21 @@
 import type { ContractSendMethod, SendOptions } from "web3-eth-contract"
 import type { PromiEvent, TransactionReceipt } from "web3-core"
-import { toAddress, toBinary, toWord } from "@rarible/types"
 import type { GatewayControllerApi } from "@rarible/ethereum-api-client"
 import type { EthereumFunctionCall, EthereumSendOptions, EthereumTransaction } from "@rarible/ethereum-provider"
-import { LogsLevel } from "../types"
 import type { ILoggerConfig } from "./logger/logger"
-import { getErrorMessageString } from "./logger/logger"
-import { estimateGas } from "./estimate-gas"
+import type { Eip1559FeeOptions } from "./fee-suggestion"
+import type { NonceManager } from "./nonce-manager"
+import type { SendMiddlewaresConfig } from "./send-middleware"
+import {
+	applySendMiddlewaresConfig,
+	checkChainIdMiddleware,
+	estimateGasMiddleware,
+	feeOptionsMiddleware,
+	logsMiddleware,
+	nonceManagerMiddleware,
+	pendingLogsMiddleware,
+	runSendMiddlewares,
+} from "./send-middleware"
 
 export type SendFunction = (
 	functionCall: EthereumFunctionCall, options?: EthereumSendOptions,
@@ -21,6 +30,9 @@ type SendMethod = (
 
 export function getSendWithInjects(injects: {
 	logger?: ILoggerConfig
+	getFeeOptions?: () => Promise<Eip1559FeeOptions | undefined>
+	nonceManager?: NonceManager
+	middlewares?: SendMiddlewaresConfig
 } = {}): SendMethod {
 	const logger = injects.logger
 
@@ -30,61 +42,18 @@ export function getSendWithInjects(injects: {
 		functionCall: EthereumFunctionCall,
 		options?: EthereumSendOptions
 	): Promise<EthereumTransaction> {
-		await checkChainId()
-		const callInfo = await functionCall.getCallInfo()
-
-		try {
-			await estimateGas(functionCall, { from: callInfo.from, value: options?.value }, logger)
-		} catch (e) {
-			console.error("EstimateGas failed with error", e)
-		}
-
-		try {
-			const tx = await functionCall.send(options)
-			try {
-			  await createPendingLogs(api, tx)
-			} catch (e) {
-				console.error("createPendingLogs error", e)
-			}
-			try {
-				if (logger?.level && logger.level >= LogsLevel.TRACE) {
-					logger.instance.raw({
-						level: "TRACE",
-						method: callInfo.method,
-						message: JSON.stringify(getTxData(tx)),
-						args: JSON.stringify(callInfo.args),
-						provider: callInfo.provider,
-					})
-				}
-			} catch (e) {
-				console.error("Error while sending logs", e)
-			}
-			return tx
-		} catch (err: any) {
-			try {
-				if (logger?.level && logger.level >= LogsLevel.ERROR) {
-					let data = undefined
-					try {
-						data = await functionCall.getData()
-					} catch (e: any) {
-						console.error("Unable to get tx data for log", e)
-					}
-
-					logger.instance.raw({
-						level: "ERROR",
-						method: callInfo.method,
-						message: getErrorMessageString(err),
-						from: callInfo.from,
-						provider: callInfo.provider,
-						args: JSON.stringify(callInfo.args),
-						data,
-					})
-				}
-			} catch (e) {
-				console.error("Error while sending logs", e, err)
-			}
-			throw err
+		const defaults = [
+			checkChainIdMiddleware(checkChainId),
+			feeOptionsMiddleware(injects.getFeeOptions),
+			estimateGasMiddleware(logger),
+			logsMiddleware(logger),
+			pendingLogsMiddleware(api),
+		]
+		if (injects.nonceManager) {
+			defaults.push(nonceManagerMiddleware(injects.nonceManager))
 		}
+		const middlewares = applySendMiddlewaresConfig(defaults, injects.middlewares)
+		return runSendMiddlewares(middlewares, functionCall, options)
 	}
 }
 
@@ -94,8 +63,14 @@ type SimpleSendMethod = (
 	options?: EthereumSendOptions,
 ) => Promise<EthereumTransaction>
 
+/**
+ * Send without chain id check and pending logs
+ */
 export function getSimpleSendWithInjects(injects: {
 	logger?: ILoggerConfig
+	getFeeOptions?: () => Promise<Eip1559FeeOptions | undefined>
+	nonceManager?: NonceManager
+	middlewares?: SendMiddlewaresConfig
 } = {}): SimpleSendMethod {
 	const logger = injects.logger
 
@@ -104,71 +79,20 @@ export function getSimpleSendWithInjects(injects: {
 		functionCall: EthereumFunctionCall,
 		options?: EthereumSendOptions,
 	) {
-		const callInfo = await functionCall.getCallInfo()
-
-		try {
-			await estimateGas(functionCall, { from: callInfo.from, value: options?.value }, logger)
-		} catch (e) {
-			console.error("EstimateGas failed with error", e)
-		}
-
-		try {
-			const tx = await functionCall.send(options)
-			try {
-				if (logger?.level && logger.level >= LogsLevel.TRACE) {
-					logger.instance.raw({
-						level: "TRACE",
-						method: callInfo.method,
-						from: callInfo.from,
-						provider: callInfo.provider,
-						args: JSON.stringify(callInfo.args),
-						message: JSON.stringify(getTxData(tx)),
-					})
-				}
-			} catch (e) {
-				console.error("Error while sending logs", e)
-			}
-			return tx
-		} catch (err: any) {
-			try {
-				if (logger?.level && logger.level >= LogsLevel.ERROR && callInfo) {
-					logger.instance.raw({
-						level: "ERROR",
-						method: callInfo.method,
-						from: callInfo.from,
-						provider: callInfo.provider,
-						args: JSON.stringify(callInfo.args),
-						error: getErrorMessageString(err),
-					})
-				}
-			} catch (e) {
-				console.error("Error while sending logs", e, err)
-			}
-			throw err
+		const defaults = [
+			feeOptionsMiddleware(injects.getFeeOptions),
+			estimateGasMiddleware(logger),
+			logsMiddleware(logger),
+		]
+		if (injects.nonceManager) {
+			defaults.push(nonceManagerMiddleware(injects.nonceManager))
 		}
+		const middlewares = applySendMiddlewaresConfig(defaults, injects.middlewares)
+		return runSendMiddlewares(middlewares, functionCall, options)
 	}
 }
 
-export async function createPendingLogs(api: GatewayControllerApi, tx: EthereumTransaction) {
-	const createTransactionRequest = {
-		hash: toWord(tx.hash),
-		from: toAddress(tx.from),
-		to: tx.to ? toAddress(tx.to) : undefined,
-		input: toBinary(tx.data),
-		nonce: tx.nonce,
-	}
-	return await api.createGatewayPendingTransactions({ createTransactionRequest })
-}
-
-function getTxData(tx: EthereumTransaction) {
-	return {
-		hash: tx.hash,
-		data: tx.data,
-		nonce: tx.nonce,
-		from: tx.from,
-		to: tx.to,
-	}
-}
+export { createPendingLogs } from "./send-middleware"
 
 export async function sentTx(source: ContractSendMethod, options: SendOptions): Promise<string> {
 	const event = source.send({ ...options, gas: 3000000 })
@@ -1,8 +1,8 @@
-import type { EthereumTransaction } from "@rarible/ethereum-provider"
+import type { EthereumTransaction, EthereumTransactionWaitOptions } from "@rarible/ethereum-provider"
 
-export async function waitTx(tx: Promise<EthereumTransaction | undefined>) {
+export async function waitTx(tx: Promise<EthereumTransaction | undefined>, options?: EthereumTransactionWaitOptions) {
 	const awaited = await tx
 	if (awaited !== undefined) {
-		await awaited.wait()
+		await awaited.wait(options)
 	}
 }
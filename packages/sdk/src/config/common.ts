@@ -1,2 +1,41 @@
+import { toAddress, toWord } from "@rarible/types"
+import type { SeaportConfig, SeaportProtocolConfig } from "./type"
+
 export const FEE_CONFIG_URL = "https://raw.githubusercontent.com/rarible/ethereum-sdk/master/packages/sdk/src/config/fees.json"
 export const FILL_CALLDATA_TAG = "09616c6c64617461"
+
+/**
+ * Seaport contracts are deployed to the same addresses in all public networks
+ */
+export const SEAPORT_V1_1: SeaportProtocolConfig = {
+	address: toAddress("0x00000000006c3852cbef3e08e8df289169ede581"),
+	version: "1.1",
+}
+export const SEAPORT_V1_4: SeaportProtocolConfig = {
+	address: toAddress("0x00000000000001ad428e4906ae43d8f9852d0dd6"),
+	version: "1.4",
+}
+export const SEAPORT_V1_5: SeaportProtocolConfig = {
+	address: toAddress("0x00000000000000adc04c56bf30ac9d3c0aaf14dc"),
+	version: "1.5",
+}
+
+const OPENSEA_CONDUIT_KEY = toWord("0x0000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f0000")
+
+export const SEAPORT_CONFIG: SeaportConfig = {
+	...SEAPORT_V1_5,
+	legacy: [SEAPORT_V1_1, SEAPORT_V1_4],
+	conduitKey: OPENSEA_CONDUIT_KEY,
+	conduits: {
+		[OPENSEA_CONDUIT_KEY]: toAddress("0x1e0049783f008a0085193e00003d00cd54003c71"),
+	},
+}
+
+/**
+ * Seaport config of private networks, only Seaport 1.1 is available there
+ */
+export const SEAPORT_V1_1_CONFIG: SeaportConfig = {
+	...SEAPORT_CONFIG,
+	...SEAPORT_V1_1,
+	legacy: [],
+}
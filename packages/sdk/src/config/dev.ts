@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_V1_1_CONFIG } from "./common"
 
 export const devEthereumConfig: EthereumConfig = {
 	basePath: "https://dev-ethereum-api.rarible.org",
@@ -38,6 +38,7 @@ export const devEthereumConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_V1_1_CONFIG,
 	weth: toAddress("0x55eB2809896aB7414706AaCDde63e3BBb26e0BC6"),
 	auction: ZERO_ADDRESS,
 }
@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_CONFIG } from "./common"
 
 export const mainnetConfig: EthereumConfig = {
 	basePath: "https://ethereum-api.rarible.org",
@@ -40,6 +40,7 @@ export const mainnetConfig: EthereumConfig = {
 		pairFactory: toAddress("0xb16c1342E617A5B6E4b631EB114483FDB289c0A4"),
 		pairRouter: toAddress("0x2b2e8cda09bba9660dca5cb6233787738ad68329"),
 	},
+	seaport: SEAPORT_CONFIG,
 	weth: toAddress("0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2"),
 	auction: ZERO_ADDRESS,
 }
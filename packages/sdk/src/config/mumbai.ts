@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_CONFIG } from "./common"
 
 export const mumbaiConfig: EthereumConfig = {
 	basePath: "https://testnet-polygon-api.rarible.org",
@@ -38,6 +38,7 @@ export const mumbaiConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_CONFIG,
 	weth: toAddress("0xa6fa4fb5f76172d178d61b04b0ecd319c5d1c0aa"),
 	auction: ZERO_ADDRESS,
 }
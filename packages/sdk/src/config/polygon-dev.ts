@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_V1_1_CONFIG } from "./common"
 
 export const devPolygonConfig: EthereumConfig = {
 	basePath: "https://dev-polygon-api.rarible.org",
@@ -38,6 +38,7 @@ export const devPolygonConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_V1_1_CONFIG,
 	weth: toAddress("0xb24740adECB71fEb7d66AA4EBD5F5c334E5bE922"),
 	auction: ZERO_ADDRESS,
 }
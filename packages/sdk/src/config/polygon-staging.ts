@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_V1_1_CONFIG } from "./common"
 
 export const stagingPolygonConfig: EthereumConfig = {
 	basePath: "https://staging-polygon-api.rarible.org",
@@ -38,6 +38,7 @@ export const stagingPolygonConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_V1_1_CONFIG,
 	weth: toAddress("0x85de069e16a42880c57b0D6451D6C770EC1D3Bf7"),
 	auction: ZERO_ADDRESS,
 }
@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_CONFIG } from "./common"
 
 export const polygonConfig: EthereumConfig = {
 	basePath: "https://polygon-api.rarible.org",
@@ -38,6 +38,7 @@ export const polygonConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_CONFIG,
 	weth: toAddress("0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619"),
 	auction: ZERO_ADDRESS,
 }
@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_V1_1_CONFIG } from "./common"
 
 export const stagingEthereumConfig: EthereumConfig = {
 	basePath: "https://staging-ethereum-api.rarible.org",
@@ -39,6 +39,7 @@ export const stagingEthereumConfig: EthereumConfig = {
 		pairFactory: ZERO_ADDRESS,
 		pairRouter: ZERO_ADDRESS,
 	},
+	seaport: SEAPORT_V1_1_CONFIG,
 	weth: toAddress("0x379B089471603E4c26BD503E6F6C419c1666f3A6"),
 	auction: ZERO_ADDRESS,
 }
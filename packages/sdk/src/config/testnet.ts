@@ -1,7 +1,7 @@
 import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import { id32 } from "../common/id"
 import type { EthereumConfig } from "./type"
-import { FEE_CONFIG_URL } from "./common"
+import { FEE_CONFIG_URL, SEAPORT_CONFIG } from "./common"
 
 export const testnetEthereumConfig: EthereumConfig = {
 	basePath: "https://testnet-ethereum-api.rarible.org",
@@ -40,6 +40,7 @@ export const testnetEthereumConfig: EthereumConfig = {
 		pairFactory: toAddress("0xF0202E9267930aE942F0667dC6d805057328F6dC"),
 		pairRouter: toAddress("0x25b4EfC43c9dCAe134233CD577fFca7CfAd6748F"),
 	},
+	seaport: SEAPORT_CONFIG,
 	weth: toAddress("0xb4fbf271143f4fbf7b91a5ded31805e42b2208d6"),
 	auction: ZERO_ADDRESS,
 }
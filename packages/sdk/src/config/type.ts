@@ -6,6 +6,12 @@ export type ExchangeAddresses = {
 	v2: Address
 	openseaV1: Address
 	wrapper: Address
+	/**
+	 * Exchange wrapper which accepts ERC-20 currencies (PurchaseDetails with paymentToken).
+	 * It's not set for any network: batch purchase of ERC-20 orders is opt-in,
+	 * pass the wrapper address with exchangeWrapperErc20 of the network in sdk config
+	 */
+	wrapperErc20?: Address
 	looksrare?: Address
 	x2y2: Address
 }
@@ -40,6 +46,29 @@ export type SudoswapConfig = {
 	pairRouter: Address
 }
 
+export type SeaportProtocolConfig = {
+	address: Address
+	/**
+	 * Version of the contract used in EIP-712 domain
+	 */
+	version: string
+}
+
+export type SeaportConfig = SeaportProtocolConfig & {
+	/**
+	 * Earlier Seaport contracts, orders of these contracts can be filled and cancelled, but aren't created
+	 */
+	legacy: SeaportProtocolConfig[]
+	/**
+	 * Conduit key used to create and fill orders
+	 */
+	conduitKey: Word
+	/**
+	 * Known conduits by conduit key, zero key means approvals are given to Seaport contract itself
+	 */
+	conduits: Record<string, Address>
+}
+
 export type EthereumConfig = {
 	basePath: string
 	chainId: number
@@ -52,4 +81,5 @@ export type EthereumConfig = {
 	auction: Address
 	cryptoPunks: CryptoPunksConfig
 	sudoswap: SudoswapConfig
+	seaport: SeaportConfig
 }
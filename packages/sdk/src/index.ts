@@ -1,6 +1,7 @@
-import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
+import type { Ethereum, EthereumTransaction, MulticallOptions } from "@rarible/ethereum-provider"
+import { MulticallEthereum } from "@rarible/ethereum-provider"
 import type { Address, AssetType, OrderForm } from "@rarible/ethereum-api-client"
-import type { BigNumber } from "@rarible/types"
+import type { BigNumber, Word } from "@rarible/types"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { BigNumberValue } from "@rarible/utils/build/bn"
 import { getEthereumConfig } from "./config"
@@ -12,6 +13,15 @@ import { OrderSell } from "./order/sell"
 import { signOrder as signOrderTemplate } from "./order/sign-order"
 import type { BidOrderAction, BidUpdateOrderAction } from "./order/bid"
 import { OrderBid } from "./order/bid"
+import type {
+	SeaportBidOrderAction,
+	SeaportBulkSellOrderAction,
+	SeaportSellOrderAction,
+} from "./order/seaport-order"
+import { OrderSeaport } from "./order/seaport-order"
+import type { LooksrareSellOrderAction } from "./order/looksrare-order"
+import { OrderLooksrare } from "./order/looksrare-order"
+import { LooksrareNonceTracker } from "./order/fill-order/looksrare-utils/nonce-tracker"
 import * as order from "./order"
 import { checkAssetType as checkAssetTypeTemplate } from "./order/check-asset-type"
 import type { MintOffChainResponse, MintOnChainResponse, MintRequest } from "./nft/mint"
@@ -24,14 +34,23 @@ import { burn as burnTemplate } from "./nft/burn"
 import type { RaribleEthereumApis } from "./common/apis"
 import { createEthereumApis } from "./common/apis"
 import { getSendWithInjects } from "./common/send-transaction"
-import { cancel as cancelTemplate } from "./order/cancel"
+import { createFeeResolver } from "./common/fee-suggestion"
+import type { PreparedTransaction } from "./common/dry-run-send"
+import { createPrepareMiddleware } from "./common/dry-run-send"
+import { cancel as cancelTemplate, cancelAllOrders, cancelBatch } from "./order/cancel"
+import type { CancelAllOrdersType, CancelBatchResult } from "./order/cancel"
 import type {
 	FillBatchOrderAction,
+	FillBatchOrderWithReportAction,
 	FillOrderAction,
 	GetOrderBuyTxData,
 	GetOrderFillTxData,
+	SimulateOrderFill,
 } from "./order/fill-order/types"
 import type { SimpleOrder } from "./order/types"
+import type { ValidateOrderAction } from "./order/validate-order"
+import { OrderValidator } from "./order/validate-order"
+import { hashOrder, hashOrderToSign } from "./order/hash-order"
 import { OrderFiller } from "./order/fill-order"
 import { getBaseFee } from "./common/get-base-fee"
 import { DeployErc721 } from "./nft/deploy-erc721"
@@ -78,6 +97,32 @@ export interface RaribleOrderSdk {
 	 */
 	bidUpdate: BidUpdateOrderAction
 
+	/**
+	 * Sell asset with Seaport order (check if approval is needed and sign the order)
+	 * Returned order is not published anywhere, it can be passed to buy or cancel as is
+	 * If request.end is not specified order expires in 30 days
+	 */
+	sellSeaport: SeaportSellOrderAction
+
+	/**
+	 * Sell many assets with Seaport orders signed with one signature (BulkOrder, Seaport 1.4+ is required)
+	 * Approval is requested once per collection, returned orders contain own signature with merkle proof
+	 */
+	sellSeaportBulk: SeaportBulkSellOrderAction
+
+	/**
+	 * Create Seaport bid (check if approval is needed and sign the order)
+	 * Returned order is not published anywhere, it can be passed to cancel as is
+	 * If request.end is not specified order expires in 30 days
+	 */
+	bidSeaport: SeaportBidOrderAction
+
+	/**
+	 * Sell asset with LooksRare order (check if approval is needed and sign the order)
+	 * Returned order is not published anywhere, it can be passed to buy or cancel as is
+	 */
+	sellLooksrare: LooksrareSellOrderAction
+
 	/**
 	 * Fill order (buy or accept bid - depending on the order type)
 	 *
@@ -102,11 +147,21 @@ export interface RaribleOrderSdk {
 
 	/**
 	 * Purchase batch
+	 * Orders can be priced in ETH and ERC-20 tokens, required allowances are approved to exchange wrapper.
+	 * ERC-20 currencies are supported only for RARIBLE_V2 and SEAPORT_V1 orders, and they are opt-in:
+	 * the ERC-20 exchange wrapper should be set with exchangeWrapperErc20 of the network in sdk config
 	 *
 	 * @param request array of order and parameters (amount to fill, fees etc)
 	 */
 	buyBatch: FillBatchOrderAction
 
+	/**
+	 * Purchase batch and get result of every order (filled or failed with reason and refund)
+	 *
+	 * @param request orders with parameters and allowFail flag
+	 */
+	buyBatchWithReport: FillBatchOrderWithReportAction
+
 	/**
    * Get fill transaction data (for external sending)
    *
@@ -121,6 +176,37 @@ export interface RaribleOrderSdk {
    */
 	getBuyTxData: GetOrderBuyTxData
 
+	/**
+	 * Check if order can be filled by the connected wallet without sending any transaction:
+	 * revert reason, missing approvals, insufficient balance, start/end dates and gas estimate
+	 *
+	 * @param request order and parameters (amount to fill, fees etc)
+	 */
+	simulateFill: SimulateOrderFill
+
+	/**
+	 * Check if order can be filled by anyone: maker signature, maker balance and approval,
+	 * start/end dates and not filled or cancelled part of the order. Works with readonly ethereum.
+	 * Signature and filled part are checked for RARIBLE_V2, SEAPORT_V1 and LOOKSRARE orders,
+	 * other orders are checked for dates and maker balance/approval only and have "unknown" on-chain status
+	 *
+	 * @param order order to validate
+	 */
+	validate: ValidateOrderAction
+
+	/**
+	 * Get order hash used by the order protocol on-chain (e.g. in Match or OrderFulfilled events),
+	 * or X2Y2 item hash, computed without network requests and connected wallet.
+	 * Not supported for CRYPTO_PUNK and AMM orders
+	 */
+	getHash(order: SimpleOrder): Word
+
+	/**
+	 * Get digest signed by the order maker (EIP-712 digest or hash of the signed personal message),
+	 * for X2Y2 orders it is the item hash
+	 */
+	getSigningHash(order: SimpleOrder): Word
+
 	/**
 	 * Sell or create bid. Low-level method
 	 */
@@ -140,6 +226,18 @@ export interface RaribleOrderSdk {
 	 * Cancel order
 	 */
 	cancel(order: SimpleOrder): Promise<EthereumTransaction>
+
+	/**
+	 * Cancel orders with one transaction per protocol if protocol supports it (Seaport, LooksRare,
+	 * X2Y2 orders with the same X2Y2 cancel signature),
+	 * orders of other protocols are cancelled with separate transactions
+	 */
+	cancelBatch(orders: SimpleOrder[]): Promise<CancelBatchResult>
+
+	/**
+	 * Cancel all orders of the connected wallet on Seaport or LooksRare with a single transaction
+	 */
+	cancelAll(type: CancelAllOrdersType): Promise<EthereumTransaction>
 }
 
 export interface RaribleNftSdk {
@@ -235,10 +333,11 @@ export interface RaribleSdk {
 
 // noinspection JSUnusedGlobalSymbols
 export function createRaribleSdk(
-	ethereum: Maybe<Ethereum>,
+	provider: Maybe<Ethereum>,
 	env: EthereumNetwork,
 	sdkConfig?: IRaribleEthereumSdkConfig
 ): RaribleSdk {
+	const ethereum = withMulticall(provider, sdkConfig?.multicall)
 	const config = getEthereumConfig(env)
 	const apis = createEthereumApis(env, sdkConfig?.apiClientParams)
 	const checkWalletChainId = checkChainId.bind(null, ethereum, config)
@@ -248,6 +347,9 @@ export function createRaribleSdk(
 			instance: createRemoteLogger({ethereum, env: getEnvironment(env), sessionId: sdkConfig?.logs?.session}),
 			level: sdkConfig?.logs?.level ?? LogsLevel.DISABLED,
 		},
+		getFeeOptions: sdkConfig?.gasFeePolicy ? createFeeResolver(ethereum, sdkConfig.gasFeePolicy) : undefined,
+		nonceManager: sdkConfig?.nonceManager,
+		middlewares: sdkConfig?.sendMiddlewares,
 	}), apis.gateway)
 
 	const send = partialCall(sendWithInjects, checkWalletChainId)
@@ -283,7 +385,26 @@ export function createRaribleSdk(
 
 	const sellService = new OrderSell(upsertService, checkAssetType, checkWalletChainId)
 	const bidService = new OrderBid(upsertService, checkAssetType, checkWalletChainId)
+	const seaportService = new OrderSeaport(
+		ethereum,
+		send,
+		config.seaport,
+		upsertService,
+		checkAssetType,
+		checkWalletChainId,
+	)
+	const looksrareNonces = new LooksrareNonceTracker()
+	const looksrareService = new OrderLooksrare(
+		ethereum,
+		send,
+		config,
+		upsertService,
+		checkAssetType,
+		checkWalletChainId,
+		looksrareNonces,
+	)
 	const wethConverter = new ConvertWeth(ethereum, send, config)
+	const orderValidator = new OrderValidator(ethereum, config)
 	const startAuctionService = new StartAuction(ethereum, send, config, env, approveFn, apis)
 	const putAuctionBidService = new PutAuctionBid(ethereum, send, config, env, approveFn, apis)
 	const buyOutAuctionService = new BuyoutAuction(ethereum, send, config, env, approveFn, apis)
@@ -296,13 +417,30 @@ export function createRaribleSdk(
 			fill: filler.fill,
 			buy: filler.buy,
 			buyBatch: buyBatchService.buy,
+			buyBatchWithReport: buyBatchService.buyWithReport,
 			acceptBid: filler.acceptBid,
 			getFillTxData: filler.getTransactionData,
+			simulateFill: filler.simulateFill,
+			validate: orderValidator.validate,
+			getHash: order => hashOrder(config, order),
+			getSigningHash: order => hashOrderToSign(config, order),
 			getBuyTxData: filler.getBuyTx,
 			bid: bidService.bid,
 			bidUpdate: bidService.update,
+			sellSeaport: seaportService.sell,
+			sellSeaportBulk: seaportService.sellBulk,
+			bidSeaport: seaportService.bid,
+			sellLooksrare: looksrareService.sell,
 			upsert: upsertService.upsert,
-			cancel: partialCall(cancelTemplate, checkLazyOrder, ethereum, send, config.exchange, checkWalletChainId, apis),
+			cancel: partialCall(
+				cancelTemplate, checkLazyOrder, ethereum, send, config.exchange, config.seaport, checkWalletChainId, apis,
+			),
+			cancelBatch: partialCall(
+				cancelBatch, checkLazyOrder, ethereum, send, config.exchange, config.seaport, checkWalletChainId, apis,
+			),
+			cancelAll: partialCall(
+				cancelAllOrders, ethereum, send, config.exchange, config.seaport, looksrareNonces, checkWalletChainId,
+			),
 			getBaseOrderFee: getBaseOrderFee,
 			getBaseOrderFillFee: filler.getBaseOrderFillFee,
 		},
@@ -371,6 +509,30 @@ export function createRaribleSdk(
 	}
 }
 
+/**
+ * Run sdk actions without sending transactions, e.g. to sign them with external signer (HSM).
+ * Transactions are collected in the order they would be sent and reported as mined immediately,
+ * so multi-step actions (approve + fill) are prepared completely.
+ * Custom send middlewares of sdkConfig are not used
+ * @param ethereum account which will send transactions, can be RpcReadonlyEthereum with `from` address
+ * @param env environment
+ * @param action runs sdk methods, e.g. `sdk => sdk.nft.transfer(asset, to)`
+ * @param sdkConfig sdk config
+ * @returns unsigned transactions
+ */
+export async function prepareTransactions(
+	ethereum: Ethereum,
+	env: EthereumNetwork,
+	action: (sdk: RaribleSdk) => Promise<unknown>,
+	sdkConfig?: IRaribleEthereumSdkConfig,
+): Promise<PreparedTransaction[]> {
+	await checkChainId(ethereum, getEthereumConfig(env))
+	const { middleware, transactions } = createPrepareMiddleware()
+	const sdk = createRaribleSdk(ethereum, env, { ...sdkConfig, sendMiddlewares: () => [middleware] })
+	await action(sdk)
+	return transactions
+}
+
 type Arr = readonly unknown[]
 
 function partialCall<T extends Arr, U extends Arr, R>(
@@ -379,6 +541,13 @@ function partialCall<T extends Arr, U extends Arr, R>(
 	return (...tailArgs: U) => f(...headArgs, ...tailArgs)
 }
 
+function withMulticall(ethereum: Maybe<Ethereum>, multicall: boolean | MulticallOptions | undefined): Maybe<Ethereum> {
+	if (!ethereum || !multicall) {
+		return ethereum
+	}
+	return new MulticallEthereum(ethereum, multicall === true ? {} : multicall)
+}
+
 export {
 	isErc1155v2Collection,
 	isErc721v2Collection,
@@ -391,3 +560,18 @@ export * from "./order/is-nft"
 export * from "./common/get-ownership-id"
 export * from "./common/parse-item-id"
 export * from "./common/parse-ownership-id"
+export * from "./common/errors"
+export { getFeeSuggestion } from "./common/fee-suggestion"
+export { NonceManager } from "./common/nonce-manager"
+export type { NonceQueueState } from "./common/nonce-manager"
+export * from "./common/send-middleware"
+export type { PreparedTransaction } from "./common/dry-run-send"
+export type { OrderValidationProblem, OrderValidationResult } from "./order/validate-order"
+export type { CancelAllOrdersType, CancelBatchResult } from "./order/cancel"
+export type { Eip1559FeeOptions, GasFeePolicy, GasFeeSpeed } from "./common/fee-suggestion"
+export { MulticallEthereum, TransactionWaitError } from "@rarible/ethereum-provider"
+export type {
+	EthereumTransactionWaitOptions,
+	MulticallOptions,
+	TransactionWaitFailReason,
+} from "@rarible/ethereum-provider"
@@ -11,6 +11,7 @@ import type { SendFunction } from "../common/send-transaction"
 import { getOwnershipId } from "../common/get-ownership-id"
 import type { RaribleEthereumApis } from "../common/apis"
 import { createItemId } from "../common/create-item-id"
+import { WalletNotConnectedError, withSdkError } from "../common/errors"
 import { getErc721Contract } from "./contracts/erc721"
 import { ERC1155VersionEnum, ERC721VersionEnum } from "./contracts/domain"
 import { getErc1155Contract } from "./contracts/erc1155"
@@ -32,7 +33,7 @@ export async function burn(
 ): Promise<EthereumTransaction | void> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const checked = await checkAssetType(request.assetType)
 	const from = toAddress(await ethereum.getFrom())
@@ -56,7 +57,9 @@ export async function burn(
 				burnLazyNftForm: {
 					creators,
 					signatures: [
-						toBinary(await ethereum.personalSign(`I would like to burn my ${request.assetType.tokenId} item.`)),
+						toBinary(await withSdkError(
+							ethereum.personalSign(`I would like to burn my ${request.assetType.tokenId} item.`)
+						)),
 					],
 				},
 			})
@@ -4,6 +4,7 @@ import type { Ethereum } from "@rarible/ethereum-provider"
 import type { Address } from "@rarible/types"
 import { ZERO_ADDRESS } from "@rarible/types"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { createCryptoPunksWrapperContract } from "./contracts/cryptoPunks/cryptopunk-wrapper"
 import { createCryptoPunksMarketContract } from "./contracts/cryptoPunks"
 
@@ -17,7 +18,7 @@ export async function approveForWrapper(
 ): Promise<EthereumTransaction | null> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 
 	if (wrapperContractAddress === ZERO_ADDRESS) {
@@ -59,7 +60,7 @@ export async function wrapPunk(
 ): Promise<EthereumTransaction> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 
 	const wrapperContract = createCryptoPunksWrapperContract(
@@ -79,7 +80,7 @@ export async function unwrapPunk(
 ): Promise<EthereumTransaction> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const wrapperContract = createCryptoPunksWrapperContract(
 		ethereum,
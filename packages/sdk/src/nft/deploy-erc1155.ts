@@ -5,6 +5,7 @@ import type { Maybe } from "@rarible/types/build/maybe"
 import type { SendFunction } from "../common/send-transaction"
 import type { EthereumConfig } from "../config/type"
 import { checkChainId } from "../order/check-chain-id"
+import { WalletNotConnectedError } from "../common/errors"
 import { createErc1155FactoryContract } from "./contracts/erc1155/deploy/rarible-factory"
 import { createErc1155UserFactoryContract } from "./contracts/erc1155/deploy/rarible-user-factory"
 
@@ -23,7 +24,7 @@ export class DeployErc1155 {
 	): Promise<{tx: EthereumTransaction, address: Address}> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc1155FactoryContract(this.ethereum, this.config.factories.erc1155)
 		const salt = randomWord()
@@ -40,7 +41,7 @@ export class DeployErc1155 {
 	): Promise<Address> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc1155FactoryContract(this.ethereum, this.config.factories.erc1155)
 		return contract.functionCall("getAddress", name, symbol, baseURI, contractURI, salt).call()
@@ -51,7 +52,7 @@ export class DeployErc1155 {
 	): Promise<{tx: EthereumTransaction, address: Address}> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc1155UserFactoryContract(this.ethereum,  this.config.factories.erc1155)
 		const salt = randomWord()
@@ -68,7 +69,7 @@ export class DeployErc1155 {
 	): Promise<Address> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc1155UserFactoryContract(this.ethereum, this.config.factories.erc1155)
 		return contract.functionCall("getAddress", name, symbol, baseURI, contractURI, operators, salt)
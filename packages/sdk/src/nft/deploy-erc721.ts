@@ -5,6 +5,7 @@ import type { Maybe } from "@rarible/types/build/maybe"
 import type { SendFunction } from "../common/send-transaction"
 import type { EthereumConfig } from "../config/type"
 import { checkChainId } from "../order/check-chain-id"
+import { WalletNotConnectedError } from "../common/errors"
 import { createErc721FactoryContract } from "./contracts/erc721/deploy/rarible-factory"
 import { createErc721UserFactoryContract } from "./contracts/erc721/deploy/rarible-user-factory"
 
@@ -22,7 +23,7 @@ export class DeployErc721 {
 		name: string, symbol: string, baseURI: string, contractURI: string
 	): Promise<{tx: EthereumTransaction, address: Address}> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc721FactoryContract(this.ethereum, this.config.factories.erc721)
 		const salt = randomWord()
@@ -38,7 +39,7 @@ export class DeployErc721 {
 		name: string, symbol: string, baseURI: string, contractURI: string, salt: Word
 	): Promise<Address> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc721FactoryContract(this.ethereum, this.config.factories.erc721)
 		return contract.functionCall("getAddress", name, symbol, baseURI, contractURI, salt).call()
@@ -49,7 +50,7 @@ export class DeployErc721 {
 	): Promise<{tx: EthereumTransaction, address: Address}> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc721UserFactoryContract(this.ethereum, this.config.factories.erc721)
 		const salt = randomWord()
@@ -66,7 +67,7 @@ export class DeployErc721 {
 	): Promise<Address> {
 		await checkChainId(this.ethereum, this.config)
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createErc721UserFactoryContract(this.ethereum, this.config.factories.erc721)
 		return contract.functionCall("getAddress", name, symbol, baseURI, contractURI, operators, salt).call()
@@ -13,6 +13,7 @@ import type { Maybe } from "@rarible/types/build/maybe"
 import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
 import type { SendFunction } from "../common/send-transaction"
 import type { CommonNftCollection } from "../common/mint"
+import { WalletNotConnectedError } from "../common/errors"
 import { mintOffChain } from "./mint-off-chain"
 import { mintErc1155v1, mintErc1155v2, mintErc721v1, mintErc721v2, mintErc721v3 } from "./mint-on-chain"
 import type { SimpleLazyNft } from "./sign-nft"
@@ -97,7 +98,7 @@ export async function mint(
 ): Promise<MintOffChainResponse | MintOnChainResponse> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	if (isERC1155Request(data)) {
 		if (isERC1155v2Request(data)) {
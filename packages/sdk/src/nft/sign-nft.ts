@@ -4,6 +4,7 @@ import { toBinary } from "@rarible/types"
 import type { Ethereum } from "@rarible/ethereum-provider"
 import type { TypedMessage } from "eth-sig-util"
 import type { Maybe } from "@rarible/types/build/maybe"
+import { WalletNotConnectedError, withSdkError } from "../common/errors"
 import {
 	EIP1155_DOMAIN_NFT_TEMPLATE,
 	EIP1155_NFT_TYPE,
@@ -17,7 +18,7 @@ export type SimpleLazyNft<K extends keyof any> = Omit<LazyErc721, K> | Omit<Lazy
 
 export async function signNft(ethereum: Maybe<Ethereum>, chainId: number, nft: SimpleLazyNft<"signatures">): Promise<Binary> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	switch (nft["@type"]) {
 		case "ERC721": {
@@ -32,7 +33,7 @@ export async function signNft(ethereum: Maybe<Ethereum>, chainId: number, nft: S
 					tokenURI: nft.uri,
 				},
 			}
-			return toBinary(await ethereum.signTypedData(data))
+			return toBinary(await withSdkError(ethereum.signTypedData(data)))
 		}
 		case "ERC1155": {
 			const domain = createEIP712NftDomain(chainId, nft.contract, "ERC1155")
@@ -46,7 +47,7 @@ export async function signNft(ethereum: Maybe<Ethereum>, chainId: number, nft: S
 					tokenURI: nft.uri,
 				},
 			}
-			return toBinary(await ethereum.signTypedData(data))
+			return toBinary(await withSdkError(ethereum.signTypedData(data)))
 		}
 		default: {
 			throw new Error("Unexpected")
@@ -13,6 +13,7 @@ import type { Maybe } from "@rarible/types/build/maybe"
 import type { CheckAssetTypeFunction, NftAssetType } from "../order/check-asset-type"
 import { getOwnershipId } from "../common/get-ownership-id"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { transferErc721 } from "./transfer-erc721"
 import { transferErc1155 } from "./transfer-erc1155"
 import { transferNftLazy } from "./transfer-nft-lazy"
@@ -33,7 +34,7 @@ export async function transfer(
 ): Promise<EthereumTransaction> {
 	await checkWalletChainId()
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const from = toAddress(await ethereum.getFrom())
 	const ownership = await nftOwnershipApi.getNftOwnershipByIdRaw({
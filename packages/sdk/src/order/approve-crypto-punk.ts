@@ -3,6 +3,7 @@ import type { Address } from "@rarible/ethereum-api-client"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { SendFunction } from "../common/send-transaction"
 import { createCryptoPunksMarketContract } from "../nft/contracts/cryptoPunks"
+import { WalletNotConnectedError } from "../common/errors"
 
 export async function approveCryptoPunk(
 	ethereum: Maybe<Ethereum>,
@@ -13,7 +14,7 @@ export async function approveCryptoPunk(
 	punkIndex: number,
 ): Promise<EthereumTransaction | undefined> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const marketContract = createCryptoPunksMarketContract(ethereum, contractAddress)
 	const offer = await marketContract.functionCall("punksOfferedForSale", punkIndex).call()
@@ -3,6 +3,7 @@ import type { EthereumTransaction } from "@rarible/ethereum-provider"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { Ethereum } from "../../../ethereum-provider"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { createErc1155Contract } from "./contracts/erc1155"
 
 export async function approveErc1155(
@@ -13,7 +14,7 @@ export async function approveErc1155(
 	operator: Address
 ): Promise<EthereumTransaction | undefined> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const erc1155 = createErc1155Contract(ethereum, contract)
 	const allowance: boolean = await erc1155.functionCall("isApprovedForAll", owner, operator).call()
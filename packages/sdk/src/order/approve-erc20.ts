@@ -4,6 +4,7 @@ import type { BigNumberValue} from "@rarible/utils/build/bn"
 import type { Maybe } from "@rarible/types/build/maybe"
 import { toBn } from "@rarible/utils/build/bn"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { createErc20Contract } from "./contracts/erc20"
 
 const infiniteBn = toBn(2).pow(256).minus(1)
@@ -18,7 +19,7 @@ export async function approveErc20(
 	infinite: boolean = true
 ): Promise<EthereumTransaction | undefined> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const erc20 = createErc20Contract(ethereum, contract)
 	const allowance = toBn(await erc20.functionCall("allowance", owner, operator).call())
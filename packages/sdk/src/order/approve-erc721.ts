@@ -2,6 +2,7 @@ import type { Address } from "@rarible/ethereum-api-client"
 import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { createErc721Contract } from "./contracts/erc721"
 
 export async function approveErc721(
@@ -12,7 +13,7 @@ export async function approveErc721(
 	operator: Address
 ): Promise<EthereumTransaction | undefined> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	const erc721 = createErc721Contract(ethereum, contract)
 	const allowance: boolean = await erc721.functionCall("isApprovedForAll", owner, operator).call()
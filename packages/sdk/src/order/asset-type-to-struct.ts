@@ -1,8 +1,8 @@
 import type { AssetType } from "@rarible/ethereum-api-client"
-import type { Ethereum } from "@rarible/ethereum-provider"
 import { id } from "../common/id"
+import type { AbiEncoder } from "../common/abi-encoder"
 
-export function assetTypeToStruct(ethereum: Ethereum, assetType: AssetType) {
+export function assetTypeToStruct(ethereum: AbiEncoder, assetType: AssetType) {
 	switch (assetType.assetClass) {
 		case "ETH":
 			return {
@@ -0,0 +1,250 @@
+import { createGanacheProvider } from "@rarible/ethereum-sdk-test-common"
+import Web3 from "web3"
+import { ethers } from "ethers"
+import { Web3Ethereum } from "@rarible/web3-ethereum"
+import { EthersEthereum } from "@rarible/ethers-ethereum"
+import { randomAddress, randomWord, toAddress, toBigNumber, toBinary, ZERO_ADDRESS, ZERO_WORD } from "@rarible/types"
+import { SeaportItemType, SeaportOrderType } from "@rarible/ethereum-api-client"
+import type { Address, Word } from "@rarible/types"
+import type { EthereumFunctionCall, EthereumTransaction } from "@rarible/ethereum-provider"
+import { getEthereumConfig } from "../config"
+import { SEAPORT_CONFIG, SEAPORT_V1_1 } from "../config/common"
+import { createEthereumApis } from "../common/apis"
+import { cancelAllOrders, cancelBatch } from "./cancel"
+import { LooksrareNonceTracker } from "./fill-order/looksrare-utils/nonce-tracker"
+import { convertAPIOrderToSeaport } from "./fill-order/seaport-utils/convert-to-seaport-order"
+import { TEST_ORDER_TEMPLATE } from "./test/order"
+import type { SimpleLooksrareOrder, SimpleOrder, SimpleSeaportV1Order, SimpleX2Y2Order } from "./types"
+
+describe("cancel batch", () => {
+	const { provider, addresses, wallets } = createGanacheProvider()
+	const web3 = new Web3(provider as any)
+	const ethereum = new Web3Ethereum({ web3, from: addresses[0] })
+	const config = getEthereumConfig("dev-ethereum")
+	const apis = createEthereumApis("dev-ethereum")
+	const looksrare = randomAddress()
+
+	function createSend() {
+		const calls: { method: string, contract: string, args: any[] }[] = []
+		const send = async (functionCall: EthereumFunctionCall) => {
+			const { method, contract, args } = await functionCall.getCallInfo()
+			calls.push({ method, contract: contract.toLowerCase(), args })
+			return { hash: `0x0${calls.length}` } as EthereumTransaction
+		}
+		return { calls, send }
+	}
+
+	function createLooksrareOrder(nonce: number): SimpleLooksrareOrder {
+		return {
+			...TEST_ORDER_TEMPLATE,
+			type: "LOOKSRARE",
+			take: { assetType: { assetClass: "ETH" }, value: toBigNumber("100") },
+			salt: ZERO_WORD,
+			data: {
+				dataType: "LOOKSRARE_DATA_V1",
+				minPercentageToAsk: 8500,
+				strategy: randomAddress(),
+				nonce,
+			},
+			signature: toBinary("0x"),
+		}
+	}
+
+	test("should cancel orders of batch-capable protocol with one transaction", async () => {
+		const { calls, send } = createSend()
+		const raribleOrder: SimpleOrder = {
+			...TEST_ORDER_TEMPLATE,
+			type: "RARIBLE_V2",
+			data: { dataType: "RARIBLE_V2_DATA_V1", payouts: [], originFees: [] },
+			maker: toAddress(addresses[0]),
+		}
+		const looksrareOrders = [createLooksrareOrder(1), createLooksrareOrder(2)]
+
+		const result = await cancelBatch(
+			async order => order,
+			ethereum,
+			send,
+			{ ...config.exchange, looksrare },
+			config.seaport,
+			async () => true,
+			apis,
+			[looksrareOrders[0], raribleOrder, looksrareOrders[1]],
+		)
+
+		expect(result.map(({ type, orders }) => ({ type, orders }))).toEqual([
+			{ type: "LOOKSRARE", orders: looksrareOrders },
+			{ type: "RARIBLE_V2", orders: [raribleOrder] },
+		])
+		expect(calls.map(call => call.method)).toEqual(["cancelMultipleMakerOrders", "cancel"])
+		expect(calls[0].args).toEqual([[1, 2]])
+	})
+
+	function createSeaportOrder(protocol: Address): SimpleSeaportV1Order {
+		return {
+			...TEST_ORDER_TEMPLATE,
+			type: "SEAPORT_V1",
+			take: { assetType: { assetClass: "ETH" }, value: toBigNumber("100") },
+			salt: randomWord(),
+			start: 1657711513,
+			end: 1660303513,
+			signature: toBinary("0x"),
+			data: {
+				dataType: "BASIC_SEAPORT_DATA_V1",
+				protocol,
+				orderType: SeaportOrderType.FULL_OPEN,
+				offer: [{
+					itemType: SeaportItemType.ERC721,
+					token: toAddress("0x0000000000000000000000000000000000000001"),
+					identifierOrCriteria: toBigNumber("10"),
+					startAmount: toBigNumber("1"),
+					endAmount: toBigNumber("1"),
+				}],
+				consideration: [{
+					itemType: SeaportItemType.NATIVE,
+					token: ZERO_ADDRESS,
+					identifierOrCriteria: toBigNumber("0"),
+					startAmount: toBigNumber("100"),
+					endAmount: toBigNumber("100"),
+					recipient: TEST_ORDER_TEMPLATE.maker,
+				}],
+				zone: ZERO_ADDRESS,
+				zoneHash: ZERO_WORD,
+				conduitKey: ZERO_WORD,
+				counter: 0,
+			},
+		}
+	}
+
+	test("should cancel seaport orders with one transaction per Seaport contract", async () => {
+		const { calls, send } = createSend()
+		const current = [createSeaportOrder(SEAPORT_CONFIG.address), createSeaportOrder(SEAPORT_CONFIG.address)]
+		const legacy = createSeaportOrder(SEAPORT_V1_1.address)
+
+		const result = await cancelBatch(
+			async order => order,
+			ethereum,
+			send,
+			config.exchange,
+			SEAPORT_CONFIG,
+			async () => true,
+			apis,
+			[current[0], legacy, current[1]],
+		)
+
+		expect(result.map(({ type, orders }) => ({ type, orders }))).toEqual([
+			{ type: "SEAPORT_V1", orders: current },
+			{ type: "SEAPORT_V1", orders: [legacy] },
+		])
+		expect(calls).toEqual([{
+			method: "cancel",
+			contract: SEAPORT_CONFIG.address.toLowerCase(),
+			args: [current.map(order => convertAPIOrderToSeaport(order).parameters)],
+		}, {
+			method: "cancel",
+			contract: SEAPORT_V1_1.address.toLowerCase(),
+			args: [[convertAPIOrderToSeaport(legacy).parameters]],
+		}])
+	})
+
+	test("should cancel x2y2 orders signed together with one transaction", async () => {
+		const x2y2Ethereum = new EthersEthereum(
+			new ethers.Wallet(wallets[0].getPrivateKey(), new ethers.providers.Web3Provider(provider as any))
+		)
+		const { calls, send } = createSend()
+		const orders: SimpleX2Y2Order[] = [1, 2, 3].map(orderId => ({
+			...TEST_ORDER_TEMPLATE,
+			type: "X2Y2",
+			data: {
+				dataType: "X2Y2_DATA",
+				itemHash: randomWord(),
+				isCollectionOffer: false,
+				isBundle: false,
+				side: 1,
+				orderId: toBigNumber(orderId.toString()),
+			},
+		}))
+		const [batchSignature, otherSignature] = [randomWord(), randomWord()]
+		const requests: { orderId: string, sign: string }[] = []
+		jest.spyOn(apis.orderSignature, "cancelSignX2Y2").mockImplementation(async ({ x2Y2GetCancelInputRequest }) => {
+			const { orderId, sign } = x2Y2GetCancelInputRequest
+			requests.push({ orderId: orderId.toString(), sign })
+			// X2Y2 signs the first two orders together
+			const signed = orderId.toString() === "3" ? [orders[2]] : orders.slice(0, 2)
+			return { input: encodeX2Y2CancelInput(signed, signed.length === 1 ? otherSignature : batchSignature) }
+		})
+
+		const result = await cancelBatch(
+			async order => order,
+			x2y2Ethereum,
+			send,
+			config.exchange,
+			config.seaport,
+			async () => true,
+			apis,
+			orders,
+		)
+
+		expect(result.map(({ type, orders }) => ({ type, orders }))).toEqual([
+			{ type: "X2Y2", orders: orders.slice(0, 2) },
+			{ type: "X2Y2", orders: [orders[2]] },
+		])
+		expect(calls.map(({ method, contract, args }) => ({ method, contract, itemHashes: args[0], r: args[3] })))
+			.toEqual([
+				{
+					method: "cancel",
+					contract: config.exchange.x2y2.toLowerCase(),
+					itemHashes: [orders[0].data.itemHash, orders[1].data.itemHash],
+					r: batchSignature,
+				},
+				{
+					method: "cancel",
+					contract: config.exchange.x2y2.toLowerCase(),
+					itemHashes: [orders[2].data.itemHash],
+					r: otherSignature,
+				},
+			])
+		// cancel of all orders is requested with one wallet signature
+		expect(requests.map(request => request.orderId)).toEqual(["1", "2", "3"])
+		expect(new Set(requests.map(request => request.sign)).size).toBe(1)
+	})
+
+	test("should cancel all seaport orders by incrementing counter", async () => {
+		const { calls, send } = createSend()
+
+		await cancelAllOrders(
+			ethereum, send, config.exchange, SEAPORT_CONFIG, new LooksrareNonceTracker(), async () => true, "SEAPORT_V1",
+		)
+
+		expect(calls).toEqual([{ method: "incrementCounter", contract: SEAPORT_CONFIG.address.toLowerCase(), args: [] }])
+	})
+
+	test("should cancel all looksrare orders above nonces used by the sdk", async () => {
+		const { calls, send } = createSend()
+		const signer = toAddress(addresses[0])
+		// nonce 3 is the min nonce of the user, it's already used by executed order
+		const createContract = ethereum.createContract.bind(ethereum)
+		jest.spyOn(ethereum, "createContract").mockImplementation((abi, address) => {
+			const contract = createContract(abi, address)
+			return {
+				functionCall: (name: string, ...args: any[]) => Object.assign(contract.functionCall(name, ...args), {
+					call: async () => name === "userMinOrderNonce" ? "3" : args[1] === "3",
+				}),
+			}
+		})
+		const nonces = new LooksrareNonceTracker()
+		nonces.markUsed(looksrare, signer, 7)
+
+		await cancelAllOrders(
+			ethereum, send, { ...config.exchange, looksrare }, config.seaport, nonces, async () => true, "LOOKSRARE",
+		)
+
+		expect(calls).toEqual([{ method: "cancelAllOrdersForSender", contract: looksrare.toLowerCase(), args: ["9"] }])
+	})
+})
+
+function encodeX2Y2CancelInput(orders: SimpleX2Y2Order[], signature: Word) {
+	return ethers.utils.defaultAbiCoder.encode(
+		["tuple(bytes32[] itemHashes, uint256 deadline, uint8 v, bytes32 r, bytes32 s)"],
+		[[orders.map(order => order.data.itemHash), 1000, 27, signature, signature]],
+	)
+}
@@ -132,7 +132,9 @@ describe("cancel order", () => {
 		)
 
 		const order = await upserter.upsert({ order: form })
-		const tx = await cancel(checkLazyOrder, ethereum, send, config.exchange, checkWalletChainId, apis, order)
+		const tx = await cancel(
+			checkLazyOrder, ethereum, send, config.exchange, config.seaport, checkWalletChainId, apis, order,
+		)
 		await tx.wait()
 
 		const cancelledOrder = await retry(15, 3000, async () => {
@@ -2,12 +2,13 @@ import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
 import type { Address, CryptoPunksAssetType } from "@rarible/ethereum-api-client"
 import type { Maybe } from "@rarible/types/build/maybe"
 import { toAddress, toBigNumber } from "@rarible/types"
-import type { ExchangeAddresses } from "../config/type"
+import type { ExchangeAddresses, SeaportConfig } from "../config/type"
 import { toVrs } from "../common/to-vrs"
 import { createCryptoPunksMarketContract } from "../nft/contracts/cryptoPunks"
 import type { SendFunction } from "../common/send-transaction"
 import type { RaribleEthereumApis } from "../common/apis"
 import { getRequiredWallet } from "../common/get-required-wallet"
+import { WalletNotConnectedError, withSdkError } from "../common/errors"
 import { createExchangeV1Contract } from "./contracts/exchange-v1"
 import { createExchangeV2Contract } from "./contracts/exchange-v2"
 import { createOpenseaContract } from "./contracts/exchange-opensea-v1"
@@ -24,16 +25,19 @@ import { orderToStruct } from "./sign-order"
 import { convertOpenSeaOrderToDTO } from "./fill-order/open-sea-converter"
 import type { CheckLazyOrderPart } from "./check-lazy-order"
 import { createSeaportContract } from "./contracts/seaport"
-import { CROSS_CHAIN_SEAPORT_ADDRESS } from "./fill-order/seaport-utils/constants"
 import { convertAPIOrderToSeaport } from "./fill-order/seaport-utils/convert-to-seaport-order"
+import { getSeaportProtocol } from "./fill-order/seaport-utils/protocol"
 import { createLooksrareExchange } from "./contracts/looksrare-exchange"
 import { createX2Y2Contract } from "./contracts/exchange-x2y2-v1"
+import { getNextNonce } from "./fill-order/looksrare-utils/create-order"
+import type { LooksrareNonceTracker } from "./fill-order/looksrare-utils/nonce-tracker"
 
 export async function cancel(
 	checkLazyOrder: (form: CheckLazyOrderPart) => Promise<CheckLazyOrderPart>,
 	ethereum: Maybe<Ethereum>,
 	send: SendFunction,
 	config: ExchangeAddresses,
+	seaport: SeaportConfig,
 	checkWalletChainId: () => Promise<boolean>,
 	apis: RaribleEthereumApis,
 	orderToCheck: SimpleOrder,
@@ -41,26 +45,137 @@ export async function cancel(
 	await checkWalletChainId()
 	if (ethereum) {
 		const order = await checkLazyOrder(orderToCheck) as SimpleOrder
-		switch (order.type) {
-			case "RARIBLE_V1":
-				return cancelLegacyOrder(ethereum, send, config.v1, order)
-			case "RARIBLE_V2":
-				return cancelV2Order(ethereum, send, config.v2, order)
-			case "OPEN_SEA_V1":
-				return cancelOpenseaOrderV1(ethereum, send, order)
-			case "SEAPORT_V1":
-				return cancelSeaportOrder(ethereum, send, order)
-			case "LOOKSRARE":
-				return cancelLooksRareOrder(ethereum, send, config, order)
-			case "CRYPTO_PUNK":
-				return cancelCryptoPunksOrder(ethereum, send, order)
-			case "X2Y2":
-				return cancelX2Y2Order(ethereum, send, apis, config.x2y2, order)
-			default:
-				throw new Error(`Unsupported order: ${JSON.stringify(order)}`)
+		return cancelOrder(ethereum, send, config, seaport, apis, order)
+	}
+	throw new WalletNotConnectedError()
+}
+
+export type CancelBatchResult = {
+	type: SimpleOrder["type"]
+	/**
+	 * Orders cancelled by the transaction
+	 */
+	orders: SimpleOrder[]
+	tx: EthereumTransaction
+}[]
+
+/**
+ * Cancel orders with one transaction per protocol where protocol supports batch cancel
+ * (Seaport - one transaction per Seaport contract, LooksRare, X2Y2 - one transaction per cancel signature of X2Y2),
+ * orders of other protocols are cancelled one by one
+ */
+export async function cancelBatch(
+	checkLazyOrder: (form: CheckLazyOrderPart) => Promise<CheckLazyOrderPart>,
+	ethereum: Maybe<Ethereum>,
+	send: SendFunction,
+	config: ExchangeAddresses,
+	seaport: SeaportConfig,
+	checkWalletChainId: () => Promise<boolean>,
+	apis: RaribleEthereumApis,
+	ordersToCheck: SimpleOrder[],
+): Promise<CancelBatchResult> {
+	await checkWalletChainId()
+	if (!ethereum) {
+		throw new WalletNotConnectedError()
+	}
+	const orders = await Promise.all(ordersToCheck.map(order => checkLazyOrder(order) as Promise<SimpleOrder>))
+	const seaportOrders: Record<string, SimpleSeaportV1Order[]> = {}
+	orders.forEach(order => {
+		if (order.type === "SEAPORT_V1") {
+			const { address } = getSeaportProtocol(seaport, order.data.protocol)
+			seaportOrders[address] = [...(seaportOrders[address] ?? []), order]
+		}
+	})
+	const looksrareOrders = orders.filter((order): order is SimpleLooksrareOrder => order.type === "LOOKSRARE")
+	const x2y2Orders = orders.filter((order): order is SimpleX2Y2Order => order.type === "X2Y2")
+
+	const result: CancelBatchResult = []
+	for (const address of Object.keys(seaportOrders)) {
+		const tx = await cancelSeaportOrders(ethereum, send, toAddress(address), seaportOrders[address])
+		result.push({ type: "SEAPORT_V1", orders: seaportOrders[address], tx })
+	}
+	if (looksrareOrders.length) {
+		const tx = await cancelLooksRareOrders(ethereum, send, config, looksrareOrders)
+		result.push({ type: "LOOKSRARE", orders: looksrareOrders, tx })
+	}
+	if (x2y2Orders.length) {
+		const txs = await cancelX2Y2Orders(ethereum, send, apis, config.x2y2, x2y2Orders)
+		result.push(...txs.map(({ orders, tx }) => ({ type: "X2Y2" as const, orders, tx })))
+	}
+	const batchTypes: SimpleOrder["type"][] = ["SEAPORT_V1", "LOOKSRARE", "X2Y2"]
+	const otherOrders = orders.filter(order => !batchTypes.includes(order.type))
+	for (const order of otherOrders) {
+		const tx = await cancelOrder(ethereum, send, config, seaport, apis, order)
+		result.push({ type: order.type, orders: [order], tx })
+	}
+	return result
+}
+
+export type CancelAllOrdersType = "SEAPORT_V1" | "LOOKSRARE"
+
+/**
+ * Cancel all orders of the connected wallet: counter of the current Seaport contract is incremented,
+ * LooksRare orders are cancelled up to the nonce above all nonces used by the sdk for the wallet
+ * (orders signed in other sessions with the higher nonces stay active)
+ */
+export async function cancelAllOrders(
+	ethereum: Maybe<Ethereum>,
+	send: SendFunction,
+	config: ExchangeAddresses,
+	seaport: SeaportConfig,
+	looksrareNonces: LooksrareNonceTracker,
+	checkWalletChainId: () => Promise<boolean>,
+	type: CancelAllOrdersType,
+): Promise<EthereumTransaction> {
+	await checkWalletChainId()
+	const provider = getRequiredWallet(ethereum)
+	switch (type) {
+		case "SEAPORT_V1": {
+			const contract = createSeaportContract(provider, seaport.address)
+			return send(contract.functionCall("incrementCounter"))
+		}
+		case "LOOKSRARE": {
+			if (!config.looksrare) {
+				throw new Error("Looksrare contract did not specified")
+			}
+			const signer = toAddress(await provider.getFrom())
+			const free = await getNextNonce(provider, config.looksrare, signer)
+			// minimal nonce should be above the current one, all nonces below it are cancelled
+			const nonce = looksrareNonces.reserve(config.looksrare, signer, free).plus(1)
+			const contract = createLooksrareExchange(provider, config.looksrare)
+			return send(contract.functionCall("cancelAllOrdersForSender", nonce.toFixed()))
 		}
+		default:
+			throw new Error(`Unsupported order type: ${type}`)
+	}
+}
+
+function cancelOrder(
+	ethereum: Ethereum,
+	send: SendFunction,
+	config: ExchangeAddresses,
+	seaport: SeaportConfig,
+	apis: RaribleEthereumApis,
+	order: SimpleOrder,
+): Promise<EthereumTransaction> {
+	switch (order.type) {
+		case "RARIBLE_V1":
+			return cancelLegacyOrder(ethereum, send, config.v1, order)
+		case "RARIBLE_V2":
+			return cancelV2Order(ethereum, send, config.v2, order)
+		case "OPEN_SEA_V1":
+			return cancelOpenseaOrderV1(ethereum, send, order)
+		case "SEAPORT_V1":
+			return cancelSeaportOrders(ethereum, send, getSeaportProtocol(seaport, order.data.protocol).address, [order])
+		case "LOOKSRARE":
+			return cancelLooksRareOrders(ethereum, send, config, [order])
+		case "CRYPTO_PUNK":
+			return cancelCryptoPunksOrder(ethereum, send, order)
+		case "X2Y2":
+			return cancelX2Y2Order(ethereum, send, apis, config.x2y2, order)
+		default:
+			throw new Error(`Unsupported order: ${JSON.stringify(order)}`)
 	}
-	throw new Error("Wallet undefined")
 }
 
 async function cancelLegacyOrder(ethereum: Ethereum, send: SendFunction, contract: Address, order: SimpleLegacyOrder) {
@@ -103,65 +218,98 @@ export function cancelOpenseaOrderV1(
 export async function cancelX2Y2Order(
 	ethereum: Ethereum, send: SendFunction, apis: RaribleEthereumApis, contract: Address, order: SimpleX2Y2Order
 ) {
-	function decodeCancelInput(input: string) {
-		return ethereum.decodeParameter(
-			{
-				components: [{
-					name: "itemHashes",
-					type: "bytes32[]",
-				},
-				{
-					name: "deadline",
-					type: "uint256",
-				},
-				{
-					name: "v",
-					type: "uint8",
-				},
-				{
-					name: "r",
-					type: "bytes32",
-				},
-				{
-					name: "s",
-					type: "bytes32",
-				}],
-				name: "data",
-				type: "tuple",
+	const [{ tx }] = await cancelX2Y2Orders(ethereum, send, apis, contract, [order])
+	return tx
+}
+
+/**
+ * Cancel input of every order is signed by X2Y2, orders with the same signature
+ * are cancelled by one transaction with all their item hashes
+ */
+export async function cancelX2Y2Orders(
+	ethereum: Ethereum, send: SendFunction, apis: RaribleEthereumApis, contract: Address, orders: SimpleX2Y2Order[],
+): Promise<X2Y2CancelResult> {
+	const exchangeContract = createX2Y2Contract(ethereum, contract)
+	const caller = await ethereum.getFrom()
+	const sign = await withSdkError(ethereum.personalSign(X2Y2_CANCEL_SIGN_MESSAGE))
+
+	const groups: Record<string, { input: X2Y2CancelInput, orders: SimpleX2Y2Order[] }> = {}
+	for (const order of orders) {
+		const input = decodeX2Y2CancelInput(ethereum, (await apis.orderSignature.cancelSignX2Y2({
+			x2Y2GetCancelInputRequest: {
+				orderId: order.data.orderId,
+				op: X2Y2_OP_CANCEL_OFFER,
+				caller,
+				sign,
+				signMessage: X2Y2_CANCEL_SIGN_MESSAGE,
 			},
-			input,
-		)[0] as {
-			itemHashes: string[]
-			deadline: string
-			// signature
-			r: string
-			s: string
-			v: number
-		}
+		})).input)
+		const key = `${input.deadline}:${input.v}:${input.r}:${input.s}`
+		const group = groups[key] ?? { input, orders: [] }
+		const itemHashes = input.itemHashes.filter(hash => !group.input.itemHashes.includes(hash))
+		group.input = { ...group.input, itemHashes: [...group.input.itemHashes, ...itemHashes] }
+		group.orders.push(order)
+		groups[key] = group
 	}
 
-	const OP_CANCEL_OFFER = toBigNumber("3")
-	const exchangeContract = createX2Y2Contract(ethereum, contract)
+	const result: X2Y2CancelResult = []
+	for (const { input, orders: cancelled } of Object.values(groups)) {
+		const tx = await send(exchangeContract.functionCall(
+			"cancel",
+			input.itemHashes,
+			input.deadline,
+			input.v,
+			input.r,
+			input.s,
+		))
+		result.push({ orders: cancelled, tx })
+	}
+	return result
+}
+
+const X2Y2_OP_CANCEL_OFFER = toBigNumber("3")
+const X2Y2_CANCEL_SIGN_MESSAGE = "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470"
+
+type X2Y2CancelResult = { orders: SimpleX2Y2Order[], tx: EthereumTransaction }[]
 
-	const signMessage = "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470"
-	const cancelInput = decodeCancelInput((await apis.orderSignature.cancelSignX2Y2({
-		x2Y2GetCancelInputRequest: {
-			orderId: order.data.orderId,
-			op: OP_CANCEL_OFFER,
-			caller: await ethereum.getFrom(),
-			sign: await ethereum.personalSign(signMessage),
-			signMessage: signMessage,
+type X2Y2CancelInput = {
+	itemHashes: string[]
+	deadline: string
+	// signature
+	r: string
+	s: string
+	v: number
+}
+
+function decodeX2Y2CancelInput(ethereum: Ethereum, input: string): X2Y2CancelInput {
+	const { itemHashes, deadline, v, r, s } = ethereum.decodeParameter(
+		{
+			components: [{
+				name: "itemHashes",
+				type: "bytes32[]",
+			},
+			{
+				name: "deadline",
+				type: "uint256",
+			},
+			{
+				name: "v",
+				type: "uint8",
+			},
+			{
+				name: "r",
+				type: "bytes32",
+			},
+			{
+				name: "s",
+				type: "bytes32",
+			}],
+			name: "data",
+			type: "tuple",
 		},
-	})).input)
-
-	return send(exchangeContract.functionCall(
-		"cancel",
-		cancelInput.itemHashes,
-		cancelInput.deadline,
-		cancelInput.v,
-		cancelInput.r,
-		cancelInput.s,
-	))
+		input,
+	)[0]
+	return { itemHashes: [...itemHashes], deadline: deadline.toString(), v: Number(v), r, s }
 }
 
 export function cancelCryptoPunksOrder(ethereum: Ethereum, send: SendFunction, order: SimpleCryptoPunkOrder) {
@@ -181,19 +329,19 @@ export function cancelCryptoPunkOrderByAsset(
 	return send(ethContract.functionCall(methodName, assetType.tokenId))
 }
 
-export async function cancelSeaportOrder(
-	ethereum: Ethereum, send: SendFunction, order: SimpleSeaportV1Order
+export async function cancelSeaportOrders(
+	ethereum: Ethereum, send: SendFunction, seaportAddress: Address, orders: SimpleSeaportV1Order[]
 ) {
-	const orderParams = convertAPIOrderToSeaport(order).parameters
-	const seaport = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
-	return send(seaport.functionCall("cancel", [orderParams]))
+	const ordersParams = orders.map(order => convertAPIOrderToSeaport(order).parameters)
+	const seaport = createSeaportContract(ethereum, seaportAddress)
+	return send(seaport.functionCall("cancel", ordersParams))
 }
 
-export async function cancelLooksRareOrder(
+export async function cancelLooksRareOrders(
 	ethereum: Ethereum,
 	send: SendFunction,
 	config: ExchangeAddresses,
-	order: SimpleLooksrareOrder,
+	orders: SimpleLooksrareOrder[],
 ) {
 	const provider = getRequiredWallet(ethereum)
 
@@ -204,6 +352,6 @@ export async function cancelLooksRareOrder(
 	const contract = createLooksrareExchange(provider, config.looksrare)
 
 	return send(
-		contract.functionCall("cancelMultipleMakerOrders", [order.data.nonce])
+		contract.functionCall("cancelMultipleMakerOrders", orders.map(order => order.data.nonce))
 	)
 }
@@ -1,8 +1,8 @@
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { Ethereum } from "@rarible/ethereum-provider"
-import { Warning } from "@rarible/logger/build"
 import type { EthereumConfig } from "../config/type"
 import { getRequiredWallet } from "../common/get-required-wallet"
+import { WrongNetworkError } from "../common/errors"
 
 /**
  * Check the wallet chainId is the same as in the config
@@ -12,7 +12,7 @@ import { getRequiredWallet } from "../common/get-required-wallet"
 export async function checkChainId(ethereum: Maybe<Ethereum>, config: EthereumConfig): Promise<boolean> {
 	const networkId = await getRequiredWallet(ethereum).getChainId()
 	if (config.chainId !== networkId) {
-		throw new Warning(`Change network of your wallet. Config chainId=${config.chainId}, but wallet chainId=${networkId}`)
+		throw new WrongNetworkError(config.chainId, networkId)
 	}
 	return true
 }
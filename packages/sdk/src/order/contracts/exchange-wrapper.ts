@@ -1,11 +1,18 @@
 import type { Address } from "@rarible/ethereum-api-client"
 import type { Ethereum, EthereumContract } from "@rarible/ethereum-provider"
-import type { AbiItem } from "../../common/abi-item"
+import type { AbiInput, AbiItem } from "../../common/abi-item"
 
 export function createExchangeWrapperContract(ethereum: Ethereum, address?: Address): EthereumContract {
 	return ethereum.createContract(EXCHANGEV2_BULK_ABI, address)
 }
 
+/**
+ * Exchange wrapper with ERC-20 purchases support (config.exchange.wrapperErc20)
+ */
+export function createErc20ExchangeWrapperContract(ethereum: Ethereum, address?: Address): EthereumContract {
+	return ethereum.createContract(EXCHANGE_WRAPPER_ERC20_ABI, address)
+}
+
 export const EXCHANGEV2_BULK_ABI: AbiItem[] = [
 	{
 		"anonymous": false,
@@ -477,3 +484,24 @@ export const EXCHANGEV2_BULK_ABI: AbiItem[] = [
 		"payable": true,
 	},
 ]
+
+const PAYMENT_TOKEN_INPUT: AbiInput = {
+	"internalType": "address",
+	"name": "paymentToken",
+	"type": "address",
+}
+
+/**
+ * The same as EXCHANGEV2_BULK_ABI, but PurchaseDetails struct contains paymentToken (zero address for ETH)
+ */
+export const EXCHANGE_WRAPPER_ERC20_ABI: AbiItem[] = EXCHANGEV2_BULK_ABI.map(item => ({
+	...item,
+	inputs: item.inputs?.map(input => {
+		if (!input.internalType?.startsWith("struct ExchangeWrapper.PurchaseDetails") || !input.components) {
+			return input
+		}
+		const components = [...input.components]
+		components.splice(components.findIndex(c => c.name === "amount") + 1, 0, PAYMENT_TOKEN_INPUT)
+		return { ...input, components }
+	}),
+}))
@@ -7,6 +7,7 @@ import type { AssetType } from "@rarible/ethereum-api-client"
 import type { Address } from "@rarible/types"
 import type { EthereumConfig } from "../config/type"
 import type { SendFunction } from "../common/send-transaction"
+import { WalletNotConnectedError } from "../common/errors"
 import { createWethContract } from "./contracts/weth"
 import { checkChainId } from "./check-chain-id"
 
@@ -24,7 +25,7 @@ export class ConvertWeth {
 
 	private async convertEthToWeth(value: BigNumberValue): Promise<EthereumTransaction> {
 		if (!this.ethereum) {
-			throw new Error("Wallet is undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createWethContract(this.ethereum, this.config.weth)
 		const decimals = await contract.functionCall("decimals").call()
@@ -41,7 +42,7 @@ export class ConvertWeth {
 
 	private async convertWethToEth(value: BigNumberValue): Promise<EthereumTransaction> {
 		if (!this.ethereum) {
-			throw new Error("Wallet is undefined")
+			throw new WalletNotConnectedError()
 		}
 		const contract = createWethContract(this.ethereum, this.config.weth)
 		const decimals = await contract.functionCall("decimals").call()
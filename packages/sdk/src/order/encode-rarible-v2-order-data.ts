@@ -1,7 +1,7 @@
 import type { OrderData, Part } from "@rarible/ethereum-api-client"
-import type { Ethereum } from "@rarible/ethereum-provider"
 import type { BigNumber } from "@rarible/types"
 import { toBigNumber, toWord } from "@rarible/types"
+import type { AbiEncoder } from "../common/abi-encoder"
 
 const ZERO_WORD = toWord("0x0000000000000000000000000000000000000000000000000000000000000000")
 
@@ -24,7 +24,7 @@ export function encodePartToBuffer(part: Part | undefined): BigNumber {
 
 //todo wrongEncode когда применять?
 export function encodeRaribleV2OrderData(
-	ethereum: Ethereum,
+	ethereum: AbiEncoder,
 	data: OrderData,
 	wrongEncode: Boolean = false
 ): [string, string] {
@@ -3,12 +3,15 @@ import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
 import type { Part } from "@rarible/ethereum-api-client"
 import type { BigNumber } from "@rarible/types"
 import { toBigNumber } from "@rarible/types/build/big-number"
+import { toAddress } from "@rarible/types"
 import type { SendFunction } from "../../common/send-transaction"
 import type { EthereumConfig } from "../../config/type"
 import { getRequiredWallet } from "../../common/get-required-wallet"
+import { waitTx } from "../../common/wait-tx"
 import type { SimpleOrder } from "../types"
 import type { EthereumNetwork, IRaribleEthereumSdkConfig } from "../../types"
 import { createExchangeWrapperContract } from "../contracts/exchange-wrapper"
+import { approveErc721 } from "../approve-erc721"
 import type { OrderFillSendData, AmmOrderFillRequest } from "./types"
 import { SudoswapFill } from "./amm/sudoswap-fill"
 import type { PreparedOrderRequestDataForExchangeWrapper } from "./types"
@@ -30,6 +33,13 @@ export class AmmOrderHandler {
 		const ethereum = getRequiredWallet(this.ethereum)
 		const fillData = await this.getTransactionDataDirectBuy(request)
 
+		if (SudoswapFill.isSellToPool(request)) { // sell nft to the pool, sudoswap router is called directly
+			if (request.originFees?.length) {
+				throw new Error("Origin fees not supported for selling to sudoswap pool")
+			}
+			return fillData
+		}
+
 		if (this.options.directBuy) { // direct buy with sudoswap contract
 			if (request.originFees?.length) {
 				throw new Error("Origin fees not supported for sudoswap direct buy")
@@ -87,6 +97,23 @@ export class AmmOrderHandler {
 		}
 	}
 
+	/**
+	 * Approve NFT to the sudoswap router if NFT is sold to the pool, nothing to approve for buying from the pool
+	 */
+	async approve(request: AmmOrderFillRequest): Promise<void> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		if (!SudoswapFill.isSellToPool(request)) {
+			return
+		}
+		const { assetType } = request.order.take
+		if (!("contract" in assetType)) {
+			throw new Error("Unsupported asset type for take asset " + assetType.assetClass)
+		}
+		const owner = toAddress(await ethereum.getFrom())
+		const operator = SudoswapFill.getRouterAddress(this.config)
+		await waitTx(approveErc721(ethereum, this.send, assetType.contract, owner, operator))
+	}
+
 	async sendTransaction(request: AmmOrderFillRequest): Promise<EthereumTransaction> {
 		const { functionCall, options } = await this.getTransactionData(request)
 		return this.send(functionCall, options)
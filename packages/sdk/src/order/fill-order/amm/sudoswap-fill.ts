@@ -15,6 +15,16 @@ export class SudoswapFill {
 		config: EthereumConfig,
 		sdkConfig?: IRaribleEthereumSdkConfig
 	): Promise<OrderFillSendData> {
+		if (SudoswapFill.isSellToPool(request)) {
+			const fillData = await this.sellSpecificNFTs(ethereum, request, config, [this.getSellTokenId(request)])
+			return {
+				functionCall: fillData.functionCall,
+				options: {
+					...fillData.options,
+					additionalData: getUpdatedCalldata(sdkConfig),
+				},
+			}
+		}
 		const order = this.getOrder(request)
 
 		let fillData: OrderFillSendData
@@ -49,12 +59,23 @@ export class SudoswapFill {
 		return toBigNumber("0x" + deadlineTimestamp.toString(16).padStart(64, "0"))
 	}
 
-	private static getRouterContract(ethereum: Ethereum, config: EthereumConfig) {
+	/**
+	 * Pool buys NFTs for ETH (order is a bid of the pool)
+	 */
+	static isSellToPool(request: AmmOrderFillRequest): boolean {
+		return request.order.make.assetType.assetClass === "ETH"
+	}
+
+	static getRouterAddress(config: EthereumConfig) {
 		const { pairRouter } = config.sudoswap
 		if (!pairRouter || pairRouter === ZERO_ADDRESS) {
 			throw new Error("Sudoswap router contract address has not been set. Change address in config")
 		}
-		return createSudoswapRouterV1Contract(ethereum, pairRouter)
+		return pairRouter
+	}
+
+	private static getRouterContract(ethereum: Ethereum, config: EthereumConfig) {
+		return createSudoswapRouterV1Contract(ethereum, this.getRouterAddress(config))
 	}
 
 	private static getOrder(request: AmmOrderFillRequest) {
@@ -68,6 +89,28 @@ export class SudoswapFill {
 		return order
 	}
 
+	private static getBidOrder(request: AmmOrderFillRequest) {
+		const order = request.order
+		if (order.data.dataType !== "SUDOSWAP_AMM_DATA_V1") {
+			throw new Error("Wrong order data type " + order.data.dataType)
+		}
+		if (order.make.assetType.assetClass !== "ETH") {
+			throw new Error("Sudoswap supports swaps only for ETH")
+		}
+		return order
+	}
+
+	private static getSellTokenId(request: AmmOrderFillRequest): BigNumber {
+		const { assetType } = request.order.take
+		if (assetType.assetClass === "ERC721") {
+			return assetType.tokenId
+		}
+		if (request.assetType?.tokenId === undefined) {
+			throw new Error("Token id should be specified in request.assetType to sell NFT to the pool")
+		}
+		return toBigNumber(request.assetType.tokenId.toString())
+	}
+
 	private static async getNftRecipient(ethereum: Ethereum) {
 		return await ethereum.getFrom()
 	}
@@ -125,4 +168,27 @@ export class SudoswapFill {
 			},
 		}
 	}
+
+	private static async sellSpecificNFTs(
+		ethereum: Ethereum,
+		request: AmmOrderFillRequest,
+		config: EthereumConfig,
+		tokenIds: BigNumber[]
+	): Promise<OrderFillSendData> {
+		const routerContract = this.getRouterContract(ethereum, config)
+		const order = this.getBidOrder(request)
+		return {
+			functionCall: routerContract.functionCall(
+				"swapNFTsForToken",
+				[{
+					pair: order.data.poolAddress,
+					nftIds: tokenIds,
+				}],
+				order.make.value,
+				await this.getETHRecipient(ethereum),
+				SudoswapFill.getDeadline()
+			),
+			options: {},
+		}
+	}
 }
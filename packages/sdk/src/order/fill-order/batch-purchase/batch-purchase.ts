@@ -1,10 +1,11 @@
-import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
+import type { Ethereum, EthereumContract, EthereumTransaction } from "@rarible/ethereum-provider"
 import { Action } from "@rarible/action"
 import type { Address, AssetType } from "@rarible/ethereum-api-client"
 import type { Maybe } from "@rarible/types/build/maybe"
+import type { BigNumberValue } from "@rarible/utils"
 import { toBn } from "@rarible/utils"
 import type { BigNumber } from "@rarible/types"
-import { toAddress } from "@rarible/types"
+import { toAddress, toBigNumber, ZERO_ADDRESS } from "@rarible/types"
 import type { SimpleOpenSeaV1Order, SimpleOrder, SimpleRaribleV2Order } from "../../types"
 import type { SendFunction } from "../../../common/send-transaction"
 import type { EthereumConfig } from "../../../config/type"
@@ -13,14 +14,21 @@ import type { CheckAssetTypeFunction } from "../../check-asset-type"
 import { checkAssetType } from "../../check-asset-type"
 import { checkLazyAssetType } from "../../check-lazy-asset-type"
 import { checkChainId } from "../../check-chain-id"
+import { approveErc20 } from "../../approve-erc20"
+import { getRequiredWallet } from "../../../common/get-required-wallet"
+import { waitTx } from "../../../common/wait-tx"
 import type { IRaribleEthereumSdkConfig } from "../../../types"
 import type { EthereumNetwork } from "../../../types"
 import type {
 	AmmOrderFillRequest,
+	BatchOrderFillResult,
 	FillBatchOrderAction,
 	FillBatchOrderRequest,
+	FillBatchOrderWithReportAction,
+	FillBatchOrderWithReportRequest,
+	FillBatchOrderWithReportResponse,
 	FillBatchSingleOrderRequest,
-	FillOrderStageId, LooksrareOrderFillRequest,
+	LooksrareOrderFillRequest,
 	OpenSeaV1OrderFillRequest,
 	OrderFillSendData,
 	PreparedOrderRequestDataForExchangeWrapper,
@@ -33,10 +41,14 @@ import { LooksrareOrderHandler } from "../looksrare"
 import { OriginFeeReducer } from "../common/origin-fee-reducer"
 import { X2Y2OrderHandler } from "../x2y2"
 import { AmmOrderHandler } from "../amm"
-import { createExchangeWrapperContract } from "../../contracts/exchange-wrapper"
+import { createErc20ExchangeWrapperContract, createExchangeWrapperContract } from "../../contracts/exchange-wrapper"
 import type { SeaportV1OrderFillRequest } from "../types"
 import type { X2Y2OrderFillRequest } from "../types"
 import { getUpdatedCalldata } from "../common/get-updated-call"
+import { calcValueWithFees, unpackFeesFromUint } from "../common/origin-fees-utils"
+import { getRevertInfo, WalletNotConnectedError } from "../../../common/errors"
+import { getBlockchainFromChainId } from "../../../common/get-blockchain-from-chain-id"
+import { getEthereumNetworkConfig } from "../../../common/get-ethereum-network-config"
 
 export class BatchOrderFiller {
 	v2Handler: RaribleV2OrderHandler
@@ -73,41 +85,147 @@ export class BatchOrderFiller {
 	 *
 	 * Note: Additional origin fees applied only for opensea orders
 	 */
-	buy: FillBatchOrderAction = this.getFillAction()
-
-	private getFillAction<Request extends FillBatchOrderRequest>()
-	: Action<FillOrderStageId, Request, EthereumTransaction> {
-		return Action
-			.create({
-				id: "approve" as const,
-				run: async (request: Request) => {
-					if (!this.ethereum) {
-						throw new Error("Wallet undefined")
-					}
-					if (!request.length) {
-						throw new Error("Request is empty")
-					}
-
-					const originFeeReducer = new OriginFeeReducer()
-					const preparedOrders = await this.prepareOrders(request, originFeeReducer)
-
-					return { preparedOrders, feeAddresses: originFeeReducer.getAddresses() }
-				},
-			})
-			.thenStep({
-				id: "send-tx" as const,
-				run: async ({ preparedOrders, feeAddresses }: {
-					preparedOrders: PreparedOrder[],
-					feeAddresses: [Address, Address]
-				}) => {
-					const { functionCall, options } = await this.getTransactionRequestData(preparedOrders, feeAddresses)
-					return this.send(functionCall, options)
-				},
-			})
-			.before(async (input: Request) => {
-				await checkChainId(this.ethereum, this.config)
-				return input
+	buy: FillBatchOrderAction = Action
+		.create({
+			id: "approve" as const,
+			run: (request: FillBatchOrderRequest) => this.prepareBatch(request, true),
+		})
+		.thenStep({
+			id: "send-tx" as const,
+			run: (prepared: PreparedBatch) => this.sendBatch(prepared),
+		})
+		.before(async (input: FillBatchOrderRequest) => {
+			await checkChainId(this.ethereum, this.config)
+			return input
+		})
+
+	/**
+	 * Buy batch of orders and get result of every order after transaction is mined
+	 */
+	buyWithReport: FillBatchOrderWithReportAction = Action
+		.create({
+			id: "approve" as const,
+			run: (request: FillBatchOrderWithReportRequest) =>
+				this.prepareBatch(request.requests, request.allowFail ?? true),
+		})
+		.thenStep({
+			id: "send-tx" as const,
+			run: async (prepared: PreparedBatch): Promise<FillBatchOrderWithReportResponse> => {
+				const tx = await this.sendBatch(prepared)
+				let results: Promise<BatchOrderFillResult[]> | undefined = undefined
+				return {
+					tx,
+					results: () => {
+						if (!results) {
+							results = this.getBatchResults(tx, prepared)
+						}
+						return results
+					},
+				}
+			},
+		})
+		.before(async (input: FillBatchOrderWithReportRequest) => {
+			await checkChainId(this.ethereum, this.config)
+			return input
+		})
+
+	private async prepareBatch(request: FillBatchOrderRequest, allowFail: boolean): Promise<PreparedBatch> {
+		if (!this.ethereum) {
+			throw new WalletNotConnectedError()
+		}
+		if (!request.length) {
+			throw new Error("Request is empty")
+		}
+
+		const originFeeReducer = new OriginFeeReducer()
+		const preparedOrders = await this.prepareOrders(request, originFeeReducer)
+		const ordersData = await Promise.all(
+			preparedOrders.map(preparedOrder => this.getTransactionSingleRequestData(preparedOrder))
+		)
+		await this.approveErc20Currencies(preparedOrders, ordersData)
+
+		return { preparedOrders, ordersData, feeAddresses: originFeeReducer.getAddresses(), allowFail }
+	}
+
+	private async sendBatch({ ordersData, feeAddresses, allowFail }: PreparedBatch): Promise<EthereumTransaction> {
+		const { functionCall, options } = await this.getTransactionRequestData(ordersData, feeAddresses, allowFail)
+		return this.send(functionCall, options)
+	}
+
+	/**
+	 * Match Execution events of exchange wrapper with requests, the wrapper emits one event per purchase.
+	 * ERC-20 refunds are taken from transfers of the change to the buyer, ETH of the failed purchase
+	 * isn't forwarded to the marketplace, so its value is returned with the change (internal transfer without event)
+	 * @private
+	 */
+	private async getBatchResults(tx: EthereumTransaction, prepared: PreparedBatch): Promise<BatchOrderFillResult[]> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const receipt = await tx.wait()
+		const executions = (await tx.getEvents())
+			.filter(e => e.event === "Execution")
+			.sort((a, b) => a.logIndex - b.logIndex)
+		const count = prepared.preparedOrders.length
+		if (executions.length !== count) {
+			throw new Error(`Number of Execution events (${executions.length}) doesn't match number of orders (${count})`)
+		}
+
+		const wrapper = this.getWrapper(ethereum, prepared.ordersData)
+		const erc20Refunds = await getErc20Refunds(ethereum, tx, wrapper.address)
+		const results: BatchOrderFillResult[] = []
+		for (let index = 0; index < count; index += 1) {
+			const { request } = prepared.preparedOrders[index]
+			const execution = executions[index]
+			const result = execution.returnValues?.result ?? execution.args?.result
+			if (String(result) === "true") {
+				results.push({ request, status: "filled" })
+				continue
+			}
+
+			const { data, options } = prepared.ordersData[index]
+			results.push({
+				request,
+				status: "failed",
+				reason: await this.getFailReason(ethereum, tx, receipt.blockNumber, wrapper, index, prepared),
+				refund: data.paymentToken
+					? takeErc20Refund(erc20Refunds, data)
+					: { paymentToken: ZERO_ADDRESS, value: toBigNumber(toBn(options?.value ?? 0).toFixed()) },
 			})
+		}
+		return results
+	}
+
+	/**
+	 * Replay failed purchase with eth_call on the state of the parent block of the transaction.
+	 * Transactions mined before it in the same block and preceding purchases of the batch aren't applied
+	 * @private
+	 */
+	private async getFailReason(
+		ethereum: Ethereum,
+		tx: EthereumTransaction,
+		blockNumber: number,
+		wrapper: ExchangeWrapper,
+		index: number,
+		{ ordersData, feeAddresses }: PreparedBatch,
+	): Promise<string | undefined> {
+		if (!ethereum.send) {
+			return undefined
+		}
+		const [firstFeeAddress, secondFeeAddress] = feeAddresses
+		const { options } = ordersData[index]
+		const data = await wrapper.contract
+			.functionCall("singlePurchase", wrapper.purchases[index], firstFeeAddress, secondFeeAddress)
+			.getData()
+		try {
+			await ethereum.send("eth_call", [{
+				from: tx.from,
+				to: wrapper.address,
+				data,
+				value: `0x${toBn(options?.value ?? 0).toString(16)}`,
+			}, `0x${(blockNumber - 1).toString(16)}`])
+			return undefined
+		} catch (e: any) {
+			return getRevertInfo(e)?.reason ?? e?.message
+		}
 	}
 
 	/**
@@ -119,14 +237,29 @@ export class BatchOrderFiller {
 		feesReducer: OriginFeeReducer
 	): Promise<PreparedOrder[]> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		const from = toAddress(await this.ethereum.getFrom())
 
 		return await Promise.all(requests.map(async (request) => {
-			if (request.order.take.assetType.assetClass !== "ETH") {
-				throw new Error("Batch purchase only available for ETH currency")
+			const currency = request.order.take.assetType.assetClass
+			if (currency !== "ETH" && currency !== "ERC20") {
+				throw new Error("Batch purchase only available for ETH or ERC-20 currency")
+			}
+			if (
+				currency === "ERC20" &&
+				request.order.type !== "RARIBLE_V2" &&
+				request.order.type !== "SEAPORT_V1"
+			) {
+				throw new Error(
+					"Batch purchase with ERC-20 currency is supported only for RARIBLE_V2 and SEAPORT_V1 orders, " +
+					`received=${request.order.type}`,
+				)
+			}
+			if (currency === "ERC20") {
+				// fail before approvals if ERC-20 wrapper isn't configured
+				this.getErc20WrapperAddress()
 			}
 
 			if (
@@ -152,7 +285,9 @@ export class BatchOrderFiller {
 					inverted.make.assetType = await this.checkAssetType(request.assetType)
 					inverted.make.assetType = await this.checkLazyAssetType(inverted.make.assetType)
 				}
-				await this.approveOrder(inverted, Boolean(request.infinite))
+				if (currency === "ETH") {
+					await this.approveOrder(inverted, Boolean(request.infinite))
+				}
 			}
 
 			return {
@@ -185,28 +320,103 @@ export class BatchOrderFiller {
 		}
 	}
 
+	/**
+	 * Sum up required allowance of every ERC-20 currency (including origin fees) and approve it to exchange wrapper
+	 * @private
+	 */
+	private async approveErc20Currencies(
+		preparedOrders: PreparedOrder[],
+		ordersData: PreparedOrderRequestDataForExchangeWrapper[],
+	) {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const allowances: Record<string, { value: BigNumberValue, infinite: boolean }> = {}
+		ordersData.forEach(({ data }, index) => {
+			if (!data.paymentToken) {
+				return
+			}
+			const token = data.paymentToken.toLowerCase()
+			const [firstFee, secondFee] = unpackFeesFromUint(data.fees)
+			const value = calcValueWithFees(toBigNumber(data.amount.toString()), firstFee + secondFee)
+			allowances[token] = {
+				value: value.plus(allowances[token]?.value ?? 0),
+				infinite: Boolean(allowances[token]?.infinite || preparedOrders[index].request.infinite),
+			}
+		})
+
+		const tokens = Object.keys(allowances)
+		if (!tokens.length) {
+			return
+		}
+		const { address } = this.getWrapper(ethereum, ordersData)
+		const owner = toAddress(await ethereum.getFrom())
+		for (const token of tokens) {
+			const { value, infinite } = allowances[token]
+			await waitTx(approveErc20(ethereum, this.send, toAddress(token), owner, address, value, infinite))
+		}
+	}
+
+	/**
+	 * Wrapper with paymentToken in PurchaseDetails is used only if the batch contains ERC-20 purchases,
+	 * ETH batches are sent to config.exchange.wrapper which accepts PurchaseDetails without it
+	 * @private
+	 */
+	private getWrapper(
+		ethereum: Ethereum,
+		ordersData: PreparedOrderRequestDataForExchangeWrapper[],
+	): ExchangeWrapper {
+		const purchases = ordersData.map(({ data }) => data)
+		if (purchases.every(data => !data.paymentToken)) {
+			return {
+				address: this.config.exchange.wrapper,
+				contract: createExchangeWrapperContract(ethereum, this.config.exchange.wrapper),
+				purchases,
+			}
+		}
+		const address = this.getErc20WrapperAddress()
+		return {
+			address,
+			contract: createErc20ExchangeWrapperContract(ethereum, address),
+			purchases: purchases.map(data => ({ ...data, paymentToken: data.paymentToken ?? ZERO_ADDRESS })),
+		}
+	}
+
+	/**
+	 * ERC-20 exchange wrapper isn't set in network configs, it's opt-in with exchangeWrapperErc20 of sdk config
+	 * @private
+	 */
+	private getErc20WrapperAddress(): Address {
+		const { wrapperErc20 } = this.config.exchange
+		if (wrapperErc20) {
+			return wrapperErc20
+		}
+		const networkConfig = this.sdkConfig &&
+			getEthereumNetworkConfig(getBlockchainFromChainId(this.config.chainId), this.sdkConfig)
+		if (!networkConfig || !networkConfig.exchangeWrapperErc20) {
+			throw new Error(
+				"Batch purchase with ERC-20 currency is opt-in: set address of the exchange wrapper with ERC-20 support " +
+				"in sdk config (exchangeWrapperErc20 of the network config)",
+			)
+		}
+		return networkConfig.exchangeWrapperErc20
+	}
+
 	/**
 	 * Prepare contract function call
 	 */
 	private async getTransactionRequestData(
-		preparedOrders: PreparedOrder[],
-		feeAddresses: [Address, Address]
+		ordersData: PreparedOrderRequestDataForExchangeWrapper[],
+		feeAddresses: [Address, Address],
+		allowFail: boolean,
 	): Promise<OrderFillSendData> {
-		let totalValue = toBn(0)
+		const totalValue = ordersData.reduce((acc, requestData) => acc.plus(requestData.options?.value || 0), toBn(0))
 
-		const ordersCallData = await Promise.all(preparedOrders.map(async (preparedOrder) => {
-			const requestData = await this.getTransactionSingleRequestData(preparedOrder)
-			totalValue = totalValue.plus(requestData.options?.value || 0)
-			return requestData.data
-		}))
-
-		const wrapperContract = createExchangeWrapperContract(this.ethereum!, this.config.exchange.wrapper)
-		const functionCall = wrapperContract.functionCall(
+		const { contract, purchases } = this.getWrapper(getRequiredWallet(this.ethereum), ordersData)
+		const functionCall = contract.functionCall(
 			"bulkPurchase",
-			ordersCallData,
+			purchases,
 			feeAddresses[0],
 			feeAddresses[1],
-			true // allowFail
+			allowFail
 		)
 
 		return {
@@ -271,3 +481,71 @@ type PreparedOrder = {
 	inverted?: SimpleOrder
 	fees: BigNumber
 }
+
+type PreparedBatch = {
+	preparedOrders: PreparedOrder[]
+	ordersData: PreparedOrderRequestDataForExchangeWrapper[]
+	feeAddresses: [Address, Address]
+	allowFail: boolean
+}
+
+type ExchangeWrapper = {
+	address: Address
+	contract: EthereumContract
+	purchases: PreparedOrderRequestDataForExchangeWrapper["data"][]
+}
+
+// keccak256("Transfer(address,address,uint256)")
+const ERC20_TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef"
+
+/**
+ * Sum up ERC-20 transfers from exchange wrapper to the buyer by token (lowercased address),
+ * undefined if provider doesn't support raw requests
+ */
+async function getErc20Refunds(
+	ethereum: Ethereum, tx: EthereumTransaction, wrapper: Address,
+): Promise<Record<string, BigNumberValue> | undefined> {
+	if (!ethereum.send) {
+		return undefined
+	}
+	const receipt = await ethereum.send("eth_getTransactionReceipt", [tx.hash])
+	const logs: { address: string, topics: string[], data: string }[] = receipt?.logs ?? []
+	const refunds: Record<string, BigNumberValue> = {}
+	for (const { address, topics, data } of logs) {
+		// ERC-721 Transfer has indexed tokenId (4 topics)
+		if (
+			topics.length === 3 &&
+			topics[0] === ERC20_TRANSFER_TOPIC &&
+			isTopicOfAddress(topics[1], wrapper) &&
+			isTopicOfAddress(topics[2], tx.from)
+		) {
+			const token = address.toLowerCase()
+			refunds[token] = toBn(data).plus(refunds[token] ?? 0)
+		}
+	}
+	return refunds
+}
+
+/**
+ * Failed purchase gets its expected amount (including origin fees) from the change of its currency,
+ * purchases are handled in the order of the batch
+ */
+function takeErc20Refund(
+	refunds: Record<string, BigNumberValue> | undefined,
+	data: PreparedOrderRequestDataForExchangeWrapper["data"],
+): { paymentToken: Address, value: BigNumber } | undefined {
+	if (!refunds || !data.paymentToken) {
+		return undefined
+	}
+	const token = data.paymentToken.toLowerCase()
+	const [firstFee, secondFee] = unpackFeesFromUint(data.fees)
+	const expected = calcValueWithFees(toBigNumber(data.amount.toString()), firstFee + secondFee)
+	const available = toBn(refunds[token] ?? 0)
+	const value = expected.lt(available) ? expected : available
+	refunds[token] = available.minus(value)
+	return { paymentToken: data.paymentToken, value: toBigNumber(value.toFixed()) }
+}
+
+function isTopicOfAddress(topic: string, address: Address): boolean {
+	return topic.slice(-40).toLowerCase() === address.slice(2).toLowerCase()
+}
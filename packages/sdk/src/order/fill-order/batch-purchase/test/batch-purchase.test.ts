@@ -21,14 +21,15 @@ import { getSimpleSendWithInjects, sentTx } from "../../../../common/send-transa
 import type { EthereumConfig } from "../../../../config/type"
 import { getEthereumConfig } from "../../../../config"
 import { id32 } from "../../../../common/id"
-import type { SimpleOrder, SimpleRaribleV2Order } from "../../../types"
+import type { SimpleLooksrareOrder, SimpleOrder, SimpleRaribleV2Order } from "../../../types"
 import { createEthereumApis } from "../../../../common/apis"
 import { checkChainId } from "../../../check-chain-id"
 import { signOrder } from "../../../sign-order"
 import { BatchOrderFiller } from "../batch-purchase"
 import { createRaribleSdk } from "../../../../index"
-import type { EthereumNetwork } from "../../../../types"
+import type { EthereumNetwork, IRaribleEthereumSdkConfig } from "../../../../types"
 import { DEV_PK_1, DEV_PK_2 } from "../../../../common/test/private-keys"
+import { LooksrareNonceTracker } from "../../looksrare-utils/nonce-tracker"
 import {
 	checkOwnerships,
 	makeAmmOrder,
@@ -58,6 +59,7 @@ describe.skip("Batch purchase", function () {
 	const config = getEthereumConfig(env)
 	const checkWalletChainId = checkChainId.bind(null, ethereum, config)
 	const send = getSimpleSendWithInjects().bind(null, checkWalletChainId)
+	const looksrareNonces = new LooksrareNonceTracker()
 
 	beforeAll(async () => {
 		console.log({
@@ -106,8 +108,8 @@ describe.skip("Batch purchase", function () {
 
 	test("looksrare few items sell", async () => {
 		const orders = [
-			await makeLooksrareOrder(sdkSeller, ethereum, send, config),
-			await makeLooksrareOrder(sdkSeller, ethereum, send, config),
+			await makeLooksrareOrder(sdkSeller, ethereum, send, config, looksrareNonces),
+			await makeLooksrareOrder(sdkSeller, ethereum, send, config, looksrareNonces),
 		]
 
 		await buyout(orders, [{
@@ -130,11 +132,47 @@ describe.skip("Batch purchase", function () {
 		await tx.wait()
 	})
 
+	test("RaribleOrder few items sell with different currencies", async () => {
+		const orders = await Promise.all([
+			makeRaribleV2Order(sdkSeller, {}),
+			makeRaribleV2Order(sdkSeller, { takeAssetType: { assetClass: "ERC20", contract: config.weth } }),
+			makeRaribleV2Order(sdkSeller, { takeAssetType: { assetClass: "ERC20", contract: config.weth } }),
+		])
+
+		await buyout(orders, [{
+			account: toAddress("0x0d28e9Bd340e48370475553D21Bd0A95c9a60F92"),
+			value: 100,
+		}])
+	})
+
+	test("buy batch with report, already sold order is skipped", async () => {
+		const orders = await Promise.all([
+			makeRaribleV2Order(sdkSeller, {}),
+			makeRaribleV2Order(sdkSeller, {}),
+		])
+		const soldTx = await sdkBuyer.order.buy(ordersToRequests([orders[1]])[0])
+		await soldTx.wait()
+
+		const { tx, results } = await sdkBuyer.order.buyBatchWithReport({
+			requests: ordersToRequests(orders, undefined),
+			allowFail: true,
+		})
+		await tx.wait()
+
+		const [first, second] = await results()
+		expect(first.status).toBe("filled")
+		expect(second.status).toBe("failed")
+		if (second.status === "failed") {
+			expect(second.refund?.paymentToken).toBe(ZERO_ADDRESS)
+			expect(second.refund?.value).not.toBe("0")
+		}
+	})
+
 	test("Different orders types sell", async () => {
 		const orders = await Promise.all([
 			makeRaribleV2Order(sdkSeller, {}),
 			makeSeaportOrder(sdkSeller, ethereum, send),
-			makeLooksrareOrder(sdkSeller, ethereum, send, config),
+			makeLooksrareOrder(sdkSeller, ethereum, send, config, looksrareNonces),
 			makeRaribleV2Order(sdkSeller, {}),
 		])
 
@@ -378,3 +416,86 @@ describe.skip("fillOrder: Opensea orders", function () {
 		)
 	})
 })
+
+describe("Batch purchase with ERC-20 currency", () => {
+	const { addresses, provider } = createGanacheProvider()
+	const [buyerAddress, sellerAddress, wrapperAddress] = addresses
+	const web3 = new Web3(provider as any)
+	const buyerEthereum = new Web3Ethereum({ web3, from: buyerAddress, gas: 1000000 })
+	const sellerEthereum = new Web3Ethereum({ web3, from: sellerAddress, gas: 1000000 })
+
+	const env: EthereumNetwork = "dev-ethereum"
+	const config = getEthereumConfig(env)
+	const apis = createEthereumApis(env)
+	const send = getSimpleSendWithInjects().bind(null, async () => true)
+	const getBaseOrderFee = async () => 0
+	const collection = toAddress("0x0000000000000000000000000000000000000001")
+
+	const it = awaitAll({
+		testErc20: deployTestErc20(web3, "Test", "TST"),
+	})
+
+	function createFiller(sdkConfig?: IRaribleEthereumSdkConfig) {
+		return new BatchOrderFiller(buyerEthereum, send, config, apis, getBaseOrderFee, env, sdkConfig)
+	}
+
+	async function createOrder(tokenId: string, price: string): Promise<SimpleRaribleV2Order> {
+		const order: SimpleRaribleV2Order = {
+			type: "RARIBLE_V2",
+			maker: sellerAddress,
+			make: {
+				assetType: { assetClass: "ERC721", contract: collection, tokenId: toBigNumber(tokenId) },
+				value: toBigNumber("1"),
+			},
+			take: {
+				assetType: { assetClass: "ERC20", contract: toAddress(it.testErc20.options.address) },
+				value: toBigNumber(price),
+			},
+			salt: randomWord(),
+			data: { dataType: "RARIBLE_V2_DATA_V1", payouts: [], originFees: [] },
+		}
+		return { ...order, signature: await signOrder(sellerEthereum, config, order) }
+	}
+
+	test("ERC-20 orders are rejected if ERC-20 exchange wrapper isn't set in sdk config", async () => {
+		const order = await createOrder("1", "1000")
+		await expect(createFiller().buy([{ order, amount: 1 }]))
+			.rejects.toThrow("Batch purchase with ERC-20 currency is opt-in")
+	})
+
+	test("ERC-20 currency is rejected for looksrare orders", async () => {
+		const order: SimpleLooksrareOrder = {
+			type: "LOOKSRARE",
+			maker: sellerAddress,
+			make: {
+				assetType: { assetClass: "ERC721", contract: collection, tokenId: toBigNumber("2") },
+				value: toBigNumber("1"),
+			},
+			take: {
+				assetType: { assetClass: "ERC20", contract: toAddress(it.testErc20.options.address) },
+				value: toBigNumber("1000"),
+			},
+			salt: randomWord(),
+			data: {
+				dataType: "LOOKSRARE_DATA_V1",
+				minPercentageToAsk: 8500,
+				strategy: ZERO_ADDRESS,
+				nonce: 0,
+			},
+		}
+		const filler = createFiller({ ethereum: { exchangeWrapperErc20: wrapperAddress } })
+		await expect(filler.buy([{ order, amount: 1 }]))
+			.rejects.toThrow("supported only for RARIBLE_V2 and SEAPORT_V1 orders, received=LOOKSRARE")
+	})
+
+	test("allowance of all ERC-20 orders is approved to ERC-20 exchange wrapper from sdk config", async () => {
+		const filler = createFiller({ ethereum: { exchangeWrapperErc20: wrapperAddress } })
+		const orders = [await createOrder("3", "1000"), await createOrder("4", "2000")]
+
+		await filler.buy
+			.start(orders.map(order => ({ order, amount: 1, infinite: false })))
+			.run(0)
+
+		expect(await it.testErc20.methods.allowance(buyerAddress, wrapperAddress).call()).toBe("3000")
+	})
+})
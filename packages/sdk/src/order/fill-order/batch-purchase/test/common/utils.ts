@@ -1,6 +1,6 @@
 import { toAddress } from "@rarible/types"
 import { toBn } from "@rarible/utils/build/bn"
-import type { Address, Asset, Part } from "@rarible/ethereum-api-client"
+import type { Address, Asset, Erc20AssetType, EthAssetType, Part } from "@rarible/ethereum-api-client"
 import type { Ethereum } from "@rarible/ethereum-provider"
 import type { RaribleSdk } from "../../../../../index"
 import { delay, retry } from "../../../../../common/retry"
@@ -13,6 +13,7 @@ import { getOpenseaEthTakeData } from "../../../../test/get-opensea-take-data"
 import { createSeaportOrder } from "../../../../test/order-opensea"
 import type { SendFunction } from "../../../../../common/send-transaction"
 import { makeRaribleSellOrder } from "../../../looksrare-utils/create-order"
+import type { LooksrareNonceTracker } from "../../../looksrare-utils/nonce-tracker"
 import type { EthereumConfig } from "../../../../../config/type"
 import { mintTokensToNewSudoswapPool } from "../../../amm/test/utils"
 
@@ -37,6 +38,7 @@ export async function makeRaribleV2Order(
 	sdk: RaribleSdk,
 	request: {
 		price?: string,
+		takeAssetType?: EthAssetType | Erc20AssetType,
 	},
 ) {
 	const token = await mintTestToken(sdk)
@@ -45,7 +47,7 @@ export async function makeRaribleV2Order(
 		type: "DATA_V2",
 		amount: 1,
 		priceDecimal: toBn(request.price ?? "0.000000000001"),
-		takeAssetType: {
+		takeAssetType: request.takeAssetType ?? {
 			assetClass: "ETH",
 		},
 		payouts: [],
@@ -83,7 +85,8 @@ export async function makeLooksrareOrder(
 	sdk: RaribleSdk,
 	ethereum: Ethereum,
 	send: SendFunction,
-	config: EthereumConfig
+	config: EthereumConfig,
+	nonces: LooksrareNonceTracker,
 ) {
 	const token = await mintTestToken(sdk)
 
@@ -95,7 +98,8 @@ export async function makeLooksrareOrder(
 			tokenId: token.tokenId,
 		},
 		send,
-		toAddress(config.exchange.looksrare!)
+		toAddress(config.exchange.looksrare!),
+		nonces,
 	)
 
 	return sellOrder
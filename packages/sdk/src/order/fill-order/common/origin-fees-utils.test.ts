@@ -1,5 +1,5 @@
 import { toAddress, toBigNumber } from "@rarible/types"
-import { calcValueWithFees, originFeeValueConvert } from "./origin-fees-utils"
+import { calcValueWithFees, originFeeValueConvert, packFeesToUint, unpackFeesFromUint } from "./origin-fees-utils"
 
 describe("originFee wrapper utils", () => {
 	test("Should calc correct value + fee",  () => {
@@ -48,4 +48,10 @@ describe("originFee wrapper utils", () => {
 			],
 		})
 	})
+
+	test("Should unpack fees packed to uint value", () => {
+		expect(unpackFeesFromUint(packFeesToUint([10000, 16]))).toEqual([10000, 16])
+		expect(unpackFeesFromUint(packFeesToUint([undefined, 250]))).toEqual([0, 250])
+		expect(unpackFeesFromUint(packFeesToUint([undefined, undefined]))).toEqual([0, 0])
+	})
 })
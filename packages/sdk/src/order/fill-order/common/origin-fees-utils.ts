@@ -17,6 +17,17 @@ export function packFeesToUint(fees: [number | undefined, number | undefined]):
 	return toBigNumber("0x" + "0".repeat(64 - 8) + firstFee + secondFee)
 }
 
+/**
+ * Unpack 2 number fee values from single uint256, reverse of packFeesToUint
+ * @param fees
+ */
+export function unpackFeesFromUint(fees: BigNumber): [number, number] {
+	const value = toBn(fees)
+	const secondFee = value.modulo(0x10000).toNumber()
+	const firstFee = value.dividedToIntegerBy(0x10000).modulo(0x10000).toNumber()
+	return [firstFee, secondFee]
+}
+
 /**
  * Check requirements for origin fees, converting them to single uint value for fee and list of fee receiver addresses
  * @param originFees
@@ -10,6 +10,7 @@ import type { SimpleCryptoPunkOrder } from "../types"
 import { createCryptoPunksMarketContract } from "../../nft/contracts/cryptoPunks"
 import type { SimpleOrder } from "../types"
 import type { IRaribleEthereumSdkConfig } from "../../types"
+import { WalletNotConnectedError } from "../../common/errors"
 import { invertOrder } from "./invert-order"
 import type { CryptoPunksOrderFillRequest, OrderFillSendData, OrderHandler } from "./types"
 import { getUpdatedCalldata } from "./common/get-updated-call"
@@ -33,7 +34,7 @@ export class CryptoPunksOrderHandler implements OrderHandler<CryptoPunksOrderFil
 
 	async approve(order: SimpleCryptoPunkOrder, infinite: boolean): Promise<void> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const withFee = this.getMakeAssetWithFee(order)
 		await waitTx(approve(this.ethereum, this.send, this.config.transferProxies, order.maker, withFee, infinite))
@@ -60,7 +61,7 @@ export class CryptoPunksOrderHandler implements OrderHandler<CryptoPunksOrderFil
 
 	getPunkOrderCallMethod(initial: SimpleCryptoPunkOrder): EthereumFunctionCall {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		if (initial.make.assetType.assetClass === "CRYPTO_PUNKS") {
 			// Call "buyPunk" if makeAsset=cryptoPunk
@@ -1,7 +1,9 @@
-import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
-import { toAddress } from "@rarible/types"
+import type { Ethereum, EthereumSendOptions, EthereumTransaction } from "@rarible/ethereum-provider"
+import type { BigNumber } from "@rarible/types"
+import { toAddress, toBigNumber } from "@rarible/types"
 import { Action } from "@rarible/action"
-import type { Address, AssetType } from "@rarible/ethereum-api-client"
+import type { Address, AssetType, Erc20AssetType } from "@rarible/ethereum-api-client"
+import { BigNumber as BigNum, toBn } from "@rarible/utils"
 import type { Maybe } from "@rarible/types/build/maybe"
 import type {
 	SimpleCryptoPunkOrder,
@@ -18,6 +20,13 @@ import type { CheckAssetTypeFunction } from "../check-asset-type"
 import { checkAssetType } from "../check-asset-type"
 import { checkLazyAssetType } from "../check-lazy-asset-type"
 import { checkChainId } from "../check-chain-id"
+import { getRequiredWallet } from "../../common/get-required-wallet"
+import { createDryRunSend } from "../../common/dry-run-send"
+import { getRevertInfo, OrderNotFillableError, WalletNotConnectedError } from "../../common/errors"
+import { getErrorMessageString } from "../../common/logger/logger"
+import { createErc20Contract } from "../contracts/erc20"
+import { getAssetWithFee } from "../get-asset-with-fee"
+import { isNft } from "../is-nft"
 import type { IRaribleEthereumSdkConfig } from "../../types"
 import type { EthereumNetwork } from "../../types"
 import type {
@@ -40,6 +49,8 @@ import type {
 	LooksrareOrderFillRequest,
 	X2Y2OrderFillRequest,
 	AmmOrderFillRequest,
+	FillSimulationBalance,
+	FillSimulationResult,
 } from "./types"
 import { RaribleV1OrderHandler } from "./rarible-v1"
 import { RaribleV2OrderHandler } from "./rarible-v2"
@@ -74,6 +85,7 @@ export class OrderFiller {
 		this.getBaseOrderFillFee = this.getBaseOrderFillFee.bind(this)
 		this.getTransactionData = this.getTransactionData.bind(this)
 		this.getBuyTx = this.getBuyTx.bind(this)
+		this.simulateFill = this.simulateFill.bind(this)
 		this.v1Handler = new RaribleV1OrderHandler(
 			ethereum,
 			apis.order,
@@ -113,15 +125,7 @@ export class OrderFiller {
 				id: "approve" as const,
 				run: async (request: Request) => {
 					if (!this.ethereum) {
-						throw new Error("Wallet undefined")
-					}
-					if (
-						request.order.type === "SEAPORT_V1" ||
-						request.order.type === "LOOKSRARE" ||
-						request.order.type === "X2Y2" ||
-						request.order.type === "AMM"
-					) {
-						return { request, inverted: request.order }
+						throw new WalletNotConnectedError()
 					}
 					const from = toAddress(await this.ethereum.getFrom())
 					const inverted = await this.invertOrder(request, from)
@@ -130,7 +134,7 @@ export class OrderFiller {
 						inverted.make.assetType = await this.checkAssetType(request.assetType)
 						inverted.make.assetType = await this.checkLazyAssetType(inverted.make.assetType)
 					}
-					await this.approveOrder(inverted, Boolean(request.infinite))
+					await this.approveOrder(request, inverted, Boolean(request.infinite))
 					return { request, inverted }
 				},
 			})
@@ -178,6 +182,115 @@ export class OrderFiller {
 		}
 	}
 
+	/**
+	 * Simulate order fill from the connected wallet, nothing is sent: approvals are only collected
+	 * and fill transaction is executed with eth_call if nothing has to be approved
+	 */
+	async simulateFill(request: FillOrderRequest): Promise<FillSimulationResult> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		await checkChainId(ethereum, this.config)
+		const from = toAddress(await ethereum.getFrom())
+		const { send, calls } = createDryRunSend()
+		const filler = new OrderFiller(
+			ethereum,
+			send,
+			this.config,
+			this.apis,
+			this.getBaseOrderFee,
+			this.env,
+			this.sdkConfig,
+		)
+
+		const inverted = await filler.invertOrder(request, from)
+		if (request.assetType && inverted.make.assetType.assetClass === "COLLECTION") {
+			inverted.make.assetType = await this.checkAssetType(request.assetType)
+			inverted.make.assetType = await this.checkLazyAssetType(inverted.make.assetType)
+		}
+		await filler.approveOrder(request, inverted, Boolean(request.infinite))
+		const { functionCall, options } = await filler.getTransactionRequestData(request, inverted)
+
+		const needsApproval = calls.length > 0
+		let revertReason: string | undefined = undefined
+		let gasEstimate: number | undefined = undefined
+		if (!needsApproval) {
+			try {
+				await functionCall.call({ value: options.value })
+				gasEstimate = await functionCall.estimateGas({ from, value: options.value })
+			} catch (e) {
+				revertReason = getRevertInfo(e)?.reason ?? getErrorMessageString(e)
+			}
+		}
+
+		const now = Math.floor(Date.now() / 1000)
+		const { start, end } = request.order
+		return {
+			willRevert: needsApproval ? undefined : revertReason !== undefined,
+			revertReason,
+			gasEstimate,
+			needsApproval,
+			missingApprovals: calls.map(({ callInfo }) => ({
+				contract: toAddress(callInfo.contract),
+				method: callInfo.method,
+				args: callInfo.args,
+			})),
+			insufficientBalance: await this.getInsufficientBalance(ethereum, from, request, inverted, options),
+			notStarted: start !== undefined && start > now,
+			expired: end !== undefined && end < now,
+		}
+	}
+
+	private async getInsufficientBalance(
+		ethereum: Ethereum,
+		from: Address,
+		request: FillOrderRequest,
+		inverted: SimpleOrder,
+		options: EthereumSendOptions,
+	): Promise<FillSimulationBalance | undefined> {
+		const value = toBn(options.value ?? 0)
+		if (value.gt(0)) {
+			const balance = await ethereum.getBalance(from)
+			if (value.gt(balance)) {
+				return { assetType: { assetClass: "ETH" }, required: toBigNumber(value.toFixed()), balance }
+			}
+		}
+
+		const payment = await this.getErc20Payment(request, inverted)
+		if (payment) {
+			const erc20 = createErc20Contract(ethereum, payment.assetType.contract)
+			const balance = toBigNumber(toBn(await erc20.functionCall("balanceOf", from).call()).toFixed())
+			if (toBn(payment.value).gt(balance)) {
+				return { assetType: payment.assetType, required: payment.value, balance }
+			}
+		}
+		return undefined
+	}
+
+	/**
+	 * ERC-20 amount (with fees if they are known) the taker pays for the order
+	 */
+	private async getErc20Payment(
+		request: FillOrderRequest,
+		inverted: SimpleOrder,
+	): Promise<{ assetType: Erc20AssetType, value: BigNumber } | undefined> {
+		if (inverted !== request.order) {
+			if (inverted.make.assetType.assetClass !== "ERC20") {
+				return undefined
+			}
+			const { value } = getAssetWithFee(inverted.make, await this.getOrderFee(inverted))
+			return { assetType: inverted.make.assetType, value }
+		}
+		const { make, take } = request.order
+		if (!isNft(make.assetType) || take.assetType.assetClass !== "ERC20") {
+			return undefined
+		}
+		const amount = "amount" in request ? request.amount : 1
+		const value = toBn(take.value)
+			.multipliedBy(amount)
+			.dividedBy(make.value)
+			.integerValue(BigNum.ROUND_CEIL)
+		return { assetType: take.assetType, value: toBigNumber(value.toFixed()) }
+	}
+
 	private async invertOrder(request: FillOrderRequest, from: Address) {
 		switch (request.order.type) {
 			case "RARIBLE_V1":
@@ -187,11 +300,11 @@ export class OrderFiller {
 			case "OPEN_SEA_V1":
 				return this.openSeaHandler.invert(<OpenSeaV1OrderFillRequest>request, from)
 			case "SEAPORT_V1":
-				throw new Error("Invert for Seaport orders is not implemented yet")
+			case "LOOKSRARE":
 			case "X2Y2":
-				throw new Error("Invert for x2y2 orders is not implemented yet")
 			case "AMM":
-				throw new Error("Invert for AMM orders is not implemented yet")
+				// taker side of these orders is built by the handler, so initial order is used as is
+				return request.order
 			case "CRYPTO_PUNK":
 				return this.punkHandler.invert(<CryptoPunksOrderFillRequest>request, from)
 			default:
@@ -199,7 +312,7 @@ export class OrderFiller {
 		}
 	}
 
-	private async approveOrder(inverted: SimpleOrder, isInfinite: boolean) {
+	private async approveOrder(request: FillOrderRequest, inverted: SimpleOrder, isInfinite: boolean) {
 		switch (inverted.type) {
 			case "RARIBLE_V1":
 				return this.v1Handler.approve(inverted, isInfinite)
@@ -208,11 +321,14 @@ export class OrderFiller {
 			case "OPEN_SEA_V1":
 				return this.openSeaHandler.approve(inverted, isInfinite)
 			case "SEAPORT_V1":
-				throw new Error("Approve for Seaport orders is not implemented yet")
+				return this.seaportHandler.approve(<SeaportV1OrderFillRequest>request)
+			case "LOOKSRARE":
+				return this.looksrareHandler.approve(<LooksrareOrderFillRequest>request)
 			case "X2Y2":
-				throw new Error("Approve for x2y2 orders is not implemented yet")
+				// x2y2 orders are bought for ETH only, nothing to approve
+				return
 			case "AMM":
-				throw new Error("Approve for AMM orders is not implemented yet")
+				return this.ammHandler.approve(<AmmOrderFillRequest>request)
 			case "CRYPTO_PUNK":
 				return this.punkHandler.approve(inverted, isInfinite)
 			default:
@@ -299,7 +415,7 @@ export class OrderFiller {
 		request: FillOrderRequest
 	): Promise<OrderFillTransactionData> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		await checkChainId(this.ethereum, this.config)
 		const from = toAddress(await this.ethereum.getFrom())
@@ -364,10 +480,10 @@ export class OrderFiller {
 	checkStartEndDates(order: SimpleOrder) {
 		const now = Date.now()
 		if (order.start !== undefined && new Date(order.start * 1000).getTime() > now) {
-			throw new Error(`Order will be actual since ${new Date(order.start * 1000)}, now ${new Date()}`)
+			throw new OrderNotFillableError(`Order will be actual since ${new Date(order.start * 1000)}, now ${new Date()}`)
 		}
 		if (order.end !== undefined && new Date(order.end * 1000).getTime() < now) {
-			throw new Error(`Order was actual until ${new Date(order.end * 1000)}, now ${new Date()}`)
+			throw new OrderNotFillableError(`Order was actual until ${new Date(order.end * 1000)}, now ${new Date()}`)
 		}
 	}
 }
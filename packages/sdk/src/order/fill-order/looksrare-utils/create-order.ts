@@ -1,27 +1,44 @@
-import type { Address, Erc1155AssetType } from "@rarible/ethereum-api-client"
-import { toAddress, toBigNumber, toBinary, ZERO_WORD } from "@rarible/types"
+import type { Address, Asset, Erc1155AssetType } from "@rarible/ethereum-api-client"
+import type { BigNumber, BigNumberValue } from "@rarible/utils"
+import { toBn } from "@rarible/utils/build/bn"
+import { toAddress, toBigNumber, toBinary, ZERO_ADDRESS, ZERO_WORD } from "@rarible/types"
 import type { Ethereum } from "@rarible/ethereum-provider"
 import type { Erc721AssetType } from "@rarible/ethereum-api-client/build/models/AssetType"
 import { getRequiredWallet } from "../../../common/get-required-wallet"
 import { waitTx } from "../../../common/wait-tx"
+import { withSdkError } from "../../../common/errors"
 import { approveErc721 } from "../../approve-erc721"
 import type { SendFunction } from "../../../common/send-transaction"
 import { EIP712_ORDER_TYPES } from "../../eip712"
 import type { SimpleLooksrareOrder } from "../../types"
-import type { MakerOrder, SupportedChainId } from "./types"
+import { isNft } from "../../is-nft"
+import { createLooksrareExchange } from "../../contracts/looksrare-exchange"
+import type {
+	Addresses,
+	MakerOrder,
+	MakerOrderWithEncodedParams,
+	MakerOrderWithSignature,
+	SupportedChainId,
+} from "./types"
 import { addressesByNetwork } from "./constants"
+import type { LooksrareNonceTracker } from "./nonce-tracker"
+
+const NONCE_PROBE_BATCH_SIZE = 10
+const MAX_NONCE_PROBES = 100
 
 export async function makeSellOrder(
 	ethereum: Ethereum,
 	assetType: Erc721AssetType | Erc1155AssetType,
 	send: SendFunction,
-	exchangeAddress: Address
+	exchangeAddress: Address,
+	nonces: LooksrareNonceTracker,
 ) {
 	const provider = getRequiredWallet(ethereum)
 	const signerAddress = toAddress(await provider.getFrom())
-	const chainId = await provider.getChainId()
-	const addresses = addressesByNetwork[chainId as SupportedChainId]
-	const nonce = await (provider as any).config.web3.eth.getTransactionCount(await provider.getFrom(), "pending")
+	const addresses = getLooksrareAddresses(await provider.getChainId())
+	const nonce = nonces.reserve(
+		exchangeAddress, signerAddress, await getNextNonce(provider, exchangeAddress, signerAddress),
+	)
 
 	const now = Math.floor(Date.now() / 1000)
 
@@ -36,7 +53,7 @@ export async function makeSellOrder(
 		amount: "1",
 		strategy: addresses.STRATEGY_STANDARD_SALE,
 		currency: addresses.WETH,
-		nonce: nonce,
+		nonce: nonce.toFixed(),
 		startTime: now,
 		endTime: now + 86400,
 		minPercentageToAsk: minNetPriceRatio,
@@ -52,25 +69,68 @@ export async function makeSellOrder(
 	}
 }
 
+export function getLooksrareAddresses(chainId: number): Addresses {
+	const addresses = addressesByNetwork[chainId as SupportedChainId]
+	if (!addresses) {
+		throw new Error(`Looksrare is not supported on chain with id=${chainId}`)
+	}
+	return addresses
+}
+
+/**
+ * Returns the lowest order nonce of the signer which is not executed or cancelled on chain yet.
+ * Nonces of active orders are not marked on chain, use LooksrareNonceTracker to get nonce for the new order.
+ * Nonces above userMinOrderNonce are probed in batches, at most MAX_NONCE_PROBES of them
+ */
+export async function getNextNonce(
+	ethereum: Ethereum,
+	exchangeAddress: Address,
+	signer: Address,
+): Promise<BigNumber> {
+	const exchange = createLooksrareExchange(ethereum, exchangeAddress)
+	const minNonce = toBn(await exchange.functionCall("userMinOrderNonce", signer).call())
+	for (let offset = 0; offset < MAX_NONCE_PROBES; offset += NONCE_PROBE_BATCH_SIZE) {
+		const batch = Array.from({ length: NONCE_PROBE_BATCH_SIZE }, (_, i) => minNonce.plus(offset + i))
+		const used: boolean[] = await Promise.all(batch.map(nonce =>
+			exchange.functionCall("isUserOrderNonceExecutedOrCancelled", signer, nonce.toFixed()).call(),
+		))
+		const free = used.findIndex(x => !x)
+		if (free !== -1) {
+			return batch[free]
+		}
+	}
+	throw new Error(
+		`All of ${MAX_NONCE_PROBES} Looksrare order nonces starting from ${minNonce.toFixed()} are executed or cancelled, ` +
+		"pass nonce explicitly or cancel all orders to increase minimal nonce",
+	)
+}
+
 export async function makeRaribleSellOrder(
 	ethereum: Ethereum,
 	assetType: Erc721AssetType | Erc1155AssetType,
 	send: SendFunction,
-	exchangeAddress: Address
+	exchangeAddress: Address,
+	nonces: LooksrareNonceTracker,
 ): Promise<SimpleLooksrareOrder> {
-	const order = await makeSellOrder(ethereum, assetType, send, exchangeAddress)
+	const order = await makeSellOrder(ethereum, assetType, send, exchangeAddress, nonces)
+
+	return toSimpleLooksrareOrder(
+		order,
+		{ assetType, value: toBigNumber(order.amount.toString()) },
+		{ assetType: { assetClass: "ETH" }, value: toBigNumber(order.price.toString()) },
+	)
+}
 
+export function toSimpleLooksrareOrder(
+	order: MakerOrderWithSignature,
+	make: Asset,
+	take: Asset,
+): SimpleLooksrareOrder {
 	return {
 		type: "LOOKSRARE",
 		maker: toAddress(order.signer),
-		make: {
-			assetType,
-			value: toBigNumber(order.amount.toString()),
-		},
-		take: {
-			assetType: {assetClass: "ETH"},
-			value: toBigNumber(order.price.toString()),
-		},
+		make,
+		take,
 		salt: ZERO_WORD,
 		start: parseInt(order.startTime.toString()),
 		end: parseInt(order.endTime.toString()),
@@ -84,17 +144,91 @@ export async function makeRaribleSellOrder(
 	}
 }
 
-async function getOrderSignature(order: MakerOrder, ethereum: Ethereum, exchangeContract: Address): Promise<string> {
+/**
+ * Convert order to LooksRare maker order, amount is the amount of tokens to fill (order amount for hashing)
+ */
+export function toLooksrareMakerOrder(
+	makerOrder: SimpleLooksrareOrder, amount: BigNumberValue,
+): MakerOrderWithEncodedParams {
+	const {take, make} = makerOrder
+	let isOrderAsk: boolean
+	let contract: Address
+	let tokenId: string
+	let price: BigNumberValue
+	let currency: Address
+	if (isNft(make.assetType)) {
+		if (toBn(amount).gt(make.value)) {
+			throw new Error(`Amount should be less or equal to ${make.value.toString()}`)
+		}
+		isOrderAsk = true
+		contract = make.assetType.contract
+		tokenId = make.assetType.tokenId.toString()
+		price = take.value
+		if (take.assetType.assetClass === "ETH") {
+			currency = ZERO_ADDRESS
+		} else if (take.assetType.assetClass === "ERC20") {
+			currency = take.assetType.contract
+		} else {
+			throw new Error("Take asset should be ETH or ERC-20 contract")
+		}
+	} else if (isNft(take.assetType) || take.assetType.assetClass === "COLLECTION") {
+		if (toBn(amount).gt(take.value)) {
+			throw new Error(`Amount should be less or equal to ${take.value.toString()}`)
+		}
+		isOrderAsk = false
+		contract = take.assetType.contract
+		// token id is ignored by collection strategy, taker chooses the token
+		tokenId = isNft(take.assetType) ? take.assetType.tokenId.toString() : "0"
+		price = make.value
+		if (make.assetType.assetClass !== "ERC20") {
+			throw new Error("Make asset of bid order should be ERC-20 contract")
+		}
+		currency = make.assetType.contract
+	} else {
+		throw new Error(
+			`Make or take asset should be NFT. Make=${make.assetType.assetClass}, take=${take.assetType.assetClass}`
+		)
+	}
+
+	return {
+		isOrderAsk,
+		signer: makerOrder.maker,
+		collection: contract,
+		price,
+		tokenId: tokenId,
+		amount,
+		strategy: makerOrder.data.strategy,
+		currency,
+		nonce: makerOrder.data.nonce,
+		startTime: makerOrder.start || 0,
+		endTime: makerOrder.end || 0,
+		minPercentageToAsk: makerOrder.data.minPercentageToAsk,
+		params: makerOrder.data.params || "0x",
+	}
+}
+
+export async function getOrderSignature(
+	order: MakerOrder, ethereum: Ethereum, exchangeContract: Address,
+): Promise<string> {
 	const provider = getRequiredWallet(ethereum)
 
 	if (!exchangeContract) {
 		throw new Error("Looksrare order cannot be signed without exchange address in config")
 	}
 
+	const signature = await withSdkError(provider.signTypedData(
+		getOrderTypedData(order, await ethereum.getChainId(), exchangeContract),
+	))
+	return signature
+}
+
+export function getOrderTypedData(
+	order: MakerOrder | MakerOrderWithEncodedParams, chainId: number, exchangeContract: Address,
+) {
 	const domain = {
 		name: "LooksRareExchange",
 		version: "1",
-		chainId: await ethereum.getChainId(),
+		chainId,
 		verifyingContract: exchangeContract,
 	}
 
@@ -116,8 +250,8 @@ async function getOrderSignature(order: MakerOrder, ethereum: Ethereum, exchange
 		],
 	}
 
-	const signature = await provider.signTypedData({
-		primaryType: "MakerOrder",
+	return {
+		primaryType: "MakerOrder" as const,
 		domain,
 		types: {
 			...EIP712_ORDER_TYPES,
@@ -138,6 +272,5 @@ async function getOrderSignature(order: MakerOrder, ethereum: Ethereum, exchange
 			minPercentageToAsk: order.minPercentageToAsk,
 			params: order.params,
 		},
-	})
-	return signature
+	}
 }
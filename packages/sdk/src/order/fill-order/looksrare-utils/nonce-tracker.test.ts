@@ -0,0 +1,30 @@
+import { randomAddress } from "@rarible/types"
+import { LooksrareNonceTracker } from "./nonce-tracker"
+
+describe("LooksrareNonceTracker", () => {
+	const exchange = randomAddress()
+	const signer = randomAddress()
+
+	test("should reserve new nonce for every order of the signer", () => {
+		const nonces = new LooksrareNonceTracker()
+
+		expect(nonces.reserve(exchange, signer, 3).toFixed()).toBe("3")
+		expect(nonces.reserve(exchange, signer, 3).toFixed()).toBe("4")
+		expect(nonces.reserve(exchange, randomAddress(), 3).toFixed()).toBe("3")
+	})
+
+	test("should use free nonce from chain if it's above used ones", () => {
+		const nonces = new LooksrareNonceTracker()
+
+		expect(nonces.reserve(exchange, signer, 0).toFixed()).toBe("0")
+		expect(nonces.reserve(exchange, signer, 10).toFixed()).toBe("10")
+	})
+
+	test("should continue after explicitly used nonce", () => {
+		const nonces = new LooksrareNonceTracker()
+		nonces.markUsed(exchange, signer, 7)
+		nonces.markUsed(exchange, signer, 2)
+
+		expect(nonces.reserve(exchange, signer, 1).toFixed()).toBe("8")
+	})
+})
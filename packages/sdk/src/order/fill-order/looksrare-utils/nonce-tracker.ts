@@ -0,0 +1,43 @@
+import type { Address } from "@rarible/ethereum-api-client"
+import type { BigNumber } from "@rarible/utils"
+import type { BigNumberValue } from "@rarible/utils/build/bn"
+import { toBn } from "@rarible/utils/build/bn"
+
+/**
+ * Keeps the highest LooksRare order nonce used by the signer.
+ * Active orders aren't visible on chain, so without it every new order would get the nonce of the previous one,
+ * and orders sharing a nonce are mutually exclusive (fill or cancel of one invalidates the others).
+ * Nonces used in other sessions are not known, pass nonce explicitly to continue them
+ */
+export class LooksrareNonceTracker {
+	private readonly used: Record<string, BigNumber> = {}
+
+	/**
+	 * Reserve nonce for the new order
+	 *
+	 * @param exchange LooksRare exchange address
+	 * @param signer order maker
+	 * @param free the lowest nonce which is not executed or cancelled on chain
+	 */
+	reserve(exchange: Address, signer: Address, free: BigNumberValue): BigNumber {
+		const used = this.used[getKey(exchange, signer)]
+		const nonce = used && used.gte(free) ? used.plus(1) : toBn(free)
+		this.markUsed(exchange, signer, nonce)
+		return nonce
+	}
+
+	/**
+	 * Remember nonce of the order signed with explicitly specified nonce
+	 */
+	markUsed(exchange: Address, signer: Address, nonce: BigNumberValue) {
+		const key = getKey(exchange, signer)
+		const used = this.used[key]
+		if (!used || used.lt(nonce)) {
+			this.used[key] = toBn(nonce)
+		}
+	}
+}
+
+function getKey(exchange: Address, signer: Address) {
+	return `${exchange.toLowerCase()}:${signer.toLowerCase()}`
+}
@@ -14,6 +14,7 @@ import { MintResponseTypeEnum } from "../../nft/mint"
 import { awaitOwnership } from "../test/await-ownership"
 import { FILL_CALLDATA_TAG } from "../../config/common"
 import { makeRaribleSellOrder } from "./looksrare-utils/create-order"
+import { LooksrareNonceTracker } from "./looksrare-utils/nonce-tracker"
 
 describe.skip("looksrare fill", () => {
 	const providerConfig = {
@@ -62,6 +63,7 @@ describe.skip("looksrare fill", () => {
 
 	const checkWalletChainId = checkChainId.bind(null, ethereum, config)
 	const send = getSimpleSendWithInjects().bind(null, checkWalletChainId)
+	const nonces = new LooksrareNonceTracker()
 
 	test.skip("fill erc 721", async () => {
 		if (!config.exchange.looksrare) {
@@ -86,7 +88,8 @@ describe.skip("looksrare fill", () => {
 				tokenId: sellItem.tokenId,
 			},
 			send,
-			toAddress(config.exchange.looksrare)
+			toAddress(config.exchange.looksrare),
+			nonces,
 		)
 		console.log("sellOrder", sellOrder)
 
@@ -129,7 +132,8 @@ describe.skip("looksrare fill", () => {
 				tokenId: sellItem.tokenId,
 			},
 			send,
-			toAddress(config.exchange.looksrare)
+			toAddress(config.exchange.looksrare),
+			nonces,
 		)
 
 		const seller = toAddress(await ethereumSeller.getFrom())
@@ -200,7 +204,8 @@ describe.skip("looksrare fill", () => {
 				tokenId: sellItem.tokenId,
 			},
 			send,
-			toAddress(config.exchange.looksrare)
+			toAddress(config.exchange.looksrare),
+			nonces,
 		)
 		console.log("sellOrder", sellOrder)
 
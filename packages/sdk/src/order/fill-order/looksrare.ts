@@ -1,9 +1,8 @@
 import type { Maybe } from "@rarible/types/build/maybe"
 import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
-import { toBn } from "@rarible/utils/build/bn"
-import type { Address, AssetType } from "@rarible/ethereum-api-client"
+import type { AssetType } from "@rarible/ethereum-api-client"
 import type { BigNumber } from "@rarible/types"
-import { ZERO_ADDRESS } from "@rarible/types"
+import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import type { Part } from "@rarible/ethereum-api-client"
 import { toBigNumber } from "@rarible/types/build/big-number"
 import type { BigNumberValue } from "@rarible/utils"
@@ -17,8 +16,15 @@ import type { SimpleLooksrareOrder, SimpleOrder } from "../types"
 import { isNft } from "../is-nft"
 import type { EthereumNetwork } from "../../types"
 import type { IRaribleEthereumSdkConfig } from "../../types"
+import { waitTx } from "../../common/wait-tx"
+import { createLooksrareExchange } from "../contracts/looksrare-exchange"
+import { createErc1155Contract } from "../contracts/erc1155"
+import { approveErc721 } from "../approve-erc721"
+import { approveErc1155 } from "../approve-erc1155"
+import { WalletNotConnectedError } from "../../common/errors"
 import type { MakerOrderWithVRS, TakerOrderWithEncodedParams } from "./looksrare-utils/types"
-import type { LooksrareOrderFillRequest, OrderFillSendData } from "./types"
+import { getLooksrareAddresses, toLooksrareMakerOrder } from "./looksrare-utils/create-order"
+import type { CommonFillRequestAssetType, LooksrareOrderFillRequest, OrderFillSendData } from "./types"
 import { ExchangeWrapperOrderType } from "./types"
 import { getUpdatedCalldata } from "./common/get-updated-call"
 import type { PreparedOrderRequestDataForExchangeWrapper } from "./types"
@@ -35,50 +41,32 @@ export class LooksrareOrderHandler {
 	) {}
 
 	convertMakerOrderToLooksrare(makerOrder: SimpleLooksrareOrder, amount: BigNumberValue): MakerOrderWithVRS {
-		const {take, make} = makerOrder
-		if (toBn(amount).gt(make.value)) {
-			throw new Error(`Amount should be less or equal to ${make.value.toString()}`)
-		}
-		let isOrderAsk: boolean
-		let contract: Address
-		let tokenId: string
-		if (isNft(make.assetType) || isNft(make.assetType)) {
-			isOrderAsk = true
-			contract = make.assetType.contract
-			tokenId = make.assetType.tokenId.toString()
-		} else {
-			throw new Error(`Only sell orders are supported. Make=${make.assetType.assetClass} is not NFT`)
-		}
-
-		let currency: Address
-		if (take.assetType.assetClass === "ETH") {
-			currency = ZERO_ADDRESS
-		} else if (take.assetType.assetClass === "ERC20") {
-			currency = take.assetType.contract
-		} else {
-			throw new Error("Take asset should be ETH or ERC-20 contract")
-		}
-
 		if (!makerOrder.signature) {
 			throw new Error("Signature is null")
 		}
-		const vrs = toVrs(makerOrder.signature || "0x")
-
 		return {
-			isOrderAsk,
-			signer: makerOrder.maker,
-			collection: contract,
-			price: take.value,
-			tokenId: tokenId,
-			amount,
-			strategy: makerOrder.data.strategy,
-			currency,
-			nonce: makerOrder.data.nonce,
-			startTime: makerOrder.start || 0,
-			endTime: makerOrder.end || 0,
-			minPercentageToAsk: makerOrder.data.minPercentageToAsk,
-			params: makerOrder.data.params || "0x",
-			...vrs,
+			...toLooksrareMakerOrder(makerOrder, amount),
+			...toVrs(makerOrder.signature),
+		}
+	}
+
+	/**
+	 * Approve NFT to the LooksRare transfer manager if order is a bid, nothing to approve for sell orders
+	 */
+	async approve(request: LooksrareOrderFillRequest): Promise<void> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const { assetType } = request.order.take
+		if (!isNft(assetType) && assetType.assetClass !== "COLLECTION") {
+			return
+		}
+		const addresses = getLooksrareAddresses(await ethereum.getChainId())
+		const owner = toAddress(await ethereum.getFrom())
+		if (await isErc1155Asset(ethereum, assetType, request.assetType)) {
+			const operator = toAddress(addresses.TRANSFER_MANAGER_ERC1155)
+			await waitTx(approveErc1155(ethereum, this.send, assetType.contract, owner, operator))
+		} else {
+			const operator = toAddress(addresses.TRANSFER_MANAGER_ERC721)
+			await waitTx(approveErc721(ethereum, this.send, assetType.contract, owner, operator))
 		}
 	}
 
@@ -110,12 +98,15 @@ export class LooksrareOrderHandler {
 		encodedFeesValue?: BigNumber,
 	) {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		if (request.originFees && request.originFees.length > 2) {
 			throw new Error("Origin fees recipients shouldn't be greater than 2")
 		}
+		if (!isNft(request.order.make.assetType)) {
+			throw new Error("Only sell orders can be filled through the exchange wrapper")
+		}
 
 		const makerOrder = this.convertMakerOrderToLooksrare(request.order, request.amount)
 
@@ -166,6 +157,9 @@ export class LooksrareOrderHandler {
 	}
 
 	async getTransactionData(request: LooksrareOrderFillRequest): Promise<OrderFillSendData> {
+		if (!isNft(request.order.make.assetType)) {
+			return this.getAcceptBidTransactionData(request)
+		}
 		const {requestData, feeAddresses} = this.prepareTransactionData(request, request.originFees, undefined)
 
 		const provider = getRequiredWallet(this.ethereum)
@@ -188,6 +182,43 @@ export class LooksrareOrderHandler {
 		}
 	}
 
+	private async getAcceptBidTransactionData(request: LooksrareOrderFillRequest): Promise<OrderFillSendData> {
+		const provider = getRequiredWallet(this.ethereum)
+		if (request.originFees?.length) {
+			throw new Error("Origin fees are not supported for accepting LooksRare bids")
+		}
+		const { looksrare } = this.config.exchange
+		if (!looksrare || looksrare === ZERO_ADDRESS) {
+			throw new Error("Looksrare contract did not specified")
+		}
+
+		const makerOrder = this.convertMakerOrderToLooksrare(request.order, request.order.take.value)
+		let tokenId = makerOrder.tokenId
+		if (request.order.take.assetType.assetClass === "COLLECTION") {
+			if (request.assetType?.tokenId === undefined) {
+				throw new Error("Token id should be specified in request.assetType to accept collection bid")
+			}
+			tokenId = request.assetType.tokenId.toString()
+		}
+
+		const takerOrder: TakerOrderWithEncodedParams = {
+			isOrderAsk: true,
+			taker: await provider.getFrom(),
+			price: makerOrder.price,
+			tokenId,
+			minPercentageToAsk: makerOrder.minPercentageToAsk,
+			params: "0x",
+		}
+		const exchangeContract = createLooksrareExchange(provider, looksrare)
+
+		return {
+			functionCall: exchangeContract.functionCall("matchBidWithTakerAsk", takerOrder, makerOrder),
+			options: {
+				additionalData: getUpdatedCalldata(this.sdkConfig),
+			},
+		}
+	}
+
 	getBaseOrderFee() {
 		return this.getBaseOrderFeeConfig("LOOKSRARE")
 	}
@@ -197,6 +228,21 @@ export class LooksrareOrderHandler {
 	}
 }
 
+async function isErc1155Asset(
+	ethereum: Ethereum, assetType: AssetType, requestAssetType?: CommonFillRequestAssetType
+): Promise<boolean> {
+	if (assetType.assetClass !== "COLLECTION") {
+		return assetType.assetClass === "ERC1155" || assetType.assetClass === "ERC1155_LAZY"
+	}
+	if (requestAssetType && "assetClass" in requestAssetType) {
+		return requestAssetType.assetClass === "ERC1155" || requestAssetType.assetClass === "ERC1155_LAZY"
+	}
+	const contract = createErc1155Contract(ethereum, assetType.contract)
+	return contract.functionCall("supportsInterface", ERC1155_INTERFACE_ID).call()
+}
+
+const ERC1155_INTERFACE_ID = "0xd9b67a26"
+
 export function encodeLooksRareData(
 	ethereum: Ethereum,
 	makerOrder: MakerOrderWithVRS,
@@ -1,8 +1,8 @@
 import type { Address, BigNumber } from "@rarible/types"
 import { toAddress, toBigNumber, toBinary, ZERO_ADDRESS } from "@rarible/types"
 import type { AssetType, Binary } from "@rarible/ethereum-api-client"
-import type { Ethereum } from "@rarible/ethereum-provider"
 import { toBn } from "@rarible/utils"
+import type { AbiEncoder } from "../../common/abi-encoder"
 import { isNft } from "../is-nft"
 import type { SimpleOpenSeaV1Order, SimpleOrder } from "../types"
 import type { OpenSeaOrderDTO } from "./open-sea-types"
@@ -13,7 +13,7 @@ import {
 	OrderOpenSeaV1DataV1Side,
 } from "./open-sea-types"
 
-export function convertOpenSeaOrderToDTO(ethereum: Ethereum, order: SimpleOpenSeaV1Order): OpenSeaOrderDTO {
+export function convertOpenSeaOrderToDTO(ethereum: AbiEncoder, order: SimpleOpenSeaV1Order): OpenSeaOrderDTO {
 	const paymentToken = getPaymentTokenAddress(order)
 	if (!paymentToken) {
 		throw new Error("Maker or taker should have an ERC20 asset")
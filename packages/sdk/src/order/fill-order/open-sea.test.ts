@@ -357,6 +357,7 @@ describe.skip("fillOrder: Opensea orders", function () {
 				wrapper: toAddress(it.exchangeWrapper.options.address),
 				x2y2: ZERO_ADDRESS,
 			},
+			config.seaport,
 			checkChainId.bind(null, ethereum1, config),
 			apis,
 			{
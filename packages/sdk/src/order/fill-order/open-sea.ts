@@ -31,11 +31,12 @@ import { ERC721VersionEnum } from "../../nft/contracts/domain"
 import { createMerkleValidatorContract } from "../contracts/merkle-validator"
 import { createErc1155Contract } from "../contracts/erc1155"
 import type { RaribleEthereumApis } from "../../common/apis"
-import type { EVMBlockchain } from "../../common/get-blockchain-from-chain-id"
 import { getBlockchainFromChainId } from "../../common/get-blockchain-from-chain-id"
-import type { EthereumNetworkConfig, IRaribleEthereumSdkConfig } from "../../types"
+import { getEthereumNetworkConfig } from "../../common/get-ethereum-network-config"
+import type { IRaribleEthereumSdkConfig } from "../../types"
 import { id32 } from "../../common/id"
 import { createExchangeWrapperContract } from "../contracts/exchange-wrapper"
+import { WalletNotConnectedError } from "../../common/errors"
 import type { OpenSeaOrderDTO } from "./open-sea-types"
 import type {
 	OpenSeaV1OrderFillRequest,
@@ -246,7 +247,7 @@ export class OpenSeaOrderHandler implements OrderHandler<OpenSeaV1OrderFillReque
 		initial: SimpleOpenSeaV1Order, inverted: SimpleOpenSeaV1Order, request: OpenSeaV1OrderFillRequest
 	): Promise<OrderFillSendData> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const isTakeEth = initial.take.assetType.assetClass === "ETH"
 
@@ -314,7 +315,7 @@ export class OpenSeaOrderHandler implements OrderHandler<OpenSeaV1OrderFillReque
 		inverted: SimpleOpenSeaV1Order,
 	): Promise<EthereumFunctionCall> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const isTakeEth = initial.take.assetType.assetClass === "ETH"
 		const { buy, sell } = getBuySellOrders(initial, inverted)
@@ -396,7 +397,7 @@ export class OpenSeaOrderHandler implements OrderHandler<OpenSeaV1OrderFillReque
 		infinite: undefined | boolean = true,
 	): Promise<EthereumTransaction | undefined> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		switch (asset.assetType.assetClass) {
 			case "ERC20": {
@@ -421,7 +422,7 @@ export class OpenSeaOrderHandler implements OrderHandler<OpenSeaV1OrderFillReque
 
 	private async getRegisteredProxy(maker: Address): Promise<Address> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const proxyRegistry = this.config.openSea.proxyRegistry
 		const proxyRegistryContract = createOpenseaProxyRegistryEthContract(this.ethereum, proxyRegistry)
@@ -515,18 +516,5 @@ export function getAtomicMatchArgCommonData(dto: OpenSeaOrderDTO) {
 	return [dto.feeMethod, dto.side, dto.saleKind, dto.howToCall]
 }
 
-function getEthereumNetworkConfig(
-	blockchain: EVMBlockchain, sdkConfig?: IRaribleEthereumSdkConfig
-): EthereumNetworkConfig | void {
-	if (!sdkConfig) {
-		return
-	}
-	switch (blockchain) {
-		case "ETHEREUM": return sdkConfig.ethereum
-		case "POLYGON": return sdkConfig.polygon
-		default: return
-	}
-}
-
 const MATCH_ERC721_SAFE_TRANSFER_SIGNATURE = "0xc5a0236e"
 const SAFE_TRANSFER_SIGNATURE = "0x42842e0e"
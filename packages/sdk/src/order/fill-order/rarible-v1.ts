@@ -14,6 +14,7 @@ import { toVrs } from "../../common/to-vrs"
 import { waitTx } from "../../common/wait-tx"
 import type { SimpleOrder } from "../types"
 import type { IRaribleEthereumSdkConfig } from "../../types"
+import { WalletNotConnectedError } from "../../common/errors"
 import { invertOrder } from "./invert-order"
 import type { LegacyOrderFillRequest, OrderFillSendData, OrderHandler } from "./types"
 import { getUpdatedCalldata } from "./common/get-updated-call"
@@ -40,7 +41,7 @@ export class RaribleV1OrderHandler implements OrderHandler<LegacyOrderFillReques
 
 	async approve(order: SimpleLegacyOrder, infinite: boolean): Promise<void> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const withFee = getAssetWithFee(order.make, this.getOrderFee(order))
 		await waitTx(approve(this.ethereum, this.send, this.config.transferProxies, order.maker, withFee, infinite))
@@ -58,7 +59,7 @@ export class RaribleV1OrderHandler implements OrderHandler<LegacyOrderFillReques
 		initial: SimpleLegacyOrder, inverted: SimpleLegacyOrder, request: LegacyOrderFillRequest
 	): Promise<OrderFillSendData> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		const buyerFeeSig = await this.orderApi.buyerFeeSignature(
@@ -180,6 +180,107 @@ describe("buy & acceptBid orders", () => {
 		expect(finishErc1155Balance.minus(startErc1155Balance).toString()).toBe("1")
 	})
 
+	test("should simulate fill of order without enough erc20 balance", async () => {
+		await sentTxConfirm(it.testErc1155.methods.mint(sellerAddress, 2, 10, "0x"), { from: buyerAddress })
+		await sentTx(it.testErc1155.methods.setApprovalForAll(it.transferProxy.options.address, true), {
+			from: sellerAddress,
+		})
+
+		const left: SimpleOrder = {
+			make: {
+				assetType: {
+					assetClass: "ERC1155",
+					contract: toAddress(it.testErc1155.options.address),
+					tokenId: toBigNumber("2"),
+				},
+				value: toBigNumber("1"),
+			},
+			maker: sellerAddress,
+			take: {
+				assetType: {
+					assetClass: "ERC20",
+					contract: toAddress(it.testErc20.options.address),
+				},
+				value: toBigNumber("1000000"),
+			},
+			salt: randomWord(),
+			type: "RARIBLE_V2",
+			end: Math.floor(Date.now() / 1000) - 60,
+			data: {
+				dataType: "RARIBLE_V2_DATA_V1",
+				payouts: [],
+				originFees: [],
+			},
+		}
+		const signature = await signOrder(sellerEthereum, config, left)
+
+		const result = await filler.simulateFill({
+			order: { ...left, signature },
+			amount: 1,
+			payouts: [],
+			originFees: [],
+		})
+
+		expect(result.needsApproval).toBe(true)
+		expect(result.willRevert).toBeUndefined()
+		expect(result.gasEstimate).toBeUndefined()
+		expect(result.expired).toBe(true)
+		expect(result.notStarted).toBe(false)
+		expect(result.insufficientBalance?.assetType.assetClass).toBe("ERC20")
+		expect(result.missingApprovals.every(a => a.contract === toAddress(it.testErc20.options.address))).toBe(true)
+	})
+
+	test("should simulate fill of expired order after approval", async () => {
+		await sentTxConfirm(it.testErc1155.methods.mint(sellerAddress, 3, 10, "0x"), { from: buyerAddress })
+		await sentTx(it.testErc1155.methods.setApprovalForAll(it.transferProxy.options.address, true), {
+			from: sellerAddress,
+		})
+		await sentTx(it.testErc20.methods.approve(it.erc20TransferProxy.options.address, toBn(2000000)), {
+			from: buyerAddress,
+		})
+
+		const left: SimpleOrder = {
+			make: {
+				assetType: {
+					assetClass: "ERC1155",
+					contract: toAddress(it.testErc1155.options.address),
+					tokenId: toBigNumber("3"),
+				},
+				value: toBigNumber("1"),
+			},
+			maker: sellerAddress,
+			take: {
+				assetType: {
+					assetClass: "ERC20",
+					contract: toAddress(it.testErc20.options.address),
+				},
+				value: toBigNumber("1000000"),
+			},
+			salt: randomWord(),
+			type: "RARIBLE_V2",
+			end: Math.floor(Date.now() / 1000) - 60,
+			data: {
+				dataType: "RARIBLE_V2_DATA_V1",
+				payouts: [],
+				originFees: [],
+			},
+		}
+		const signature = await signOrder(sellerEthereum, config, left)
+
+		const result = await filler.simulateFill({
+			order: { ...left, signature },
+			amount: 1,
+			payouts: [],
+			originFees: [],
+		})
+
+		expect(result.needsApproval).toBe(false)
+		expect(result.missingApprovals).toHaveLength(0)
+		expect(result.willRevert).toBe(true)
+		expect(result.revertReason).toBeTruthy()
+		expect(result.gasEstimate).toBeUndefined()
+	})
+
 	test.each([
 		{provider: buyerEthereum, name: "web3"},
 		{provider: buyerEthersWeb3Provider1, name: "ethersWeb3Ethereum"},
@@ -15,6 +15,7 @@ import { fixSignature } from "../../common/fix-signature"
 import type { IRaribleEthereumSdkConfig } from "../../types"
 import { assetTypeToStruct } from "../asset-type-to-struct"
 import { encodeRaribleV2OrderData } from "../encode-rarible-v2-order-data"
+import { WalletNotConnectedError } from "../../common/errors"
 import { encodeRaribleV2OrderPurchaseStruct } from "./rarible-v2/encode-rarible-v2-order"
 import { invertOrder } from "./invert-order"
 import type {
@@ -88,7 +89,7 @@ export class RaribleV2OrderHandler implements OrderHandler<RaribleV2OrderFillReq
 
 	async approve(order: SimpleRaribleV2Order, infinite: boolean): Promise<void> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const withFee = await this.getMakeAssetWithFee(order)
 		await waitTx(approve(this.ethereum, this.send, this.config.transferProxies, order.maker, withFee, infinite))
@@ -98,7 +99,7 @@ export class RaribleV2OrderHandler implements OrderHandler<RaribleV2OrderFillReq
 		initial: SimpleRaribleV2Order, inverted: SimpleRaribleV2Order
 	): Promise<OrderFillSendData> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const exchangeContract = createExchangeV2Contract(this.ethereum, this.config.exchange.v2)
 
@@ -179,10 +180,11 @@ export class RaribleV2OrderHandler implements OrderHandler<RaribleV2OrderFillReq
 		inverted: SimpleRaribleV2Order
 	): Promise<PreparedOrderRequestDataForExchangeWrapper> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
-		if (initial.take.assetType.assetClass !== "ETH") {
-			throw new Error("Batch purchase only available for ETH currency")
+		const { assetType } = initial.take
+		if (assetType.assetClass !== "ETH" && assetType.assetClass !== "ERC20") {
+			throw new Error("Batch purchase only available for ETH or ERC-20 currency")
 		}
 		if (!initial.signature) {
 			initial.signature = await signOrder(this.ethereum, this.config, initial)
@@ -216,6 +218,21 @@ export class RaribleV2OrderHandler implements OrderHandler<RaribleV2OrderFillReq
 			inverted,
 			true
 		)
+		if (assetType.assetClass === "ERC20") {
+			// wrapper pulls tokens from the buyer, fees are already included in the make asset of inverted order
+			const { value } = await this.getMakeAssetWithFee(inverted)
+			return {
+				data: {
+					marketId: ExchangeWrapperOrderType.RARIBLE_V2,
+					amount: value,
+					paymentToken: assetType.contract,
+					fees: ZERO_FEE_VALUE,
+					data: callData,
+				},
+				options: {},
+			}
+		}
+
 		const options = await this.getMatchV2Options(initial, inverted)
 		return {
 			data: {
@@ -237,7 +254,7 @@ export class RaribleV2OrderHandler implements OrderHandler<RaribleV2OrderFillReq
 
 	async fixForTx(order: SimpleRaribleV2Order): Promise<any> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 		const hash = hashToSign(this.config, this.ethereum, order)
 		const isMakerSigner = await isSigner(this.ethereum, order.maker, hash, order.signature!)
@@ -57,36 +57,36 @@ export const getBalancesAndApprovals = async ({
 
 	return Promise.all(
 		items.map(async (item) => {
-			let approvedAmountPromise = toBn(0)
-
-			if (isErc721Item(item.itemType) || isErc1155Item(item.itemType)) {
-				const erc721 = createErc721Contract(ethereum, toAddress(item.token))
-				const allowance: boolean = await erc721.functionCall("isApprovedForAll", owner, operator).call()
-				approvedAmountPromise = allowance ? toBn(MAX_INT) : toBn(0)
-			} else if (isErc20Item(item.itemType)) {
-				const erc20 = createErc20Contract(ethereum, toAddress(item.token))
-				approvedAmountPromise = toBn(await erc20.functionCall("allowance", owner, operator).call())
-			} else {
-				approvedAmountPromise = toBn(MAX_INT)
-			}
+			const [approvedAmount, balance] = await Promise.all([
+				getApprovedAmount(ethereum, owner, operator, item),
+				balanceOf(ethereum, owner, item, itemToCriteria.get(item)),
+			])
 
 			return {
 				token: item.token,
 				identifierOrCriteria:
           itemToCriteria.get(item)?.identifier ?? item.identifierOrCriteria,
-				balance: await balanceOf(
-					ethereum,
-					owner,
-					item,
-					itemToCriteria.get(item)
-				),
-				approvedAmount: approvedAmountPromise,
+				balance,
+				approvedAmount,
 				itemType: item.itemType,
 			}
 		})
 	)
 }
 
+const getApprovedAmount = async (ethereum: Ethereum, owner: string, operator: string, item: Item) => {
+	if (isErc721Item(item.itemType) || isErc1155Item(item.itemType)) {
+		const erc721 = createErc721Contract(ethereum, toAddress(item.token))
+		const allowance: boolean = await erc721.functionCall("isApprovedForAll", owner, operator).call()
+		return allowance ? toBn(MAX_INT) : toBn(0)
+	}
+	if (isErc20Item(item.itemType)) {
+		const erc20 = createErc20Contract(ethereum, toAddress(item.token))
+		return toBn(await erc20.functionCall("allowance", owner, operator).call())
+	}
+	return toBn(MAX_INT)
+}
+
 export const getInsufficientBalanceAndApprovalAmounts = ({
 	balancesAndApprovals,
 	tokenAndIdentifierAmounts,
@@ -0,0 +1,84 @@
+import { randomAddress, randomWord, ZERO_WORD } from "@rarible/types"
+import { TypedDataUtils } from "eth-sig-util"
+import { keccak256 } from "ethereumjs-util"
+import { SEAPORT_V1_5 } from "../../../config/common"
+import { BulkOrderTree, hashBulkOrderToSign, parseBulkOrderSignature } from "./bulk-order"
+import { getOrderHash } from "./get-order-hash"
+import { ItemType, OrderType } from "./constants"
+import type { OrderComponents } from "./types"
+
+describe("seaport bulk order", () => {
+	const domain = {
+		name: "Seaport",
+		version: "1.5",
+		chainId: 1,
+		verifyingContract: SEAPORT_V1_5.address,
+	}
+	const orders: OrderComponents[] = [1, 2, 3].map(tokenId => ({
+		offerer: randomAddress(),
+		zone: randomAddress(),
+		offer: [{
+			itemType: ItemType.ERC721,
+			token: randomAddress(),
+			identifierOrCriteria: tokenId.toString(),
+			startAmount: "1",
+			endAmount: "1",
+		}],
+		consideration: [],
+		orderType: OrderType.FULL_OPEN,
+		startTime: "1",
+		endTime: "1000",
+		zoneHash: ZERO_WORD,
+		salt: randomWord(),
+		conduitKey: ZERO_WORD,
+		counter: 0,
+		totalOriginalConsiderationItems: 0,
+	}))
+
+	test("root of the tree is hash of EIP-712 BulkOrder tree", () => {
+		const tree = new BulkOrderTree(orders)
+		expect(tree.height).toBe(2)
+
+		const { types, message } = tree.getTypedData(domain)
+		const typeHash = TypedDataUtils.hashType("BulkOrder", types)
+		const expected = keccak256(Buffer.concat([typeHash, Buffer.from(tree.getRoot().substring(2), "hex")]))
+		expect(TypedDataUtils.hashStruct("BulkOrder", message, types).toString("hex")).toBe(expected.toString("hex"))
+	})
+
+	test("proof of every order leads to the root", () => {
+		const tree = new BulkOrderTree(orders)
+
+		orders.forEach((order, index) => {
+			const root = tree.getProof(index).reduce((node, sibling, level) => {
+				const pair = ((index >> level) & 1) === 0 ? [node, sibling] : [sibling, node]
+				return `0x${keccak256(Buffer.from(pair.map(hash => hash.substring(2)).join(""), "hex")).toString("hex")}`
+			}, getOrderHash(order))
+			expect(root).toBe(tree.getRoot())
+		})
+	})
+
+	test("signature of the order contains index and proof", () => {
+		const tree = new BulkOrderTree(orders.slice(0, 1))
+		const bulkSignature = `0x${"11".repeat(65)}`
+
+		expect(tree.height).toBe(1)
+		expect(tree.encodeSignature(bulkSignature, 0)).toBe(
+			`${bulkSignature}000000${tree.getProof(0)[0].substring(2)}`
+		)
+	})
+
+	test("signing hash is restored from the signature of the order", () => {
+		const tree = new BulkOrderTree(orders)
+		const bulkSignature = `0x${"11".repeat(65)}`
+		const signature = { signature: bulkSignature, index: 2, proof: tree.getProof(2) }
+
+		expect(parseBulkOrderSignature(tree.encodeSignature(bulkSignature, 2))).toEqual(signature)
+		expect(parseBulkOrderSignature(bulkSignature)).toBeUndefined()
+		expect(hashBulkOrderToSign(domain, getOrderHash(orders[2]), signature).toString("hex"))
+			.toBe(TypedDataUtils.sign(tree.getTypedData(domain)).toString("hex"))
+	})
+
+	test("should throw for empty bulk order", () => {
+		expect(() => new BulkOrderTree([])).toThrow("Bulk order should contain at least one order")
+	})
+})
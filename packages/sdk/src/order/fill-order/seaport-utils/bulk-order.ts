@@ -0,0 +1,208 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { ZERO_ADDRESS, ZERO_WORD } from "@rarible/types"
+import { TypedDataUtils } from "eth-sig-util"
+import { keccak256 } from "ethereumjs-util"
+import { withSdkError } from "../../../common/errors"
+import type { SeaportProtocolConfig } from "../../../config/type"
+import type { OrderComponents } from "./types"
+import { EIP712Domain, EIP_712_ORDER_TYPE, OrderType, SEAPORT_CONTRACT_NAME } from "./constants"
+import { getOrderHash } from "./get-order-hash"
+import { isBulkOrderSupported } from "./protocol"
+
+/**
+ * Seaport accepts bulk signatures of the trees with height from 1 to 24
+ */
+const MAX_BULK_ORDER_HEIGHT = 24
+
+const EMPTY_ORDER_COMPONENTS: OrderComponents = {
+	offerer: ZERO_ADDRESS,
+	zone: ZERO_ADDRESS,
+	offer: [],
+	consideration: [],
+	orderType: OrderType.FULL_OPEN,
+	startTime: "0",
+	endTime: "0",
+	zoneHash: ZERO_WORD,
+	salt: "0",
+	conduitKey: ZERO_WORD,
+	counter: 0,
+	totalOriginalConsiderationItems: 0,
+}
+
+export type BulkOrderDomain = {
+	name: string
+	version: string
+	chainId: number
+	verifyingContract: string
+}
+
+export type BulkOrderSignature = {
+	/**
+	 * Signature of the BulkOrder typed data (64 or 65 bytes)
+	 */
+	signature: string
+	index: number
+	proof: string[]
+}
+
+/**
+ * Complete binary tree of Seaport orders which are signed with one `BulkOrder` EIP-712 signature.
+ * Unlike criteria MerkleTree it isn't sorted: index of the order is encoded in its signature,
+ * missing leaves are filled with the empty order
+ */
+export class BulkOrderTree {
+	readonly height: number
+	private readonly leaves: OrderComponents[]
+	private readonly layers: Buffer[][]
+
+	constructor(orders: OrderComponents[]) {
+		if (!orders.length) {
+			throw new Error("Bulk order should contain at least one order")
+		}
+		let height = 1
+		while (Math.pow(2, height) < orders.length) {
+			height += 1
+		}
+		if (height > MAX_BULK_ORDER_HEIGHT) {
+			throw new Error(`Bulk order can contain at most ${Math.pow(2, MAX_BULK_ORDER_HEIGHT)} orders`)
+		}
+		this.height = height
+		this.leaves = orders.concat(new Array(Math.pow(2, height) - orders.length).fill(EMPTY_ORDER_COMPONENTS))
+
+		const emptyOrderHash = hashOrderComponents(EMPTY_ORDER_COMPONENTS)
+		this.layers = [
+			this.leaves.map(leaf => leaf === EMPTY_ORDER_COMPONENTS ? emptyOrderHash : hashOrderComponents(leaf)),
+		]
+		for (let level = 0; level < height; level++) {
+			const nodes = this.layers[level]
+			const parents: Buffer[] = []
+			for (let i = 0; i < nodes.length; i += 2) {
+				parents.push(keccak256(Buffer.concat([nodes[i], nodes[i + 1]])))
+			}
+			this.layers.push(parents)
+		}
+	}
+
+	getRoot(): string {
+		return toHex(this.layers[this.height][0])
+	}
+
+	/**
+	 * Sibling hashes from the leaf to the root
+	 */
+	getProof(index: number): string[] {
+		const proof: string[] = []
+		for (let level = 0; level < this.height; level++) {
+			proof.push(toHex(this.layers[level][(index >> level) ^ 1]))
+		}
+		return proof
+	}
+
+	getTypedData(domain: BulkOrderDomain) {
+		let tree: any[] = this.leaves
+		for (let level = 0; level < this.height; level++) {
+			const pairs: any[] = []
+			for (let i = 0; i < tree.length; i += 2) {
+				pairs.push([tree[i], tree[i + 1]])
+			}
+			tree = pairs
+		}
+		return {
+			primaryType: "BulkOrder" as const,
+			domain,
+			types: getBulkOrderTypes(this.height),
+			message: { tree: tree[0] },
+		}
+	}
+
+	/**
+	 * Signature of the single order: bulk signature, uint24 index of the order and its proof
+	 */
+	encodeSignature(bulkSignature: string, index: number): string {
+		const proof = this.getProof(index).map(node => node.substring(2)).join("")
+		return `${bulkSignature}${index.toString(16).padStart(6, "0")}${proof}`
+	}
+}
+
+/**
+ * Sign Seaport orders with one signature, returns signatures of the orders in the same order
+ */
+export async function signBulkOrder(
+	ethereum: Ethereum, seaport: SeaportProtocolConfig, orders: OrderComponents[],
+): Promise<string[]> {
+	if (!isBulkOrderSupported(seaport)) {
+		throw new Error(`Bulk orders are not supported by Seaport ${seaport.version}`)
+	}
+	const tree = new BulkOrderTree(orders)
+	const typedData = tree.getTypedData({
+		name: SEAPORT_CONTRACT_NAME,
+		version: seaport.version,
+		chainId: await ethereum.getChainId(),
+		verifyingContract: seaport.address,
+	})
+	const signature = await withSdkError(ethereum.signTypedData(typedData))
+	return orders.map((_, index) => tree.encodeSignature(signature, index))
+}
+
+/**
+ * Split signature of the order from bulk order, returns undefined if it's a signature of the single order
+ */
+export function parseBulkOrderSignature(signature: string): BulkOrderSignature | undefined {
+	const hex = signature.startsWith("0x") ? signature.substring(2) : signature
+	const length = hex.length / 2
+	const signatureLength = [64, 65].find(l => {
+		const proofLength = length - l - 3
+		return proofLength > 0 && proofLength % 32 === 0 && proofLength / 32 <= MAX_BULK_ORDER_HEIGHT
+	})
+	if (!signatureLength) {
+		return undefined
+	}
+	const proof: string[] = []
+	for (let offset = (signatureLength + 3) * 2; offset < hex.length; offset += 64) {
+		proof.push(`0x${hex.substring(offset, offset + 64)}`)
+	}
+	return {
+		signature: `0x${hex.substring(0, signatureLength * 2)}`,
+		index: parseInt(hex.substring(signatureLength * 2, (signatureLength + 3) * 2), 16),
+		proof,
+	}
+}
+
+/**
+ * EIP-712 digest signed by the maker of the bulk order, the tree root is restored from the order hash and its proof
+ */
+export function hashBulkOrderToSign(
+	domain: BulkOrderDomain, orderHash: string, { index, proof }: BulkOrderSignature,
+): Buffer {
+	const root = proof.reduce((node, sibling, level) => {
+		const pair = ((index >> level) & 1) === 0 ? [node, toBuffer(sibling)] : [toBuffer(sibling), node]
+		return keccak256(Buffer.concat(pair))
+	}, toBuffer(orderHash))
+	const types = getBulkOrderTypes(proof.length)
+	const structHash = keccak256(Buffer.concat([TypedDataUtils.hashType("BulkOrder", types), root]))
+	return keccak256(Buffer.concat([
+		Buffer.from("1901", "hex"),
+		TypedDataUtils.hashStruct("EIP712Domain", domain, types),
+		structHash,
+	]))
+}
+
+function getBulkOrderTypes(height: number) {
+	return {
+		EIP712Domain,
+		BulkOrder: [{ name: "tree", type: `OrderComponents${"[2]".repeat(height)}` }],
+		...EIP_712_ORDER_TYPE,
+	}
+}
+
+function hashOrderComponents(order: OrderComponents): Buffer {
+	return toBuffer(getOrderHash(order))
+}
+
+function toBuffer(hash: string): Buffer {
+	return Buffer.from(hash.substring(2), "hex")
+}
+
+function toHex(hash: Buffer): string {
+	return `0x${hash.toString("hex")}`
+}
@@ -1,7 +1,6 @@
 import { toBn } from "@rarible/utils"
 
 export const SEAPORT_CONTRACT_NAME = "Seaport"
-export const SEAPORT_CONTRACT_VERSION = "1.1"
 export const OPENSEA_CONDUIT_KEY =
   "0x0000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f0000"
 export const OPENSEA_CONDUIT_ADDRESS =
@@ -90,16 +89,3 @@ export const NO_CONDUIT =
 export const KNOWN_CONDUIT_KEYS_TO_CONDUIT = {
 	[OPENSEA_CONDUIT_KEY]: OPENSEA_CONDUIT_ADDRESS,
 }
-
-export const CROSS_CHAIN_SEAPORT_ADDRESS =
-  "0x00000000006c3852cbef3e08e8df289169ede581"
-
-export const CROSS_CHAIN_DEFAULT_CONDUIT_KEY =
-  "0x0000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f0000"
-const CROSS_CHAIN_DEFAULT_CONDUIT =
-  "0x1e0049783f008a0085193e00003d00cd54003c71"
-
-export const CONDUIT_KEYS_TO_CONDUIT: Record<string, string> = {
-	[CROSS_CHAIN_DEFAULT_CONDUIT_KEY]: CROSS_CHAIN_DEFAULT_CONDUIT,
-	[NO_CONDUIT]: CROSS_CHAIN_SEAPORT_ADDRESS,
-}
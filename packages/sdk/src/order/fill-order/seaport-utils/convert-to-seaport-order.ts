@@ -1,12 +1,8 @@
 import type { SimpleSeaportV1Order } from "../../types"
 import { convertItemType, convertOrderType } from "../seaport"
 import type { OrderWithCounter } from "./types"
-import { CROSS_CHAIN_SEAPORT_ADDRESS } from "./constants"
 
 export function convertAPIOrderToSeaport(order: SimpleSeaportV1Order): OrderWithCounter {
-	if (order.data.protocol !== CROSS_CHAIN_SEAPORT_ADDRESS) {
-		throw new Error("Unsupported protocol")
-	}
 	if (!order.signature) {
 		throw new Error("Signature should exists")
 	}
@@ -1,15 +1,13 @@
 import type { Ethereum } from "@rarible/ethereum-provider"
-import { randomWord, toAddress, ZERO_ADDRESS } from "@rarible/types"
+import { randomWord, ZERO_ADDRESS } from "@rarible/types"
 import { createSeaportContract } from "../../contracts/seaport"
+import { withSdkError } from "../../../common/errors"
+import type { SeaportConfig, SeaportProtocolConfig } from "../../../config/type"
 import type { OrderComponents } from "./types"
 import { EIP712Domain, EIP_712_ORDER_TYPE } from "./constants"
 import {
-	CONDUIT_KEYS_TO_CONDUIT,
-	CROSS_CHAIN_DEFAULT_CONDUIT_KEY,
-	CROSS_CHAIN_SEAPORT_ADDRESS,
 	MAX_INT, OrderType,
 	SEAPORT_CONTRACT_NAME,
-	SEAPORT_CONTRACT_VERSION,
 } from "./constants"
 import type { CreateOrderInput, OrderParameters } from "./types"
 import {
@@ -22,12 +20,37 @@ import {
 import { isCurrencyItem } from "./item"
 import { getBalancesAndApprovals, validateOfferBalancesAndApprovals } from "./balance-and-approval-check"
 import { getApprovalActions } from "./approval"
+import { getConduit } from "./protocol"
 
 export async function createOrder(
 	ethereum: Ethereum,
+	config: SeaportConfig,
+	input: CreateOrderInput,
+) {
+	const { parameters, counter } = await prepareOrder(ethereum, config, input)
+	const signature = await signOrder(
+		ethereum,
+		config,
+		parameters,
+		counter,
+	)
+
+	return {
+		parameters: { ...parameters, counter },
+		signature,
+	}
+}
+
+/**
+ * Build order parameters of the Seaport contract from config
+ * and send approvals for offer items (if needed), signature is not requested
+ */
+export async function prepareOrder(
+	ethereum: Ethereum,
+	config: SeaportConfig,
 	{
 		send,
-		conduitKey = CROSS_CHAIN_DEFAULT_CONDUIT_KEY,
+		conduitKey = config.conduitKey,
 		zone = ZERO_ADDRESS,
 		startTime = Math.floor(Date.now() / 1000).toString(),
 		endTime = MAX_INT.toString(),
@@ -39,7 +62,7 @@ export async function createOrder(
 		fees,
 		salt = randomWord(),
 	}: CreateOrderInput,
-) {
+): Promise<{ parameters: OrderParameters, counter: number }> {
 	const offerer = await ethereum.getFrom()
 	const offerItems = offer.map(mapInputItemToOfferItem)
 	const considerationItems = [
@@ -66,9 +89,9 @@ export async function createOrder(
 
 	const totalCurrencyAmount = totalItemsAmount(currencies)
 
-	const operator = CONDUIT_KEYS_TO_CONDUIT[conduitKey]
+	const operator = getConduit(config, config.address, conduitKey)
 
-	const seaportContract = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
+	const seaportContract = createSeaportContract(ethereum, config.address)
 
 	const [resolvedCounter, balancesAndApprovals] = await Promise.all([
 		counter ?? seaportContract.functionCall("getCounter", offerer).call(),
@@ -103,8 +126,7 @@ export async function createOrder(
 	const orderParameters: OrderParameters = {
 		offerer,
 		zone,
-		zoneHash: "0x" + resolvedCounter.toString().padEnd(32, "0"),
-		// zoneHash: formatBytes32String(resolvedCounter.toString()),
+		zoneHash: formatBytes32String(resolvedCounter.toString()),
 		startTime,
 		endTime,
 		orderType,
@@ -135,17 +157,11 @@ export async function createOrder(
 		)
 		: []
 
-	await Promise.all(approvalActions)
-
-	const signature = await signOrder(
-		ethereum,
-		orderParameters,
-		resolvedCounter,
-	)
+	await Promise.all(approvalActions.map(tx => tx.wait()))
 
 	return {
-		parameters: { ...orderParameters, counter: resolvedCounter },
-		signature,
+		parameters: orderParameters,
+		counter: resolvedCounter,
 	}
 }
 
@@ -165,6 +181,7 @@ export function getOrderTypeFromOrderOptions({
 
 export async function signOrder(
 	ethereum: Ethereum,
+	seaport: SeaportProtocolConfig,
 	orderParameters: OrderParameters,
 	counter: number,
 ): Promise<string> {
@@ -177,12 +194,12 @@ export async function signOrder(
 
 	const domainData = {
 		name: SEAPORT_CONTRACT_NAME,
-		version: SEAPORT_CONTRACT_VERSION,
+		version: seaport.version,
 		chainId,
-		verifyingContract: CROSS_CHAIN_SEAPORT_ADDRESS,
+		verifyingContract: seaport.address,
 	}
 
-	const signatureNew = await ethereum.signTypedData({
+	const signatureNew = await withSdkError(ethereum.signTypedData({
 		primaryType: "OrderComponents",
 		domain: domainData,
 		types: {
@@ -193,7 +210,15 @@ export async function signOrder(
 			...orderComponents,
 			maker: await ethereum.getFrom(),
 		},
-	})
+	}))
 
 	return signatureNew.substring(2)
 }
+
+function formatBytes32String(value: string): string {
+	const hex = Buffer.from(value, "utf8").toString("hex")
+	if (hex.length > 64) {
+		throw new Error("bytes32 string must be less than 32 bytes")
+	}
+	return `0x${hex.padEnd(64, "0")}`
+}
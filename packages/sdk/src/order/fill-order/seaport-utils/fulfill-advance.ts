@@ -1,4 +1,5 @@
 import type { BigNumberValue } from "@rarible/utils/build/bn"
+import { toBn } from "@rarible/utils/build/bn"
 import { ZERO_ADDRESS } from "@rarible/types"
 import type { Ethereum } from "@rarible/ethereum-provider"
 import type { Address } from "@rarible/ethereum-api-client"
@@ -33,6 +34,7 @@ export async function getFulfillAdvancedOrderData({
 	timeBasedItemParams,
 	conduitKey,
 	recipientAddress,
+	approveFulfillerItems = true,
 }: {
 	ethereum: Ethereum,
 	send: SendFunction
@@ -52,6 +54,8 @@ export async function getFulfillAdvancedOrderData({
 	conduitKey: string;
 	recipientAddress: string;
 	timeBasedItemParams: TimeBasedItemParams;
+	// should be disabled when order is fulfilled by another contract (e.g. exchange wrapper) on behalf of the user
+	approveFulfillerItems?: boolean;
 }) {
 	const seaportContract = createSeaportContract(ethereum, seaportAddress)
 
@@ -95,14 +99,15 @@ export async function getFulfillAdvancedOrderData({
 		)
 	}
 
-	const totalNativeAmount = getSummedTokenAndIdentifierAmounts({
+	const summedConsiderationAmounts = getSummedTokenAndIdentifierAmounts({
 		items: considerationIncludingTips,
 		criterias: considerationCriteria,
 		timeBasedItemParams: {
 			...timeBasedItemParams,
 			isConsiderationItem: true,
 		},
-	})[ZERO_ADDRESS]?.["0"]
+	})
+	const totalNativeAmount = summedConsiderationAmounts[ZERO_ADDRESS]?.["0"] ?? toBn(0)
 
 	const insufficientApprovals = validateStandardFulfillBalancesAndApprovals({
 		offer,
@@ -116,11 +121,13 @@ export async function getFulfillAdvancedOrderData({
 		fulfillerOperator,
 	})
 
-	await getApprovalActions(
-		ethereum,
-		send,
-		insufficientApprovals,
-	)
+	if (approveFulfillerItems) {
+		await getApprovalActions(
+			ethereum,
+			send,
+			insufficientApprovals,
+		)
+	}
 
 	const orderAccountingForTips: OrderStruct = {
 		...order,
@@ -157,5 +164,6 @@ export async function getFulfillAdvancedOrderData({
 	return {
 		data: await seaportContract.functionCall("fulfillAdvancedOrder", ...fulfillAdvancedOrderArgs).getData(),
 		value: totalNativeAmount.toString(),
+		summedConsiderationAmounts,
 	}
 }
@@ -1,11 +1,12 @@
 import type { Ethereum } from "@rarible/ethereum-provider"
-import { toAddress, ZERO_ADDRESS } from "@rarible/types"
+import type { Address } from "@rarible/types"
+import { ZERO_ADDRESS } from "@rarible/types"
 import { createSeaportContract } from "../../contracts/seaport"
 import type { OrderFillSendData } from "../types"
 import type { BasicOrderParametersStruct, ConsiderationItem, Order } from "./types"
 import { getSummedTokenAndIdentifierAmounts } from "./item"
 import type { TimeBasedItemParams } from "./item"
-import { BasicOrderRouteType, CROSS_CHAIN_SEAPORT_ADDRESS, ItemType, NO_CONDUIT } from "./constants"
+import { BasicOrderRouteType, ItemType, NO_CONDUIT } from "./constants"
 
 export async function getfulfillBasicOrderData({
 	ethereum,
@@ -13,12 +14,14 @@ export async function getfulfillBasicOrderData({
 	timeBasedItemParams,
 	tips = [],
 	conduitKey = NO_CONDUIT,
+	seaportAddress,
 }: {
 	ethereum: Ethereum,
 	order: Order;
 	timeBasedItemParams: TimeBasedItemParams;
 	tips?: ConsiderationItem[];
 	conduitKey: string;
+	seaportAddress: Address;
 }): Promise<OrderFillSendData> {
 	const { offer, consideration } = order.parameters
 	const considerationIncludingTips = [...consideration, ...tips]
@@ -79,7 +82,7 @@ export async function getfulfillBasicOrderData({
 		zoneHash: order.parameters.zoneHash,
 	}
 
-	const seaportContract = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
+	const seaportContract = createSeaportContract(ethereum, seaportAddress)
 	const functionCall = seaportContract.functionCall("fulfillBasicOrder", basicOrderParameters)
 
 	return {
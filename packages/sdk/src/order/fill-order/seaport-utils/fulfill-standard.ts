@@ -1,5 +1,6 @@
 import type { Ethereum } from "@rarible/ethereum-provider"
-import { toAddress, ZERO_ADDRESS } from "@rarible/types"
+import type { Address } from "@rarible/types"
+import { ZERO_ADDRESS } from "@rarible/types"
 import type { BigNumber} from "@rarible/utils"
 import type { BigNumberValue } from "@rarible/utils"
 import { createSeaportContract } from "../../contracts/seaport"
@@ -10,7 +11,6 @@ import type { ConsiderationItem, InputCriteria, Order, OrderStruct } from "./typ
 import { getSummedTokenAndIdentifierAmounts, isCriteriaItem } from "./item"
 import type { TimeBasedItemParams } from "./item"
 import { mapOrderAmountsFromFilledStatus, mapOrderAmountsFromUnitsToFill } from "./order"
-import { CROSS_CHAIN_SEAPORT_ADDRESS } from "./constants"
 
 export async function getFulfillStandardOrderData({
 	ethereum,
@@ -25,6 +25,7 @@ export async function getFulfillStandardOrderData({
 	timeBasedItemParams,
 	conduitKey,
 	recipientAddress,
+	seaportAddress,
 }: {
 	ethereum: Ethereum;
 	order: Order;
@@ -38,6 +39,7 @@ export async function getFulfillStandardOrderData({
 	conduitKey: string;
 	recipientAddress: string;
 	timeBasedItemParams: TimeBasedItemParams;
+	seaportAddress: Address;
 }): Promise<OrderFillSendData> {
 	// If we are supplying units to fill, we adjust the order by the minimum of the amount to fill and
 	// the remaining order left to be fulfilled
@@ -106,7 +108,7 @@ export async function getFulfillStandardOrderData({
 		unitsToFill
 	)
 
-	const seaportContract = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
+	const seaportContract = createSeaportContract(ethereum, seaportAddress)
 
 	if (useAdvanced) {
 		const functionCall = await seaportContract.functionCall("fulfillAdvancedOrder",
@@ -80,7 +80,7 @@ export const getPresentItemAmount = ({
 		.multipliedBy(remaining)
 		.plus(endAmountBn.multipliedBy(elapsed))
 		.plus(isConsiderationItem ? duration.minus(1) : 0)
-		.div(duration)
+		.dividedToIntegerBy(duration)
 }
 
 export const getSummedTokenAndIdentifierAmounts = ({
@@ -0,0 +1,31 @@
+import { randomAddress } from "@rarible/types"
+import { SEAPORT_CONFIG, SEAPORT_V1_1, SEAPORT_V1_4 } from "../../../config/common"
+import { getConduit, getSeaportProtocol, isBulkOrderSupported } from "./protocol"
+import { NO_CONDUIT } from "./constants"
+
+describe("seaport protocol", () => {
+	test("should find current and legacy Seaport contracts", () => {
+		expect(getSeaportProtocol(SEAPORT_CONFIG, SEAPORT_CONFIG.address.toUpperCase())).toEqual({
+			address: SEAPORT_CONFIG.address,
+			version: "1.5",
+		})
+		expect(getSeaportProtocol(SEAPORT_CONFIG, SEAPORT_V1_1.address)).toEqual(SEAPORT_V1_1)
+
+		const unknown = randomAddress()
+		expect(() => getSeaportProtocol(SEAPORT_CONFIG, unknown)).toThrow(`Unsupported Seaport protocol: ${unknown}`)
+	})
+
+	test("should resolve conduit by conduit key", () => {
+		expect(getConduit(SEAPORT_CONFIG, SEAPORT_V1_1.address, SEAPORT_CONFIG.conduitKey))
+			.toBe(SEAPORT_CONFIG.conduits[SEAPORT_CONFIG.conduitKey])
+		expect(getConduit(SEAPORT_CONFIG, SEAPORT_V1_1.address, NO_CONDUIT)).toBe(SEAPORT_V1_1.address)
+		expect(() => getConduit(SEAPORT_CONFIG, SEAPORT_V1_1.address, `0x${"1".repeat(64)}`))
+			.toThrow("Unsupported conduit key")
+	})
+
+	test("bulk orders are supported since Seaport 1.4", () => {
+		expect(isBulkOrderSupported(SEAPORT_V1_1)).toBe(false)
+		expect(isBulkOrderSupported(SEAPORT_V1_4)).toBe(true)
+		expect(isBulkOrderSupported(SEAPORT_CONFIG)).toBe(true)
+	})
+})
@@ -0,0 +1,36 @@
+import type { Address } from "@rarible/types"
+import type { SeaportConfig, SeaportProtocolConfig } from "../../../config/type"
+import { NO_CONDUIT } from "./constants"
+
+/**
+ * Seaport contract (current or legacy one) by the protocol address of the order
+ */
+export function getSeaportProtocol(config: SeaportConfig, protocol: string): SeaportProtocolConfig {
+	const seaport = [config, ...config.legacy].find(p => p.address.toLowerCase() === protocol.toLowerCase())
+	if (!seaport) {
+		throw new Error(`Unsupported Seaport protocol: ${protocol}`)
+	}
+	return { address: seaport.address, version: seaport.version }
+}
+
+/**
+ * Operator which transfers assets for the conduit key, orders without conduit are approved to Seaport itself
+ */
+export function getConduit(config: SeaportConfig, seaport: Address, conduitKey: string): Address {
+	if (conduitKey === NO_CONDUIT) {
+		return seaport
+	}
+	const key = Object.keys(config.conduits).find(k => k.toLowerCase() === conduitKey.toLowerCase())
+	if (!key) {
+		throw new Error(`Unsupported conduit key: ${conduitKey}`)
+	}
+	return config.conduits[key]
+}
+
+/**
+ * Bulk order signatures (one signature for the tree of orders) are supported since Seaport 1.4
+ */
+export function isBulkOrderSupported({ version }: SeaportProtocolConfig): boolean {
+	const [major, minor] = version.split(".").map(Number)
+	return major > 1 || (major === 1 && minor >= 4)
+}
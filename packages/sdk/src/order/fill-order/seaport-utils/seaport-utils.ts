@@ -1,11 +1,12 @@
 import type { Ethereum } from "@rarible/ethereum-provider"
-import { toAddress, ZERO_ADDRESS } from "@rarible/types"
+import { ZERO_ADDRESS } from "@rarible/types"
 import type { BigNumberValue } from "@rarible/utils"
 import type { BigNumber } from "@rarible/utils"
 import { toBn } from "@rarible/utils"
 import { createSeaportContract } from "../../contracts/seaport"
 import type { SimpleSeaportV1Order } from "../../types"
 import type { SendFunction } from "../../../common/send-transaction"
+import type { SeaportConfig } from "../../../config/type"
 import { getOrderHash } from "./get-order-hash"
 import type { BalancesAndApprovals} from "./balance-and-approval-check"
 import {
@@ -26,16 +27,22 @@ import { getBalancesAndApprovals } from "./balance-and-approval-check"
 import { getfulfillBasicOrderData } from "./fulfill-basic"
 import { getApprovalActions } from "./approval"
 import { getFulfillStandardOrderData } from "./fulfill-standard"
-import { CONDUIT_KEYS_TO_CONDUIT, CROSS_CHAIN_DEFAULT_CONDUIT_KEY, CROSS_CHAIN_SEAPORT_ADDRESS } from "./constants"
 import { convertAPIOrderToSeaport } from "./convert-to-seaport-order"
+import { getConduit, getSeaportProtocol } from "./protocol"
 
 export async function fulfillOrder(
 	ethereum: Ethereum,
 	send: SendFunction,
+	config: SeaportConfig,
 	simpleOrder: SimpleSeaportV1Order,
-	{tips, unitsToFill}: {tips?: TipInputItem[], unitsToFill?: BigNumberValue}
+	{tips, unitsToFill, considerationCriteria = []}: {
+		tips?: TipInputItem[],
+		unitsToFill?: BigNumberValue,
+		considerationCriteria?: InputCriteria[],
+	}
 ) {
-	const seaportContract = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
+	const seaport = getSeaportProtocol(config, simpleOrder.data.protocol)
+	const seaportContract = createSeaportContract(ethereum, seaport.address)
 
 	const order = convertAPIOrderToSeaport(simpleOrder)
 
@@ -43,15 +50,14 @@ export async function fulfillOrder(
 	const { parameters: orderParameters } = order
 	const { offerer, offer, consideration } = orderParameters
 
-	const offererOperator = CONDUIT_KEYS_TO_CONDUIT[orderParameters.conduitKey]
+	const offererOperator = getConduit(config, seaport.address, orderParameters.conduitKey)
 
-	const conduitKey = CROSS_CHAIN_DEFAULT_CONDUIT_KEY
-	const fulfillerOperator = CONDUIT_KEYS_TO_CONDUIT[conduitKey]
+	const conduitKey = config.conduitKey
+	const fulfillerOperator = getConduit(config, seaport.address, conduitKey)
 
 	const extraData = "0x"
 	const recipientAddress = ZERO_ADDRESS
 	const offerCriteria: InputCriteria[] = []
-	const considerationCriteria: InputCriteria[] = []
 
 	const [
 		offererBalancesAndApprovals,
@@ -124,6 +130,7 @@ export async function fulfillOrder(
 			timeBasedItemParams,
 			conduitKey,
 			tips: tipConsiderationItems,
+			seaportAddress: seaport.address,
 		})
 	}
 
@@ -160,6 +167,7 @@ export async function fulfillOrder(
 		timeBasedItemParams,
 		conduitKey,
 		recipientAddress,
+		seaportAddress: seaport.address,
 	})
 }
 
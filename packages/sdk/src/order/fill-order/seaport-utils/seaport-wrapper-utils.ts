@@ -2,10 +2,10 @@ import type { Ethereum } from "@rarible/ethereum-provider"
 import type { BigNumberValue } from "@rarible/utils"
 import { toBn } from "@rarible/utils"
 import type { BigNumber } from "@rarible/types"
-import { toAddress } from "@rarible/types"
 import type { Address, Part } from "@rarible/ethereum-api-client"
 import { toBigNumber } from "@rarible/types/build/big-number"
 import type { SendFunction } from "../../../common/send-transaction"
+import type { SeaportConfig } from "../../../config/type"
 import type { SimpleSeaportV1Order } from "../../types"
 import { createSeaportContract } from "../../contracts/seaport"
 import type { OrderFillSendData } from "../types"
@@ -14,17 +14,25 @@ import type { PreparedOrderRequestDataForExchangeWrapper } from "../types"
 import { createExchangeWrapperContract } from "../../contracts/exchange-wrapper"
 import { calcValueWithFees, originFeeValueConvert } from "../common/origin-fees-utils"
 import type { InputCriteria } from "./types"
-import { CONDUIT_KEYS_TO_CONDUIT, CROSS_CHAIN_DEFAULT_CONDUIT_KEY, CROSS_CHAIN_SEAPORT_ADDRESS } from "./constants"
 import { convertAPIOrderToSeaport } from "./convert-to-seaport-order"
 import { getBalancesAndApprovals } from "./balance-and-approval-check"
 import { getOrderHash } from "./get-order-hash"
 import { validateAndSanitizeFromOrderStatus } from "./fulfill"
 import { getFulfillAdvancedOrderData } from "./fulfill-advance"
 import type { OrderStatus } from "./types"
+import { getConduit, getSeaportProtocol } from "./protocol"
+
+/**
+ * Exchange wrapper fills Seaport orders (SEAPORT_ADVANCED_ORDERS market) with Seaport 1.1 contract only
+ */
+export function isSupportedByExchangeWrapper(config: SeaportConfig, order: SimpleSeaportV1Order): boolean {
+	return getSeaportProtocol(config, order.data.protocol).version === "1.1"
+}
 
 export async function fulfillOrderWithWrapper(
 	ethereum: Ethereum,
 	send: SendFunction,
+	config: SeaportConfig,
 	simpleOrder: SimpleSeaportV1Order,
 	{unitsToFill, seaportWrapper, originFees}: {
 		unitsToFill?: BigNumberValue,
@@ -37,6 +45,7 @@ export async function fulfillOrderWithWrapper(
 	const preparedData = await prepareSeaportExchangeData(
 		ethereum,
 		send,
+		config,
 		simpleOrder,
 		{
 			unitsToFill,
@@ -56,6 +65,7 @@ export async function fulfillOrderWithWrapper(
 export async function prepareSeaportExchangeData(
 	ethereum: Ethereum,
 	send: SendFunction,
+	config: SeaportConfig,
 	simpleOrder: SimpleSeaportV1Order,
 	{
 		unitsToFill,
@@ -68,7 +78,11 @@ export async function prepareSeaportExchangeData(
 		totalFeeBasisPoints: number
 	}
 ): Promise<PreparedOrderRequestDataForExchangeWrapper> {
-	const seaportContract = createSeaportContract(ethereum, toAddress(CROSS_CHAIN_SEAPORT_ADDRESS))
+	if (!isSupportedByExchangeWrapper(config, simpleOrder)) {
+		throw new Error(`Seaport order of ${simpleOrder.data.protocol} protocol can't be filled with exchange wrapper`)
+	}
+	const seaport = getSeaportProtocol(config, simpleOrder.data.protocol)
+	const seaportContract = createSeaportContract(ethereum, seaport.address)
 
 	const order = convertAPIOrderToSeaport(simpleOrder)
 
@@ -76,10 +90,10 @@ export async function prepareSeaportExchangeData(
 	const { parameters: orderParameters } = order
 	const { offerer, offer, consideration } = orderParameters
 
-	const offererOperator = CONDUIT_KEYS_TO_CONDUIT[orderParameters.conduitKey]
+	const offererOperator = getConduit(config, seaport.address, orderParameters.conduitKey)
 
-	const conduitKey = CROSS_CHAIN_DEFAULT_CONDUIT_KEY
-	const fulfillerOperator = CONDUIT_KEYS_TO_CONDUIT[conduitKey]
+	const conduitKey = config.conduitKey
+	const fulfillerOperator = getConduit(config, seaport.address, conduitKey)
 
 	const extraData = "0x"
 	const recipientAddress = fulfillerAddress
@@ -138,7 +152,7 @@ export async function prepareSeaportExchangeData(
 		considerationCriteria,
 		tips: [],
 		extraData,
-		seaportAddress: toAddress(CROSS_CHAIN_SEAPORT_ADDRESS),
+		seaportAddress: seaport.address,
 		offererBalancesAndApprovals,
 		fulfillerBalancesAndApprovals,
 		offererOperator,
@@ -146,8 +160,29 @@ export async function prepareSeaportExchangeData(
 		timeBasedItemParams,
 		conduitKey,
 		recipientAddress,
+		approveFulfillerItems: false,
 	})
 
+	const { assetType } = simpleOrder.take
+	if (assetType.assetClass === "ERC20") {
+		const token = Object.keys(fulfillOrdersData.summedConsiderationAmounts)
+			.find(key => key.toLowerCase() === assetType.contract.toLowerCase())
+		const amount = token && fulfillOrdersData.summedConsiderationAmounts[token]["0"]
+		if (!amount) {
+			throw new Error(`Seaport order consideration does not contain ${assetType.contract} token`)
+		}
+		return {
+			data: {
+				marketId: ExchangeWrapperOrderType.SEAPORT_ADVANCED_ORDERS,
+				amount: amount.toFixed(),
+				paymentToken: assetType.contract,
+				fees: encodedFeesValue,
+				data: fulfillOrdersData.data,
+			},
+			options: {},
+		}
+	}
+
 	const valueForSending = calcValueWithFees(toBigNumber(fulfillOrdersData.value), totalFeeBasisPoints)
 
 	return {
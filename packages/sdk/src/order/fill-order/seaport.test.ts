@@ -352,6 +352,40 @@ describe.skip("seaport", () => {
 		expect(tx.data.endsWith(fullAdditionalData)).toBe(true)
 		await tx.wait()
 	})
+
+	test("accept bid ERC-721 <-> WETH", async () => {
+		const sellItem = await sdkSeller.nft.mint({
+			collection: createErc721V3Collection(rinkebyErc721V3ContractAddress),
+			uri: "ipfs://ipfs/QmfVqzkQcKR1vCNqcZkeVVy94684hyLki7QcVzd9rmjuG5",
+			royalties: [],
+			lazy: false,
+		})
+		if (sellItem.type === MintResponseTypeEnum.ON_CHAIN) {
+			await sellItem.transaction.wait()
+		}
+
+		const bid = await sdkBuyer.order.bidSeaport({
+			type: "DATA_V2",
+			makeAssetType: {
+				assetClass: "ERC20",
+				contract: config.weth,
+			},
+			amount: 1,
+			takeAssetType: {
+				assetClass: "ERC721",
+				contract: sellItem.contract,
+				tokenId: sellItem.tokenId,
+			},
+			price: "10000000000",
+			payouts: [],
+			originFees: [],
+		})
+
+		const tx = await sdkSeller.order.acceptBid({ order: bid, amount: 1 })
+		await tx.wait()
+
+		await awaitOwnership(sdkBuyer, sellItem.itemId, toAddress(await ethereum.getFrom()), "1")
+	})
 })
 
 function getOpenseaWethTakeData(amount: BigNumberValue) {
@@ -3,7 +3,7 @@ import type { Ethereum, EthereumTransaction } from "@rarible/ethereum-provider"
 import { SeaportOrderType } from "@rarible/ethereum-api-client/build/models/SeaportOrderType"
 import { SeaportItemType } from "@rarible/ethereum-api-client/build/models/SeaportItemType"
 import type { BigNumber } from "@rarible/types"
-import { ZERO_ADDRESS } from "@rarible/types"
+import { toAddress, ZERO_ADDRESS } from "@rarible/types"
 import type { Part } from "@rarible/ethereum-api-client"
 import { toBn } from "@rarible/utils/build/bn"
 import type { AssetType } from "@rarible/ethereum-api-client/build/models/AssetType"
@@ -15,10 +15,21 @@ import type { EthereumConfig } from "../../config/type"
 import type { EthereumNetwork } from "../../types"
 import type { IRaribleEthereumSdkConfig } from "../../types"
 import { getRequiredWallet } from "../../common/get-required-wallet"
-import { CROSS_CHAIN_SEAPORT_ADDRESS, ItemType, OrderType } from "./seaport-utils/constants"
+import { waitTx } from "../../common/wait-tx"
+import { approveErc721 } from "../approve-erc721"
+import { approveErc1155 } from "../approve-erc1155"
+import { WalletNotConnectedError } from "../../common/errors"
+import { ItemType, OrderType } from "./seaport-utils/constants"
 import type { PreparedOrderRequestDataForExchangeWrapper, SeaportV1OrderFillRequest } from "./types"
-import type { TipInputItem } from "./seaport-utils/types"
-import { fulfillOrderWithWrapper, prepareSeaportExchangeData } from "./seaport-utils/seaport-wrapper-utils"
+import type { InputCriteria, TipInputItem } from "./seaport-utils/types"
+import { isCriteriaItem, isErc1155Item, isErc721Item } from "./seaport-utils/item"
+import { MerkleTree } from "./seaport-utils/merkletree"
+import {
+	fulfillOrderWithWrapper,
+	isSupportedByExchangeWrapper,
+	prepareSeaportExchangeData,
+} from "./seaport-utils/seaport-wrapper-utils"
+import { getConduit } from "./seaport-utils/protocol"
 import { fulfillOrder } from "./seaport-utils/seaport-utils"
 import type { OrderFillSendData } from "./types"
 import { getUpdatedCalldata } from "./common/get-updated-call"
@@ -35,6 +46,27 @@ export class SeaportOrderHandler {
 	) {
 	}
 
+	/**
+	 * Approve NFT to the fulfiller conduit if order is an offer (bid), nothing to approve for sell orders
+	 */
+	async approve(request: SeaportV1OrderFillRequest): Promise<void> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const nftItem = request.order.data.consideration
+			.map(item => ({ ...item, itemType: convertItemType(item.itemType) }))
+			.find(item => isErc721Item(item.itemType) || isErc1155Item(item.itemType))
+		if (!nftItem) {
+			return
+		}
+		const owner = toAddress(await ethereum.getFrom())
+		const { seaport } = this.config
+		const operator = getConduit(seaport, seaport.address, seaport.conduitKey)
+		if (isErc1155Item(nftItem.itemType)) {
+			await waitTx(approveErc1155(ethereum, this.send, toAddress(nftItem.token), owner, operator))
+		} else {
+			await waitTx(approveErc721(ethereum, this.send, toAddress(nftItem.token), owner, operator))
+		}
+	}
+
 	async sendTransaction(
 		request: SeaportV1OrderFillRequest,
 	): Promise<EthereumTransaction> {
@@ -50,9 +82,6 @@ export class SeaportOrderHandler {
 	): Promise<OrderFillSendData> {
 		const ethereum = getRequiredWallet(this.ethereum)
 		const { order } = request
-		if (order.data.protocol !== CROSS_CHAIN_SEAPORT_ADDRESS) {
-			throw new Error("Unsupported protocol")
-		}
 		if (!order.signature) {
 			throw new Error("Signature should exists")
 		}
@@ -66,7 +95,7 @@ export class SeaportOrderHandler {
 
 		const { unitsToFill, takeIsNft } = getUnitsToFill(request)
 
-		if (this.env !== "mainnet") {
+		if (this.env !== "mainnet" && isSupportedByExchangeWrapper(this.config.seaport, order)) {
 			if (order.take.assetType.assetClass === "ETH") {
 				const { wrapper } = this.config.exchange
 				if (!wrapper || wrapper === ZERO_ADDRESS) {
@@ -76,6 +105,7 @@ export class SeaportOrderHandler {
 				const { functionCall, options } = await fulfillOrderWithWrapper(
 					ethereum,
 					this.send.bind(this),
+					this.config.seaport,
 					order,
 					{
 						unitsToFill,
@@ -105,10 +135,12 @@ export class SeaportOrderHandler {
 		const { functionCall, options } = await fulfillOrder(
 			ethereum,
 			this.send.bind(this),
+			this.config.seaport,
 			order,
 			{
 				unitsToFill,
 				tips,
+				considerationCriteria: getConsiderationCriteria(request),
 			},
 		)
 
@@ -127,7 +159,7 @@ export class SeaportOrderHandler {
 		feeValue: BigNumber,
 	): Promise<PreparedOrderRequestDataForExchangeWrapper> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		const { unitsToFill } = getUnitsToFill(request)
@@ -137,6 +169,7 @@ export class SeaportOrderHandler {
 		return prepareSeaportExchangeData(
 			this.ethereum,
 			this.send.bind(this),
+			this.config.seaport,
 			request.order,
 			{
 				unitsToFill: unitsToFill,
@@ -159,7 +192,7 @@ function getUnitsToFill(request: SeaportV1OrderFillRequest): {
 	unitsToFill: number | undefined,
 	takeIsNft: boolean,
 } {
-	const takeIsNft = isNft(request.order.take.assetType)
+	const takeIsNft = isNft(request.order.take.assetType) || request.order.take.assetType.assetClass === "COLLECTION"
 	const makeIsNft = isNft(request.order.make.assetType)
 	const unitsToFill =
 		request.order.make.assetType.assetClass === "ERC1155" || request.order.take.assetType.assetClass === "ERC1155" ?
@@ -186,6 +219,31 @@ function getUnitsToFill(request: SeaportV1OrderFillRequest): {
 	}
 }
 
+function getConsiderationCriteria(request: SeaportV1OrderFillRequest): InputCriteria[] {
+	const criteriaItems = request.order.data.consideration
+		.filter(item => isCriteriaItem(convertItemType(item.itemType)))
+	if (!criteriaItems.length) {
+		return []
+	}
+	if (request.assetType?.tokenId === undefined) {
+		throw new Error("Token id should be specified in request.assetType to accept offer with criteria")
+	}
+	const identifier = request.assetType.tokenId.toString()
+	return criteriaItems.map(item => {
+		if (toBn(item.identifierOrCriteria).eq(0)) {
+			return { identifier, proof: [] }
+		}
+		if (!request.criteriaIdentifiers) {
+			throw new Error("criteriaIdentifiers should be specified to accept offer with non-empty criteria")
+		}
+		const tree = new MerkleTree(request.criteriaIdentifiers)
+		if (!toBn(tree.getRoot()).eq(item.identifierOrCriteria)) {
+			throw new Error("Criteria identifiers do not match with the criteria of the offer")
+		}
+		return { identifier, proof: tree.getProof(identifier) }
+	})
+}
+
 export function convertOrderType(type: SeaportOrderType): OrderType {
 	switch (type) {
 		case SeaportOrderType.FULL_OPEN: return OrderType.FULL_OPEN
@@ -208,6 +266,28 @@ export function convertItemType(type: SeaportItemType): ItemType {
 	}
 }
 
+export function convertToApiOrderType(type: OrderType): SeaportOrderType {
+	switch (type) {
+		case OrderType.FULL_OPEN: return SeaportOrderType.FULL_OPEN
+		case OrderType.PARTIAL_OPEN: return SeaportOrderType.PARTIAL_OPEN
+		case OrderType.FULL_RESTRICTED: return SeaportOrderType.FULL_RESTRICTED
+		case OrderType.PARTIAL_RESTRICTED: return SeaportOrderType.PARTIAL_RESTRICTED
+		default: throw new Error(`Unrecognized order type=${type}`)
+	}
+}
+
+export function convertToApiItemType(type: ItemType): SeaportItemType {
+	switch (type) {
+		case ItemType.NATIVE: return SeaportItemType.NATIVE
+		case ItemType.ERC20: return SeaportItemType.ERC20
+		case ItemType.ERC721: return SeaportItemType.ERC721
+		case ItemType.ERC721_WITH_CRITERIA: return SeaportItemType.ERC721_WITH_CRITERIA
+		case ItemType.ERC1155: return SeaportItemType.ERC1155
+		case ItemType.ERC1155_WITH_CRITERIA: return SeaportItemType.ERC1155_WITH_CRITERIA
+		default: throw new Error(`Unrecognized item type=${type}`)
+	}
+}
+
 export function getSeaportToken(assetType: AssetType): string {
 	switch (assetType.assetClass) {
 		case "ETH": return ZERO_ADDRESS
@@ -1,6 +1,13 @@
 import type { Address, BigNumber } from "@rarible/types"
 import type { Word } from "@rarible/types/build/word"
-import type { CryptoPunksAssetType, Erc1155AssetType, Erc721AssetType, Part } from "@rarible/ethereum-api-client"
+import type {
+	CryptoPunksAssetType,
+	Erc1155AssetType,
+	Erc20AssetType,
+	Erc721AssetType,
+	EthAssetType,
+	Part,
+} from "@rarible/ethereum-api-client"
 import type { Action } from "@rarible/action"
 import type { EthereumFunctionCall, EthereumSendOptions, EthereumTransaction } from "@rarible/ethereum-provider"
 import type { Erc1155LazyAssetType, Erc721LazyAssetType } from "@rarible/ethereum-api-client/build/models/AssetType"
@@ -53,7 +60,14 @@ export type OrderV2FillDataV3Sell = OrderV2FillDataV3Buy & {
 export type OpenSeaV1OrderFillRequest =
   Omit<CommonFillRequest<SimpleOpenSeaV1Order>, "amount"> & { payouts?: Part[], originFees?: Part[] }
 
-export type SeaportV1OrderFillRequest = CommonFillRequest<SimpleSeaportV1Order> & { originFees?: Part[] }
+export type SeaportV1OrderFillRequest = CommonFillRequest<SimpleSeaportV1Order> & {
+	originFees?: Part[]
+	/**
+	 * Full list of token ids the criteria merkle root of the offer was built from,
+	 * required to accept offers with non-empty criteria (e.g. trait offers)
+	 */
+	criteriaIdentifiers?: string[]
+}
 export type X2Y2OrderFillRequest = CommonFillRequest<SimpleX2Y2Order> & { originFees?: Part[] }
 
 export type LooksrareOrderFillRequest = CommonFillRequest<SimpleLooksrareOrder> & { originFees?: Part[] }
@@ -113,6 +127,11 @@ export type PreparedOrderRequestDataForExchangeWrapper = {
 	data: {
 		marketId: ExchangeWrapperOrderType,
 		amount: string | number,
+		/**
+		 * ERC-20 currency of the purchase, not set for ETH.
+		 * Only exchange wrapper with ERC-20 support (config.exchange.wrapperErc20) accepts it
+		 */
+		paymentToken?: Address,
 		fees: BigNumber,
 		data: string,
 	},
@@ -127,6 +146,45 @@ export type FillOrderStageId = "approve" | "send-tx"
 
 export type FillBatchOrderAction = Action<FillOrderStageId, FillBatchOrderRequest, EthereumTransaction>
 
+export type FillBatchOrderWithReportRequest = {
+	requests: FillBatchOrderRequest
+	/**
+	 * If true, failed orders are skipped by exchange wrapper and the rest of orders are purchased,
+	 * otherwise whole transaction is reverted. True by default
+	 */
+	allowFail?: boolean
+}
+
+export type BatchOrderFillResult = {
+	request: FillBatchSingleOrderRequest
+} & ({
+	status: "filled"
+} | {
+	status: "failed"
+	/**
+	 * Revert reason of the order replayed on the state before the block of the transaction,
+	 * undefined if it can't be determined
+	 */
+	reason?: string
+	/**
+	 * Funds (including origin fees) returned to the buyer, zero address token is used for ETH.
+	 * ERC-20 refund is undefined if provider can't return raw transaction receipt
+	 */
+	refund?: { paymentToken: Address, value: BigNumber }
+})
+
+export type FillBatchOrderWithReportResponse = {
+	tx: EthereumTransaction
+	/**
+	 * Results of the orders in the same order as requests, resolved after the transaction is mined.
+	 * Receipt is requested on the first call only
+	 */
+	results: () => Promise<BatchOrderFillResult[]>
+}
+
+export type FillBatchOrderWithReportAction =
+	Action<FillOrderStageId, FillBatchOrderWithReportRequest, FillBatchOrderWithReportResponse>
+
 export interface OrderHandler<T extends FillOrderRequest> {
 	invert: (request: T, maker: Address) => T["order"] | Promise<T["order"]>
 	approve: (order: T["order"], infinite: boolean) => Promise<void>
@@ -152,6 +210,50 @@ export type OrderFillSendData = {
 	options: EthereumSendOptions
 }
 
+export type FillSimulationApproval = {
+	/**
+	 * Token contract which should be approved
+	 */
+	contract: Address
+	method: string
+	args: any[]
+}
+
+export type FillSimulationBalance = {
+	assetType: EthAssetType | Erc20AssetType
+	required: BigNumber
+	balance: BigNumber
+}
+
+export type FillSimulationResult = {
+	/**
+	 * True if eth_call of the fill transaction failed.
+	 * Undefined if approvals are missing: without them the call fails regardless of the order state
+	 */
+	willRevert?: boolean
+	revertReason?: string
+	/**
+	 * Undefined if gas can't be estimated (e.g. transaction will be reverted or approvals are missing)
+	 */
+	gasEstimate?: number
+	/**
+	 * True if fill can't be simulated until approvals from missingApprovals are sent
+	 */
+	needsApproval: boolean
+	/**
+	 * Approvals which would be sent on "approve" stage of the fill action
+	 */
+	missingApprovals: FillSimulationApproval[]
+	/**
+	 * Defined if taker doesn't have enough currency to pay for the order
+	 */
+	insufficientBalance?: FillSimulationBalance
+	notStarted: boolean
+	expired: boolean
+}
+
+export type SimulateOrderFill = (request: FillOrderRequest) => Promise<FillSimulationResult>
+
 export type GetOrderBuyTxData = (request: GetOrderBuyTxRequest) => Promise<TransactionData>
 
 export type GetOrderBuyTxRequest = {
@@ -9,6 +9,7 @@ import type { SendFunction } from "../../common/send-transaction"
 import type { EthereumConfig } from "../../config/type"
 import { createExchangeWrapperContract } from "../contracts/exchange-wrapper"
 import type { RaribleEthereumApis } from "../../common/apis"
+import { WalletNotConnectedError } from "../../common/errors"
 import type { PreparedOrderRequestDataForExchangeWrapper, X2Y2OrderFillRequest } from "./types"
 import { ExchangeWrapperOrderType } from "./types"
 import type { OrderFillSendData } from "./types"
@@ -35,7 +36,7 @@ export class X2Y2OrderHandler {
 
 	async getTransactionData(request: X2Y2OrderFillRequest): Promise<OrderFillSendData> {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		const wrapper = createExchangeWrapperContract(this.ethereum, this.config.exchange.wrapper)
@@ -86,7 +87,7 @@ export class X2Y2OrderHandler {
 		totalValueForSending: string
 	) {
 		if (!this.ethereum) {
-			throw new Error("Wallet undefined")
+			throw new WalletNotConnectedError()
 		}
 
 		const x2y2Input = await X2Y2Utils.getOrderSign(this.apis, {
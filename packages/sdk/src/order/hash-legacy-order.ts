@@ -1,9 +1,9 @@
-import type { Ethereum } from "@rarible/ethereum-provider"
 import { keccak256 } from "ethereumjs-util"
+import type { AbiEncoder } from "../common/abi-encoder"
 import { toLegacyAssetType } from "./to-legacy-asset-type"
 import type { SimpleOrder } from "./types"
 
-export function hashLegacyOrder(ethereum: Ethereum, order: SimpleOrder): string {
+export function hashLegacyOrder(ethereum: AbiEncoder, order: SimpleOrder): string {
 	if (order.type !== "RARIBLE_V1") {
 		throw new Error(`Not supported type: ${order.type}`)
 	}
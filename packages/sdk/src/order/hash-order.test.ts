@@ -0,0 +1,197 @@
+import { randomWord, toAddress, toBigNumber, ZERO_ADDRESS, ZERO_WORD } from "@rarible/types"
+import type { OrderRaribleV2DataV2 } from "@rarible/ethereum-api-client"
+import { SeaportItemType, SeaportOrderType } from "@rarible/ethereum-api-client"
+import {
+	awaitAll,
+	createGanacheProvider,
+	deployConduitController,
+	deploySeaport,
+	deployTestExchangeV2,
+} from "@rarible/ethereum-sdk-test-common"
+import { Web3Ethereum } from "@rarible/web3-ethereum"
+import { EthersEthereum } from "@rarible/ethers-ethereum"
+import Web3 from "web3"
+import { ethers } from "ethers"
+import { getEthereumConfig } from "../config"
+import { sentTx } from "../common/send-transaction"
+import { orderToStruct, signOrder } from "./sign-order"
+import { hashOrder, hashOrderToSign, hashRaribleV2OrderKey, toSeaportOrderComponents } from "./hash-order"
+import { TEST_ORDER_TEMPLATE } from "./test/order"
+import type { SimpleLooksrareOrder, SimpleOrder, SimpleRaribleV2Order, SimpleSeaportV1Order } from "./types"
+
+describe("hashOrder", () => {
+	const { provider, addresses, wallets } = createGanacheProvider()
+	const web3 = new Web3(provider as any)
+	const ethereum = new Web3Ethereum({ web3, from: addresses[0] })
+	const config = getEthereumConfig("dev-ethereum")
+	const maker = toAddress(addresses[0])
+	const collection = toAddress("0x0000000000000000000000000000000000000001")
+
+	const it = awaitAll({
+		exchangeV2: deployTestExchangeV2(web3),
+		conduitController: deployConduitController(web3),
+	})
+
+	test("signing hash of rarible orders is signed by maker", async () => {
+		const orders: SimpleOrder[] = [{
+			...TEST_ORDER_TEMPLATE,
+			type: "RARIBLE_V1",
+			data: { dataType: "LEGACY", fee: 100 },
+			maker,
+		}, {
+			...TEST_ORDER_TEMPLATE,
+			type: "RARIBLE_V2",
+			data: { dataType: "RARIBLE_V2_DATA_V1", payouts: [], originFees: [] },
+			maker,
+		}]
+
+		// ganache doesn't support personal_sign, orders are signed by local wallet
+		const signer = new EthersEthereum(new ethers.Wallet(wallets[0].getPrivateKey()))
+		for (const order of orders) {
+			const signature = await signOrder(signer, config, order)
+			const recovered = ethers.utils.recoverAddress(hashOrderToSign(config, order), signature)
+			expect(recovered.toLowerCase()).toBe(maker)
+		}
+	})
+
+	test("hash of rarible v2 order is its key in deployed ExchangeV2", async () => {
+		const dataV2: OrderRaribleV2DataV2 = {
+			dataType: "RARIBLE_V2_DATA_V2",
+			payouts: [],
+			originFees: [],
+			isMakeFill: true,
+		}
+		const data: SimpleRaribleV2Order["data"][] = [
+			{ dataType: "RARIBLE_V2_DATA_V1", payouts: [], originFees: [] },
+			dataV2,
+			{ ...dataV2, isMakeFill: false },
+			{
+				dataType: "RARIBLE_V2_DATA_V3_SELL",
+				payout: { account: maker, value: 10000 },
+				originFeeFirst: { account: maker, value: 100 },
+				maxFeesBasePoint: 1000,
+			},
+		]
+		const orders = data.map((orderData): SimpleRaribleV2Order => ({
+			...TEST_ORDER_TEMPLATE,
+			type: "RARIBLE_V2",
+			maker,
+			salt: randomWord(),
+			data: orderData,
+		}))
+
+		for (const order of orders) {
+			// cancelled order is marked as fully filled by its key
+			await sentTx(it.exchangeV2.methods.cancel(orderToStruct(ethereum, order)), { from: maker })
+			const hash = hashOrder(config, order)
+			expect(hash).toBe(hashRaribleV2OrderKey(order))
+			expect(await it.exchangeV2.methods.fills(hash).call()).toBe(ethers.constants.MaxUint256.toString())
+		}
+		expect(hashRaribleV2OrderKey(orders[1])).not.toBe(hashRaribleV2OrderKey({ ...orders[1], data: orders[2].data }))
+	})
+
+	test("hash of seaport order is the hash computed by deployed Seaport", async () => {
+		const seaport = await deploySeaport(web3, toAddress(it.conduitController.options.address))
+		const order: SimpleSeaportV1Order = {
+			...TEST_ORDER_TEMPLATE,
+			type: "SEAPORT_V1",
+			maker,
+			take: { assetType: { assetClass: "ETH" }, value: toBigNumber("1000") },
+			salt: randomWord(),
+			start: 1657711513,
+			end: 1660303513,
+			data: {
+				dataType: "BASIC_SEAPORT_DATA_V1",
+				protocol: toAddress(seaport.options.address),
+				orderType: SeaportOrderType.FULL_OPEN,
+				offer: [{
+					itemType: SeaportItemType.ERC721,
+					token: collection,
+					identifierOrCriteria: toBigNumber("10"),
+					startAmount: toBigNumber("1"),
+					endAmount: toBigNumber("1"),
+				}],
+				consideration: [{
+					itemType: SeaportItemType.NATIVE,
+					token: ZERO_ADDRESS,
+					identifierOrCriteria: toBigNumber("0"),
+					startAmount: toBigNumber("975"),
+					endAmount: toBigNumber("975"),
+					recipient: maker,
+				}, {
+					itemType: SeaportItemType.NATIVE,
+					token: ZERO_ADDRESS,
+					identifierOrCriteria: toBigNumber("0"),
+					startAmount: toBigNumber("25"),
+					endAmount: toBigNumber("25"),
+					recipient: toAddress(addresses[1]),
+				}],
+				zone: ZERO_ADDRESS,
+				zoneHash: ZERO_WORD,
+				conduitKey: ZERO_WORD,
+				counter: 0,
+			},
+		}
+
+		const expected = await seaport.methods.getOrderHash(toSeaportOrderComponents(order)).call()
+		expect(hashOrder(config, order)).toBe(expected)
+	})
+
+	test("hash of looksrare order is MakerOrder struct hash", () => {
+		const order: SimpleLooksrareOrder = {
+			...TEST_ORDER_TEMPLATE,
+			type: "LOOKSRARE",
+			maker,
+			take: { assetType: { assetClass: "ETH" }, value: toBigNumber("1000") },
+			start: 1657711513,
+			end: 1660303513,
+			data: {
+				dataType: "LOOKSRARE_DATA_V1",
+				minPercentageToAsk: 8500,
+				strategy: toAddress("0x0000000000000000000000000000000000000003"),
+				nonce: 5,
+			},
+		}
+		const looksrareConfig = {
+			...config,
+			exchange: { ...config.exchange, looksrare: toAddress("0x0000000000000000000000000000000000000004") },
+		}
+
+		// MAKER_ORDER_HASH and struct encoding of LooksRare OrderTypes library
+		const params = ethers.utils.defaultAbiCoder.encode(
+			["bytes32", "bool", "address", "address", "uint256", "uint256", "uint256", "address", "address", "uint256",
+				"uint256", "uint256", "uint256", "bytes32"],
+			["0x40261ade532fa1d2c7293df30aaadb9b3c616fae525a0b56d3d411c841a85028", true, maker,
+				collection, 1000, 10, 10, order.data.strategy, config.weth, 5,
+				1657711513, 1660303513, 8500, ethers.utils.keccak256("0x")],
+		)
+		expect(hashOrder(looksrareConfig, order)).toBe(ethers.utils.keccak256(params))
+	})
+
+	test("hash of x2y2 order is its item hash", () => {
+		const itemHash = randomWord()
+		const order: SimpleOrder = {
+			...TEST_ORDER_TEMPLATE,
+			type: "X2Y2",
+			data: {
+				dataType: "X2Y2_DATA",
+				itemHash,
+				isCollectionOffer: false,
+				isBundle: false,
+				side: 1,
+				orderId: toBigNumber("1"),
+			},
+		}
+
+		expect(hashOrder(config, order)).toBe(itemHash)
+		expect(hashOrderToSign(config, order)).toBe(itemHash)
+	})
+
+	test("should throw for orders without offline hash", () => {
+		expect(() => hashOrder(config, {
+			...TEST_ORDER_TEMPLATE,
+			type: "CRYPTO_PUNK",
+			data: { dataType: "CRYPTO_PUNKS_DATA" },
+		})).toThrow("Order hash can't be computed for order type: CRYPTO_PUNK")
+	})
+})
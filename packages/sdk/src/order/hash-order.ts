@@ -0,0 +1,250 @@
+import type { AssetType } from "@rarible/ethereum-api-client"
+import type { Word } from "@rarible/types"
+import { toBinary, toWord, ZERO_ADDRESS } from "@rarible/types"
+import { TypedDataUtils } from "eth-sig-util"
+import { keccak256 } from "ethereumjs-util"
+import { ethers } from "ethers"
+import type { EthereumConfig } from "../config/type"
+import { id32 } from "../common/id"
+import { abiEncoder } from "../common/abi-encoder"
+import { assetTypeToStruct } from "./asset-type-to-struct"
+import { encodeRaribleV2OrderData } from "./encode-rarible-v2-order-data"
+import { hashLegacyOrder } from "./hash-legacy-order"
+import { hashToSign } from "./sign-order"
+import { isNft } from "./is-nft"
+import { convertOpenSeaOrderToDTO } from "./fill-order/open-sea-converter"
+import type { OpenSeaOrderDTO } from "./fill-order/open-sea-types"
+import { getOrderHash } from "./fill-order/seaport-utils/get-order-hash"
+import { convertAPIOrderToSeaport } from "./fill-order/seaport-utils/convert-to-seaport-order"
+import type { OrderComponents } from "./fill-order/seaport-utils/types"
+import { EIP712Domain, EIP_712_ORDER_TYPE, SEAPORT_CONTRACT_NAME } from "./fill-order/seaport-utils/constants"
+import { getSeaportProtocol, isBulkOrderSupported } from "./fill-order/seaport-utils/protocol"
+import { hashBulkOrderToSign, parseBulkOrderSignature } from "./fill-order/seaport-utils/bulk-order"
+import { getOrderTypedData, toLooksrareMakerOrder } from "./fill-order/looksrare-utils/create-order"
+import type {
+	SimpleLooksrareOrder,
+	SimpleOrder,
+	SimpleRaribleV2Order,
+	SimpleSeaportV1Order,
+} from "./types"
+
+export type HashOrderConfig = Pick<EthereumConfig, "chainId" | "exchange" | "weth" | "seaport">
+
+const ASSET_TYPE_TYPEHASH = id32("AssetType(bytes4 assetClass,bytes data)")
+const DATA_V1_TYPE = "0x4c234266"
+
+/**
+ * Hash of the order used by its protocol on-chain (in events and fill/cancel state):
+ * ExchangeV2 order key, ExchangeV1, Wyvern, Seaport and LooksRare order hashes, X2Y2 item hash.
+ * CRYPTO_PUNK and AMM orders are not supported, they have no hash which can be computed from the order
+ */
+export function hashOrder(config: HashOrderConfig, order: SimpleOrder): Word {
+	switch (order.type) {
+		case "RARIBLE_V1":
+			return toWord(hashLegacyOrder(abiEncoder, order))
+		case "RARIBLE_V2":
+			return hashRaribleV2OrderKey(order)
+		case "OPEN_SEA_V1":
+			return toWord(hashOpenSeaOrder(convertOpenSeaOrderToDTO(abiEncoder, order)))
+		case "SEAPORT_V1":
+			return toWord(getOrderHash(toSeaportOrderComponents(order)))
+		case "LOOKSRARE": {
+			const { primaryType, types, message } = getLooksrareTypedData(config, order)
+			return bufferToWord(TypedDataUtils.hashStruct(primaryType, message, types))
+		}
+		case "X2Y2":
+			return order.data.itemHash
+		default:
+			throw new Error(`Order hash can't be computed for order type: ${order.type}`)
+	}
+}
+
+/**
+ * Digest which is signed by the order maker (EIP-712 digest or hash of the personal message),
+ * for Seaport orders signed as a part of bulk order it's the digest of the whole BulkOrder tree.
+ * X2Y2 orders are signed by X2Y2 backend, their item hash is returned
+ */
+export function hashOrderToSign(config: HashOrderConfig, order: SimpleOrder): Word {
+	switch (order.type) {
+		case "RARIBLE_V1": {
+			// ExchangeV1 orders are signed as personal message of the hex string of the order hash
+			const message = Buffer.from(hashLegacyOrder(abiEncoder, order).substring(2), "ascii")
+			return hashPersonalMessage(message)
+		}
+		case "RARIBLE_V2":
+			return bufferToWord(hashToSign(config, abiEncoder, order))
+		case "OPEN_SEA_V1": {
+			const hash = hashOpenSeaOrder(convertOpenSeaOrderToDTO(abiEncoder, order))
+			return hashPersonalMessage(Buffer.from(hash.substring(2), "hex"))
+		}
+		case "SEAPORT_V1":
+			return bufferToWord(hashSeaportOrderToSign(config, order))
+		case "LOOKSRARE":
+			return bufferToWord(TypedDataUtils.sign(getLooksrareTypedData(config, order)))
+		case "X2Y2":
+			return order.data.itemHash
+		default:
+			throw new Error(`Order signing hash can't be computed for order type: ${order.type}`)
+	}
+}
+
+/**
+ * Key of the order in ExchangeV2 (LibOrder.hashKey), used in `fills` mapping and as order hash in Rarible API
+ */
+export function hashRaribleV2OrderKey(order: SimpleRaribleV2Order): Word {
+	const [dataType, data] = encodeRaribleV2OrderData(abiEncoder, order.data)
+	const key = {
+		maker: order.maker,
+		makeAssetType: hashAssetType(order.make.assetType),
+		takeAssetType: hashAssetType(order.take.assetType),
+		salt: order.salt,
+	}
+	if (dataType === DATA_V1_TYPE) {
+		return hashEncoded(abiEncoder.encodeParameter({ OrderKey: ORDER_KEY }, key))
+	}
+	const encoded = abiEncoder.encodeParameter({ OrderKey: { ...ORDER_KEY, data: "bytes" } }, { ...key, data })
+	// tuple with dynamic field is prefixed with its offset, contract hashes plain abi.encode of the fields
+	return hashEncoded(`0x${encoded.substring(66)}`)
+}
+
+/**
+ * EIP-712 domain depends on the version of the order's Seaport contract,
+ * since Seaport 1.4 signature of the order can also be a signature of the bulk order with merkle proof
+ */
+export function hashSeaportOrderToSign(
+	config: Pick<EthereumConfig, "chainId" | "seaport">, order: SimpleSeaportV1Order,
+): Buffer {
+	const seaport = getSeaportProtocol(config.seaport, order.data.protocol)
+	const domain = {
+		name: SEAPORT_CONTRACT_NAME,
+		version: seaport.version,
+		chainId: config.chainId,
+		verifyingContract: seaport.address,
+	}
+	const orderComponents = toSeaportOrderComponents(order)
+	const bulkSignature = order.signature && isBulkOrderSupported(seaport)
+		? parseBulkOrderSignature(order.signature)
+		: undefined
+	if (bulkSignature) {
+		return hashBulkOrderToSign(domain, getOrderHash(orderComponents), bulkSignature)
+	}
+	return TypedDataUtils.sign({
+		primaryType: "OrderComponents",
+		domain,
+		types: {
+			...EIP_712_ORDER_TYPE,
+			EIP712Domain,
+		},
+		message: orderComponents,
+	})
+}
+
+/**
+ * Seaport order components, signature isn't needed for hashing
+ */
+export function toSeaportOrderComponents(order: SimpleSeaportV1Order): OrderComponents {
+	return convertAPIOrderToSeaport({ ...order, signature: order.signature ?? toBinary("0x") }).parameters
+}
+
+function getLooksrareTypedData(config: HashOrderConfig, order: SimpleLooksrareOrder) {
+	const { looksrare } = config.exchange
+	if (!looksrare || looksrare === ZERO_ADDRESS) {
+		throw new Error("Looksrare contract did not specified")
+	}
+	const isAsk = isNft(order.make.assetType)
+	const makerOrder = toLooksrareMakerOrder(order, isAsk ? order.make.value : order.take.value)
+	// asks are signed in Wrapped Ether, but ETH is used as take asset of such orders
+	if (makerOrder.currency === ZERO_ADDRESS) {
+		makerOrder.currency = config.weth
+	}
+	return getOrderTypedData(makerOrder, config.chainId, looksrare)
+}
+
+function hashOpenSeaOrder(order: OpenSeaOrderDTO): string {
+	return ethers.utils.solidityKeccak256(OPEN_SEA_ORDER_TYPES, [
+		order.exchange,
+		order.maker,
+		order.taker,
+		order.makerRelayerFee,
+		order.takerRelayerFee,
+		order.makerProtocolFee,
+		order.takerProtocolFee,
+		order.feeRecipient,
+		order.feeMethod,
+		order.side,
+		order.saleKind,
+		order.target,
+		order.howToCall,
+		order.calldata,
+		order.replacementPattern,
+		order.staticTarget,
+		order.staticExtradata,
+		order.paymentToken,
+		order.basePrice,
+		order.extra,
+		order.listingTime,
+		order.expirationTime,
+		order.salt,
+	])
+}
+
+function hashAssetType(assetType: AssetType): string {
+	const struct = assetTypeToStruct(abiEncoder, assetType)
+	return hashEncoded(abiEncoder.encodeParameter({ AssetType: ASSET_TYPE }, {
+		typeHash: ASSET_TYPE_TYPEHASH,
+		assetClass: struct.assetClass,
+		data: hashEncoded(struct.data),
+	}))
+}
+
+function hashPersonalMessage(message: Buffer): Word {
+	const prefix = Buffer.from(`\u0019Ethereum Signed Message:\n${message.length}`, "ascii")
+	return bufferToWord(keccak256(Buffer.concat([prefix, message])))
+}
+
+function hashEncoded(encoded: string): Word {
+	return bufferToWord(keccak256(Buffer.from(encoded.substring(2), "hex")))
+}
+
+function bufferToWord(hash: Buffer): Word {
+	return toWord(`0x${hash.toString("hex")}`)
+}
+
+const ASSET_TYPE = {
+	typeHash: "bytes32",
+	assetClass: "bytes4",
+	data: "bytes32",
+}
+
+const ORDER_KEY = {
+	maker: "address",
+	makeAssetType: "bytes32",
+	takeAssetType: "bytes32",
+	salt: "uint256",
+}
+
+const OPEN_SEA_ORDER_TYPES = [
+	"address",
+	"address",
+	"address",
+	"uint",
+	"uint",
+	"uint",
+	"uint",
+	"address",
+	"uint8",
+	"uint8",
+	"uint8",
+	"address",
+	"uint8",
+	"bytes",
+	"bytes",
+	"address",
+	"bytes",
+	"address",
+	"uint",
+	"uint",
+	"uint",
+	"uint",
+	"uint",
+]
@@ -0,0 +1,211 @@
+import {
+	awaitAll,
+	createE2eProvider,
+	createGanacheProvider,
+	deployLooksrare,
+	deployTestErc721,
+	deployWethContract,
+} from "@rarible/ethereum-sdk-test-common"
+import Web3 from "web3"
+import { Web3Ethereum } from "@rarible/web3-ethereum"
+import { EthersEthereum } from "@rarible/ethers-ethereum"
+import { ethers } from "ethers"
+import { toAddress, toBigNumber } from "@rarible/types"
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { createRaribleSdk } from "../index"
+import { createErc721V3Collection } from "../common/mint"
+import { MintResponseTypeEnum } from "../nft/mint"
+import { getEthereumConfig } from "../config"
+import type { EthereumConfig } from "../config/type"
+import { getSimpleSendWithInjects, sentTx } from "../common/send-transaction"
+import { createEthereumApis } from "../common/apis"
+import { awaitOwnership } from "./test/await-ownership"
+import { OrderLooksrare } from "./looksrare-order"
+import { UpsertOrder } from "./upsert-order"
+import { OrderFiller } from "./fill-order"
+import { LooksrareOrderHandler } from "./fill-order/looksrare"
+import { signOrder } from "./sign-order"
+import { checkAssetType as checkAssetTypeTemplate } from "./check-asset-type"
+import { createLooksrareExchange } from "./contracts/looksrare-exchange"
+import * as looksrareUtils from "./fill-order/looksrare-utils/create-order"
+import { LooksrareNonceTracker } from "./fill-order/looksrare-utils/nonce-tracker"
+import type { TakerOrderWithEncodedParams } from "./fill-order/looksrare-utils/types"
+import type { SimpleLooksrareOrder } from "./types"
+
+describe.skip("looksrare order", () => {
+	const providerConfig = {
+		networkId: 4,
+		rpcUrl: "https://node-rinkeby.rarible.com",
+	}
+	const sellerPk = "0x6370fd033278c143179d81c5526140625662b8daa446c22ee2d73db3707e620c"
+	const { provider: providerBuyer } = createE2eProvider(
+		"0x00120de4b1518cf1f16dc1b02f6b4a8ac29e870174cb1d8575f578480930250a",
+		providerConfig
+	)
+	const { provider: providerSeller } = createE2eProvider(sellerPk, providerConfig)
+	const ethereumBuyer = new Web3Ethereum({ web3: new Web3(providerBuyer as any), gas: 3000000 })
+	const sdkBuyer = createRaribleSdk(ethereumBuyer, "testnet")
+
+	const erc721ContractAddress = toAddress("0x6ede7f3c26975aad32a475e1021d8f6f39c89d82")
+
+	const sellers: [string, Ethereum][] = [
+		["web3", new Web3Ethereum({ web3: new Web3(providerSeller as any), gas: 3000000 })],
+		["ethers", new EthersEthereum(
+			new ethers.Wallet(sellerPk, new ethers.providers.Web3Provider(providerSeller as any))
+		)],
+	]
+
+	test.each(sellers)("sell ERC-721 <-> ETH with %s", async (_, ethereumSeller) => {
+		const sdkSeller = createRaribleSdk(ethereumSeller, "testnet")
+		const sellItem = await sdkSeller.nft.mint({
+			collection: createErc721V3Collection(erc721ContractAddress),
+			uri: "ipfs://ipfs/QmfVqzkQcKR1vCNqcZkeVVy94684hyLki7QcVzd9rmjuG5",
+			royalties: [],
+			lazy: false,
+		})
+		if (sellItem.type === MintResponseTypeEnum.ON_CHAIN) {
+			await sellItem.transaction.wait()
+		}
+
+		const order = await sdkSeller.order.sellLooksrare({
+			makeAssetType: {
+				assetClass: "ERC721",
+				contract: sellItem.contract,
+				tokenId: sellItem.tokenId,
+			},
+			amount: 1,
+			takeAssetType: { assetClass: "ETH" },
+			price: "100000000",
+		})
+		expect(order.type).toBe("LOOKSRARE")
+		expect(order.maker).toBe(toAddress(await ethereumSeller.getFrom()))
+
+		const tx = await sdkBuyer.order.buy({ order, amount: 1, originFees: [] })
+		await tx.wait()
+
+		await awaitOwnership(sdkBuyer, sellItem.itemId, toAddress(await ethereumBuyer.getFrom()), "1")
+	})
+})
+
+describe("looksrare order on ganache", () => {
+	const { addresses, provider } = createGanacheProvider()
+	const [sellerAddress, buyerAddress] = addresses
+	const web3 = new Web3(provider as any)
+	const sellerEthereum = new Web3Ethereum({ web3, from: sellerAddress, gas: 1000000 })
+	const buyerEthereum = new Web3Ethereum({ web3, from: buyerAddress, gas: 1000000 })
+
+	const env = "dev-ethereum" as const
+	const config: EthereumConfig = getEthereumConfig(env)
+	const apis = createEthereumApis(env)
+	const checkWalletChainId = async () => true
+	const send = getSimpleSendWithInjects().bind(null, checkWalletChainId)
+	const getBaseOrderFee = async () => 0
+	const checkAssetType = checkAssetTypeTemplate.bind(null, apis.nftCollection)
+	const nonces = new LooksrareNonceTracker()
+
+	const it = awaitAll({
+		testErc721: deployTestErc721(web3, "Test", "TST"),
+		weth: deployWethContract(web3),
+	})
+
+	beforeAll(async () => {
+		const weth = toAddress(it.weth.options.address)
+		const looksrare = await deployLooksrare(web3, weth)
+		config.weth = weth
+		config.exchange.looksrare = toAddress(looksrare.exchange.options.address)
+		// ganache chain isn't known by the sdk, addresses of deployed contracts are used instead
+		const mainnetAddresses = looksrareUtils.getLooksrareAddresses(1)
+		jest.spyOn(looksrareUtils, "getLooksrareAddresses").mockReturnValue({
+			...mainnetAddresses,
+			WETH: weth,
+			EXCHANGE: looksrare.exchange.options.address,
+			TRANSFER_MANAGER_ERC721: looksrare.transferManagerErc721.options.address,
+			TRANSFER_MANAGER_ERC1155: looksrare.transferManagerErc1155.options.address,
+			STRATEGY_STANDARD_SALE: looksrare.strategyStandardSale.options.address,
+		})
+	})
+
+	function createLooksrareService(ethereum: Web3Ethereum) {
+		const filler = new OrderFiller(ethereum, send, config, apis, getBaseOrderFee, env)
+		const upserter = new UpsertOrder(
+			filler,
+			send,
+			x => Promise.resolve(x),
+			() => Promise.resolve(undefined),
+			signOrder.bind(null, ethereum, config),
+			apis.order,
+			ethereum,
+			checkWalletChainId,
+		)
+		return new OrderLooksrare(ethereum, send, config, upserter, checkAssetType, checkWalletChainId, nonces)
+	}
+
+	async function sell(tokenId: string) {
+		await sentTx(it.testErc721.methods.mint(sellerAddress, tokenId, "uri"), { from: sellerAddress })
+		return createLooksrareService(sellerEthereum).sell({
+			makeAssetType: {
+				assetClass: "ERC721",
+				contract: toAddress(it.testErc721.options.address),
+				tokenId: toBigNumber(tokenId),
+			},
+			amount: 1,
+			takeAssetType: { assetClass: "ETH" },
+			price: "1000",
+		})
+	}
+
+	async function fill(order: SimpleLooksrareOrder) {
+		const handler = new LooksrareOrderHandler(buyerEthereum, send, config, getBaseOrderFee, env)
+		const makerOrder = handler.convertMakerOrderToLooksrare(order, 1)
+		makerOrder.currency = config.weth
+		const takerOrder: TakerOrderWithEncodedParams = {
+			isOrderAsk: false,
+			taker: buyerAddress,
+			price: makerOrder.price,
+			tokenId: makerOrder.tokenId,
+			minPercentageToAsk: makerOrder.minPercentageToAsk,
+			params: "0x",
+		}
+		const exchange = createLooksrareExchange(buyerEthereum, config.exchange.looksrare!)
+		const tx = await exchange
+			.functionCall("matchAskWithTakerBidUsingETHAndWETH", takerOrder, makerOrder)
+			.send({ value: order.take.value })
+		await tx.wait()
+	}
+
+	test("order created by sdk is fillable by LooksrareOrderHandler", async () => {
+		const order = await sell("1")
+		expect(order.type).toBe("LOOKSRARE")
+		expect(order.maker).toBe(sellerAddress)
+
+		await fill(order)
+
+		expect(toAddress(await it.testErc721.methods.ownerOf("1").call())).toBe(buyerAddress)
+	})
+
+	test("orders of the same seller get different nonces and are filled independently", async () => {
+		const first = await sell("2")
+		const second = await sell("3")
+		expect(second.data.nonce).toBe(first.data.nonce + 1)
+
+		await fill(first)
+		await fill(second)
+
+		expect(toAddress(await it.testErc721.methods.ownerOf("2").call())).toBe(buyerAddress)
+		expect(toAddress(await it.testErc721.methods.ownerOf("3").call())).toBe(buyerAddress)
+	})
+	test("next nonce is above executed and cancelled nonces", async () => {
+		const exchange = toAddress(config.exchange.looksrare!)
+		const contract = createLooksrareExchange(sellerEthereum, exchange)
+		const cancel = async (...nonces: string[]) =>
+			(await contract.functionCall("cancelMultipleMakerOrders", nonces).send()).wait()
+		const getNextNonce = async () =>
+			(await looksrareUtils.getNextNonce(sellerEthereum, exchange, sellerAddress)).toFixed()
+
+		// nonces 0..2 are executed by previous tests
+		await cancel("4", "6")
+		expect(await getNextNonce()).toBe("3")
+		await cancel("3")
+		expect(await getNextNonce()).toBe("5")
+	})
+})
@@ -0,0 +1,161 @@
+import type { Address, Asset, Erc20AssetType, EthAssetType } from "@rarible/ethereum-api-client"
+import type { Ethereum } from "@rarible/ethereum-provider"
+import type { Maybe } from "@rarible/types/build/maybe"
+import { toAddress, toBigNumber, ZERO_ADDRESS } from "@rarible/types"
+import type { BigNumberValue } from "@rarible/utils/build/bn"
+import { toBn } from "@rarible/utils/build/bn"
+import { Action } from "@rarible/action"
+import type { SendFunction } from "../common/send-transaction"
+import type { EthereumConfig } from "../config/type"
+import { getRequiredWallet } from "../common/get-required-wallet"
+import { waitTx } from "../common/wait-tx"
+import type { HasPrice, UpsertOrder } from "./upsert-order"
+import type { AssetTypeRequest, AssetTypeResponse } from "./check-asset-type"
+import type { SimpleLooksrareOrder } from "./types"
+import { approveErc721 } from "./approve-erc721"
+import { approveErc1155 } from "./approve-erc1155"
+import type { MakerOrder } from "./fill-order/looksrare-utils/types"
+import {
+	getLooksrareAddresses,
+	getNextNonce,
+	getOrderSignature,
+	toSimpleLooksrareOrder,
+} from "./fill-order/looksrare-utils/create-order"
+import type { LooksrareNonceTracker } from "./fill-order/looksrare-utils/nonce-tracker"
+
+export type LooksrareSellRequest = {
+	makeAssetType: AssetTypeRequest
+	amount: number
+	/**
+	 * ETH or Wrapped Ether, LooksRare asks are always signed in Wrapped Ether
+	 */
+	takeAssetType: EthAssetType | Erc20AssetType
+	start?: number
+	end?: number
+	/**
+	 * Execution strategy address, standard sale for fixed price strategy is used by default
+	 */
+	strategy?: Address
+	/**
+	 * Order nonce, by default the nonce above all nonces used by the sdk for the signer is used
+	 * (the lowest nonce which is not executed or cancelled on chain for the first order).
+	 * Orders with the same nonce are mutually exclusive: when one of them is filled or cancelled others become invalid
+	 */
+	nonce?: BigNumberValue
+	/**
+	 * Minimal part of the price (in basis points) the seller should receive after protocol and royalty fees
+	 */
+	minPercentageToAsk?: number
+} & HasPrice
+
+export type LooksrareSellOrderStageId = "approve" | "sign"
+export type LooksrareSellOrderAction = Action<LooksrareSellOrderStageId, LooksrareSellRequest, SimpleLooksrareOrder>
+
+type PreparedLooksrareOrder = {
+	makerOrder: MakerOrder
+	make: Asset
+	take: Asset
+}
+
+const DEFAULT_MIN_PERCENTAGE_TO_ASK = 7500
+const DEFAULT_ORDER_DURATION = 30 * 24 * 60 * 60
+
+export class OrderLooksrare {
+	constructor(
+		private readonly ethereum: Maybe<Ethereum>,
+		private readonly send: SendFunction,
+		private readonly config: EthereumConfig,
+		private readonly upserter: UpsertOrder,
+		private readonly checkAssetType: (asset: AssetTypeRequest) => Promise<AssetTypeResponse>,
+		private readonly checkWalletChainId: () => Promise<boolean>,
+		private readonly nonces: LooksrareNonceTracker,
+	) {}
+
+	readonly sell: LooksrareSellOrderAction = Action
+		.create({
+			id: "approve" as const,
+			run: (request: LooksrareSellRequest) => this.prepare(request),
+		})
+		.thenStep({
+			id: "sign" as const,
+			run: async ({ makerOrder, make, take }: PreparedLooksrareOrder) => {
+				const signature = await getOrderSignature(makerOrder, getRequiredWallet(this.ethereum), this.getExchange())
+				return toSimpleLooksrareOrder({ ...makerOrder, signature }, make, take)
+			},
+		})
+		.before(async (input: LooksrareSellRequest) => {
+			await this.checkWalletChainId()
+			return input
+		})
+
+	private async prepare(request: LooksrareSellRequest): Promise<PreparedLooksrareOrder> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const exchange = this.getExchange()
+		const addresses = getLooksrareAddresses(await ethereum.getChainId())
+		const signer = toAddress(await ethereum.getFrom())
+
+		const { takeAssetType } = request
+		if (takeAssetType.assetClass === "ERC20" && takeAssetType.contract.toLowerCase() !== this.config.weth.toLowerCase()) {
+			throw new Error("Looksrare order can be created only for ETH or Wrapped Ether")
+		}
+		const makeAssetType = await this.checkAssetType(request.makeAssetType)
+		if (makeAssetType.assetClass !== "ERC721" && makeAssetType.assetClass !== "ERC1155") {
+			throw new Error(`Make asset type should be ERC-721 or ERC-1155, received=${makeAssetType.assetClass}`)
+		}
+		if (makeAssetType.assetClass === "ERC721" && request.amount !== 1) {
+			throw new Error("Amount should be equal to 1 for ERC-721 asset")
+		}
+
+		const price = await this.upserter.getPrice(request, takeAssetType)
+		const make: Asset = {
+			assetType: makeAssetType,
+			value: toBigNumber(request.amount.toString()),
+		}
+		const take: Asset = {
+			assetType: takeAssetType,
+			value: toBigNumber(toBn(price).multipliedBy(request.amount).toFixed()),
+		}
+
+		if (makeAssetType.assetClass === "ERC721") {
+			const operator = toAddress(addresses.TRANSFER_MANAGER_ERC721)
+			await waitTx(approveErc721(ethereum, this.send, makeAssetType.contract, signer, operator))
+		} else {
+			const operator = toAddress(addresses.TRANSFER_MANAGER_ERC1155)
+			await waitTx(approveErc1155(ethereum, this.send, makeAssetType.contract, signer, operator))
+		}
+
+		let nonce
+		if (request.nonce !== undefined) {
+			nonce = toBn(request.nonce)
+			this.nonces.markUsed(exchange, signer, nonce)
+		} else {
+			nonce = this.nonces.reserve(exchange, signer, await getNextNonce(ethereum, exchange, signer))
+		}
+		const startTime = request.start ?? Math.floor(Date.now() / 1000)
+
+		const makerOrder: MakerOrder = {
+			isOrderAsk: true,
+			signer,
+			collection: makeAssetType.contract,
+			price: take.value,
+			tokenId: makeAssetType.tokenId,
+			amount: make.value,
+			strategy: request.strategy ?? addresses.STRATEGY_STANDARD_SALE,
+			currency: this.config.weth,
+			nonce: nonce.toFixed(),
+			startTime,
+			endTime: request.end ?? startTime + DEFAULT_ORDER_DURATION,
+			minPercentageToAsk: request.minPercentageToAsk ?? DEFAULT_MIN_PERCENTAGE_TO_ASK,
+			params: [],
+		}
+		return { makerOrder, make, take }
+	}
+
+	private getExchange(): Address {
+		const { looksrare } = this.config.exchange
+		if (!looksrare || looksrare === ZERO_ADDRESS) {
+			throw new Error("Looksrare contract did not specified")
+		}
+		return looksrare
+	}
+}
@@ -0,0 +1,240 @@
+import {
+	awaitAll,
+	createE2eProvider,
+	createGanacheProvider,
+	deployConduitController,
+	deploySeaport,
+	deployTestErc20,
+	deployTestErc721,
+} from "@rarible/ethereum-sdk-test-common"
+import Web3 from "web3"
+import { Web3Ethereum } from "@rarible/web3-ethereum"
+import { toAddress, toBigNumber, ZERO_WORD } from "@rarible/types"
+import { createRaribleSdk } from "../index"
+import { createErc721V3Collection } from "../common/mint"
+import { MintResponseTypeEnum } from "../nft/mint"
+import { getEthereumConfig } from "../config"
+import type { EthereumConfig } from "../config/type"
+import { getSimpleSendWithInjects, sentTx } from "../common/send-transaction"
+import { createEthereumApis } from "../common/apis"
+import { awaitOwnership } from "./test/await-ownership"
+import { convertAPIOrderToSeaport } from "./fill-order/seaport-utils/convert-to-seaport-order"
+import { parseBulkOrderSignature } from "./fill-order/seaport-utils/bulk-order"
+import { OrderSeaport } from "./seaport-order"
+import { UpsertOrder } from "./upsert-order"
+import { OrderFiller } from "./fill-order"
+import { signOrder } from "./sign-order"
+import { checkAssetType as checkAssetTypeTemplate } from "./check-asset-type"
+
+describe.skip("seaport order", () => {
+	const providerConfig = {
+		networkId: 4,
+		rpcUrl: "https://node-rinkeby.rarible.com",
+	}
+	const { provider: providerBuyer } = createE2eProvider(
+		"0x00120de4b1518cf1f16dc1b02f6b4a8ac29e870174cb1d8575f578480930250a",
+		providerConfig
+	)
+	const { provider: providerSeller } = createE2eProvider(
+		"0x6370fd033278c143179d81c5526140625662b8daa446c22ee2d73db3707e620c",
+		providerConfig
+	)
+	const ethereumSeller = new Web3Ethereum({ web3: new Web3(providerSeller as any), gas: 3000000 })
+	const ethereumBuyer = new Web3Ethereum({ web3: new Web3(providerBuyer as any), gas: 3000000 })
+	const sdkSeller = createRaribleSdk(ethereumSeller, "testnet")
+	const sdkBuyer = createRaribleSdk(ethereumBuyer, "testnet")
+
+	const rinkebyErc721V3ContractAddress = toAddress("0x6ede7f3c26975aad32a475e1021d8f6f39c89d82")
+	const config = getEthereumConfig("testnet")
+
+	test("sell ERC-721 <-> ETH and buy", async () => {
+		const sellItem = await sdkSeller.nft.mint({
+			collection: createErc721V3Collection(rinkebyErc721V3ContractAddress),
+			uri: "ipfs://ipfs/QmfVqzkQcKR1vCNqcZkeVVy94684hyLki7QcVzd9rmjuG5",
+			royalties: [],
+			lazy: false,
+		})
+		if (sellItem.type === MintResponseTypeEnum.ON_CHAIN) {
+			await sellItem.transaction.wait()
+		}
+
+		const order = await sdkSeller.order.sellSeaport({
+			type: "DATA_V2",
+			makeAssetType: {
+				assetClass: "ERC721",
+				contract: sellItem.contract,
+				tokenId: sellItem.tokenId,
+			},
+			amount: 1,
+			takeAssetType: { assetClass: "ETH" },
+			price: "10000000000",
+			payouts: [],
+			originFees: [],
+		})
+
+		expect(order.type).toBe("SEAPORT_V1")
+		expect(order.maker).toBe(toAddress(await ethereumSeller.getFrom()))
+		expect(() => convertAPIOrderToSeaport(order)).not.toThrow()
+
+		const tx = await sdkBuyer.order.buy({ order, amount: 1, originFees: [] })
+		await tx.wait()
+
+		await awaitOwnership(sdkBuyer, sellItem.itemId, toAddress(await ethereumBuyer.getFrom()), "1")
+	})
+
+	test("bid ERC-721 <-> WETH and cancel", async () => {
+		const order = await sdkBuyer.order.bidSeaport({
+			type: "DATA_V2",
+			makeAssetType: {
+				assetClass: "ERC20",
+				contract: config.weth,
+			},
+			amount: 1,
+			takeAssetType: {
+				assetClass: "ERC721",
+				contract: rinkebyErc721V3ContractAddress,
+				tokenId: toBigNumber("1"),
+			},
+			price: "10000000000",
+			payouts: [],
+			originFees: [],
+		})
+
+		expect(order.data.offer[0].token).toBe(config.weth)
+
+		const tx = await sdkBuyer.order.cancel(order)
+		await tx.wait()
+	})
+})
+
+describe("seaport order on ganache", () => {
+	const { addresses, provider } = createGanacheProvider()
+	const [sellerAddress, buyerAddress] = addresses
+	const web3 = new Web3(provider as any)
+	const sellerEthereum = new Web3Ethereum({ web3, from: sellerAddress, gas: 1000000 })
+	const buyerEthereum = new Web3Ethereum({ web3, from: buyerAddress, gas: 1000000 })
+
+	const env = "dev-ethereum" as const
+	const config: EthereumConfig = getEthereumConfig(env)
+	const apis = createEthereumApis(env)
+	const checkWalletChainId = async () => true
+	const send = getSimpleSendWithInjects().bind(null, checkWalletChainId)
+	const getBaseOrderFee = async () => 0
+	const checkAssetType = checkAssetTypeTemplate.bind(null, apis.nftCollection)
+
+	const it = awaitAll({
+		testErc20: deployTestErc20(web3, "Test", "TST"),
+		testErc721: deployTestErc721(web3, "Test", "TST"),
+		conduitController: deployConduitController(web3),
+	})
+
+	beforeAll(async () => {
+		const seaport = await deploySeaport(web3, toAddress(it.conduitController.options.address))
+		config.seaport = {
+			address: toAddress(seaport.options.address),
+			version: "1.5",
+			legacy: [],
+			conduitKey: ZERO_WORD,
+			conduits: {},
+		}
+		await sentTx(it.testErc20.methods.mint(buyerAddress, 1000000), { from: buyerAddress })
+	})
+
+	function createSeaportService(ethereum: Web3Ethereum) {
+		const filler = new OrderFiller(ethereum, send, config, apis, getBaseOrderFee, env)
+		const upserter = new UpsertOrder(
+			filler,
+			send,
+			x => Promise.resolve(x),
+			() => Promise.resolve(undefined),
+			signOrder.bind(null, ethereum, config),
+			apis.order,
+			ethereum,
+			checkWalletChainId,
+		)
+		return {
+			filler,
+			seaport: new OrderSeaport(ethereum, send, config.seaport, upserter, checkAssetType, checkWalletChainId),
+		}
+	}
+
+	async function mintErc721(tokenId: string) {
+		await sentTx(it.testErc721.methods.mint(sellerAddress, tokenId, "uri"), { from: sellerAddress })
+		return {
+			assetClass: "ERC721" as const,
+			contract: toAddress(it.testErc721.options.address),
+			tokenId: toBigNumber(tokenId),
+		}
+	}
+
+	test("sell ERC-721 <-> ETH and buy", async () => {
+		const seller = createSeaportService(sellerEthereum)
+		const buyer = createSeaportService(buyerEthereum)
+		const makeAssetType = await mintErc721("1")
+
+		const order = await seller.seaport.sell({
+			type: "DATA_V2",
+			makeAssetType,
+			amount: 1,
+			takeAssetType: { assetClass: "ETH" },
+			price: "1000",
+			payouts: [],
+			originFees: [],
+		})
+		expect(order.type).toBe("SEAPORT_V1")
+		expect(order.data.protocol).toBe(config.seaport.address)
+		expect(order.maker).toBe(sellerAddress)
+
+		const tx = await buyer.filler.buy({ order, amount: 1, originFees: [] })
+		await tx.wait()
+
+		expect(toAddress(await it.testErc721.methods.ownerOf("1").call())).toBe(buyerAddress)
+	})
+
+	test("sell ERC-721 <-> ETH with one bulk signature and buy", async () => {
+		const seller = createSeaportService(sellerEthereum)
+		const buyer = createSeaportService(buyerEthereum)
+		const makeAssetTypes = [await mintErc721("2"), await mintErc721("3"), await mintErc721("4")]
+
+		const orders = await seller.seaport.sellBulk(makeAssetTypes.map(makeAssetType => ({
+			type: "DATA_V2" as const,
+			makeAssetType,
+			amount: 1,
+			takeAssetType: { assetClass: "ETH" as const },
+			price: "1000",
+			payouts: [],
+			originFees: [],
+		})))
+		expect(orders.map(order => order.signature && parseBulkOrderSignature(order.signature)?.index)).toEqual([0, 1, 2])
+
+		const tx = await buyer.filler.buy({ order: orders[2], amount: 1, originFees: [] })
+		await tx.wait()
+
+		expect(toAddress(await it.testErc721.methods.ownerOf("4").call())).toBe(buyerAddress)
+		expect(toAddress(await it.testErc721.methods.ownerOf("2").call())).toBe(sellerAddress)
+	})
+
+	test("bid ERC-721 <-> ERC-20 and accept bid", async () => {
+		const seller = createSeaportService(sellerEthereum)
+		const buyer = createSeaportService(buyerEthereum)
+		const takeAssetType = await mintErc721("5")
+		const erc20 = toAddress(it.testErc20.options.address)
+
+		const order = await buyer.seaport.bid({
+			type: "DATA_V2",
+			makeAssetType: { assetClass: "ERC20", contract: erc20 },
+			amount: 1,
+			takeAssetType,
+			price: "1000",
+			payouts: [],
+			originFees: [],
+		})
+		expect(order.data.offer[0].token).toBe(erc20)
+
+		const tx = await seller.filler.acceptBid({ order, amount: 1, originFees: [] })
+		await tx.wait()
+
+		expect(toAddress(await it.testErc721.methods.ownerOf("5").call())).toBe(buyerAddress)
+		expect(await it.testErc20.methods.balanceOf(sellerAddress).call()).toBe("1000")
+	})
+})
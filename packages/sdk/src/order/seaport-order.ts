@@ -0,0 +1,298 @@
+import type { Asset, Part } from "@rarible/ethereum-api-client"
+import type { Ethereum } from "@rarible/ethereum-provider"
+import type { Maybe } from "@rarible/types/build/maybe"
+import { toAddress, toBigNumber, toBinary, toWord, ZERO_ADDRESS } from "@rarible/types"
+import { toBn } from "@rarible/utils/build/bn"
+import { Action } from "@rarible/action"
+import type { SendFunction } from "../common/send-transaction"
+import { getRequiredWallet } from "../common/get-required-wallet"
+import type { SeaportConfig } from "../config/type"
+import type { OrderRequest, UpsertOrder } from "./upsert-order"
+import type { AssetTypeRequest, AssetTypeResponse } from "./check-asset-type"
+import type { SellRequest } from "./sell"
+import type { BidRequest } from "./bid"
+import type { SimpleSeaportV1Order } from "./types"
+import { prepareOrder, signOrder } from "./fill-order/seaport-utils/create-order"
+import { signBulkOrder } from "./fill-order/seaport-utils/bulk-order"
+import { ItemType } from "./fill-order/seaport-utils/constants"
+import { isBulkOrderSupported } from "./fill-order/seaport-utils/protocol"
+import type {
+	ConsiderationInputItem,
+	CreateInputItem,
+	Fee,
+	OrderParameters,
+} from "./fill-order/seaport-utils/types"
+import { createSeaportContract } from "./contracts/seaport"
+import { convertToApiItemType, convertToApiOrderType, getSeaportToken } from "./fill-order/seaport"
+
+export type SeaportOrderStageId = "approve" | "sign"
+export type SeaportSellOrderAction = Action<SeaportOrderStageId, SellRequest, SimpleSeaportV1Order>
+export type SeaportBulkSellOrderAction = Action<SeaportOrderStageId, SellRequest[], SimpleSeaportV1Order[]>
+export type SeaportBidOrderAction = Action<SeaportOrderStageId, BidRequest, SimpleSeaportV1Order>
+
+type PreparedSeaportOrder = {
+	parameters: OrderParameters
+	counter: number
+	make: Asset
+	take: Asset
+}
+
+/**
+ * Default lifetime of Seaport order if request.end is not specified (30 days)
+ */
+const DEFAULT_ORDER_DURATION = 30 * 24 * 60 * 60
+
+export class OrderSeaport {
+	constructor(
+		private readonly ethereum: Maybe<Ethereum>,
+		private readonly send: SendFunction,
+		private readonly config: SeaportConfig,
+		private readonly upserter: UpsertOrder,
+		private readonly checkAssetType: (asset: AssetTypeRequest) => Promise<AssetTypeResponse>,
+		private readonly checkWalletChainId: () => Promise<boolean>,
+	) {}
+
+	readonly sell: SeaportSellOrderAction = Action
+		.create({
+			id: "approve" as const,
+			run: (request: SellRequest) => this.prepareSell(request),
+		})
+		.thenStep({
+			id: "sign" as const,
+			run: (prepared: PreparedSeaportOrder) => this.sign(prepared),
+		})
+		.before(async (input: SellRequest) => {
+			await this.checkWalletChainId()
+			return input
+		})
+
+	/**
+	 * Orders are signed with one BulkOrder signature (Seaport 1.4+),
+	 * approvals are shared between the orders (one approval per collection)
+	 */
+	readonly sellBulk: SeaportBulkSellOrderAction = Action
+		.create({
+			id: "approve" as const,
+			run: async (requests: SellRequest[]) => {
+				if (!requests.length) {
+					throw new Error("At least one sell request should be provided")
+				}
+				if (!isBulkOrderSupported(this.config)) {
+					throw new Error(`Bulk orders are not supported by Seaport ${this.config.version}`)
+				}
+				const ethereum = getRequiredWallet(this.ethereum)
+				const seaport = createSeaportContract(ethereum, this.config.address)
+				const counter = Number(await seaport.functionCall("getCounter", await ethereum.getFrom()).call())
+				// orders are prepared one by one, so approval of the collection is sent only for the first one
+				const prepared: PreparedSeaportOrder[] = []
+				for (const request of requests) {
+					prepared.push(await this.prepareSell(request, counter))
+				}
+				return prepared
+			},
+		})
+		.thenStep({
+			id: "sign" as const,
+			run: (prepared: PreparedSeaportOrder[]) => this.signBulk(prepared),
+		})
+		.before(async (input: SellRequest[]) => {
+			await this.checkWalletChainId()
+			return input
+		})
+
+	readonly bid: SeaportBidOrderAction = Action
+		.create({
+			id: "approve" as const,
+			run: async (request: BidRequest) => {
+				if (request.makeAssetType.assetClass !== "ERC20") {
+					throw new Error(`Make asset type should be ERC-20, received=${request.makeAssetType.assetClass}`)
+				}
+				const price = await this.upserter.getPrice(request, request.makeAssetType)
+				const make: Asset = {
+					assetType: request.makeAssetType,
+					value: toBigNumber(toBn(price).multipliedBy(request.amount).toFixed()),
+				}
+				const take: Asset = {
+					assetType: await this.checkAssetType(request.takeAssetType),
+					value: toBigNumber(request.amount.toString()),
+				}
+				const [payout] = getPayouts(request)
+				const consideration: ConsiderationInputItem[] = [{
+					...toNftInputItem(take),
+					recipient: payout?.account,
+				}]
+				const offer: CreateInputItem[] = [{
+					token: request.makeAssetType.contract,
+					amount: make.value,
+				}]
+
+				return this.prepare(request, make, take, offer, consideration)
+			},
+		})
+		.thenStep({
+			id: "sign" as const,
+			run: (prepared: PreparedSeaportOrder) => this.sign(prepared),
+		})
+		.before(async (input: BidRequest) => {
+			await this.checkWalletChainId()
+			return input
+		})
+
+	private async prepareSell(request: SellRequest, counter?: number): Promise<PreparedSeaportOrder> {
+		const price = await this.upserter.getPrice(request, request.takeAssetType)
+		const make: Asset = {
+			assetType: await this.checkAssetType(request.makeAssetType),
+			value: toBigNumber(request.amount.toString()),
+		}
+		const take: Asset = {
+			assetType: request.takeAssetType,
+			value: toBigNumber(toBn(price).multipliedBy(request.amount).toFixed()),
+		}
+		const token = getSeaportToken(take.assetType)
+		const consideration: ConsiderationInputItem[] = splitByPayouts(take.value, getPayouts(request))
+			.map(({ account, amount }) => ({ token, amount, recipient: account }))
+
+		return this.prepare(request, make, take, [toNftInputItem(make)], consideration, counter)
+	}
+
+	private async prepare(
+		request: OrderRequest,
+		make: Asset,
+		take: Asset,
+		offer: CreateInputItem[],
+		consideration: ConsiderationInputItem[],
+		counter?: number,
+	): Promise<PreparedSeaportOrder> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const maker = await ethereum.getFrom()
+		if (request.maker && request.maker.toLowerCase() !== maker.toLowerCase()) {
+			throw new Error("Seaport order can be created only by the connected wallet")
+		}
+		const startTime = request.start ?? Math.floor(Date.now() / 1000)
+		const endTime = request.end ?? startTime + DEFAULT_ORDER_DURATION
+
+		const prepared = await prepareOrder(ethereum, this.config, {
+			send: this.send,
+			counter,
+			offer,
+			consideration,
+			fees: getFees(request),
+			startTime: startTime.toString(),
+			endTime: endTime.toString(),
+			allowPartialFills: make.assetType.assetClass === "ERC1155" || take.assetType.assetClass === "ERC1155",
+			restrictedByZone: false,
+		})
+		return { ...prepared, make, take }
+	}
+
+	private async sign(prepared: PreparedSeaportOrder): Promise<SimpleSeaportV1Order> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const signature = await signOrder(ethereum, this.config, prepared.parameters, prepared.counter)
+		return toSimpleSeaportOrder(prepared, `0x${signature}`, this.config.address)
+	}
+
+	private async signBulk(prepared: PreparedSeaportOrder[]): Promise<SimpleSeaportV1Order[]> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		const signatures = await signBulkOrder(ethereum, this.config, prepared.map(({ parameters, counter }) => ({
+			...parameters,
+			counter,
+		})))
+		return prepared.map((order, index) => toSimpleSeaportOrder(order, signatures[index], this.config.address))
+	}
+}
+
+function toSimpleSeaportOrder(
+	{ parameters, counter, make, take }: PreparedSeaportOrder, signature: string, protocol: string,
+): SimpleSeaportV1Order {
+	return {
+		type: "SEAPORT_V1",
+		maker: toAddress(parameters.offerer),
+		make,
+		take,
+		salt: toWord(parameters.salt),
+		start: Number(parameters.startTime),
+		end: Number(parameters.endTime),
+		signature: toBinary(signature),
+		data: {
+			dataType: "BASIC_SEAPORT_DATA_V1",
+			protocol: toAddress(protocol),
+			orderType: convertToApiOrderType(parameters.orderType),
+			offer: parameters.offer.map(item => ({
+				itemType: convertToApiItemType(item.itemType),
+				token: toAddress(item.token),
+				identifierOrCriteria: toBigNumber(item.identifierOrCriteria),
+				startAmount: toBigNumber(item.startAmount),
+				endAmount: toBigNumber(item.endAmount),
+			})),
+			consideration: parameters.consideration.map(item => ({
+				itemType: convertToApiItemType(item.itemType),
+				token: toAddress(item.token),
+				identifierOrCriteria: toBigNumber(item.identifierOrCriteria),
+				startAmount: toBigNumber(item.startAmount),
+				endAmount: toBigNumber(item.endAmount),
+				recipient: toAddress(item.recipient),
+			})),
+			zone: toAddress(parameters.zone),
+			zoneHash: toWord(parameters.zoneHash),
+			conduitKey: toWord(parameters.conduitKey),
+			counter: Number(counter),
+		},
+	}
+}
+
+function toNftInputItem(asset: Asset): CreateInputItem {
+	switch (asset.assetType.assetClass) {
+		case "ERC721":
+			return {
+				itemType: ItemType.ERC721,
+				token: asset.assetType.contract,
+				identifier: asset.assetType.tokenId,
+			}
+		case "ERC1155":
+			return {
+				itemType: ItemType.ERC1155,
+				token: asset.assetType.contract,
+				identifier: asset.assetType.tokenId,
+				amount: asset.value,
+			}
+		default:
+			throw new Error(`Asset type is not supported by Seaport order, received=${asset.assetType.assetClass}`)
+	}
+}
+
+function getPayouts(request: OrderRequest): Part[] {
+	switch (request.type) {
+		case "DATA_V2": return request.payouts
+		case "DATA_V3_SELL": return [request.payout]
+		case "DATA_V3_BUY": return request.payout ? [request.payout] : []
+		default: throw new Error("Unknown OrderRequest type")
+	}
+}
+
+function getFees(request: OrderRequest): Fee[] {
+	const originFees = request.type === "DATA_V2"
+		? request.originFees
+		: [request.originFeeFirst, request.originFeeSecond].filter((fee): fee is Part => fee !== undefined)
+
+	return originFees
+		.filter(fee => fee.account !== ZERO_ADDRESS && fee.value > 0)
+		.map(fee => ({ recipient: fee.account, basisPoints: fee.value }))
+}
+
+/**
+ * Split currency amount between payouts, the remainder goes to the last payout
+ * If payouts are not specified whole amount goes to the maker
+ */
+function splitByPayouts(amount: string, payouts: Part[]): { account: string | undefined, amount: string }[] {
+	if (!payouts.length) {
+		return [{ account: undefined, amount }]
+	}
+	let rest = toBn(amount)
+	return payouts.map((payout, index) => {
+		const value = index === payouts.length - 1
+			? rest
+			: toBn(amount).multipliedBy(payout.value).dividedToIntegerBy(10000)
+		rest = rest.minus(value)
+		return { account: payout.account, amount: value.toFixed() }
+	})
+}
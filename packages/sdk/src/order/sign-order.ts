@@ -5,6 +5,8 @@ import type { Ethereum } from "@rarible/ethereum-provider"
 import type { Maybe } from "@rarible/types/build/maybe"
 import { TypedDataUtils } from "eth-sig-util"
 import type { EthereumConfig } from "../config/type"
+import { WalletNotConnectedError, withSdkError } from "../common/errors"
+import type { AbiEncoder } from "../common/abi-encoder"
 import { hashLegacyOrder } from "./hash-legacy-order"
 import { assetTypeToStruct } from "./asset-type-to-struct"
 import { EIP712_DOMAIN_TEMPLATE, EIP712_ORDER_TYPE, EIP712_ORDER_TYPES } from "./eip712"
@@ -17,21 +19,21 @@ export async function signOrder(
 	order: SimpleOrder
 ): Promise<Binary> {
 	if (!ethereum) {
-		throw new Error("Wallet undefined")
+		throw new WalletNotConnectedError()
 	}
 	switch (order.type) {
 		case "RARIBLE_V1": {
 			const legacyHash = hashLegacyOrder(ethereum, order)
-			return toBinary(await ethereum.personalSign(legacyHash.substring(2)))
+			return toBinary(await withSdkError(ethereum.personalSign(legacyHash.substring(2))))
 		}
 		case "RARIBLE_V2": {
 			const domain = createEIP712Domain(config.chainId, config.exchange.v2)
-			const signature = await ethereum.signTypedData({
+			const signature = await withSdkError(ethereum.signTypedData({
 				primaryType: EIP712_ORDER_TYPE,
 				domain,
 				types: EIP712_ORDER_TYPES,
 				message: orderToStruct(ethereum, order),
-			})
+			}))
 			return toBinary(signature)
 		}
 		default: {
@@ -40,13 +42,18 @@ export async function signOrder(
 	}
 }
 
-export function hashToSign(config: Pick<EthereumConfig, "exchange" | "chainId">, ethereum: Ethereum, order: SimpleRaribleV2Order) {
+export function hashToSign(
+	config: Pick<EthereumConfig, "exchange" | "chainId">,
+	ethereum: AbiEncoder,
+	order: SimpleRaribleV2Order,
+	wrongEncode: Boolean = false,
+) {
 	const domain = createEIP712Domain(config.chainId, config.exchange.v2)
 	return TypedDataUtils.sign({
 		primaryType: EIP712_ORDER_TYPE,
 		domain,
 		types: EIP712_ORDER_TYPES,
-		message: orderToStruct(ethereum, order),
+		message: orderToStruct(ethereum, order, wrongEncode),
 	})
 }
 
@@ -58,7 +65,7 @@ function createEIP712Domain(chainId: number, verifyingContract: Address): EIP712
 	}
 }
 
-export function orderToStruct(ethereum: Ethereum, order: SimpleRaribleV2Order, wrongEncode: Boolean = false): any {
+export function orderToStruct(ethereum: AbiEncoder, order: SimpleRaribleV2Order, wrongEncode: Boolean = false): any {
 	const [dataType, data] = encodeRaribleV2OrderData(ethereum, order.data, wrongEncode)
 	return {
 		maker: order.maker,
@@ -73,7 +80,7 @@ export function orderToStruct(ethereum: Ethereum, order: SimpleRaribleV2Order, w
 	}
 }
 
-function assetToStruct(ethereum: Ethereum, asset: Asset) {
+function assetToStruct(ethereum: AbiEncoder, asset: Asset) {
 	return {
 		assetType: assetTypeToStruct(ethereum, asset.assetType),
 		value: asset.value,
@@ -17,6 +17,7 @@ import { convertOpenSeaOrderToDTO } from "../fill-order/open-sea-converter"
 import type { ConsiderationInputItem, CreateInputItem } from "../fill-order/seaport-utils/types"
 import { createOrder } from "../fill-order/seaport-utils/create-order"
 import type { SendFunction } from "../../common/send-transaction"
+import { SEAPORT_V1_1_CONFIG } from "../../config/common"
 
 function getRandomTokenId(): string {
 	return Math.floor(Math.random() * 300000000).toString()
@@ -201,6 +202,7 @@ export async function createSeaportOrder(
 	const endTime = getMaxOrderExpirationTimestamp().toString()
 	 const createdOrder = await createOrder(
 		provider,
+		SEAPORT_V1_1_CONFIG,
 		{
 			send,
 			"offer": [make],
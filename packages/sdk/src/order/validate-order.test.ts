@@ -0,0 +1,159 @@
+import { randomWord, toAddress, toBigNumber } from "@rarible/types"
+import { Web3Ethereum } from "@rarible/web3-ethereum"
+import Web3 from "web3"
+import {
+	awaitAll,
+	createGanacheProvider,
+	deployErc20TransferProxy,
+	deployTestErc1155,
+	deployTestErc20,
+	deployTestExchangeV2,
+	deployTestRoyaltiesProvider,
+	deployTransferProxy,
+} from "@rarible/ethereum-sdk-test-common"
+import { sentTx } from "../common/send-transaction"
+import { getEthereumConfig } from "../config"
+import { orderToStruct, signOrder } from "./sign-order"
+import type { SimpleRaribleV2Order } from "./types"
+import { OrderValidator } from "./validate-order"
+
+describe("validate order", () => {
+	const { addresses, provider } = createGanacheProvider()
+	const [ownerAddress, sellerAddress] = addresses
+	const web3 = new Web3(provider as any)
+	const ownerEthereum = new Web3Ethereum({ web3, from: ownerAddress, gas: 1000000 })
+	const sellerEthereum = new Web3Ethereum({ web3, from: sellerAddress, gas: 1000000 })
+	const config = getEthereumConfig("dev-ethereum")
+	const validator = new OrderValidator(ownerEthereum, config)
+
+	const it = awaitAll({
+		testErc20: deployTestErc20(web3, "Test1", "TST1"),
+		testErc1155: deployTestErc1155(web3, "Test"),
+		transferProxy: deployTransferProxy(web3),
+		erc20TransferProxy: deployErc20TransferProxy(web3),
+		royaltiesProvider: deployTestRoyaltiesProvider(web3),
+		exchangeV2: deployTestExchangeV2(web3),
+	})
+
+	beforeAll(async () => {
+		await sentTx(
+			it.exchangeV2.methods.__ExchangeV2_init(
+				toAddress(it.transferProxy.options.address),
+				toAddress(it.erc20TransferProxy.options.address),
+				toBigNumber("0"),
+				ownerAddress,
+				toAddress(it.royaltiesProvider.options.address)
+			),
+			{ from: ownerAddress }
+		)
+		config.exchange.v2 = toAddress(it.exchangeV2.options.address)
+		config.transferProxies.nft = toAddress(it.transferProxy.options.address)
+		config.transferProxies.erc20 = toAddress(it.erc20TransferProxy.options.address)
+
+		await sentTx(it.testErc1155.methods.mint(sellerAddress, 1, 10, "0x"), { from: ownerAddress })
+	})
+
+	async function createSignedOrder(): Promise<SimpleRaribleV2Order> {
+		const order: SimpleRaribleV2Order = {
+			type: "RARIBLE_V2",
+			maker: sellerAddress,
+			make: {
+				assetType: {
+					assetClass: "ERC1155",
+					contract: toAddress(it.testErc1155.options.address),
+					tokenId: toBigNumber("1"),
+				},
+				value: toBigNumber("5"),
+			},
+			take: {
+				assetType: {
+					assetClass: "ERC20",
+					contract: toAddress(it.testErc20.options.address),
+				},
+				value: toBigNumber("10"),
+			},
+			salt: randomWord(),
+			data: {
+				dataType: "RARIBLE_V2_DATA_V1",
+				payouts: [],
+				originFees: [],
+			},
+		}
+		return { ...order, signature: await signOrder(sellerEthereum, config, order) }
+	}
+
+	test("should report missing approval of signed order", async () => {
+		const order = await createSignedOrder()
+
+		expect(await validator.validate(order)).toEqual({
+			valid: false,
+			onChainStatus: "checked",
+			problems: [{
+				type: "NOT_APPROVED",
+				contract: toAddress(it.testErc1155.options.address),
+				operator: toAddress(it.transferProxy.options.address),
+			}],
+		})
+
+		await sentTx(it.testErc1155.methods.setApprovalForAll(it.transferProxy.options.address, true), {
+			from: sellerAddress,
+		})
+		expect(await validator.validate(order)).toEqual({ valid: true, onChainStatus: "checked", problems: [] })
+	})
+
+	test("should report invalid signature, dates and insufficient balance", async () => {
+		const order = await createSignedOrder()
+		const now = Math.floor(Date.now() / 1000)
+
+		const result = await validator.validate({
+			...order,
+			make: { ...order.make, value: toBigNumber("20") },
+			end: now - 100,
+		})
+		expect(result.valid).toBe(false)
+		expect(result.problems).toEqual([
+			{ type: "EXPIRED", end: now - 100 },
+			{ type: "INVALID_SIGNATURE" },
+			expect.objectContaining({ type: "INSUFFICIENT_BALANCE", required: "20", balance: "10" }),
+		])
+	})
+
+	test("should report cancelled order", async () => {
+		const order = await createSignedOrder()
+		await sentTx(it.exchangeV2.methods.cancel(orderToStruct(sellerEthereum, order)), { from: sellerAddress })
+
+		expect((await validator.validate(order)).problems).toEqual([{ type: "CANCELLED" }])
+	})
+
+	test("should check dates and maker balance of order with unknown on-chain status", async () => {
+		const order = await createSignedOrder()
+		const now = Math.floor(Date.now() / 1000)
+
+		expect(await validator.validate({
+			...order,
+			type: "X2Y2",
+			data: {
+				dataType: "X2Y2_DATA",
+				itemHash: randomWord(),
+				isCollectionOffer: false,
+				isBundle: false,
+				side: 1,
+				orderId: toBigNumber("1"),
+			},
+		})).toEqual({ valid: true, onChainStatus: "unknown", problems: [] })
+
+		const result = await validator.validate({
+			...order,
+			type: "RARIBLE_V1",
+			make: { ...order.make, value: toBigNumber("20") },
+			end: now - 100,
+			data: { dataType: "LEGACY", fee: 0 },
+		})
+		expect(result.valid).toBe(false)
+		expect(result.onChainStatus).toBe("unknown")
+		expect(result.problems).toEqual([
+			{ type: "EXPIRED", end: now - 100 },
+			expect.objectContaining({ type: "INSUFFICIENT_BALANCE", required: "20", balance: "10" }),
+		])
+	})
+})
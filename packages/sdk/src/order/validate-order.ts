@@ -0,0 +1,446 @@
+import type { Ethereum } from "@rarible/ethereum-provider"
+import type { AssetType, Erc1155AssetType, Erc20AssetType, Erc721AssetType } from "@rarible/ethereum-api-client"
+import type { Address, BigNumber } from "@rarible/types"
+import { toAddress, toBigNumber, ZERO_ADDRESS } from "@rarible/types"
+import type { Maybe } from "@rarible/types/build/maybe"
+import type { BigNumberValue } from "@rarible/utils"
+import { toBn } from "@rarible/utils"
+import type { EthereumConfig } from "../config/type"
+import { getRequiredWallet } from "../common/get-required-wallet"
+import { isSigner } from "../common/is-signer"
+import { createCryptoPunksMarketContract } from "../nft/contracts/cryptoPunks"
+import { createExchangeV2Contract } from "./contracts/exchange-v2"
+import { createSeaportContract } from "./contracts/seaport"
+import { createErc20Contract } from "./contracts/erc20"
+import { createErc721Contract } from "./contracts/erc721"
+import { createErc1155Contract } from "./contracts/erc1155"
+import { createLooksrareExchange } from "./contracts/looksrare-exchange"
+import { createOpenseaProxyRegistryEthContract } from "./contracts/proxy-registry-opensea"
+import { checkChainId } from "./check-chain-id"
+import { hashToSign } from "./sign-order"
+import {
+	hashOrderToSign,
+	hashRaribleV2OrderKey,
+	hashSeaportOrderToSign,
+	toSeaportOrderComponents,
+} from "./hash-order"
+import { getOrderHash } from "./fill-order/seaport-utils/get-order-hash"
+import {
+	getBalancesAndApprovals,
+	getInsufficientBalanceAndApprovalAmounts,
+} from "./fill-order/seaport-utils/balance-and-approval-check"
+import { getSummedTokenAndIdentifierAmounts } from "./fill-order/seaport-utils/item"
+import { MAX_INT } from "./fill-order/seaport-utils/constants"
+import { getConduit, getSeaportProtocol, isBulkOrderSupported } from "./fill-order/seaport-utils/protocol"
+import { parseBulkOrderSignature } from "./fill-order/seaport-utils/bulk-order"
+import { getLooksrareAddresses } from "./fill-order/looksrare-utils/create-order"
+import type {
+	SimpleCryptoPunkOrder,
+	SimpleLooksrareOrder,
+	SimpleOpenSeaV1Order,
+	SimpleOrder,
+	SimpleRaribleV2Order,
+	SimpleSeaportV1Order,
+} from "./types"
+
+export type OrderValidationProblem =
+	{ type: "INVALID_SIGNATURE" } |
+	{ type: "NOT_STARTED", start: number } |
+	{ type: "EXPIRED", end: number } |
+	{ type: "INSUFFICIENT_BALANCE", contract: Address, tokenId?: BigNumber, required: BigNumber, balance: BigNumber } |
+	{ type: "NOT_APPROVED", contract: Address, operator: Address } |
+	{ type: "FILLED" } |
+	{ type: "CANCELLED" }
+
+export type OrderValidationResult = {
+	/**
+	 * True if no problems were found. Order can be filled if its on-chain status is checked as well
+	 */
+	valid: boolean
+	/**
+	 * "checked" if signature and fill/cancel state of the order were checked on-chain,
+	 * "unknown" if they can't be checked for the order type, only dates and maker balance/approval are checked then
+	 */
+	onChainStatus: "checked" | "unknown"
+	problems: OrderValidationProblem[]
+}
+
+export type ValidateOrderAction = (order: SimpleOrder) => Promise<OrderValidationResult>
+
+export class OrderValidator {
+	constructor(
+		private readonly ethereum: Maybe<Ethereum>,
+		private readonly config: EthereumConfig,
+	) {
+		this.validate = this.validate.bind(this)
+	}
+
+	/**
+	 * Check if order can be filled: maker signature, maker balance and approval of the make asset,
+	 * start/end dates and remaining (not filled or cancelled) part of the order.
+	 * Signature and remaining part are checked for RARIBLE_V2, SEAPORT_V1 and LOOKSRARE orders,
+	 * on-chain status of other order types is "unknown"
+	 */
+	async validate(order: SimpleOrder): Promise<OrderValidationResult> {
+		const ethereum = getRequiredWallet(this.ethereum)
+		await checkChainId(ethereum, this.config)
+
+		const problems = getDatesProblems(order)
+		switch (order.type) {
+			case "RARIBLE_V2":
+				problems.push(...await this.validateRaribleV2Order(ethereum, order))
+				break
+			case "SEAPORT_V1":
+				problems.push(...await this.validateSeaportOrder(ethereum, order))
+				break
+			case "LOOKSRARE":
+				problems.push(...await this.validateLooksrareOrder(ethereum, order))
+				break
+			default:
+				problems.push(...await this.getMakerProblems(ethereum, order))
+				return { valid: problems.length === 0, onChainStatus: "unknown", problems }
+		}
+		return { valid: problems.length === 0, onChainStatus: "checked", problems }
+	}
+
+	/**
+	 * Maker balance and approval of the make asset for order types without on-chain status check
+	 */
+	private async getMakerProblems(
+		ethereum: Ethereum,
+		order: Exclude<SimpleOrder, SimpleRaribleV2Order | SimpleSeaportV1Order | SimpleLooksrareOrder>,
+	): Promise<OrderValidationProblem[]> {
+		switch (order.type) {
+			case "RARIBLE_V1":
+				return this.getMakeAssetProblems(ethereum, order.maker, order.make.assetType, order.make.value)
+			case "OPEN_SEA_V1":
+				return this.getOpenSeaMakerProblems(ethereum, order)
+			case "CRYPTO_PUNK":
+				return getCryptoPunkMakerProblems(ethereum, order)
+			// operators of X2Y2 and AMM orders are not known, only balance of the maker is checked
+			default: {
+				const { assetType } = order.make
+				if (assetType.assetClass === "ERC20" || assetType.assetClass === "ERC721" ||
+					assetType.assetClass === "ERC1155") {
+					return getTokenProblems(ethereum, order.maker, assetType, order.make.value, undefined)
+				}
+				return []
+			}
+		}
+	}
+
+	/**
+	 * OpenSea currency is transferred by token transfer proxy, items by proxy registered for the maker
+	 */
+	private async getOpenSeaMakerProblems(
+		ethereum: Ethereum, order: SimpleOpenSeaV1Order,
+	): Promise<OrderValidationProblem[]> {
+		const { assetType } = order.make
+		switch (assetType.assetClass) {
+			case "ERC20":
+				return getTokenProblems(
+					ethereum, order.maker, assetType, order.make.value, this.config.transferProxies.openseaV1,
+				)
+			case "ERC721":
+			case "ERC1155": {
+				const { proxyRegistry } = this.config.openSea
+				const registry = createOpenseaProxyRegistryEthContract(ethereum, proxyRegistry)
+				const proxy = toAddress(await registry.functionCall("proxies", order.maker).call())
+				if (proxy === ZERO_ADDRESS) {
+					const balanceProblems = await getTokenProblems(
+						ethereum, order.maker, assetType, order.make.value, undefined,
+					)
+					return [...balanceProblems, notApproved(assetType.contract, proxyRegistry)]
+				}
+				return getTokenProblems(ethereum, order.maker, assetType, order.make.value, proxy)
+			}
+			default:
+				return []
+		}
+	}
+
+	private async validateRaribleV2Order(
+		ethereum: Ethereum, order: SimpleRaribleV2Order,
+	): Promise<OrderValidationProblem[]> {
+		const exchange = createExchangeV2Contract(ethereum, this.config.exchange.v2)
+		const [fill, isSigned] = await Promise.all([
+			exchange.functionCall("fills", hashRaribleV2OrderKey(order)).call(),
+			this.isRaribleV2OrderSigned(ethereum, order),
+		])
+		const problems: OrderValidationProblem[] = isSigned ? [] : [{ type: "INVALID_SIGNATURE" }]
+
+		const filled = toBn(fill)
+		if (filled.eq(MAX_INT)) {
+			return [...problems, { type: "CANCELLED" }]
+		}
+		const remaining = getRaribleV2RemainingMake(order, filled)
+		if (remaining.lte(0)) {
+			return [...problems, { type: "FILLED" }]
+		}
+		return [...problems, ...await this.getMakeAssetProblems(ethereum, order.maker, order.make.assetType, remaining)]
+	}
+
+	private async isRaribleV2OrderSigned(ethereum: Ethereum, order: SimpleRaribleV2Order): Promise<boolean> {
+		if (!order.signature) {
+			return false
+		}
+		if (await isSigner(ethereum, order.maker, hashToSign(this.config, ethereum, order), order.signature)) {
+			return true
+		}
+		// some old orders are signed with incorrectly encoded data, exchange accepts them as well
+		return order.data.dataType === "RARIBLE_V2_DATA_V1" &&
+			isSigner(ethereum, order.maker, hashToSign(this.config, ethereum, order, true), order.signature)
+	}
+
+	private async getMakeAssetProblems(
+		ethereum: Ethereum, maker: Address, assetType: AssetType, value: BigNumberValue,
+	): Promise<OrderValidationProblem[]> {
+		const { transferProxies } = this.config
+		switch (assetType.assetClass) {
+			case "ERC20":
+				return getTokenProblems(ethereum, maker, assetType, value, transferProxies.erc20)
+			case "ERC721":
+			case "ERC1155":
+				return getTokenProblems(ethereum, maker, assetType, value, transferProxies.nft)
+			// lazy items are minted on fill, so only approval for the lazy transfer proxy is needed
+			case "ERC721_LAZY": {
+				const erc721 = createErc721Contract(ethereum, assetType.contract)
+				const approved = await erc721.functionCall("isApprovedForAll", maker, transferProxies.erc721Lazy).call()
+				return approved ? [] : [notApproved(assetType.contract, transferProxies.erc721Lazy)]
+			}
+			case "ERC1155_LAZY": {
+				const erc1155 = createErc1155Contract(ethereum, assetType.contract)
+				const approved = await erc1155.functionCall("isApprovedForAll", maker, transferProxies.erc1155Lazy).call()
+				return approved ? [] : [notApproved(assetType.contract, transferProxies.erc1155Lazy)]
+			}
+			default:
+				return []
+		}
+	}
+
+	/**
+	 * LooksRare order is invalidated by execution or cancellation of its nonce,
+	 * nonces below user's min nonce are cancelled by cancelAllOrdersForSender
+	 */
+	private async validateLooksrareOrder(
+		ethereum: Ethereum, order: SimpleLooksrareOrder,
+	): Promise<OrderValidationProblem[]> {
+		const { looksrare } = this.config.exchange
+		if (!looksrare) {
+			throw new Error("Looksrare contract did not specified")
+		}
+		const exchange = createLooksrareExchange(ethereum, looksrare)
+		const { nonce } = order.data
+		const [minNonce, isNonceUsed] = await Promise.all([
+			exchange.functionCall("userMinOrderNonce", order.maker).call(),
+			exchange.functionCall("isUserOrderNonceExecutedOrCancelled", order.maker, nonce).call(),
+		])
+		if (isNonceUsed || toBn(nonce).lt(minNonce)) {
+			return [{ type: "CANCELLED" }]
+		}
+
+		const problems: OrderValidationProblem[] = []
+		const digest = Buffer.from(hashOrderToSign(this.config, order).substring(2), "hex")
+		if (!order.signature || !await isSigner(ethereum, order.maker, digest, order.signature)) {
+			problems.push({ type: "INVALID_SIGNATURE" })
+		}
+
+		const { assetType } = order.make
+		switch (assetType.assetClass) {
+			// bid currency is transferred by the exchange
+			case "ERC20": {
+				const tokenProblems = await getTokenProblems(ethereum, order.maker, assetType, order.make.value, looksrare)
+				return [...problems, ...tokenProblems]
+			}
+			case "ERC721":
+			case "ERC1155": {
+				const addresses = getLooksrareAddresses(this.config.chainId)
+				const transferManager = toAddress(assetType.assetClass === "ERC721"
+					? addresses.TRANSFER_MANAGER_ERC721
+					: addresses.TRANSFER_MANAGER_ERC1155)
+				const tokenProblems = await getTokenProblems(
+					ethereum, order.maker, assetType, order.make.value, transferManager,
+				)
+				return [...problems, ...tokenProblems]
+			}
+			default:
+				return problems
+		}
+	}
+
+	private async validateSeaportOrder(
+		ethereum: Ethereum, order: SimpleSeaportV1Order,
+	): Promise<OrderValidationProblem[]> {
+		const parameters = toSeaportOrderComponents(order)
+		const protocol = getSeaportProtocol(this.config.seaport, order.data.protocol)
+		const seaport = createSeaportContract(ethereum, protocol.address)
+		const [status, counter] = await Promise.all([
+			seaport.functionCall("getOrderStatus", getOrderHash(parameters)).call(),
+			seaport.functionCall("getCounter", order.maker).call(),
+		])
+		if (status.isCancelled || !toBn(counter).eq(parameters.counter)) {
+			return [{ type: "CANCELLED" }]
+		}
+		const totalSize = toBn(status.totalSize)
+		if (totalSize.gt(0) && toBn(status.totalFilled).gte(totalSize)) {
+			return [{ type: "FILLED" }]
+		}
+
+		const problems: OrderValidationProblem[] = []
+		// order validated on-chain can be filled without signature
+		if (!status.isValidated) {
+			const digest = hashSeaportOrderToSign(this.config, order)
+			// bulk order signature is verified without index and proof (they are used to compute the digest)
+			const bulkSignature = order.signature && isBulkOrderSupported(protocol)
+				? parseBulkOrderSignature(order.signature)
+				: undefined
+			const signature = bulkSignature?.signature ?? order.signature
+			if (!signature || !await isSigner(ethereum, order.maker, digest, signature)) {
+				problems.push({ type: "INVALID_SIGNATURE" })
+			}
+		}
+
+		const operator = getConduit(this.config.seaport, protocol.address, parameters.conduitKey)
+		const balancesAndApprovals = await getBalancesAndApprovals({
+			ethereum,
+			owner: order.maker,
+			items: parameters.offer,
+			criterias: [],
+			operator,
+		})
+		const { insufficientBalances, insufficientApprovals } = getInsufficientBalanceAndApprovalAmounts({
+			balancesAndApprovals,
+			tokenAndIdentifierAmounts: getSummedTokenAndIdentifierAmounts({
+				items: parameters.offer,
+				criterias: [],
+				timeBasedItemParams: {
+					startTime: parameters.startTime,
+					endTime: parameters.endTime,
+					currentBlockTimestamp: Math.floor(Date.now() / 1000),
+					ascendingAmountTimestampBuffer: 0,
+				},
+			}),
+			operator,
+		})
+		insufficientBalances.forEach(item => problems.push({
+			type: "INSUFFICIENT_BALANCE",
+			contract: toAddress(item.token),
+			tokenId: toBigNumber(item.identifierOrCriteria),
+			required: toBigNumber(item.requiredAmount.toFixed()),
+			balance: toBigNumber(item.amountHave.toFixed()),
+		}))
+		insufficientApprovals.forEach(item => problems.push(notApproved(toAddress(item.token), toAddress(operator))))
+		return problems
+	}
+}
+
+/**
+ * Check maker balance of the token and its approval for the operator, approval isn't checked without operator
+ */
+async function getTokenProblems(
+	ethereum: Ethereum,
+	maker: Address,
+	assetType: Erc20AssetType | Erc721AssetType | Erc1155AssetType,
+	value: BigNumberValue,
+	operator: Address | undefined,
+): Promise<OrderValidationProblem[]> {
+	switch (assetType.assetClass) {
+		case "ERC20": {
+			const erc20 = createErc20Contract(ethereum, assetType.contract)
+			const [balance, allowance] = await Promise.all([
+				erc20.functionCall("balanceOf", maker).call(),
+				operator ? erc20.functionCall("allowance", maker, operator).call() : undefined,
+			])
+			return [
+				...getBalanceProblems(assetType.contract, undefined, value, balance),
+				...(operator && toBn(allowance).lt(value) ? [notApproved(assetType.contract, operator)] : []),
+			]
+		}
+		case "ERC721": {
+			const erc721 = createErc721Contract(ethereum, assetType.contract)
+			const [owner, approved] = await Promise.all([
+				erc721.functionCall("ownerOf", assetType.tokenId).call().catch(() => undefined),
+				operator ? erc721.functionCall("isApprovedForAll", maker, operator).call() : true,
+			])
+			const balance = owner?.toLowerCase() === maker.toLowerCase() ? 1 : 0
+			return [
+				...getBalanceProblems(assetType.contract, assetType.tokenId, value, balance),
+				...(operator && !approved ? [notApproved(assetType.contract, operator)] : []),
+			]
+		}
+		case "ERC1155": {
+			const erc1155 = createErc1155Contract(ethereum, assetType.contract)
+			const [balance, approved] = await Promise.all([
+				erc1155.functionCall("balanceOf", maker, assetType.tokenId).call(),
+				operator ? erc1155.functionCall("isApprovedForAll", maker, operator).call() : true,
+			])
+			return [
+				...getBalanceProblems(assetType.contract, assetType.tokenId, value, balance),
+				...(operator && !approved ? [notApproved(assetType.contract, operator)] : []),
+			]
+		}
+		default:
+			return []
+	}
+}
+
+/**
+ * Punk is sold by the market itself, so only ownership of the punk is checked
+ */
+async function getCryptoPunkMakerProblems(
+	ethereum: Ethereum, order: SimpleCryptoPunkOrder,
+): Promise<OrderValidationProblem[]> {
+	const { assetType } = order.make
+	if (assetType.assetClass !== "CRYPTO_PUNKS") {
+		return []
+	}
+	const market = createCryptoPunksMarketContract(ethereum, assetType.contract)
+	const owner: string = await market.functionCall("punkIndexToAddress", assetType.tokenId).call()
+	const balance = owner.toLowerCase() === order.maker.toLowerCase() ? 1 : 0
+	return getBalanceProblems(assetType.contract, toBigNumber(String(assetType.tokenId)), 1, balance)
+}
+
+function getDatesProblems(order: SimpleOrder): OrderValidationProblem[] {
+	const now = Math.floor(Date.now() / 1000)
+	const problems: OrderValidationProblem[] = []
+	if (order.start !== undefined && order.start > now) {
+		problems.push({ type: "NOT_STARTED", start: order.start })
+	}
+	if (order.end !== undefined && order.end !== 0 && order.end < now) {
+		problems.push({ type: "EXPIRED", end: order.end })
+	}
+	return problems
+}
+
+/**
+ * Exchange stores filled value of make side for make-fill orders and of take side for the others
+ */
+function getRaribleV2RemainingMake(order: SimpleRaribleV2Order, filled: BigNumberValue) {
+	const { data } = order
+	const isMakeFill = data.dataType === "RARIBLE_V2_DATA_V3_SELL" ||
+		(data.dataType === "RARIBLE_V2_DATA_V2" && data.isMakeFill)
+	if (isMakeFill) {
+		return toBn(order.make.value).minus(filled)
+	}
+	const remainingTake = toBn(order.take.value).minus(filled)
+	return remainingTake.multipliedBy(order.make.value).dividedToIntegerBy(order.take.value)
+}
+
+function getBalanceProblems(
+	contract: Address, tokenId: BigNumber | undefined, required: BigNumberValue, balance: BigNumberValue,
+): OrderValidationProblem[] {
+	if (toBn(balance).gte(required)) {
+		return []
+	}
+	return [{
+		type: "INSUFFICIENT_BALANCE",
+		contract,
+		tokenId,
+		required: toBigNumber(toBn(required).toFixed()),
+		balance: toBigNumber(toBn(balance).toFixed()),
+	}]
+}
+
+function notApproved(contract: Address, operator: Address): OrderValidationProblem {
+	return { type: "NOT_APPROVED", contract, operator }
+}
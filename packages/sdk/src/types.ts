@@ -1,5 +1,9 @@
-import type { Binary, ConfigurationParameters } from "@rarible/ethereum-api-client"
+import type { Address, Binary, ConfigurationParameters } from "@rarible/ethereum-api-client"
 import type { Word } from "@rarible/types"
+import type { MulticallOptions } from "@rarible/ethereum-provider"
+import type { GasFeePolicy } from "./common/fee-suggestion"
+import type { NonceManager } from "./common/nonce-manager"
+import type { SendMiddlewaresConfig } from "./common/send-middleware"
 
 export type EthereumNetwork =
   | "mainnet"
@@ -28,8 +32,32 @@ export interface IRaribleEthereumSdkConfig {
 	ethereum?: EthereumNetworkConfig
 	polygon?: EthereumNetworkConfig
 	fillCalldata?: Binary
+	/**
+	 * EIP-1559 fees of sdk transactions: "slow", "normal", "fast" preset or custom callback.
+	 * Fees are left to the wallet if policy is not set
+	 */
+	gasFeePolicy?: GasFeePolicy
+	/**
+	 * Batch concurrent contract reads into Multicall3 aggregate3 requests, see MulticallEthereum.
+	 * Only reads which don't depend on msg.sender are batched (MulticallOptions.methods). Disabled by default
+	 */
+	multicall?: boolean | MulticallOptions
+	/**
+	 * Assign nonces of sdk transactions locally, so parallel actions of one account don't clash.
+	 * Keep the instance to inspect its queue state with getQueueState
+	 */
+	nonceManager?: NonceManager
+	/**
+	 * Custom steps of sending sdk transactions (simulation, analytics etc.), see SendMiddleware
+	 */
+	sendMiddlewares?: SendMiddlewaresConfig
 }
 
 export interface EthereumNetworkConfig {
 	openseaOrdersMetadata?: Word
+	/**
+	 * Exchange wrapper with ERC-20 currencies support, batch purchase of ERC-20 orders is enabled only if it's set
+	 * (see ExchangeAddresses.wrapperErc20)
+	 */
+	exchangeWrapperErc20?: Address
 }
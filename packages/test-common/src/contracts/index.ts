@@ -2,6 +2,9 @@ export * from "./opensea/test-exchange-opensea-v1"
 export * from "./opensea/test-proxy-registry"
 export * from "./opensea/test-token-transfer-proxy"
 export * from "./opensea/test-merkle-validator"
+export * from "./opensea/test-conduit-controller"
+export * from "./opensea/test-seaport-v1-5"
+export * from "./looksrare/test-looksrare"
 export * from "./test-chain-id"
 export * from "./test-auction"
 export * from "./test-erc721-for-auction"
@@ -19,3 +22,5 @@ export * from "./test-royalties-provider"
 export * from "./test-transfer-proxy"
 export * from "./test-weth"
 export * from "./test-exchange-wrapper"
+export * from "./test-multicall3"
+export * from "./test-sender"
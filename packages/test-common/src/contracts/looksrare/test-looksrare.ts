@@ -0,0 +1,2426 @@
+import type Web3 from "web3"
+import type { Address } from "@rarible/ethereum-api-client"
+import type { Contract } from "web3-eth-contract"
+import type { AbiItem } from "../../common/abi-item"
+
+export const currencyManagerBytecode =
+	"0x608060405234801561001057600080fd5b5061001a3361001f565b61006f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b610b378061007e6000396000f3fe608060405234801561001057600080fd5b50600436106100885760003560e01c80638ab234b61161005b5780638ab234b6146100f65780638da5cb5b14610109578063c5d3a10714610131578063f2fde38b1461014457600080fd5b80631facfd9c1461008d57806343b938c5146100a8578063715018a6146100cb57806385f39b0a146100d5575b600080fd5b610095610157565b6040519081526020015b60405180910390f35b6100bb6100b6366004610931565b610168565b604051901515815260200161009f565b6100d361017b565b005b6100e86100e3366004610967565b61020d565b60405161009f929190610989565b6100d3610104366004610931565b61030f565b60005460405173ffffffffffffffffffffffffffffffffffffffff909116815260200161009f565b6100d361013f366004610931565b610452565b6100d3610152366004610931565b610594565b600061016360016106c4565b905090565b60006101756001836106ce565b92915050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610201576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b61020b6000610700565b565b60606000828461021d60016106c4565b6102279190610a16565b811115610246578461023960016106c4565b6102439190610a16565b90505b60008167ffffffffffffffff81111561026157610261610a29565b60405190808252806020026020018201604052801561028a578160200160208202803683370190505b50905060005b828110156102f6576102ad6102a58289610a58565b600190610775565b8282815181106102bf576102bf610a6b565b73ffffffffffffffffffffffffffffffffffffffff90921660209283029190910190910152806102ee81610a9a565b915050610290565b50806103028388610a58565b9350935050509250929050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610390576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101f8565b61039b6001826106ce565b15610402576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f43757272656e63793a20416c72656164792077686974656c697374656400000060448201526064016101f8565b61040d600182610781565b5060405173ffffffffffffffffffffffffffffffffffffffff8216907f3cbf62b327efb2d06d36e16c10a2f5c00cf0568e2b805bd56969b15d2736107890600090a250565b60005473ffffffffffffffffffffffffffffffffffffffff1633146104d3576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101f8565b6104de6001826106ce565b610544576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f43757272656e63793a204e6f742077686974656c69737465640000000000000060448201526064016101f8565b61054f6001826107a3565b5060405173ffffffffffffffffffffffffffffffffffffffff8216907fa40d69111be14f29022626d38310e47cc2d7f4cb728961509c2f65a4bee08c5b90600090a250565b60005473ffffffffffffffffffffffffffffffffffffffff163314610615576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101f8565b73ffffffffffffffffffffffffffffffffffffffff81166106b8576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f646472657373000000000000000000000000000000000000000000000000000060648201526084016101f8565b6106c181610700565b50565b6000610175825490565b73ffffffffffffffffffffffffffffffffffffffff8116600090815260018301602052604081205415155b9392505050565b6000805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60006106f983836107c5565b60006106f98373ffffffffffffffffffffffffffffffffffffffff84166107ef565b60006106f98373ffffffffffffffffffffffffffffffffffffffff841661083e565b60008260000182815481106107dc576107dc610a6b565b9060005260206000200154905092915050565b600081815260018301602052604081205461083657508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610175565b506000610175565b60008181526001830160205260408120548015610927576000610862600183610a16565b855490915060009061087690600190610a16565b90508181146108db57600086600001828154811061089657610896610a6b565b90600052602060002001549050808760000184815481106108b9576108b9610a6b565b6000918252602080832090910192909255918252600188019052604090208390555b85548690806108ec576108ec610ad2565b600190038181906000526020600020016000905590558560010160008681526020019081526020016000206000905560019350505050610175565b6000915050610175565b60006020828403121561094357600080fd5b813573ffffffffffffffffffffffffffffffffffffffff811681146106f957600080fd5b6000806040838503121561097a57600080fd5b50508035926020909101359150565b604080825283519082018190526000906020906060840190828701845b828110156109d857815173ffffffffffffffffffffffffffffffffffffffff16845292840192908401906001016109a6565b50505092019290925292915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b81810381811115610175576101756109e7565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b80820180821115610175576101756109e7565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203610acb57610acb6109e7565b5060010190565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603160045260246000fdfea264697066735822122091ea13bb31966e92918302d65ba818961d69f33d06bead598798ab60b6a4f23e64736f6c63430008110033"
+
+const currencyManagerAbi: AbiItem[] = [
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+		],
+		name: "CurrencyRemoved",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+		],
+		name: "CurrencyWhitelisted",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+		],
+		name: "addCurrency",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+		],
+		name: "isCurrencyWhitelisted",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+		],
+		name: "removeCurrency",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "viewCountWhitelistedCurrencies",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "cursor",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "size",
+				type: "uint256",
+			},
+		],
+		name: "viewWhitelistedCurrencies",
+		outputs: [
+			{
+				internalType: "address[]",
+				name: "",
+				type: "address[]",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+export const executionManagerBytecode =
+	"0x608060405234801561001057600080fd5b5061001a3361001f565b61006f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b610b3b8061007e6000396000f3fe608060405234801561001057600080fd5b50600436106100885760003560e01c80638da5cb5b1161005b5780638da5cb5b146100e7578063985e3a2f1461010f578063999ba27c14610125578063f2fde38b1461014857600080fd5b8063175188e81461008d578063223e5479146100a257806331fb5b1f146100b5578063715018a6146100df575b600080fd5b6100a061009b366004610935565b61015b565b005b6100a06100b0366004610935565b6102a2565b6100c86100c336600461096b565b6103e5565b6040516100d692919061098d565b60405180910390f35b6100a06104e7565b60005460405173ffffffffffffffffffffffffffffffffffffffff90911681526020016100d6565b610117610574565b6040519081526020016100d6565b610138610133366004610935565b610585565b60405190151581526020016100d6565b6100a0610156366004610935565b610598565b60005473ffffffffffffffffffffffffffffffffffffffff1633146101e1576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b6101ec6001826106c8565b610252576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f53747261746567793a204e6f742077686974656c69737465640000000000000060448201526064016101d8565b61025d6001826106fa565b5060405173ffffffffffffffffffffffffffffffffffffffff8216907f09a1db4b80c32706328728508c941a6b954f31eb5affd32f236c1fd405f8fea490600090a250565b60005473ffffffffffffffffffffffffffffffffffffffff163314610323576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101d8565b61032e6001826106c8565b15610395576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f53747261746567793a20416c72656164792077686974656c697374656400000060448201526064016101d8565b6103a060018261071c565b5060405173ffffffffffffffffffffffffffffffffffffffff8216907f6b583e2e3ad2e182671d77905fee57b1ffd8ce2aa5c0b652ca029317919751a490600090a250565b6060600082846103f5600161073e565b6103ff9190610a1a565b81111561041e5784610411600161073e565b61041b9190610a1a565b90505b60008167ffffffffffffffff81111561043957610439610a2d565b604051908082528060200260200182016040528015610462578160200160208202803683370190505b50905060005b828110156104ce5761048561047d8289610a5c565b600190610748565b82828151811061049757610497610a6f565b73ffffffffffffffffffffffffffffffffffffffff90921660209283029190910190910152806104c681610a9e565b915050610468565b50806104da8388610a5c565b9350935050509250929050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610568576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101d8565b6105726000610754565b565b6000610580600161073e565b905090565b60006105926001836106c8565b92915050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610619576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016101d8565b73ffffffffffffffffffffffffffffffffffffffff81166106bc576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f646472657373000000000000000000000000000000000000000000000000000060648201526084016101d8565b6106c581610754565b50565b73ffffffffffffffffffffffffffffffffffffffff8116600090815260018301602052604081205415155b9392505050565b60006106f38373ffffffffffffffffffffffffffffffffffffffff84166107c9565b60006106f38373ffffffffffffffffffffffffffffffffffffffff84166108bc565b6000610592825490565b60006106f3838361090b565b6000805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600081815260018301602052604081205480156108b25760006107ed600183610a1a565b855490915060009061080190600190610a1a565b905081811461086657600086600001828154811061082157610821610a6f565b906000526020600020015490508087600001848154811061084457610844610a6f565b6000918252602080832090910192909255918252600188019052604090208390555b855486908061087757610877610ad6565b600190038181906000526020600020016000905590558560010160008681526020019081526020016000206000905560019350505050610592565b6000915050610592565b600081815260018301602052604081205461090357508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610592565b506000610592565b600082600001828154811061092257610922610a6f565b9060005260206000200154905092915050565b60006020828403121561094757600080fd5b813573ffffffffffffffffffffffffffffffffffffffff811681146106f357600080fd5b6000806040838503121561097e57600080fd5b50508035926020909101359150565b604080825283519082018190526000906020906060840190828701845b828110156109dc57815173ffffffffffffffffffffffffffffffffffffffff16845292840192908401906001016109aa565b50505092019290925292915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b81810381811115610592576105926109eb565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b80820180821115610592576105926109eb565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203610acf57610acf6109eb565b5060010190565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603160045260246000fdfea26469706673582212202d591524dbf2adede86e488c431be62975c0b5043e4c14a26f2e3e52fe505a8064736f6c63430008110033"
+
+const executionManagerAbi: AbiItem[] = [
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+		],
+		name: "StrategyRemoved",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+		],
+		name: "StrategyWhitelisted",
+		type: "event",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+		],
+		name: "addStrategy",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+		],
+		name: "isStrategyWhitelisted",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+		],
+		name: "removeStrategy",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "viewCountWhitelistedStrategies",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "cursor",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "size",
+				type: "uint256",
+			},
+		],
+		name: "viewWhitelistedStrategies",
+		outputs: [
+			{
+				internalType: "address[]",
+				name: "",
+				type: "address[]",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+export const strategyStandardSaleBytecode =
+	"0x60a060405234801561001057600080fd5b5060405161025538038061025583398101604081905261002f91610037565b608052610050565b60006020828403121561004957600080fd5b5051919050565b6080516101e5610070600039600081816056015260bd01526101e56000f3fe608060405234801561001057600080fd5b506004361061004c5760003560e01c80630b4501fd14610051578063865781ca1461008b5780639dd1cda6146100bb578063ad2390ac1461008b575b600080fd5b6100787f000000000000000000000000000000000000000000000000000000000000000081565b6040519081526020015b60405180910390f35b61009e61009936600461013b565b6100e1565b604080519315158452602084019290925290820152606001610082565b7f0000000000000000000000000000000000000000000000000000000000000000610078565b600080600084604001358460600135148015610104575084606001358460800135145b801561011557504284610120013511155b801561012657504284610140013510155b92505050608082013560a08301359250925092565b6000806040838503121561014e57600080fd5b823567ffffffffffffffff8082111561016657600080fd5b9084019060c0828703121561017a57600080fd5b9092506020840135908082111561019057600080fd5b50830161020081860312156101a457600080fd5b80915050925092905056fea2646970667358221220b947c7bb87cff531fd99ecc32c99e719473dfdc1e0725cb4a600aa457a3c6a9c64736f6c63430008110033"
+
+const strategyStandardSaleAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "_protocolFee",
+				type: "uint256",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		inputs: [],
+		name: "PROTOCOL_FEE",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "taker",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+				],
+				internalType: "struct OrderTypes.TakerOrder",
+				name: "takerAsk",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "signer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "collection",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address",
+						name: "strategy",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "currency",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "nonce",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+					{
+						internalType: "uint8",
+						name: "v",
+						type: "uint8",
+					},
+					{
+						internalType: "bytes32",
+						name: "r",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "s",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct OrderTypes.MakerOrder",
+				name: "makerBid",
+				type: "tuple",
+			},
+		],
+		name: "canExecuteTakerAsk",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "taker",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+				],
+				internalType: "struct OrderTypes.TakerOrder",
+				name: "takerBid",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "signer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "collection",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address",
+						name: "strategy",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "currency",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "nonce",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+					{
+						internalType: "uint8",
+						name: "v",
+						type: "uint8",
+					},
+					{
+						internalType: "bytes32",
+						name: "r",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "s",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct OrderTypes.MakerOrder",
+				name: "makerAsk",
+				type: "tuple",
+			},
+		],
+		name: "canExecuteTakerBid",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "viewProtocolFee",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+export const royaltyFeeRegistryBytecode =
+	"0x608060405234801561001057600080fd5b50604051610a0d380380610a0d83398101604081905261002f916100f0565b610038336100a0565b61251c8111156100985760405162461bcd60e51b815260206004820152602160248201527f4f776e65723a20526f79616c747920666565206c696d697420746f6f206869676044820152600d60fb1b606482015260840160405180910390fd5b600155610109565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60006020828403121561010257600080fd5b5051919050565b6108f5806101186000396000f3fe608060405234801561001057600080fd5b50600436106100885760003560e01c8063b9223c9d1161005b578063b9223c9d1461011a578063bbdf9b681461012d578063e31ef91c14610140578063f2fde38b146101bf57600080fd5b80632782d6c71461008d5780634fb7d3f9146100d1578063715018a6146100e85780638da5cb5b146100f2575b600080fd5b6100a061009b366004610790565b6101d2565b6040805173ffffffffffffffffffffffffffffffffffffffff90931683526020830191909152015b60405180910390f35b6100da60015481565b6040519081526020016100c8565b6100f061022c565b005b60005460405173ffffffffffffffffffffffffffffffffffffffff90911681526020016100c8565b6100f06101283660046107ba565b6102be565b6100f061013b3660046107d3565b61040c565b61018c61014e36600461081e565b73ffffffffffffffffffffffffffffffffffffffff908116600090815260026020819052604090912080546001820154919092015491831693921691565b6040805173ffffffffffffffffffffffffffffffffffffffff9485168152939092166020840152908201526060016100c8565b6100f06101cd36600461081e565b6105c2565b73ffffffffffffffffffffffffffffffffffffffff80831660009081526002602081905260408220600181015491015491928392911690612710906102179086610840565b6102219190610884565b915091509250929050565b60005473ffffffffffffffffffffffffffffffffffffffff1633146102b2576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b6102bc60006106f2565b565b60005473ffffffffffffffffffffffffffffffffffffffff16331461033f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102a9565b61251c8111156103d1576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602160248201527f4f776e65723a20526f79616c747920666565206c696d697420746f6f2068696760448201527f680000000000000000000000000000000000000000000000000000000000000060648201526084016102a9565b60018190556040518181527f2da7166c72ef3860ef4fb2571105533c40615269a6dbc38ce0b264910df1c2569060200160405180910390a150565b60005473ffffffffffffffffffffffffffffffffffffffff16331461048d576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102a9565b6001548111156104f9576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601e60248201527f52656769737472793a20526f79616c74792066656520746f6f2068696768000060448201526064016102a9565b6040805160608101825273ffffffffffffffffffffffffffffffffffffffff85811680835285821660208085018281528587018881528b861660008181526002808652908a9020985189549089167fffffffffffffffffffffffff0000000000000000000000000000000000000000918216178a55935160018a0180549190991694169390931790965551950194909455935185815290927fd01984afa6e37420452e575e7d99dd7e632b3ec8ea2adec998475b76ca494d64910160405180910390a450505050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610643576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102a9565b73ffffffffffffffffffffffffffffffffffffffff81166106e6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f646472657373000000000000000000000000000000000000000000000000000060648201526084016102a9565b6106ef816106f2565b50565b6000805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b803573ffffffffffffffffffffffffffffffffffffffff8116811461078b57600080fd5b919050565b600080604083850312156107a357600080fd5b6107ac83610767565b946020939093013593505050565b6000602082840312156107cc57600080fd5b5035919050565b600080600080608085870312156107e957600080fd5b6107f285610767565b935061080060208601610767565b925061080e60408601610767565b9396929550929360600135925050565b60006020828403121561083057600080fd5b61083982610767565b9392505050565b808202811582820484141761087e577f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b92915050565b6000826108ba577f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b50049056fea26469706673582212207b15b876cf534c2722d3f9c7298182659cd87e50ff024c32afd3d0bda2e15c8664736f6c63430008110033"
+
+const royaltyFeeRegistryAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "_royaltyFeeLimit",
+				type: "uint256",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "royaltyFeeLimit",
+				type: "uint256",
+			},
+		],
+		name: "NewRoyaltyFeeLimit",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "setter",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "receiver",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "fee",
+				type: "uint256",
+			},
+		],
+		name: "RoyaltyFeeUpdate",
+		type: "event",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+		],
+		name: "royaltyFeeInfoCollection",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "royaltyFeeLimit",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+		],
+		name: "royaltyInfo",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "_royaltyFeeLimit",
+				type: "uint256",
+			},
+		],
+		name: "updateRoyaltyFeeLimit",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "setter",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "receiver",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "fee",
+				type: "uint256",
+			},
+		],
+		name: "updateRoyaltyInfoForCollection",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export const royaltyFeeManagerBytecode =
+	"0x60a060405234801561001057600080fd5b506040516107fd3803806107fd83398101604081905261002f91610099565b61003833610049565b6001600160a01b03166080526100c9565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000602082840312156100ab57600080fd5b81516001600160a01b03811681146100c257600080fd5b9392505050565b6080516107126100eb6000396000818161012201526103ad01526107126000f3fe608060405234801561001057600080fd5b50600436106100725760003560e01c8063c16f515611610050578063c16f51561461011d578063f2fde38b14610144578063f4f635fa1461015757600080fd5b8063715018a6146100775780638da5cb5b14610081578063b060dd86146100c5575b600080fd5b61007f610196565b005b60005473ffffffffffffffffffffffffffffffffffffffff165b60405173ffffffffffffffffffffffffffffffffffffffff90911681526020015b60405180910390f35b6100ec7f2a55205a0000000000000000000000000000000000000000000000000000000081565b6040517fffffffff0000000000000000000000000000000000000000000000000000000090911681526020016100bc565b61009b7f000000000000000000000000000000000000000000000000000000000000000081565b61007f610152366004610633565b610228565b61016a610165366004610657565b610358565b6040805173ffffffffffffffffffffffffffffffffffffffff90931683526020830191909152016100bc565b60005473ffffffffffffffffffffffffffffffffffffffff16331461021c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b610226600061059c565b565b60005473ffffffffffffffffffffffffffffffffffffffff1633146102a9576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610213565b73ffffffffffffffffffffffffffffffffffffffff811661034c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f64647265737300000000000000000000000000000000000000000000000000006064820152608401610213565b6103558161059c565b50565b6040517f2782d6c700000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff8481166004830152602482018390526000918291829182917f00000000000000000000000000000000000000000000000000000000000000001690632782d6c7906044016040805180830381865afa1580156103f3573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610417919061068c565b909250905073ffffffffffffffffffffffffffffffffffffffff8216158061043d575080155b15610590576040517f01ffc9a70000000000000000000000000000000000000000000000000000000081527f2a55205a00000000000000000000000000000000000000000000000000000000600482015273ffffffffffffffffffffffffffffffffffffffff8816906301ffc9a790602401602060405180830381865afa1580156104cc573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906104f091906106ba565b15610590576040517f2a55205a000000000000000000000000000000000000000000000000000000008152600481018790526024810186905273ffffffffffffffffffffffffffffffffffffffff881690632a55205a906044016040805180830381865afa158015610566573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061058a919061068c565b90925090505b90969095509350505050565b6000805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b73ffffffffffffffffffffffffffffffffffffffff8116811461035557600080fd5b60006020828403121561064557600080fd5b813561065081610611565b9392505050565b60008060006060848603121561066c57600080fd5b833561067781610611565b95602085013595506040909401359392505050565b6000806040838503121561069f57600080fd5b82516106aa81610611565b6020939093015192949293505050565b6000602082840312156106cc57600080fd5b8151801515811461065057600080fdfea2646970667358221220ab176224071f4fc58d3c1601ff02da8d72a7bde7ca6fd504071032deac33f5e964736f6c63430008110033"
+
+const royaltyFeeManagerAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_royaltyFeeRegistry",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		inputs: [],
+		name: "INTERFACE_ID_ERC2981",
+		outputs: [
+			{
+				internalType: "bytes4",
+				name: "",
+				type: "bytes4",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+		],
+		name: "calculateRoyaltyFeeAndGetRecipient",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "royaltyFeeRegistry",
+		outputs: [
+			{
+				internalType: "contract IRoyaltyFeeRegistry",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export const looksrareExchangeBytecode =
+	"0x60c06040523480156200001157600080fd5b5060405162004357380380620043578339810160408190526200003491620001ae565b600160005562000044336200013f565b604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527fda9101ba92939daf4bb2e18cd5f942363b9297fbc3232c9dd964abb1fb70ed71918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a082015260c00160408051601f19818403018152919052805160209091012060a052600380546001600160a01b039687166001600160a01b031991821617909155600480549587169582169590951790945560058054938616938516939093179092558316608052600280549190931691161790556200021e565b600180546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b80516001600160a01b0381168114620001a957600080fd5b919050565b600080600080600060a08688031215620001c757600080fd5b620001d28662000191565b9450620001e26020870162000191565b9350620001f26040870162000191565b9250620002026060870162000191565b9150620002126080870162000191565b90509295509295909350565b60805160a0516140db6200027c6000396000818161023501526122be01526000818161041801528181611448015281816115d00152818161166c01528181612bcd01528181612cf101528181612d760152612e6901526140db6000f3fe6080604052600436106101755760003560e01c8063715018a6116100cb578063b4e4b2961161007f578063d4ff41dc11610059578063d4ff41dc1461048d578063f2fde38b146104ad578063f75ff53f146104cd57600080fd5b8063b4e4b2961461043a578063c54987691461044d578063cbd2ec651461046d57600080fd5b80638da5cb5b116100b05780638da5cb5b146103bb5780639e53a69a146103e6578063ad5c46481461040657600080fd5b8063715018a61461037957806387e4401f1461038e57600080fd5b80633b6d032e1161012d5780635ce052d7116101075780635ce052d7146102ff5780635e14f68e1461031f57806364df049e1461034c57600080fd5b80633b6d032e146102855780634266581e146102a5578063483abb9f146102d257600080fd5b806331e27e271161015e57806331e27e27146101f35780633644e5151461022357806338e292091461026557600080fd5b80630f747d741461017a5780631df47f80146101d1575b600080fd5b34801561018657600080fd5b506003546101a79073ffffffffffffffffffffffffffffffffffffffff1681565b60405173ffffffffffffffffffffffffffffffffffffffff90911681526020015b60405180910390f35b3480156101dd57600080fd5b506101f16101ec36600461367b565b6104ed565b005b3480156101ff57600080fd5b5061021361020e366004613698565b6105e2565b60405190151581526020016101c8565b34801561022f57600080fd5b506102577f000000000000000000000000000000000000000000000000000000000000000081565b6040519081526020016101c8565b34801561027157600080fd5b506101f16102803660046136c4565b61061d565b34801561029157600080fd5b506101f16102a03660046136c4565b610af9565b3480156102b157600080fd5b506102576102c036600461367b565b60076020526000908152604090205481565b3480156102de57600080fd5b506004546101a79073ffffffffffffffffffffffffffffffffffffffff1681565b34801561030b57600080fd5b506101f161031a36600461367b565b610f5c565b34801561032b57600080fd5b506006546101a79073ffffffffffffffffffffffffffffffffffffffff1681565b34801561035857600080fd5b506002546101a79073ffffffffffffffffffffffffffffffffffffffff1681565b34801561038557600080fd5b506101f16110c9565b34801561039a57600080fd5b506005546101a79073ffffffffffffffffffffffffffffffffffffffff1681565b3480156103c757600080fd5b5060015473ffffffffffffffffffffffffffffffffffffffff166101a7565b3480156103f257600080fd5b506101f1610401366004613738565b611156565b34801561041257600080fd5b506101a77f000000000000000000000000000000000000000000000000000000000000000081565b6101f16104483660046136c4565b611337565b34801561045957600080fd5b506101f161046836600461367b565b6118c1565b34801561047957600080fd5b506101f16104883660046137ad565b611a2e565b34801561049957600080fd5b506101f16104a836600461367b565b611bc6565b3480156104b957600080fd5b506101f16104c836600461367b565b611d33565b3480156104d957600080fd5b506101f16104e836600461367b565b611e63565b60015473ffffffffffffffffffffffffffffffffffffffff163314610573576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b600280547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff83169081179091556040517f8cffb07faa2874440346743bdc0a86b06c3335cc47dc49b327d10e77b73ceb1090600090a250565b73ffffffffffffffffffffffffffffffffffffffff8216600090815260086020908152604080832084845290915290205460ff165b92915050565b600260005403610689576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c00604482015260640161056a565b600260005561069b60208201826137df565b80156106b157506106af60208301836137df565b155b610717576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f4f726465723a2057726f6e672073696465730000000000000000000000000000604482015260640161056a565b610727604083016020840161367b565b73ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146107bb576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f4f726465723a2054616b6572206d757374206265207468652073656e64657200604482015260640161056a565b60006107ce6107c983613911565b611fd0565b90506107da8282612077565b600080806107ee60e0860160c0870161367b565b73ffffffffffffffffffffffffffffffffffffffff1663865781ca87876040518363ffffffff1660e01b8152600401610828929190613ad6565b606060405180830381865afa158015610845573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906108699190613cc0565b925092509250826108d6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f53747261746567793a20457865637574696f6e20696e76616c69640000000000604482015260640161056a565b6001600860006108ec6040890160208a0161367b565b73ffffffffffffffffffffffffffffffffffffffff168152602080820192909252604090810160009081206101008a01358252909252902080547fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff00169115159190911790556109a761096460e0870160c0880161367b565b610974606088016040890161367b565b846109866101008a0160e08b0161367b565b3361099760408c0160208d0161367b565b8c604001358c610160013561258f565b6109e16109ba606087016040880161367b565b6109ca604088016020890161367b565b6109da60408a0160208b0161367b565b858561283a565b6109f160e0860160c0870161367b565b73ffffffffffffffffffffffffffffffffffffffff16610a17604087016020880161367b565b73ffffffffffffffffffffffffffffffffffffffff16610a3d6040890160208a0161367b565b73ffffffffffffffffffffffffffffffffffffffff167f95fb6205e23ff6bda16a2d1dba56b9ad7c783f67c96fa149785052f47696f2be876101008a01803590610a8a9060e08d0161367b565b610a9a60608d0160408e0161367b565b60408051948552602085019390935273ffffffffffffffffffffffffffffffffffffffff918216848401521660608301526080820188905260a082018790528b013560c082015260e00160405180910390a45050600160005550505050565b600260005403610b65576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c00604482015260640161056a565b6002600055610b7760208201826137df565b158015610b8c5750610b8c60208301836137df565b610bf2576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f4f726465723a2057726f6e672073696465730000000000000000000000000000604482015260640161056a565b610c02604083016020840161367b565b73ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610c96576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f4f726465723a2054616b6572206d757374206265207468652073656e64657200604482015260640161056a565b6000610ca46107c983613911565b9050610cb08282612077565b60008080610cc460e0860160c0870161367b565b73ffffffffffffffffffffffffffffffffffffffff1663ad2390ac87876040518363ffffffff1660e01b8152600401610cfe929190613ad6565b606060405180830381865afa158015610d1b573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610d3f9190613cc0565b92509250925082610dac576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f53747261746567793a20457865637574696f6e20696e76616c69640000000000604482015260640161056a565b600160086000610dc26040890160208a0161367b565b73ffffffffffffffffffffffffffffffffffffffff168152602080820192909252604090810160009081206101008a013582529092529081902080547fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff001692151592909217909155610e4f90610e3e906060880190880161367b565b336109da6040890160208a0161367b565b610eb3610e6260e0870160c0880161367b565b610e72606088016040890161367b565b84610e846101008a0160e08b0161367b565b610e9460408b0160208c0161367b565b610ea460408d0160208e0161367b565b8c604001358d6080013561258f565b610ec360e0860160c0870161367b565b73ffffffffffffffffffffffffffffffffffffffff16610ee9604087016020880161367b565b73ffffffffffffffffffffffffffffffffffffffff16610f0f6040890160208a0161367b565b73ffffffffffffffffffffffffffffffffffffffff167f68cd251d4d267c6e2034ff0088b990352b97b2002c0476587d0c4da889c11330876101008a01803590610a8a9060e08d0161367b565b60015473ffffffffffffffffffffffffffffffffffffffff163314610fdd576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff811661105a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4f776e65723a2043616e6e6f74206265206e756c6c2061646472657373000000604482015260640161056a565b600380547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff83169081179091556040517fb4f5db40df3aced29e88a4babbc3b46e305e07d34098525d18b1497056e6383890600090a250565b60015473ffffffffffffffffffffffffffffffffffffffff16331461114a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b6111546000612a1b565b565b806111bd576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601760248201527f43616e63656c3a2043616e6e6f7420626520656d707479000000000000000000604482015260640161056a565b60005b818110156112e257336000908152600760205260409020548383838181106111ea576111ea613cf7565b90506020020135101561127f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f43616e63656c3a204f72646572206e6f6e6365206c6f776572207468616e206360448201527f757272656e740000000000000000000000000000000000000000000000000000606482015260840161056a565b3360009081526008602052604081206001918585858181106112a3576112a3613cf7565b90506020020135815260200190815260200160002060006101000a81548160ff02191690831515021790555080806112da90613d55565b9150506111c0565b503373ffffffffffffffffffffffffffffffffffffffff167ffa0ae5d80fe3763c880a3839fab0294171a6f730d1f82c4cd5392c6f67b41732838360405161132b929190613d8d565b60405180910390a25050565b6002600054036113a3576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c00604482015260640161056a565b60026000556113b560208201826137df565b80156113cb57506113c960208301836137df565b155b611431576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f4f726465723a2057726f6e672073696465730000000000000000000000000000604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff7f000000000000000000000000000000000000000000000000000000000000000016611479610100830160e0840161367b565b73ffffffffffffffffffffffffffffffffffffffff16146114f6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601c60248201527f4f726465723a2043757272656e6379206d757374206265205745544800000000604482015260640161056a565b611506604083016020840161367b565b73ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff161461159a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f4f726465723a2054616b6572206d757374206265207468652073656e64657200604482015260640161056a565b34826040013511156115fd576115f833306115b9346040870135613ddf565b73ffffffffffffffffffffffffffffffffffffffff7f000000000000000000000000000000000000000000000000000000000000000016929190612a92565b61166a565b3482604001351461166a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f4f726465723a204d73672e76616c756520746f6f206869676800000000000000604482015260640161056a565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1663d0e30db0346040518263ffffffff1660e01b81526004016000604051808303818588803b1580156116d257600080fd5b505af11580156116e6573d6000803e3d6000fd5b505050505060006116fa826107c990613911565b90506117068282612077565b6000808061171a60e0860160c0870161367b565b73ffffffffffffffffffffffffffffffffffffffff1663865781ca87876040518363ffffffff1660e01b8152600401611754929190613ad6565b606060405180830381865afa158015611771573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906117959190613cc0565b92509250925082611802576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f53747261746567793a20457865637574696f6e20696e76616c69640000000000604482015260640161056a565b6001600860006118186040890160208a0161367b565b73ffffffffffffffffffffffffffffffffffffffff168152602080820192909252604090810160009081206101008a01358252909252902080547fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff00169115159190911790556109a761189060e0870160c0880161367b565b6118a0606088016040890161367b565b846118b160408a0160208b0161367b565b8a604001358a6101600135612b74565b60015473ffffffffffffffffffffffffffffffffffffffff163314611942576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff81166119bf576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4f776e65723a2043616e6e6f74206265206e756c6c2061646472657373000000604482015260640161056a565b600580547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff83169081179091556040517f80e3874461ebbd918ac3e81da0a92e5e51387d70f337237c9123e48d20e5a50890600090a250565b336000908152600760205260409020548111611acc576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f43616e63656c3a204f72646572206e6f6e6365206c6f776572207468616e206360448201527f757272656e740000000000000000000000000000000000000000000000000000606482015260840161056a565b33600090815260076020526040902054611ae9906207a120613df2565b8110611b77576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602160248201527f43616e63656c3a2043616e6e6f742063616e63656c206d6f7265206f7264657260448201527f7300000000000000000000000000000000000000000000000000000000000000606482015260840161056a565b3360008181526007602052604090819020839055517f1e7178d84f0b0825c65795cd62e7972809ad3aac6917843aaec596161b2c0a9790611bbb9084815260200190565b60405180910390a250565b60015473ffffffffffffffffffffffffffffffffffffffff163314611c47576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff8116611cc4576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4f776e65723a2043616e6e6f74206265206e756c6c2061646472657373000000604482015260640161056a565b600480547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff83169081179091556040517f36e2a376eabc3bc60cb88f29c288f53e36874a95a7f407330ab4f166b090569890600090a250565b60015473ffffffffffffffffffffffffffffffffffffffff163314611db4576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff8116611e57576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f6464726573730000000000000000000000000000000000000000000000000000606482015260840161056a565b611e6081612a1b565b50565b60015473ffffffffffffffffffffffffffffffffffffffff163314611ee4576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640161056a565b73ffffffffffffffffffffffffffffffffffffffff8116611f61576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4f776e65723a2043616e6e6f74206265206e756c6c2061646472657373000000604482015260640161056a565b600680547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff83169081179091556040517f205d78ab41afe80bd6b6aaa5d7599d5300ff8690da3ab1302c1b552f7baf7d8c90600090a250565b80516020808301516040808501516060860151608087015160a088015160c089015160e08a01516101008b01516101208c01516101408d01516101608e01516101808f01518051908e01209a5160009e61205a9e7f40261ade532fa1d2c7293df30aaadb9b3c616fae525a0b56d3d411c841a850289e919d919c9b9a999897969594939201613e05565b604051602081830303815290604052805190602001209050919050565b6008600061208b604085016020860161367b565b73ffffffffffffffffffffffffffffffffffffffff16815260208082019290925260409081016000908120610100860135825290925290205460ff161580156121275750600760006120e3604085016020860161367b565b73ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000205482610100013510155b61218d576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4f726465723a204d61746368696e67206f726465722065787069726564000000604482015260640161056a565b600061219f604084016020850161367b565b73ffffffffffffffffffffffffffffffffffffffff160361221c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601560248201527f4f726465723a20496e76616c6964207369676e65720000000000000000000000604482015260640161056a565b60008260a001351161228a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f4f726465723a20416d6f756e742063616e6e6f74206265203000000000000000604482015260640161056a565b6122e28161229e604085016020860161367b565b6122b06101c086016101a08701613ebf565b856101c00135866101e001357f0000000000000000000000000000000000000000000000000000000000000000612e99565b612348576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f5369676e61747572653a20496e76616c69640000000000000000000000000000604482015260640161056a565b60035473ffffffffffffffffffffffffffffffffffffffff166343b938c5612377610100850160e0860161367b565b6040517fffffffff0000000000000000000000000000000000000000000000000000000060e084901b16815273ffffffffffffffffffffffffffffffffffffffff9091166004820152602401602060405180830381865afa1580156123e0573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906124049190613eda565b61246a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f43757272656e63793a204e6f742077686974656c697374656400000000000000604482015260640161056a565b60045473ffffffffffffffffffffffffffffffffffffffff1663999ba27c61249860e0850160c0860161367b565b6040517fffffffff0000000000000000000000000000000000000000000000000000000060e084901b16815273ffffffffffffffffffffffffffffffffffffffff9091166004820152602401602060405180830381865afa158015612501573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906125259190613eda565b61258b576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f53747261746567793a204e6f742077686974656c697374656400000000000000604482015260640161056a565b5050565b81600061259c8a83613057565b60025490915073ffffffffffffffffffffffffffffffffffffffff16158015906125c557508015155b15612600576002546125f39073ffffffffffffffffffffffffffffffffffffffff8981169189911684612a92565b6125fd8183613ddf565b91505b506005546040517ff4f635fa00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff8a81166004830152602482018a905260448201869052600092839291169063f4f635fa906064016040805180830381865afa158015612682573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906126a69190613ef7565b909250905073ffffffffffffffffffffffffffffffffffffffff8216158015906126cf57508015155b1561278c576126f673ffffffffffffffffffffffffffffffffffffffff8916888484612a92565b6127008184613ddf565b92508173ffffffffffffffffffffffffffffffffffffffff16898b73ffffffffffffffffffffffffffffffffffffffff167f27c4f0403323142b599832f26acd21c74a9e5b809f2215726e244a4ac588cd7d8b8560405161278392919073ffffffffffffffffffffffffffffffffffffffff929092168252602082015260400190565b60405180910390a45b5061279990508383613f25565b6127a582612710613f25565b101561280d576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601a60248201527f466565733a20486967686572207468616e206578706563746564000000000000604482015260640161056a565b61282f73ffffffffffffffffffffffffffffffffffffffff8716868684612a92565b505050505050505050565b6006546040517fcc15949300000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff8781166004830152600092169063cc15949390602401602060405180830381865afa1580156128ab573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906128cf9190613f3c565b905073ffffffffffffffffffffffffffffffffffffffff8116612974576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602b60248201527f5472616e736665723a204e6f204e4654207472616e73666572206d616e61676560448201527f7220617661696c61626c65000000000000000000000000000000000000000000606482015260840161056a565b6040517f33f2fa9f00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff87811660048301528681166024830152858116604483015260648201859052608482018490528216906333f2fa9f9060a401600060405180830381600087803b1580156129fb57600080fd5b505af1158015612a0f573d6000803e3d6000fd5b50505050505050505050565b6001805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60405173ffffffffffffffffffffffffffffffffffffffff80851660248301528316604482015260648101829052612b6e9085907f23b872dd00000000000000000000000000000000000000000000000000000000906084015b604080517fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08184030181529190526020810180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff167fffffffff00000000000000000000000000000000000000000000000000000000909316929092179091526130ea565b50505050565b816000612b818883613057565b60025490915073ffffffffffffffffffffffffffffffffffffffff1615801590612baa57508015155b15612c0357600254612bf69073ffffffffffffffffffffffffffffffffffffffff7f000000000000000000000000000000000000000000000000000000000000000081169116836131fb565b612c008183613ddf565b91505b506005546040517ff4f635fa00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff88811660048301526024820188905260448201869052600092839291169063f4f635fa906064016040805180830381865afa158015612c85573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612ca99190613ef7565b909250905073ffffffffffffffffffffffffffffffffffffffff821615801590612cd257508015155b15612dce57612d1873ffffffffffffffffffffffffffffffffffffffff7f00000000000000000000000000000000000000000000000000000000000000001683836131fb565b612d228184613ddf565b92508173ffffffffffffffffffffffffffffffffffffffff16878973ffffffffffffffffffffffffffffffffffffffff167f27c4f0403323142b599832f26acd21c74a9e5b809f2215726e244a4ac588cd7d7f000000000000000000000000000000000000000000000000000000000000000085604051612dc592919073ffffffffffffffffffffffffffffffffffffffff929092168252602082015260400190565b60405180910390a45b50612ddb90508383613f25565b612de782612710613f25565b1015612e4f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601a60248201527f466565733a20486967686572207468616e206578706563746564000000000000604482015260640161056a565b612e9073ffffffffffffffffffffffffffffffffffffffff7f00000000000000000000000000000000000000000000000000000000000000001685836131fb565b50505050505050565b6040517f1901000000000000000000000000000000000000000000000000000000000000602082015260228101829052604281018790526000908190606201604051602081830303815290604052805190602001209050612efa873b151590565b1561300f57604080516020810187905280820186905260f888901b7fff000000000000000000000000000000000000000000000000000000000000001660608201528151604181830301815260618201928390527f1626ba7e0000000000000000000000000000000000000000000000000000000090925273ffffffffffffffffffffffffffffffffffffffff891691631626ba7e91612f9e918591606501613fc7565b602060405180830381865afa158015612fbb573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612fdf9190613fe0565b7bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916631626ba7e60e01b1491505061304d565b8673ffffffffffffffffffffffffffffffffffffffff1661303282888888613251565b73ffffffffffffffffffffffffffffffffffffffff16149150505b9695505050505050565b6000808373ffffffffffffffffffffffffffffffffffffffff16639dd1cda66040518163ffffffff1660e01b8152600401602060405180830381865afa1580156130a5573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906130c99190614022565b90506127106130d88483613f25565b6130e2919061403b565b949350505050565b600061314c826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c65648152508573ffffffffffffffffffffffffffffffffffffffff1661345d9092919063ffffffff16565b8051909150156131f6578080602001905181019061316a9190613eda565b6131f6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e60448201527f6f74207375636365656400000000000000000000000000000000000000000000606482015260840161056a565b505050565b60405173ffffffffffffffffffffffffffffffffffffffff83166024820152604481018290526131f69084907fa9059cbb0000000000000000000000000000000000000000000000000000000090606401612aec565b60007f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08211156132dd576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601e60248201527f5369676e61747572653a20496e76616c6964207320706172616d657465720000604482015260640161056a565b8360ff16601b14806132f257508360ff16601c145b613358576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601e60248201527f5369676e61747572653a20496e76616c6964207620706172616d657465720000604482015260640161056a565b6040805160008082526020820180845288905260ff871692820192909252606081018590526080810184905260019060a0016020604051602081039080840390855afa1580156133ac573d6000803e3d6000fd5b50506040517fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0015191505073ffffffffffffffffffffffffffffffffffffffff8116613454576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f5369676e61747572653a20496e76616c6964207369676e657200000000000000604482015260640161056a565b95945050505050565b606061346c8484600085613476565b90505b9392505050565b606082471015613508576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f416464726573733a20696e73756666696369656e742062616c616e636520666f60448201527f722063616c6c0000000000000000000000000000000000000000000000000000606482015260840161056a565b843b613570576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015260640161056a565b6000808673ffffffffffffffffffffffffffffffffffffffff1685876040516135999190614076565b60006040518083038185875af1925050503d80600081146135d6576040519150601f19603f3d011682016040523d82523d6000602084013e6135db565b606091505b50915091506135eb8282866135f6565b979650505050505050565b6060831561360557508161346f565b8251156136155782518084602001fd5b816040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161056a9190614092565b73ffffffffffffffffffffffffffffffffffffffff81168114611e6057600080fd5b803561367681613649565b919050565b60006020828403121561368d57600080fd5b813561346f81613649565b600080604083850312156136ab57600080fd5b82356136b681613649565b946020939093013593505050565b600080604083850312156136d757600080fd5b823567ffffffffffffffff808211156136ef57600080fd5b9084019060c0828703121561370357600080fd5b9092506020840135908082111561371957600080fd5b508301610200818603121561372d57600080fd5b809150509250929050565b6000806020838503121561374b57600080fd5b823567ffffffffffffffff8082111561376357600080fd5b818501915085601f83011261377757600080fd5b81358181111561378657600080fd5b8660208260051b850101111561379b57600080fd5b60209290920196919550909350505050565b6000602082840312156137bf57600080fd5b5035919050565b8015158114611e6057600080fd5b8035613676816137c6565b6000602082840312156137f157600080fd5b813561346f816137c6565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b604051610200810167ffffffffffffffff8111828210171561384f5761384f6137fc565b60405290565b600082601f83011261386657600080fd5b813567ffffffffffffffff80821115613881576138816137fc565b604051601f83017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0908116603f011681019082821181831017156138c7576138c76137fc565b816040528381528660208588010111156138e057600080fd5b836020870160208301376000602085830101528094505050505092915050565b803560ff8116811461367657600080fd5b6000610200823603121561392457600080fd5b61392c61382b565b613935836137d4565b81526139436020840161366b565b60208201526139546040840161366b565b6040820152606083013560608201526080830135608082015260a083013560a082015261398360c0840161366b565b60c082015261399460e0840161366b565b60e082015261010083810135908201526101208084013590820152610140808401359082015261016080840135908201526101808084013567ffffffffffffffff8111156139e157600080fd5b6139ed36828701613855565b8284015250506101a0613a01818501613900565b908201526101c083810135908201526101e092830135928101929092525090565b60008083357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1843603018112613a5757600080fd5b830160208101925035905067ffffffffffffffff811115613a7757600080fd5b803603821315613a8657600080fd5b9250929050565b8183528181602085013750600060208284010152600060207fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0601f840116840101905092915050565b6040815260006101008435613aea816137c6565b151560408401526020850135613aff81613649565b73ffffffffffffffffffffffffffffffffffffffff811660608501525060408501356080840152606085013560a0840152608085013560c0840152613b4760a0860186613a22565b60c060e0860152613b5b8386018284613a8d565b9150508381036020850152610200613b7c82613b76886137d4565b15159052565b613b886020870161366b565b73ffffffffffffffffffffffffffffffffffffffff166020830152613baf6040870161366b565b73ffffffffffffffffffffffffffffffffffffffff8116604084015250606086013560608301526080860135608083015260a086013560a0830152613bf660c0870161366b565b73ffffffffffffffffffffffffffffffffffffffff1660c0830152613c1d60e0870161366b565b73ffffffffffffffffffffffffffffffffffffffff1660e0830152828601359282019290925261012080860135908201526101408086013590820152610160808601359082015261018091613c7483870187613a22565b8285850152613c868385018284613a8d565b94505050506101a0613c99818701613900565b60ff16908201526101c085810135908201526101e094850135940193909352509092915050565b600080600060608486031215613cd557600080fd5b8351613ce0816137c6565b602085015160409095015190969495509392505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203613d8657613d86613d26565b5060010190565b6020815281602082015260007f07ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff831115613dc657600080fd5b8260051b80856040850137919091016040019392505050565b8181038181111561061757610617613d26565b8082018082111561061757610617613d26565b8e81528d1515602082015273ffffffffffffffffffffffffffffffffffffffff8d811660408301528c1660608201526101c081018b60808301528a60a08301528960c0830152613e6d60e083018a73ffffffffffffffffffffffffffffffffffffffff169052565b73ffffffffffffffffffffffffffffffffffffffff88166101008301526101208201969096526101408101949094526101608401929092526101808301526101a0909101529998505050505050505050565b600060208284031215613ed157600080fd5b61346f82613900565b600060208284031215613eec57600080fd5b815161346f816137c6565b60008060408385031215613f0a57600080fd5b8251613f1581613649565b6020939093015192949293505050565b808202811582820484141761061757610617613d26565b600060208284031215613f4e57600080fd5b815161346f81613649565b60005b83811015613f74578181015183820152602001613f5c565b50506000910152565b60008151808452613f95816020860160208601613f59565b601f017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0169290920160200192915050565b82815260406020820152600061346c6040830184613f7d565b600060208284031215613ff257600080fd5b81517fffffffff000000000000000000000000000000000000000000000000000000008116811461346f57600080fd5b60006020828403121561403457600080fd5b5051919050565b600082614071577f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b500490565b60008251614088818460208701613f59565b9190910192915050565b60208152600061346f6020830184613f7d56fea2646970667358221220538d21f4e707c5390961e393ba8905f2508e64c4379a6e6dfd12929cec11058464736f6c63430008110033"
+
+const looksrareExchangeAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_currencyManager",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "_executionManager",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "_royaltyFeeManager",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "_WETH",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "_protocolFeeRecipient",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "user",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "newMinNonce",
+				type: "uint256",
+			},
+		],
+		name: "CancelAllOrders",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "user",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256[]",
+				name: "orderNonces",
+				type: "uint256[]",
+			},
+		],
+		name: "CancelMultipleOrders",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "currencyManager",
+				type: "address",
+			},
+		],
+		name: "NewCurrencyManager",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "executionManager",
+				type: "address",
+			},
+		],
+		name: "NewExecutionManager",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "protocolFeeRecipient",
+				type: "address",
+			},
+		],
+		name: "NewProtocolFeeRecipient",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "royaltyFeeManager",
+				type: "address",
+			},
+		],
+		name: "NewRoyaltyFeeManager",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "transferSelectorNFT",
+				type: "address",
+			},
+		],
+		name: "NewTransferSelectorNFT",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "royaltyRecipient",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+		],
+		name: "RoyaltyPayment",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "orderNonce",
+				type: "uint256",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "taker",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "maker",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "price",
+				type: "uint256",
+			},
+		],
+		name: "TakerAsk",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "orderNonce",
+				type: "uint256",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "taker",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "maker",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "strategy",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "currency",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "price",
+				type: "uint256",
+			},
+		],
+		name: "TakerBid",
+		type: "event",
+	},
+	{
+		inputs: [],
+		name: "DOMAIN_SEPARATOR",
+		outputs: [
+			{
+				internalType: "bytes32",
+				name: "",
+				type: "bytes32",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "WETH",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "uint256",
+				name: "minNonce",
+				type: "uint256",
+			},
+		],
+		name: "cancelAllOrdersForSender",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "uint256[]",
+				name: "orderNonces",
+				type: "uint256[]",
+			},
+		],
+		name: "cancelMultipleMakerOrders",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "currencyManager",
+		outputs: [
+			{
+				internalType: "contract ICurrencyManager",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "executionManager",
+		outputs: [
+			{
+				internalType: "contract IExecutionManager",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "user",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "orderNonce",
+				type: "uint256",
+			},
+		],
+		name: "isUserOrderNonceExecutedOrCancelled",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "taker",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+				],
+				internalType: "struct OrderTypes.TakerOrder",
+				name: "takerBid",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "signer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "collection",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address",
+						name: "strategy",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "currency",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "nonce",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+					{
+						internalType: "uint8",
+						name: "v",
+						type: "uint8",
+					},
+					{
+						internalType: "bytes32",
+						name: "r",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "s",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct OrderTypes.MakerOrder",
+				name: "makerAsk",
+				type: "tuple",
+			},
+		],
+		name: "matchAskWithTakerBid",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "taker",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+				],
+				internalType: "struct OrderTypes.TakerOrder",
+				name: "takerBid",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "signer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "collection",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address",
+						name: "strategy",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "currency",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "nonce",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+					{
+						internalType: "uint8",
+						name: "v",
+						type: "uint8",
+					},
+					{
+						internalType: "bytes32",
+						name: "r",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "s",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct OrderTypes.MakerOrder",
+				name: "makerAsk",
+				type: "tuple",
+			},
+		],
+		name: "matchAskWithTakerBidUsingETHAndWETH",
+		outputs: [],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "taker",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+				],
+				internalType: "struct OrderTypes.TakerOrder",
+				name: "takerAsk",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "isOrderAsk",
+						type: "bool",
+					},
+					{
+						internalType: "address",
+						name: "signer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "collection",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "price",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "tokenId",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address",
+						name: "strategy",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "currency",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "nonce",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "minPercentageToAsk",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes",
+						name: "params",
+						type: "bytes",
+					},
+					{
+						internalType: "uint8",
+						name: "v",
+						type: "uint8",
+					},
+					{
+						internalType: "bytes32",
+						name: "r",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "s",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct OrderTypes.MakerOrder",
+				name: "makerBid",
+				type: "tuple",
+			},
+		],
+		name: "matchBidWithTakerAsk",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "protocolFeeRecipient",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "royaltyFeeManager",
+		outputs: [
+			{
+				internalType: "contract IRoyaltyFeeManager",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "transferSelectorNFT",
+		outputs: [
+			{
+				internalType: "contract ITransferSelectorNFT",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_currencyManager",
+				type: "address",
+			},
+		],
+		name: "updateCurrencyManager",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_executionManager",
+				type: "address",
+			},
+		],
+		name: "updateExecutionManager",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_protocolFeeRecipient",
+				type: "address",
+			},
+		],
+		name: "updateProtocolFeeRecipient",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_royaltyFeeManager",
+				type: "address",
+			},
+		],
+		name: "updateRoyaltyFeeManager",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_transferSelectorNFT",
+				type: "address",
+			},
+		],
+		name: "updateTransferSelectorNFT",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		name: "userMinOrderNonce",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+export const transferManagerErc721Bytecode =
+	"0x60a060405234801561001057600080fd5b5060405161034438038061034483398101604081905261002f91610040565b6001600160a01b0316608052610070565b60006020828403121561005257600080fd5b81516001600160a01b038116811461006957600080fd5b9392505050565b6080516102b4610090600039600081816055015260b801526102b46000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c806333f2fa9f1461003b5780633dd7df5014610050575b600080fd5b61004e610049366004610229565b6100a0565b005b6100777f000000000000000000000000000000000000000000000000000000000000000081565b60405173ffffffffffffffffffffffffffffffffffffffff909116815260200160405180910390f35b3373ffffffffffffffffffffffffffffffffffffffff7f00000000000000000000000000000000000000000000000000000000000000001614610169576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602160248201527f5472616e736665723a204f6e6c79204c6f6f6b73526172652045786368616e6760448201527f6500000000000000000000000000000000000000000000000000000000000000606482015260840160405180910390fd5b6040517f42842e0e00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff85811660048301528481166024830152604482018490528616906342842e0e90606401600060405180830381600087803b1580156101e157600080fd5b505af11580156101f5573d6000803e3d6000fd5b505050505050505050565b803573ffffffffffffffffffffffffffffffffffffffff8116811461022457600080fd5b919050565b600080600080600060a0868803121561024157600080fd5b61024a86610200565b945061025860208701610200565b935061026660408701610200565b9497939650939460608101359450608001359291505056fea2646970667358221220d5a0842ed3bcb362021e82dbfa467cb81d3a9d49ac737dae75cf818802e1fe2f64736f6c63430008110033"
+
+const transferManagerErc721Abi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_looksRareExchange",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		inputs: [],
+		name: "LOOKS_RARE_EXCHANGE",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "from",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "to",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "",
+				type: "uint256",
+			},
+		],
+		name: "transferNonFungibleToken",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export const transferManagerErc1155Bytecode =
+	"0x60a060405234801561001057600080fd5b5060405161035938038061035983398101604081905261002f91610040565b6001600160a01b0316608052610070565b60006020828403121561005257600080fd5b81516001600160a01b038116811461006957600080fd5b9392505050565b6080516102c9610090600039600081816055015260b801526102c96000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c806333f2fa9f1461003b5780633dd7df5014610050575b600080fd5b61004e61004936600461023e565b6100a0565b005b6100777f000000000000000000000000000000000000000000000000000000000000000081565b60405173ffffffffffffffffffffffffffffffffffffffff909116815260200160405180910390f35b3373ffffffffffffffffffffffffffffffffffffffff7f00000000000000000000000000000000000000000000000000000000000000001614610169576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602160248201527f5472616e736665723a204f6e6c79204c6f6f6b73526172652045786368616e6760448201527f6500000000000000000000000000000000000000000000000000000000000000606482015260840160405180910390fd5b6040517ff242432a00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff85811660048301528481166024830152604482018490526064820183905260a06084830152600060a483015286169063f242432a9060c401600060405180830381600087803b1580156101f657600080fd5b505af115801561020a573d6000803e3d6000fd5b505050505050505050565b803573ffffffffffffffffffffffffffffffffffffffff8116811461023957600080fd5b919050565b600080600080600060a0868803121561025657600080fd5b61025f86610215565b945061026d60208701610215565b935061027b60408701610215565b9497939650939460608101359450608001359291505056fea2646970667358221220b7346dfff462f28eaca3fcdd66a9a0c3f3962f1a137876fe42d7770ec71f043b64736f6c63430008110033"
+
+const transferManagerErc1155Abi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_looksRareExchange",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		inputs: [],
+		name: "LOOKS_RARE_EXCHANGE",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "from",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "to",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "tokenId",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "amount",
+				type: "uint256",
+			},
+		],
+		name: "transferNonFungibleToken",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export const transferSelectorNftBytecode =
+	"0x60c060405234801561001057600080fd5b50604051610c66380380610c6683398101604081905261002f916100bb565b6100383361004f565b6001600160a01b039182166080521660a0526100ee565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b80516001600160a01b03811681146100b657600080fd5b919050565b600080604083850312156100ce57600080fd5b6100d78361009f565b91506100e56020840161009f565b90509250929050565b60805160a051610b456101216000396000818161014501526108aa01526000818161020001526107d00152610b456000f3fe608060405234801561001057600080fd5b50600436106100c95760003560e01c8063715018a611610081578063bc6bc0cd1161005b578063bc6bc0cd14610222578063cc15949314610249578063f2fde38b1461025c57600080fd5b8063715018a6146101d55780638da5cb5b146101dd578063b1357ddd146101fb57600080fd5b806338928956116100b257806338928956146101405780634216a7531461018c5780637053fb79146101c257600080fd5b806325c6a895146100ce57806333bf6156146100e3575b600080fd5b6100e16100dc366004610a98565b61026f565b005b61010a7fd9b67a260000000000000000000000000000000000000000000000000000000081565b6040517fffffffff0000000000000000000000000000000000000000000000000000000090911681526020015b60405180910390f35b6101677f000000000000000000000000000000000000000000000000000000000000000081565b60405173ffffffffffffffffffffffffffffffffffffffff9091168152602001610137565b61016761019a366004610acb565b60016020526000908152604090205473ffffffffffffffffffffffffffffffffffffffff1681565b6100e16101d0366004610acb565b6104b7565b6100e1610660565b60005473ffffffffffffffffffffffffffffffffffffffff16610167565b6101677f000000000000000000000000000000000000000000000000000000000000000081565b61010a7f80ac58cd0000000000000000000000000000000000000000000000000000000081565b610167610257366004610acb565b6106ed565b6100e161026a366004610acb565b6108cf565b60005473ffffffffffffffffffffffffffffffffffffffff1633146102f5576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064015b60405180910390fd5b73ffffffffffffffffffffffffffffffffffffffff8216610398576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602860248201527f4f776e65723a20436f6c6c656374696f6e2063616e6e6f74206265206e756c6c60448201527f206164647265737300000000000000000000000000000000000000000000000060648201526084016102ec565b73ffffffffffffffffffffffffffffffffffffffff811661043b576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602d60248201527f4f776e65723a205472616e736665724d616e616765722063616e6e6f7420626560448201527f206e756c6c20616464726573730000000000000000000000000000000000000060648201526084016102ec565b73ffffffffffffffffffffffffffffffffffffffff82811660008181526001602052604080822080547fffffffffffffffffffffffff0000000000000000000000000000000000000000169486169485179055517fda166be6ba0ebb71be3f83e7d669765de552ea08978bfe3e3e42d54174111b629190a35050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610538576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102ec565b73ffffffffffffffffffffffffffffffffffffffff818116600090815260016020526040902054166105ec576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602960248201527f4f776e65723a20436f6c6c656374696f6e20686173206e6f207472616e73666560448201527f72206d616e61676572000000000000000000000000000000000000000000000060648201526084016102ec565b73ffffffffffffffffffffffffffffffffffffffff811660008181526001602052604080822080547fffffffffffffffffffffffff0000000000000000000000000000000000000000169055517f8c3bf4babc197f3db0e7ec65aaf23fc0efb0e689436aeea8514c3f01fd97841f9190a250565b60005473ffffffffffffffffffffffffffffffffffffffff1633146106e1576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102ec565b6106eb60006109ff565b565b73ffffffffffffffffffffffffffffffffffffffff80821660009081526001602052604090205416806108ca576040517f01ffc9a70000000000000000000000000000000000000000000000000000000081527f80ac58cd00000000000000000000000000000000000000000000000000000000600482015273ffffffffffffffffffffffffffffffffffffffff8316906301ffc9a790602401602060405180830381865afa1580156107a4573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906107c89190610aed565b156107f457507f0000000000000000000000000000000000000000000000000000000000000000919050565b6040517f01ffc9a70000000000000000000000000000000000000000000000000000000081527fd9b67a2600000000000000000000000000000000000000000000000000000000600482015273ffffffffffffffffffffffffffffffffffffffff8316906301ffc9a790602401602060405180830381865afa15801561087e573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906108a29190610aed565b156108ca57507f00000000000000000000000000000000000000000000000000000000000000005b919050565b60005473ffffffffffffffffffffffffffffffffffffffff163314610950576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016102ec565b73ffffffffffffffffffffffffffffffffffffffff81166109f3576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201527f646472657373000000000000000000000000000000000000000000000000000060648201526084016102ec565b6109fc816109ff565b50565b6000805473ffffffffffffffffffffffffffffffffffffffff8381167fffffffffffffffffffffffff0000000000000000000000000000000000000000831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b803573ffffffffffffffffffffffffffffffffffffffff811681146108ca57600080fd5b60008060408385031215610aab57600080fd5b610ab483610a74565b9150610ac260208401610a74565b90509250929050565b600060208284031215610add57600080fd5b610ae682610a74565b9392505050565b600060208284031215610aff57600080fd5b81518015158114610ae657600080fdfea2646970667358221220b6413c0f9301d20fde3a3a0513a4fd614f9e50fa49ec5f644ae51c42cf09ac9c64736f6c63430008110033"
+
+const transferSelectorNftAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "_transferManagerERC721",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "_transferManagerERC1155",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "transferManager",
+				type: "address",
+			},
+		],
+		name: "CollectionTransferManagerAdded",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+		],
+		name: "CollectionTransferManagerRemoved",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		inputs: [],
+		name: "INTERFACE_ID_ERC1155",
+		outputs: [
+			{
+				internalType: "bytes4",
+				name: "",
+				type: "bytes4",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "INTERFACE_ID_ERC721",
+		outputs: [
+			{
+				internalType: "bytes4",
+				name: "",
+				type: "bytes4",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "TRANSFER_MANAGER_ERC1155",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "TRANSFER_MANAGER_ERC721",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "transferManager",
+				type: "address",
+			},
+		],
+		name: "addCollectionTransferManager",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+		],
+		name: "checkTransferManagerForToken",
+		outputs: [
+			{
+				internalType: "address",
+				name: "transferManager",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "owner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "collection",
+				type: "address",
+			},
+		],
+		name: "removeCollectionTransferManager",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "renounceOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		name: "transferManagerSelectorForCollection",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export type TestLooksrareContracts = {
+	exchange: Contract
+	transferManagerErc721: Contract
+	transferManagerErc1155: Contract
+	strategyStandardSale: Contract
+}
+
+/**
+ * Deploy LooksRare v1 exchange with its managers.
+ * Wrapped Ether is the only whitelisted currency, standard sale for fixed price is the only strategy,
+ * protocol and royalty fees are zero
+ */
+export async function deployLooksrare(web3: Web3, weth: Address): Promise<TestLooksrareContracts> {
+	const [address] = await web3.eth.getAccounts()
+	// web3 fills sent options with transaction fields, every transaction gets new ones
+	const options = () => ({ from: address, gas: 6000000, gasPrice: "0" })
+	const deploy = (abi: AbiItem[], data: string, args: unknown[] = []) =>
+		new web3.eth.Contract(abi).deploy({ data, arguments: args }).send(options())
+
+	const currencyManager = await deploy(currencyManagerAbi, currencyManagerBytecode)
+	await currencyManager.methods.addCurrency(weth).send(options())
+	const strategyStandardSale = await deploy(strategyStandardSaleAbi, strategyStandardSaleBytecode, [0])
+	const executionManager = await deploy(executionManagerAbi, executionManagerBytecode)
+	await executionManager.methods.addStrategy(strategyStandardSale.options.address).send(options())
+	const royaltyFeeRegistry = await deploy(royaltyFeeRegistryAbi, royaltyFeeRegistryBytecode, [9500])
+	const royaltyFeeManager = await deploy(
+		royaltyFeeManagerAbi, royaltyFeeManagerBytecode, [royaltyFeeRegistry.options.address],
+	)
+	const exchange = await deploy(looksrareExchangeAbi, looksrareExchangeBytecode, [
+		currencyManager.options.address,
+		executionManager.options.address,
+		royaltyFeeManager.options.address,
+		weth,
+		address,
+	])
+	const transferManagerErc721 = await deploy(
+		transferManagerErc721Abi, transferManagerErc721Bytecode, [exchange.options.address],
+	)
+	const transferManagerErc1155 = await deploy(
+		transferManagerErc1155Abi, transferManagerErc1155Bytecode, [exchange.options.address],
+	)
+	const transferSelectorNft = await deploy(transferSelectorNftAbi, transferSelectorNftBytecode, [
+		transferManagerErc721.options.address,
+		transferManagerErc1155.options.address,
+	])
+	await exchange.methods.updateTransferSelectorNFT(transferSelectorNft.options.address).send(options())
+
+	return { exchange, transferManagerErc721, transferManagerErc1155, strategyStandardSale }
+}
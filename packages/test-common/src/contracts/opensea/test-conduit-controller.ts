@@ -0,0 +1,358 @@
+import type Web3 from "web3"
+import type { Address } from "@rarible/ethereum-api-client"
+import type { Contract } from "web3-eth-contract"
+import type { AbiItem } from "../../common/abi-item"
+
+export const conduitControllerBytecode =
+	"0x60c0346100d057610975906001600160401b0390603f8301601f19168101828111828210176100ba5760405282815261169d9060208101908483833951902060805260405191838301908111838210176100ba5760009383928339039082f580156100ae576001600160a01b03163f60a0526040516115c790816100d68239608051818181610319015281816104c60152610a3a015260a051818181610358015281816105130152610a5d0152f35b6040513d6000823e3d90fd5b634e487b7160e01b600052604160045260246000fd5b600080fdfe6040608081526004908136101561001557600080fd5b6000803560e01c8063027cc76414610a835780630a96ad3914610a2457806313ad9cab146107d357806314afd79e1461078f57806333bc8572146107375780634e3f9580146106f557806351710e451461060f5780636d4354211461053d5780636e9bfd9f1461047e578063794593bc146102af5780637b37e5611461020e5780638b9e028b14610153578063906c87cc14610109576393790f44146100ba57600080fd5b346101065760203660031901126101065781906001600160a01b036100dd610b0a565b1681528060205220549081156100f7576020925051908152f35b516304ca820960e41b81529050fd5b80fd5b50903461014f57602036600319011261014f5760209160028261012a610b0a565b9261013484610beb565b6001600160a01b039384168152808652200154915191168152f35b5080fd5b50903461014f5760208060031936011261020a5761016f610b0a565b9261017984610beb565b6001600160a01b0393841681528082528281208351600390910180548083529083528383208285019491859190855b8181106101f457505050826101be910383610b3b565b8451948186019282875251809352850193925b8281106101de5785850386f35b83518716855293810193928101926001016101d1565b82548a16845292840192600192830192016101a8565b8280fd5b50913461020a57602036600319011261020a57610229610b0a565b9061023382610ba1565b6001600160a01b039182168085526020859052838520600201549092161561029a575090600291837f11a3cf439fb225bfe74225716b6774765670ec1060e3796802e62139d69974da8180a28352602083905282200180546001600160a01b031916905580f35b91516335809b0b60e11b815291820152602490fd5b50823461014f578260031936011261014f576001600160a01b038135816102d4610b25565b1691821561046e57338260601c0361045e5785516001600160f81b0319602082019081526bffffffffffffffffffffffff193060601b166021830152603582018490527f000000000000000000000000000000000000000000000000000000000000000060558084019190915282529061034f607582610b3b565b5190201692833f7f000000000000000000000000000000000000000000000000000000000000000014610447578551906109758083019183831067ffffffffffffffff84111761043457509180918493610c1d8339039086f51561042a57937f4397af6128d529b8ae0442f99db1296d5136062597a15bbc61c1b2a6431a7d15816020968587528688528082882060018101876001600160601b0360a01b8254161790555581519086825288820152a15192827fc8894f26f396ce8c004245c8b7cd1b92103a6e4302fcbab883987149ac01b7ec8280a48152f35b84513d85823e3d90fd5b634e487b7160e01b885260419052602487fd5b8551633194665960e11b8152908101849052602490fd5b85516332db94d160e21b81528490fd5b855163267eaa8160e21b81528490fd5b50829034610106576020366003190112610106575081516001600160f81b0319602082019081526bffffffffffffffffffffffff193060601b166021830152913560358201527f00000000000000000000000000000000000000000000000000000000000000006055808301919091528152906104fc607583610b3b565b9051902090516001600160a01b039091168082523f7f0000000000000000000000000000000000000000000000000000000000000000146020820152604090f35b5091903461020a578060031936011261020a57610558610b0a565b91610561610b25565b9061056b84610ba1565b6001600160a01b039182169384156105f85782169182865285602052600284872001541684146105dd575090600291837f11a3cf439fb225bfe74225716b6774765670ec1060e3796802e62139d69974da8680a2845283602052832001906001600160601b0360a01b82541617905580f35b836044928451926365e0406560e11b84528301526024820152fd5b91602493519263a388d26360e01b84521690820152fd5b50823461014f57602036600319011261014f5761062a610b0a565b9261063484610beb565b6001600160a01b03938416808452602084905281842060020154909290851633036106e0575060019084847f11a3cf439fb225bfe74225716b6774765670ec1060e3796802e62139d69974da8180a283855284602052600282862001936001600160601b0360a01b94858154169055339184848820015416907fc8894f26f396ce8c004245c8b7cd1b92103a6e4302fcbab883987149ac01b7ec8780a483200190339082541617905580f35b8260249251916388c3a11560e01b8352820152fd5b50903461014f57602036600319011261014f57600381602093610716610b0a565b61071f81610beb565b6001600160a01b031681528085522001549051908152f35b50913461020a578160031936011261020a5791602092610755610b0a565b908361075f610b25565b9361076984610beb565b60018060a01b038094168152808752200191166000528252806000205415159051908152f35b50903461014f57602036600319011261014f576020916001826107b0610b0a565b926107ba84610beb565b828060a01b038094168152808652200154169051908152f35b5091903461020a57606036600319011261020a576107ef610b0a565b916107f8610b25565b906044359182159485158403610a205761081181610ba1565b6001600160a01b03908116803b15610a1c57855163c4e8fcb560e01b81526001600160a01b0384168582019081528615156020820152899082908190604001038183865af18015610a12576109e4575b508752866020528487209083820194818416978860005286602052876000205491821590806109dd575b156108f4575050505060030191825490680100000000000000008210156104345750906108c18260016108e59401855584610b73565b90919082549060031b9160018060a01b039283811b93849216901b16911916179055565b54926000526020526000205580f35b959998959294509091816109d4575b50610914575b505050505050905080f35b6000199060038282019301928354908382019182116109c15790818692820361098a575b50505050815480156109775787985001916109538383610b73565b909182549160031b1b19169055556000526020526000205580388080808080610909565b634e487b7160e01b885260318952602488fd5b6108c19261099b6109ac9388610b73565b90549060031b1c1692839187610b73565b60005285602052866000205538838180610938565b634e487b7160e01b8a5260118b5260248afd5b90501538610903565b508061088b565b67ffffffffffffffff81999299116109ff5786529638610861565b634e487b7160e01b825260418552602482fd5b87513d8b823e3d90fd5b8780fd5b8680fd5b50346101065780600319360112610106575080517f000000000000000000000000000000000000000000000000000000000000000081527f00000000000000000000000000000000000000000000000000000000000000006020820152f35b5034610106578160031936011261010657610a9c610b0a565b9060243593610aaa83610beb565b6001600160a01b03928316808352602083905284832060030154909190861015610af557509360038483602097610ae695528088522001610b73565b90549060031b1c169051908152f35b602491855191636ceb340b60e01b8352820152fd5b600435906001600160a01b0382168203610b2057565b600080fd5b602435906001600160a01b0382168203610b2057565b90601f8019910116810190811067ffffffffffffffff821117610b5d57604052565b634e487b7160e01b600052604160045260246000fd5b8054821015610b8b5760005260206000200190600090565b634e487b7160e01b600052603260045260246000fd5b610baa81610beb565b6001600160a01b039081166000818152602081905260409020600101549091163303610bd35750565b6024906040519063d4ed9a1760e01b82526004820152fd5b6001600160a01b031660009081526020819052604090205415610c0a57565b6040516304ca820960e41b8152600490fdfe60a08060405234610023573360805261094c90816100298239608051816102b60152f35b600080fdfe60806040526004361015610013575b600080fd5b6000803560e01c9081634ce34aa21461006657508063899e104c1461005d5780638df25d92146100545763c4e8fcb51461004c57600080fd5b61000e61027f565b5061000e6101f8565b5061000e61015b565b346100f65760203660031901126100f65760043567ffffffffffffffff81116100f2576100979036906004016100f9565b91338152806020526040812054156100df575b8281106100c357604051632671a55160e11b8152602090f35b806100d96100d460019386866103a1565b610401565b016100aa565b6349ed56f960e11b815233600452602490fd5b5080fd5b80fd5b9181601f8401121561000e5782359167ffffffffffffffff831161000e5760208085019460c0850201011161000e57565b9181601f8401121561000e5782359167ffffffffffffffff831161000e576020808501948460051b01011161000e57565b503461000e57604036600319011261000e5767ffffffffffffffff60043581811161000e5761018e9036906004016100f9565b9160243590811161000e576101a790369060040161012a565b9190926000338152806020526040812054156100df575b8181106101e1576101cf84866107db565b604051632267841360e21b8152602090f35b806101f26100d460019385876103a1565b016101be565b503461000e57602036600319011261000e5760043567ffffffffffffffff811161000e5761022a90369060040161012a565b3360005260006020526040600020541561025957610247916107db565b6040516346f92ec960e11b8152602090f35b6349ed56f960e11b6000523360045260246000fd5b6001600160a01b0381160361000e57565b503461000e57604036600319011261000e5760043561029d8161026e565b6024359081151580830361000e576001600160a01b03907f00000000000000000000000000000000000000000000000000000000000000008216330361038f576001600160a01b03831660009081526020819052604090205460ff161515146103635781610353846103427fae63067d43ac07563b7eb8db6595635fc77f1578a2a5ea06ba91b63e2afa37e29560018060a01b03166000526000602052604060002090565b9060ff801983541691151516179055565b60405193151584521691602090a2005b506040516349271a0f60e11b81526001600160a01b039190911660048201529015156024820152604490fd5b6040516336abb4df60e11b8152600490fd5b91908110156103b15760c0020190565b634e487b7160e01b600052603260045260246000fd5b600411156103d157565b634e487b7160e01b600052602160045260246000fd5b35600481101561000e5790565b356103fe8161026e565b90565b600161040c826103e7565b610415816103c7565b03610450578061042a602061044e93016103f4565b90610437604082016103f4565b60a0610445606084016103f4565b92013592610529565b565b600261045b826103e7565b610464816103c7565b036104c55760a0810135600181036104ab575080610487602061044e93016103f4565b90610494604082016103f4565b60806104a2606084016103f4565b92013592610634565b6040516369f9582760e01b81526004810191909152602490fd5b60036104d0826103e7565b6104d9816103c7565b0361051757806104ee602061044e93016103f4565b6104fa604083016103f4565b610506606084016103f4565b90608060a0850135940135926106fa565b604051631e4cbc7f60e21b8152600490fd5b9092604051926000946323b872dd60e01b865280600452816024528260445260208660648180885af1803d15601f3d1160018a51141617163d151581161561057a575b505050505050604052606052565b80863b15151661056c5790879596911561059f5786635f15d67287526020526024601cfd5b9591929395156105c4575063988919238594526020526040526060526080526084601cfd5b3d6105e7575b5063f486bc87845260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c90806003029180821161061b575b505060205a91011061061257856105ca565b833d81803e3d90fd5b8080600392028380020360091c92030201018680610600565b929091833b156106e857604051926000946323b872dd60e01b8652816004528260245283604452858060648180855af1156106755750505050604052606052565b85853d61069c575b5063f486bc879052602052604052606052608052600160a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116106cf575b505060205a9101106106c7578561067d565b3d81803e3d90fd5b8080600392028380020360091c920302010186806106b5565b83635f15d6726000526020526024601cfd5b9392919091843b156107c957604051936080519160a0519360c05195600098637921219560e11b8a528160045282602452836044528460645260a06084528960a452898060c48180855af11561076057505050505060805260a05260c052604052606052565b89893d610785575b5063f486bc87905260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116107b0575b505060205a9101106106c75786610768565b8080600392028380020360091c9203020101878061079e565b84635f15d6726000526020526024601cfd5b9081602090631759616b60e11b825260005b8381106108005750505050506080604052565b8435820194853590813b156109055760a09182880192833560059181831b948b60c080976080948183018685013514906060850135141692010135841416156108f45789019a890160243760061b9360e0850160a452610104850194600086526040019060c437600080858982865af11561088157505050506001016107ed565b869394503d6108a9575b506357e222f160e11b60005260045260645260849081510190526000fd5b84601f3d01821c911c906003818102928083116108dd575b505050835a9101106108d3578461088b565b3d6000803e3d6000fd5b8080028380020360091c92030201018580806108c1565b633ae8821360e21b60005260046000fd5b5083635f15d672600052526024601cfdfea2646970667358221220db20f1a09a7d89625a819487c3301b3f0a7050e97b804eb7aad0db74830cd08564736f6c63430008110033a264697066735822122001bc2b6c96b7bc546b2fc5f541d341d0c03d8fdb8044b22adf3a8b241607637e64736f6c6343000811003360a08060405234610023573360805261094c90816100298239608051816102b60152f35b600080fdfe60806040526004361015610013575b600080fd5b6000803560e01c9081634ce34aa21461006657508063899e104c1461005d5780638df25d92146100545763c4e8fcb51461004c57600080fd5b61000e61027f565b5061000e6101f8565b5061000e61015b565b346100f65760203660031901126100f65760043567ffffffffffffffff81116100f2576100979036906004016100f9565b91338152806020526040812054156100df575b8281106100c357604051632671a55160e11b8152602090f35b806100d96100d460019386866103a1565b610401565b016100aa565b6349ed56f960e11b815233600452602490fd5b5080fd5b80fd5b9181601f8401121561000e5782359167ffffffffffffffff831161000e5760208085019460c0850201011161000e57565b9181601f8401121561000e5782359167ffffffffffffffff831161000e576020808501948460051b01011161000e57565b503461000e57604036600319011261000e5767ffffffffffffffff60043581811161000e5761018e9036906004016100f9565b9160243590811161000e576101a790369060040161012a565b9190926000338152806020526040812054156100df575b8181106101e1576101cf84866107db565b604051632267841360e21b8152602090f35b806101f26100d460019385876103a1565b016101be565b503461000e57602036600319011261000e5760043567ffffffffffffffff811161000e5761022a90369060040161012a565b3360005260006020526040600020541561025957610247916107db565b6040516346f92ec960e11b8152602090f35b6349ed56f960e11b6000523360045260246000fd5b6001600160a01b0381160361000e57565b503461000e57604036600319011261000e5760043561029d8161026e565b6024359081151580830361000e576001600160a01b03907f00000000000000000000000000000000000000000000000000000000000000008216330361038f576001600160a01b03831660009081526020819052604090205460ff161515146103635781610353846103427fae63067d43ac07563b7eb8db6595635fc77f1578a2a5ea06ba91b63e2afa37e29560018060a01b03166000526000602052604060002090565b9060ff801983541691151516179055565b60405193151584521691602090a2005b506040516349271a0f60e11b81526001600160a01b039190911660048201529015156024820152604490fd5b6040516336abb4df60e11b8152600490fd5b91908110156103b15760c0020190565b634e487b7160e01b600052603260045260246000fd5b600411156103d157565b634e487b7160e01b600052602160045260246000fd5b35600481101561000e5790565b356103fe8161026e565b90565b600161040c826103e7565b610415816103c7565b03610450578061042a602061044e93016103f4565b90610437604082016103f4565b60a0610445606084016103f4565b92013592610529565b565b600261045b826103e7565b610464816103c7565b036104c55760a0810135600181036104ab575080610487602061044e93016103f4565b90610494604082016103f4565b60806104a2606084016103f4565b92013592610634565b6040516369f9582760e01b81526004810191909152602490fd5b60036104d0826103e7565b6104d9816103c7565b0361051757806104ee602061044e93016103f4565b6104fa604083016103f4565b610506606084016103f4565b90608060a0850135940135926106fa565b604051631e4cbc7f60e21b8152600490fd5b9092604051926000946323b872dd60e01b865280600452816024528260445260208660648180885af1803d15601f3d1160018a51141617163d151581161561057a575b505050505050604052606052565b80863b15151661056c5790879596911561059f5786635f15d67287526020526024601cfd5b9591929395156105c4575063988919238594526020526040526060526080526084601cfd5b3d6105e7575b5063f486bc87845260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c90806003029180821161061b575b505060205a91011061061257856105ca565b833d81803e3d90fd5b8080600392028380020360091c92030201018680610600565b929091833b156106e857604051926000946323b872dd60e01b8652816004528260245283604452858060648180855af1156106755750505050604052606052565b85853d61069c575b5063f486bc879052602052604052606052608052600160a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116106cf575b505060205a9101106106c7578561067d565b3d81803e3d90fd5b8080600392028380020360091c920302010186806106b5565b83635f15d6726000526020526024601cfd5b9392919091843b156107c957604051936080519160a0519360c05195600098637921219560e11b8a528160045282602452836044528460645260a06084528960a452898060c48180855af11561076057505050505060805260a05260c052604052606052565b89893d610785575b5063f486bc87905260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116107b0575b505060205a9101106106c75786610768565b8080600392028380020360091c9203020101878061079e565b84635f15d6726000526020526024601cfd5b9081602090631759616b60e11b825260005b8381106108005750505050506080604052565b8435820194853590813b156109055760a09182880192833560059181831b948b60c080976080948183018685013514906060850135141692010135841416156108f45789019a890160243760061b9360e0850160a452610104850194600086526040019060c437600080858982865af11561088157505050506001016107ed565b869394503d6108a9575b506357e222f160e11b60005260045260645260849081510190526000fd5b84601f3d01821c911c906003818102928083116108dd575b505050835a9101106108d3578461088b565b3d6000803e3d6000fd5b8080028380020360091c92030201018580806108c1565b633ae8821360e21b60005260046000fd5b5083635f15d672600052526024601cfdfea2646970667358221220db20f1a09a7d89625a819487c3301b3f0a7050e97b804eb7aad0db74830cd08564736f6c63430008110033"
+
+const conduitControllerAbi: AbiItem[] = [
+	{
+		inputs: [],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "conduitKey",
+				type: "bytes32",
+			},
+		],
+		name: "NewConduit",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "previousOwner",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newOwner",
+				type: "address",
+			},
+		],
+		name: "OwnershipTransferred",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: "address",
+				name: "newPotentialOwner",
+				type: "address",
+			},
+		],
+		name: "PotentialOwnerUpdated",
+		type: "event",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "acceptOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "cancelOwnershipTransfer",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "bytes32",
+				name: "conduitKey",
+				type: "bytes32",
+			},
+			{
+				internalType: "address",
+				name: "initialOwner",
+				type: "address",
+			},
+		],
+		name: "createConduit",
+		outputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "channelIndex",
+				type: "uint256",
+			},
+		],
+		name: "getChannel",
+		outputs: [
+			{
+				internalType: "address",
+				name: "channel",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "channel",
+				type: "address",
+			},
+		],
+		name: "getChannelStatus",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "isOpen",
+				type: "bool",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "getChannels",
+		outputs: [
+			{
+				internalType: "address[]",
+				name: "channels",
+				type: "address[]",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "bytes32",
+				name: "conduitKey",
+				type: "bytes32",
+			},
+		],
+		name: "getConduit",
+		outputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				internalType: "bool",
+				name: "exists",
+				type: "bool",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "getConduitCodeHashes",
+		outputs: [
+			{
+				internalType: "bytes32",
+				name: "creationCodeHash",
+				type: "bytes32",
+			},
+			{
+				internalType: "bytes32",
+				name: "runtimeCodeHash",
+				type: "bytes32",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "getKey",
+		outputs: [
+			{
+				internalType: "bytes32",
+				name: "conduitKey",
+				type: "bytes32",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "getPotentialOwner",
+		outputs: [
+			{
+				internalType: "address",
+				name: "potentialOwner",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "getTotalChannels",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "totalChannels",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+		],
+		name: "ownerOf",
+		outputs: [
+			{
+				internalType: "address",
+				name: "owner",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "newPotentialOwner",
+				type: "address",
+			},
+		],
+		name: "transferOwnership",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduit",
+				type: "address",
+			},
+			{
+				internalType: "address",
+				name: "channel",
+				type: "address",
+			},
+			{
+				internalType: "bool",
+				name: "isOpen",
+				type: "bool",
+			},
+		],
+		name: "updateChannel",
+		outputs: [],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+export async function deployConduitController(web3: Web3) {
+	const empty = createConduitController(web3)
+	const [address] = await web3.eth.getAccounts()
+	return empty.deploy({ data: conduitControllerBytecode }).send({ from: address, gas: 3000000, gasPrice: "0" })
+}
+
+export function createConduitController(web3: Web3, address?: Address): Contract {
+	return new web3.eth.Contract(conduitControllerAbi, address)
+}
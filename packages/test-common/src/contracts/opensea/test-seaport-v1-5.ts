@@ -0,0 +1,2508 @@
+import type Web3 from "web3"
+import type { Address } from "@rarible/ethereum-api-client"
+import type { Contract } from "web3-eth-contract"
+import type { AbiItem } from "../../common/abi-item"
+
+export const seaportBytecode =
+	"0x6101c060405234620000b9576200001f6200001962000114565b62000151565b6040516153ba9081620006bd823960805181611fd4015260a05181611ff8015260c05181611fb1015260e0518181816110230152611e3c015261010051818181610ecd0152611e8b0152610120518181816110bb0152611ed901526101405181611f5e01526101605181611f85015261018051818181610c3901528181611c4c0152611d1d01526101a051818181611c790152611d4a0152f35b600080fd5b604081019081106001600160401b03821117620000da57604052565b634e487b7160e01b600052604160045260246000fd5b601f909101601f19168101906001600160401b03821190821017620000da57604052565b62005a7760208138039182604051938492620001318285620000f0565b833981010312620000b957516001600160a01b0381168103620000b95790565b60406004916200016062000587565b610120526101005260e05260c05260a0526080524661014052620001b060c0519060805160a0516040519360005281602052604052466060523060805260a0600020926040526000606052608052565b610160526001600160a01b03166101808190528151630a96ad3960e01b815292839182905afa90811562000230575b600091620001fa575b506101a052620001f86001600055565b565b62000220915060403d811162000228575b620002178183620000f0565b81019062000240565b5038620001e8565b503d6200020b565b6200023a62000257565b620001df565b9190826040910312620000b9576020825192015190565b506040513d6000823e3d90fd5b604051906200027382620000be565b60038252565b6040519060a082016001600160401b03811183821017620000da57604052606a8252565b6040519060c082016001600160401b03811183821017620000da576040526084825263656e742960e01b60a0837f436f6e73696465726174696f6e4974656d2875696e7438206974656d5479706560208201527f2c6164647265737320746f6b656e2c75696e74323536206964656e746966696560408201527f724f7243726974657269612c75696e74323536207374617274416d6f756e742c60608201527f75696e7432353620656e64416d6f756e742c616464726573732072656369706960808201520152565b6040519061010082016001600160401b03811183821017620000da5760405260d482527f4b65792c75696e7432353620636f756e7465722900000000000000000000000060e0837f4f72646572436f6d706f6e656e74732861646472657373206f6666657265722c60208201527f61646472657373207a6f6e652c4f666665724974656d5b5d206f666665722c4360408201527f6f6e73696465726174696f6e4974656d5b5d20636f6e73696465726174696f6e60608201527f2c75696e7438206f72646572547970652c75696e74323536207374617274546960808201527f6d652c75696e7432353620656e6454696d652c62797465733332207a6f6e654860a08201527f6173682c75696e743235362073616c742c6279746573333220636f6e6475697460c08201520152565b60405190608082016001600160401b03811183821017620000da576040526052825271766572696679696e67436f6e74726163742960701b6060837f454950373132446f6d61696e28737472696e67206e616d652c737472696e672060208201527f76657273696f6e2c75696e7432353620636861696e49642c616464726573732060408201520152565b9081519160005b83811062000539575050016000815290565b806020809284010151818501520162000527565b6200057862000571949362000571620001f894604051978895602087019062000520565b9062000520565b03601f198101845283620000f0565b6040516200059581620000be565b600781526614d9585c1bdc9d60ca1b6020918201527f32b5c112df393a49218d7552f96b2eeb829dfb4272f4f24eef510a586b85feef91620005d662000264565b8281019062312e3560e81b825251902091620005f162000279565b818101927f4f666665724974656d2875696e7438206974656d547970652c6164647265737384527f20746f6b656e2c75696e74323536206964656e7469666965724f72437269746560408301527f7269612c75696e74323536207374617274416d6f756e742c75696e7432353620606083015269656e64416d6f756e742960b01b6080830152620006816200029d565b92620006b46200069062000366565b936200069b62000495565b838151910120968151902095805184820120956200054d565b80519101209056fe60806040526004361015610023575b361561001957600080fd5b610021614428565b005b60003560e01c80156100eb57806306fdde031461016957806346423aa7146101605780635b34b9661461015757806379df72bd1461014e57806387201b4114610145578063881477321461013c578063a817440414610133578063a900866b1461012a578063b3a34c4c14610121578063e7acab2414610118578063ed98a5741461010f578063f07ec37314610106578063f2d12b12146100fd578063f47b7740146100f4578063fb0f3ee1146100eb5763fd9f1e100361000e576100e6610c6a565b61000e565b506100e66101a9565b506100e6610c0e565b506100e6610b57565b506100e6610b19565b506100e6610a70565b506100e66109d2565b506100e661096d565b506100e661092f565b506100e6610897565b506100e6610738565b506100e6610666565b506100e661049e565b506100e6610432565b506100e66103d7565b506100e66103af565b600319906020818301126101a457600435916001600160401b0383116101a45782610240920301126101a45760040190565b600080fd5b506101b336610172565b6101243590600382169160021c916001831192341584036103a1575b60038111906502030203010160d01b811a906101ff82602460a08602013588630101020360d01b851a888a610e90565b928060051b6101c401359661021381610563565b610266575050604435602435176102585761023e9461023191611201565b6102396112a0565b614d0f565b6102486001600055565b60405160018152602090f35b0390f35b636ab37ce76000526004601cfd5b610239925061023e96916102d09161027c610e3d565b9384836102898295610563565b600281036102d557506102cb918a6102a360a08201610e54565b6102af60608301610e54565b60e08301359260c001359133916001600160a01b031690611abe565b611352565b611c1b565b6102de81610563565b6003810361032057506102cb918a6102f860a08201610e54565b61030460608301610e54565b60e08301359260c001359133916001600160a01b031690611b6a565b8061032c600492610563565b03610369576102cb918a61033f81610e54565b61034b60608301610e54565b60408301359260200135916001600160a01b03909116903390611abe565b6102cb918a61037781610e54565b61038360608301610e54565b60408301359260200135916001600160a01b03909116903390611b6a565b6103aa34615149565b6101cf565b50346101a45760003660031901126101a457602080526707536561706f727460475260606020f35b50346101a45760203660031901126101a457600435600052600260205260806040600020546040519060ff81161515825260ff8160081c16151560208301526001600160781b038160101c16604083015260881c6060820152f35b50346101a45760003660031901126101a45761044c61440e565b33600052600160205260206040600020805460001943014060801c018091556040518181527f721c20121297512b72821b97f5326877ea8ecf4bb9948fea5bfcb6453074d37f833392a2604051908152f35b50346101a4576003196020368201126101a457600435906001600160401b0382116101a4576101609082360301126101a4576104f463ffffffff602092166101446104eb826004016118ef565b91013590611e2f565b604051908152f35b9181601f840112156101a4578235916001600160401b0383116101a4576020808501948460051b0101116101a457565b6001600160a01b038116036101a457565b60a4359061054a8261052c565b565b50634e487b7160e01b600052602160045260246000fd5b6006111561056d57565b61054a61054c565b608090805161058381610563565b83528160018060a01b03918260208201511660208601526040810151604086015260608101516060860152015116910152565b90815180825260208080930193019160005b8281106105d6575050505090565b909192938260e0600192604088516105ef838251610575565b858060a01b03858201511660a0840152015160c08201520195019101929190926105c8565b9092916040820191604081528451809352606081019260208096019060005b8181106106505750505061064d93948184039101526105b6565b90565b8251151586529487019491870191600101610633565b5060e03660031901126101a4576001600160401b036004358181116101a4576106939036906004016104fc565b50506024358181116101a4576106ad9036906004016104fc565b50506044358181116101a4576106c79036906004016104fc565b50506064359081116101a4576106e19036906004016104fc565b50506106fa6106ee61053d565b60c4359060843561142c565b9061025460405192839283610614565b60206003198201126101a457600435906001600160401b0382116101a457610734916004016104fc565b9091565b50346101a4576107473661070a565b5050600461075d63ffffffff82351682016116d3565b9061076661440e565b81519060005b82811061077f5760405160018152602090f35b8061078c60019286612303565b51805184608082015161079e816122c8565b6107a7816122c8565b1461087f5780516001600160a01b03166107c082613d33565b906107d5826000526002602052604060002090565b6107df8184614c54565b506107f26107ee825460ff1690565b1590565b610803575b50505050505b0161076c565b610849610856928460207ff280791efe782edcf06ce15c8f4dff17601db3b88eb3805a0db7d77faf757f04986060890151516101408a015103610872575b0151916145f9565b805460ff19166001179055565b61086560405192839283614325565b0390a138808080806107f7565b61087a615220565b610841565b50506107fd565b90602061064d9281815201906105b6565b5060403660031901126101a4576004356001600160401b038082116101a4576108c336836004016104fc565b50506024359081116101a4576102549161091b916108e436826004016104fc565b50506109136108fc63ffffffff809416600401615327565b92610905610db0565b92600084521660040161186b565b903392613261565b6040519182916020835260208301906105b6565b50346101a45760203660031901126101a45760043561094d8161052c565b60018060a01b031660005260036020526020604060002054604051908152f35b506003196040368201126101a457600435906001600160401b0382116101a45760409082360301126101a4576109c86109b063ffffffff602093166004016115e6565b6109b8610db0565b906000825233916024359161355d565b6040519015158152f35b506003196080368201126101a457600435906001600160401b03908183116101a45760a09083360301126101a4576024359081116101a45761025491610a5e91610a1f36826004016104fc565b5050610a4e60643592610a318461052c565b610a4463ffffffff809216600401611485565b9216600401611646565b913381150201916044359161355d565b60405190151581529081906020820190565b5060a03660031901126101a45760046001600160401b0381358181116101a457610a9c368285016104fc565b5050602435908282116101a457610ab5368386016104fc565b50506044359283116101a457610b0a6106fa94610ad4368683016104fc565b5050610ae863ffffffff8094168201615327565b92610b0281610af5610db0565b966000885216830161175d565b95160161175d565b60843593339360643593612086565b50346101a45760203660031901126101a45760206104f4600435610b3c8161052c565b6001600160a01b031660009081526001602052604090205490565b5060803660031901126101a4576001600160401b03600480358281116101a457610b83368284016104fc565b5050602435908382116101a457610b9c368385016104fc565b50506044359384116101a45761025493610bf6610c0294610bbf368483016104fc565b5050610be5610bee60643595610bd48761052c565b63ffffffff9283809216850161180e565b97168301611646565b93160161186b565b91338115020192613261565b60405191829182610886565b50346101a45760003660031901126101a457610c28611f59565b606060005260205260018060a01b037f0000000000000000000000000000000000000000000000000000000000000000166040526303312e3560635260a06000f35b50346101a457610c793661070a565b90610c8261440e565b600091825b818110610cac5783610c9f5760405160018152602090f35b610ca7615115565b610248565b80610cba60019284866141e0565b94610cc486610e54565b907f6bacc01dbe442496068f7d234edd811f1a5f833243e0aec824f86ab861f3c90d610d64610d20610cf860208b01610e54565b93610d0560808c01614211565b6004863314883314171591141717996101406104eb826118ef565b92610d47610d38856000526002602052604060002090565b805461ffff1916610100179055565b604051918291888060a01b03809116961694829190602083019252565b0390a301610c87565b50634e487b7160e01b600052604160045260246000fd5b6040519060a082018281106001600160401b03821117610da357604052565b610dab610d6d565b604052565b60405190602082018281106001600160401b03821117610da357604052565b60405190604082018281106001600160401b03821117610da357604052565b6040519190601f01601f191682016001600160401b03811183821017610da357604052565b6020906001600160401b038111610e30575b601f01601f19160190565b610e38610d6d565b610e25565b610e45610dcf565b90602082526020828136910137565b3561064d8161052c565b903590601e19813603018212156101a457018035906001600160401b0382116101a4576020019181360383136101a457565b959392919094610e9e6143e0565b610ea66111bc565b610164356101443542821115428211176111a857505061020435610264351061119a5793907f00000000000000000000000000000000000000000000000000000000000000006080528060a0526060602460c037604060646101203760e06080908120610160526001610264359081016102a060059290921b918201526102c081019283526024906102e00137610160948360a0528460c052600060e05260009260005b8361020435821015610fa75790604060019261010060a060208560061b9a818c610284018537858c61028401610120376102a48c0135179d019860e06080208a5201988a8a528b60c0840152610284019101370196939296610f4a565b5096509192979690976001610204350160051b610160206060525b8361026435881015610fff57906102a460a060019301958787528860c082015260408a60061b916101008361028401910137013517960195610fc2565b5091979096955093506001600160a01b0310915061118c90505761064d91611185917f00000000000000000000000000000000000000000000000000000000000000006080528060a052606060c460c03760206101046101203760c0608020600052602060002060e05260016102643560051b610200015261022090816102643560051b0152606060c46102406102643560051b01376103606084356110b78160018060a01b03166000526001602052604060002090565b54967f00000000000000000000000000000000000000000000000000000000000000006080526040608460a037606051610100526101205260a0610144610140376101e09687526101809687608020976102643560051b0191888352336101a06102643560051b015260806101c06102643560051b0152610120826102643560051b01527f9d9af8e38d66c62e2c12f0225249fd9d721c54b83f48d9352c97c6cacdcb6f3160a06102643502938460a435940190a360006060526102643560051b0101604052810190610e5e565b9083613926565b6339f3e3fd6000526004601cfd5b63466aa6166000526004601cfd5b6321ccfeb76000526020526040526044601cfd5b600435602014610224356102401416610244356102606102643560061b01141660186101243510600160a01b60843560a4351760c43560243517171016161561118c57565b608435916101043560e43560c435831561125a579461054a9560405195632671a55160e11b875260206004880152600160248801526044870152606486015260848501523360a485015260c484015260e4830152611d04565b92509280611269600292610563565b03611293579283600161054a9503611284575b50339161443d565b61128d90615138565b3861127c565b919061054a933391614503565b3460643560006102643560061b815b8181106112f0575050508181116112e3575b6112cd8160843561193b565b8082116112d8575050565b61054a91033361193b565b6112eb615106565b6112c1565b8061028401359480861161131957906113138660409303966102a483013561193b565b016112af565b638ffff98084526004601cfd5b50634e487b7160e01b600052601160045260246000fd5b9190820391821161134a57565b61054a611326565b919082156113f35760843592610104353360c43560e4355b6113e6575b8360051b6101e40335936102643560061b9060005b828110611399575050509561054a9596611987565b87876102848301358c856113c5575b918493916113bf936102a46040970135908a611987565b01611384565b9891816113d960409695936113bf9561133d565b9a919350919394506113a8565b6113ee615211565b61136f565b339260643560843560243560443561136a565b6020906001600160401b03811161141f575b60051b0190565b611427610d6d565b611418565b90610734929163ffffffff91611448836004351660040161180e565b926114598160243516600401611646565b61147961146c836044351660040161175d565b926064351660040161175d565b92338115020194612086565b90604051610200810160405260806114df8294604060208201602086013760a084018085526114be63ffffffff9182843516840161150e565b6114cf8160608401351683016114e4565b60608601528382013516016114e4565b910152565b9060206040519263ffffffff813563ffffffe0601f82011692848401908737168452830101604052565b6114df60609161016081853763ffffffff611530816040840135168301611540565b6040860152838201351601611593565b90641fffffffe082359263ffffffff841660405194818652602093849160051b168601019283928160a0809402910185378086015b8381106115855750505050604052565b848152938201938101611575565b90641fffffffe082359263ffffffff841660405194818652602093849160051b168601019283928160c0809402910185378086015b8381106115d85750505050604052565b8481529382019381016115c8565b90604051610200810160405261162c819360a0830180845261161263ffffffff9182843516840161150e565b6001602085015260016040850152602082013516016114e4565b606082015260806040519160208301604052600083520152565b803591600592641fffffffe081851b16604080519060209384848401018252829663ffffffff809216845260005b8581106116875750505050505050909150565b8083888093850101351683018551908360a091828401895287608093848484018737820135160101908d60018884351601901b8851928184018a52833782015282828801015201611674565b908135641fffffffe08160051b166040805160209384848301018352819663ffffffff809216835260005b85811061170e5750505050505050565b80838880938501013516830161174d838851928984016101a085018b5261173e81848b818601351685010161150e565b8452878a8201351601016114e4565b83820152828287010152016116fe565b90813591641fffffffe08360051b166040516020928383830101604052819563ffffffff809116835260005b84811061179857505050505050565b806117ae878481809588010135168601016117ba565b82828701015201611789565b90813591604080519363ffffffff81168552602080641fffffffe08360051b168701019381643fffffffc0869460061b16910185378086015b8281106118005750505052565b8481529383019381016117f3565b90813591641fffffffe08360051b166040516020928383830101604052819563ffffffff809116835260005b84811061184957505050505050565b8061185f87848180958801013516860101611485565b8282870101520161183a565b908135641fffffffe08160051b166040805160209384848301018352819663ffffffff809216835260005b8581106118a65750505050505050565b8083888093850101351683016118df838851928984018a526118d0828981840135168301016117ba565b8452878a8201351601016117ba565b8382015282828701015201611896565b906040516101608101604052809261192f610140918281853763ffffffff61191e816040840135168301611540565b604086015260608201351601611593565b80606084015251910152565b61194482611972565b600080808085855af115611956575050565b61195e612033565b63bc806b966000526020526040526044601cfd5b1561197957565b6391b3e5146000526004601cfd5b92919394909461199683611972565b6119a08183611c08565b80611ab0575050604051926000946323b872dd60e01b865280600452816024528260445260208660648180885af1803d15601f3d1160018a51141617163d15158116156119f6575b505050505050604052606052565b80863b1515166119e857908795969115611a1b5786635f15d67287526020526024601cfd5b959192939515611a40575063988919238594526020526040526060526080526084601cfd5b3d611a63575b5063f486bc87845260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c908060030291808211611a97575b505060205a910110611a8e5785611a46565b833d81803e3d90fd5b8080600392028380020360091c92030201018680611a7c565b9061054a9592949391611dba565b919395909294611ace8183611c08565b80611af757505084600161054a9603611ae8575b5061443d565b611af190615138565b38611ae2565b815160649693959394929190602003611b575760c090600190604084526020840152632671a55160e11b60408401526020604484015280888401525b0201936002603b19860152601b198501526004840152602483015260448201520152565b5060c08682016001815101809152611b33565b959091929394611b7986611972565b611b838183611c08565b80611b9357505061054a94614503565b9060649596949392916020825114600014611bf55760c090600190604084526020840152632671a55160e11b60408401526020604484015280888401525b0201936003603b19860152601b198501526004840152602483015260448201520152565b5060c08682016001815101809152611bd1565b90602082015103611c165750565b61054a905b906040825103611d005760208201519160c06064820151026044019260405193602060018060a01b036000928184927f00000000000000000000000000000000000000000000000000000000000000001660ff60a01b1783528584527f00000000000000000000000000000000000000000000000000000000000000006040526055600b2016976040528180526040860182895af19080519115611ce7575092936020936001600160e01b03191663598e5aaf60e11b01611cdb57505052565b611ce491615124565b52565b63d13d53d48691611cf6612033565b526020526024601cfd5b9050565b9060405190602060018060a01b036101046000938285937f00000000000000000000000000000000000000000000000000000000000000001660ff60a01b1784528785527f00000000000000000000000000000000000000000000000000000000000000006040526055600b20169560405282805282865af19080519115611dab57506001600160e01b03191663598e5aaf60e11b01611da2575050565b61054a91615124565b63d13d53d49150611cf6612033565b906064949293916020825114600014611e1c5760c090600190604084526020840152632671a55160e11b60408401526020604484015280878401525b0201926001603b19850152601b1984015260048301526024820152600060448201520152565b5060c08582016001815101809152611df6565b91909161014081018051917f0000000000000000000000000000000000000000000000000000000000000000604051604083018051928351926020809501906000915b86868410611f365750505050506040519160051b8220917f00000000000000000000000000000000000000000000000000000000000000009093606086019481865101906000915b8a8310611f125750505050508560051b6040512093601f1901978851907f00000000000000000000000000000000000000000000000000000000000000008a5282519383528451958552865261018089209852525252565b8380600192601f1981510180519089815260e0812087525201920192019190611eba565b80600192601f1981510180519088815260c0812087525201920192019190611e72565b6000467f000000000000000000000000000000000000000000000000000000000000000003611fa757507f000000000000000000000000000000000000000000000000000000000000000090565b60405190608051907f000000000000000000000000000000000000000000000000000000000000000081527f00000000000000000000000000000000000000000000000000000000000000006020527f0000000000000000000000000000000000000000000000000000000000000000604052466060523060805260a081209260405260605260805290565b3d61203a57565b601f3d0160051c60405160051c90806003029180821161206d575b505060205a91011061206357565b3d6000803e3d6000fd5b8080600392028380020360091c92030201013880612055565b93959480939297956120989286612325565b93909187519681516120b26120ad828b612752565b612b56565b9860009a8b905b82821061217d5750506000925b828410612109575050505050946120ed94958782986120fe575b508151156120f157612ed0565b9190565b6120f961519a565b612ed0565b8251038252386120e0565b909192939a8a6121258361211e8f8990612303565b5189612bfc565b61213e8180516080602082511515930151910151141690565b156121585750506001809101945b019291909a939a6120c6565b86916121779161217085886001979b01038093612303565b528d612303565b5061214c565b90949b61219989612192888598969798612303565b5189612b9c565b8c6121b38280516080602082511515930151910151141690565b156121cf5750506001809101955b01909b949b939291936120b9565b87916121ec91846001959a03916121e68383612303565b52612303565b506121c1565b6121fa610d84565b9060405161016081018181106001600160401b03821117612278575b604052600080825280602083015260609182604082015282808201528160808201528160a08201528160c08201528160e08201528161010082015281610120820152816101408201528452806020850152604084015280808401526080830152565b612280610d6d565b612216565b61228d610dcf565b600181529060203681840137565b906122ad6122a883611406565b610dee565b82815280926122be601f1991611406565b0190602036910137565b6005111561056d57565b50634e487b7160e01b600052603260045260246000fd5b6020908051156122f7570190565b6122ff6122d2565b0190565b6020918151811015612318575b60051b010190565b6123206122d2565b612310565b9391936000936123336143ef565b600160e61b60003516926123456121f2565b508251936123528561229b565b9760205b6001870160051b81106123f7575061237f92916001600160e61b011490506123ea575b83612846565b60205b6001840160051b81106123955750505050565b60208160019289015180156123e457858201515180516123dc92919087906001600160a01b03165b828701516001600160a01b03165b906060604085015194015194613859565b019050612382565b506123dc565b6123f261515a565b612379565b8086015182156125685761240a81613c41565b918d8296921561255557850152600019019382519260a08401519360c08101519060408101519e8f519160800151612441816122c8565b60048110600052600110179e60005b8281106124ea57505050606080925101519485519560005b8781106124815750505050505050506020905b01612356565b80878760a061249260019587612303565b516124ca89898c60808501966124aa88518a836127ff565b91860198895190895182146000146124da575050508088525b87516127ab565b8094520190815190525201612468565b6124e3926127ff565b88526124c3565b80876124f860019385612303565b519c8d600051905110179c61253b878c60808401938c606061251c875189846127ff565b92019687519087518214600014612545575050508086525b855161275f565b8092525201612450565b61254e926127ff565b8652612534565b505093505090600060208093015261247b565b90600060208093015261247b565b9391936000936125846143ef565b600160e61b60003516926125966121f2565b508251936125a38561229b565b9760205b6001870160051b811061261f57506125cf92916001600160e61b011490506123ea5783612846565b60205b6001840160051b81106125e55750505050565b6020816001928901518015612619578582015151805161261192919087906001600160a01b03166123bd565b0190506125d2565b50612611565b8086015182156127315761263281613a05565b918d8296921561271e57850152600019019382519260a08401519360c08101519060408101519e8f519160800151612669816122c8565b60048110600052600110179e60005b8281106126e257505050606080925101519485519560005b8781106126a95750505050505050506020905b016125a7565b80878760a06126ba60019587612303565b516126d289898c60808501966124aa88518a836127ff565b8094520190815190525201612690565b80876126f060019385612303565b519c8d600051905110179c612714878c60808401938c606061251c875189846127ff565b8092525201612678565b50509350509060006020809301526126a3565b9060006020809301526126a3565b8181029291811591840414171561134a57565b9190820180921161134a57565b92909283810361276f5750505090565b6127858361278b9303934203918285039061273f565b9361273f565b820180921161279e575b81049015150290565b6127a6611326565b612795565b9190928383036127bb5750505090565b6001926127d4836127da9303934203918285039061273f565b9461273f565b83018093116127f2575b600019830104019015150290565b6127fa611326565b6127e4565b91909182811461282c578281830961281e5761281a9161273f565b0490565b63c63cf0896000526004601cfd5b50905090565b6002111561056d57565b5161064d81610563565b815181519260005b82811061293f5750505060005b82811061286757505050565b6128718183612303565b5161289561288960208301516001600160781b031690565b6001600160781b031690565b156129365751606081018051519060005b828110612908575050506040018051519060005b8281106128ce575050506001905b0161285b565b806128ee6128e86128e26001948651612303565b5161283c565b60031090565b6128f9575b016128ba565b61290381866151fd565b6128f3565b8061291c6128e86128e26001948651612303565b612927575b016128a6565b61293181876151e9565b612921565b506001906128c8565b6129498183612303565b5161295e8151878110156129f1575b86612303565b51602090612978612889838301516001600160781b031690565b156129e657519060409081830151918401519263bfb3f8ce9185015161299d81612832565b6129a681612832565b6129d3575b5081518310156129ca5750916129c49160019493612a15565b0161284e565b6000526004601cfd5b9050606091500151636088d7de386129ab565b5050506001906129c4565b612a076020840151612a0281612832565b6151c9565b612958565b611ce482610563565b90612a1f91612303565b51805191612a2c83610563565b6003831115612a8b57612a6c826004604060609501958651801515600014612a7257612a62908787015190608088015191612a99565b1460030390612a0c565b01519052565b5060808501515115612a6257612a86615169565b612a62565b6394eb6af66000526004601cfd5b916000928352602090818420918082019181815191600592831b0101905b818410612ad7575050505003612aca5750565b6309bde33990526004601cfd5b8351808611821b95865294831894909452604086209392820192612ab7565b60405190606082018281106001600160401b03821117612b49575b604052816040612b1f610d84565b91600092838152836020820152838382015283606082015283608082015281528260208201520152565b612b51610d6d565b612b11565b90612b636122a883611406565b8281528092612b74601f1991611406565b019060005b828110612b8557505050565b602090612b90612af6565b82828501015201612b79565b92919092612ba8612af6565b93805115612be95784612bcc91815193608085019560018060a01b03168652612c7e565b606081015115612bda575050565b60006001928160208701525252565b63375c24c160005260006020526024601cfd5b92919092612c08612af6565b93805115612c485784612c1d91815193612dc5565b60208401913383526040850152606081015115612c38575050565b6000600192526000608082015252565b63375c24c160005260016020526024601cfd5b50637fda72796000526004601cfd5b50634e487b7160005260116020526024601cfd5b9092919260009081928290828351905b8160051b85018110612cbd5750505050506060829394510152612cae5750565b6001146119795761054a612c6a565b602090969596019060208251518451811015612db8575b60051b840101518051906020845101516020604084015192015115825182101517612dad579060209160051b0101519660609081890151998a81019a15908b1060011b171798976000828201528b518715600114612d6057502085189060408b0151610120820151189060208c01519051181717612d53575b90612c8e565b612d5b612c5b565b612d4d565b929061012092949750806040915185526020810151602086015201516040840152805160208d0152015160408b0152209260208501828118612da3575b50612d4d565b8251905238612d9d565b505050959495612d4d565b612dc0612c5b565b612cd4565b9092919260009081928291808051600590811b82015b808410612df7575050505050506060829394510152612cae5750565b602097969780940193808551518751811015612ec3575b841b870101519080865101519160609282848351015192015115825182101517612eb7576000918391871b010151928301998a519b8c81019c15908d1060011b17179a99528b518815600114612e7757505060a090208614612ddb57612e72612c5b565b612ddb565b8251815281830151818301526040808401519082015260808084015191015260a090912096508301848118612ead575b50612ddb565b8451905238612ea7565b50505050969596612ddb565b612ecb612c5b565b612e0e565b909293815193612edf8561229b565b95612ee8610e3d565b9180519060005b8281106130a55750505060005b868110612f8e575050612f0e90611c1b565b4780612f7e575b50612f28575b50505061064d6001600055565b60005b838110612f385750612f1b565b80612f4e612f4860019388612303565b51151590565b612f59575b01612f2b565b612f79612f668285612303565b5185612f728482612303565b5191614dee565b612f53565b612f88903361193b565b38612f15565b612f988186612303565b51612fb061288960208301516001600160781b031690565b1561308f57612fc8612fc2838b612303565b60019052565b51604081015180519060005b828110613038575050506060809101519081519160005b83811061300057505050506001905b01612efc565b8061300d60019284612303565b5160a085820191825180613027575b500151905201612feb565b61303290858b6150ef565b3861301c565b8061304560019284612303565b5160806060820191825161305e575b0151905201612fd4565b608081018051908b90528851613086908d906001600160a01b03166101208c0151908561310e565b82820152613054565b5080600061309f6001938b612303565b52612ffa565b806130ef866130b660019486612303565b5180519081516130c581610563565b6130ce81610563565b156130f5575b60208101516040906001600160a01b03165b9101519161310e565b01612eef565b47606083015111156130d457613109615106565b6130d4565b929190835161311c81610563565b61312581610563565b61318d57505050602081015161054a9190613150906001600160a01b03165b6001600160a01b031690565b60408201516001600160a01b0390911617613180575b60808101516060906001600160a01b03169101519061193b565b613188615211565b613166565b6001845161319a81610563565b6131a381610563565b036131e8579261054a9360408201516131db575b60208201516080830151606090930151926001600160a01b03908116929116611987565b6131e3615211565b6131b7565b600284516131f581610563565b6131fe81610563565b036132325760208401516080850151604086015160609096015161054a96909390926001600160a01b039283169216611abe565b60208401516080850151604086015160609096015161054a96909390926001600160a01b039283169216611b6a565b91939290816132739184519085612576565b9190805160051b60400193601f1982018051907f4b9f2d36e1b4c93de62cc077b00b1a91d84b6c31b4a14e012718dcca230689e760209788835282a1528651966132bc88612b56565b9560009889915b8183106132f15750505050936132e294878297986132e6575b50612ed0565b5090565b8251038252386132dc565b909192998861331285613304818f612303565b518581519101519089613367565b61332b8180516080602082511515930151910151141690565b156133445750506001809101935b0191909992996132c3565b85916133619161335a8560019699038093612303565b528b612303565b50613339565b909192613372612af6565b93835115801561351c575b61350f575b61338a612af6565b90613396828286612dc5565b815194606093848701938451156134ef5750928592888361064d99966133c38360809a976134909c612c7e565b6133cd835161283c565b6133d681610563565b8851906133e282610563565b6133eb82610563565b60ff85519260408c61341f6131446020613410613144828b015160018060a01b031690565b9301516001600160a01b031690565b1894015160408d0151189360018060a01b031692181617176134e0575b508351825186015110156134a65750509060208361347161345f61347e956122e9565b5193518c518301518551910397612303565b5151015191015190612303565b5101525b01516001600160a01b031690565b82516001600160a01b0390911660809190910152565b8495939492509060206040613471856134c16134d2966122e9565b519451015188518551910397612303565b510152519086510152613482565b6134e990615189565b3861343c565b97505050505050506080600091826020850152015261064d815160019052565b6135176151a9565b613382565b5080511561337d565b61352d610dcf565b90600182528160005b602090818110156135585760209161354c6121f2565b90828501015201613536565b505050565b926135f76135c3926136159561358d60046080835101516005811015613624575b613587816122c8565b146143fe565b6135d58461359a83613a05565b9098829a92966135a8613525565b966135b2886122e9565b526135bc876122e9565b5086612846565b6135cc856122e9565b51519889613631565b6135f16135e0612285565b91836135eb846122e9565b526122e9565b51614dee565b81516001600160a01b031660208301516001600160a01b03166123cb565b61361f6001600055565b600190565b61362c61054c565b61357e565b60a08082015160c083015197969095939161364a610e3d565b9689604086019384515190600095865b8c898d86841061374a57505050505050505060809260048487015161367e816122c8565b101661373d575b6060809501968751519760005b8981106136c157505050505050505050506136ae919250611c1b565b47806136b75750565b61054a903361193b565b8061371d8c8f8b8b8b8f936136f2908c8c6136df60019c8e51612303565b51968701958651958801958651906137e7565b8092528b8301519052815161370681610563565b61370f81610563565b15613723575b50339061310e565b01613692565b4710613730575b38613715565b613738615106565b61372a565b61374561515a565b613685565b99856137a59392869798999c61378c6137668860019a51612303565b5194855161377381610563565b15179e8d606087019384519560808901968751906137b0565b9052528c518d90610120906001600160a01b03166130e6565b01908d93929161365a565b9093908481036137c657505061064d93506127ff565b93836137db61064d97966137e19496866127ff565b936127ff565b9061275f565b9093908481036137fd57505061064d93506127ff565b93836137db61064d97966138129496866127ff565b906127ab565b90815180825260208080930193019160005b828110613838575050505090565b909192938260a08261384d6001948951610575565b0195019392910161382a565b929094939160409182519460809182870191875260018060a01b0394856020921682890152838189015286518093528160a089019701936000915b8483106138e25750505050505082828594936138dd93867f9d9af8e38d66c62e2c12f0225249fd9d721c54b83f48d9352c97c6cacdcb6f31989603606087015216971695613818565b0390a3565b90919293949784836001928b5180516138fa81610563565b8252808401518c1684830152858101518683015260609081015190820152019901959493019190613894565b9092916000938285526002602052604085209283549260ff8460081c166139e0576001600160781b038460101c166139cf5760ff841615613985575b5050710100000000000000000000000000000100019092555090915061054a9050565b6139916122a882610e13565b9281845236828201116139cb579161054a969760208386946139c29683620100019a990137840101526084356145f9565b90849338613962565b8780fd5b5063ee9e0e6386526020526024601cfd5b50631a51557486526020526024601cfd5b90805b6139fc575090565b809106806139f4565b805190613a1e6107ee60a084015160c0850151906145e4565b613c34576001600160781b03926020928484840151169385604085015116936080830160048151613a4e816122c8565b613a57816122c8565b14613c0157861586881117613bf4575b5191613a72836122c8565b60018093161586881016613be7575b613a8a84613d33565b97613a9f896000526002602052604060002090565b94613aad6107ee878c614c54565b613bd8578554938a60ff861615613bb4575b5050508260881c84811590613ae1575b505050508460881b9060101b17179055565b9897989390919293613ba45760101c8216888514613b9057818914613b72578882910297029702958701968688118789030280910397039181871182841117613b2c575b8080613acf565b90959196613b43613b3d848a6139f1565b826139f1565b80150180809204980492049580871190831117613b605780613b25565b601190634e487b71600052526024601cfd5b92505050849594019484861185870302809103950338808080613acf565b939750955050508303938338808080613acf565b5050505083949338808080613acf565b9151613bd092906060906001600160a01b0316920151916145f9565b38808a613abf565b50600097508796505050505050565b613bef6151da565b613a81565b613bfc6150e0565b613a67565b509193608093965060019150613c20950218613c27575b015190613d67565b9192909190565b613c2f6150e0565b613c18565b5050600090600090600090565b805190613c5e6107ee60a084015160c08501514210904210151690565b613c34576001600160781b03926020928484840151169385604085015116936080830160048151613c8e816122c8565b613c97816122c8565b14613d0757861586881117613cfa575b5191613cb2836122c8565b60018093161586881016613ced575b613cca84613d33565b97613cdf896000526002602052604060002090565b94613aad6107ee878c614caf565b613cf56151da565b613cc1565b613d026150e0565b613ca7565b509193608093965060019150613c20950218613d26575b015190613f04565b613d2e6150e0565b613d1e565b6060810151516101408201511161119a5780516001600160a01b031660009081526001602052604090205461064d91611e2f565b606090604082820180515161014084015103613ef7575b82516000908190613d99906001600160a01b031697866140af565b9082895af16001600160a01b0386166000908152600360205260409020805460018082019092559096861b18949015613ee9575b613dd561522f565b9490919586613edb575b0180515182518111613ecd575b6000905b89818310613e97575050505281519083519180518311613e89575b91906000925b88838510613e3657505050505052613e2857918190565b613e3181615178565b918190565b9091929396613e458884612303565b51613e7d613e538a8a612303565b51868101518784015110613e67828561418f565b179260a080910151910151908091149015171590565b17179601929190613e11565b613e9287615178565b613e0b565b909197613ea5898551612303565b51613ec3613eb38b88612303565b518883015189820151109261418f565b1717970190613df0565b613ed688615178565b613dec565b613ee488615178565b613ddf565b613ef285615178565b613dcd565b613eff615220565b613d7e565b60609081810180515161014083015103614047575b8151613f2f906001600160a01b031694836140af565b9060008092819282895af16001600160a01b0386166000908152600360205260409020805460018082019092559096861b1894901561403d579060409291613f7561522f565b959091968761402f575b0180515182518111614021575b84905b8a818310613ffb5750505052825184519281518411613fed575b9291905b88838510613fc457505050505052613e2857918190565b9091929396613fd38884612303565b51613fe1613e538a8a612303565b17179601929190613fad565b613ff688615178565b613fa9565b9091986140098a8551612303565b51614017613eb38c88612303565b1717980190613f8f565b61402a89615178565b613f8c565b61403889615178565b613f7f565b5093505050918190565b61404f615220565b613f19565b91909160408051936020928360e083028701018352818652839160010160051b92838701915b84841061408957505050505050565b60c060a0879285878c01528460808083893e606083019088013e0193019301929161407a565b9190608490614116604051916398919765835260a0601c8401963360208601526080604086015261410260606140ec604084015185890190614134565b9283608001828901520151838388010190614134565b01809460808201608082015201019061411b565b010190565b8051603f0163ffffffe016929161054a918491906150d0565b9081519081815260209283808083019301918460051b0101915b84838210614161575050505060071b0190565b816080925180518552828101518386015260408082015190860152606080910151908501520191019061414e565b908151916040810151801560038511166141cc575b6020809160608401516080850151149060408601511416948451149301519101511416161590565b5060408201516004909314600303926141a4565b9190811015614204575b60051b8101359061015e19813603018212156101a4570190565b61420c6122d2565b6141ea565b3560058110156101a45790565b90815180825260208080930193019160005b82811061423e575050505090565b909192938260a06001928751805161425581610563565b82528084015185841b869003168483015260408082015190830152606080820151908301526080908101519082015201950193929101614230565b90815180825260208080930193019160005b8281106142b0575050505090565b909192938260c0600192875180516142c781610563565b8252848060a01b038085830151168584015260408083015190840152606080830151908401526080808301519084015260a08092015116908201520195019101929190926142a2565b90600582101561431d5752565b611ce461054c565b90815260406020820181905282516001600160a01b03169082015260208201516001600160a01b03166060820152610180604083015161438c614376610160928360808701526101a086019061421e565b6060860151858203603f190160a0870152614290565b9361439f608082015160c0860190614310565b60a081015160e085015260c081015191610100928386015260e082015192610120938487015282015192610140938487015282015190850152015191015290565b6143e861440e565b6002600055565b6143f761440e565b6003600055565b61440661440e565b600201600055565b60016000540361441a57565b637fa8a9876000526004601cfd5b60036000540361443457565b61054a34615149565b929091833b156144f157604051926000946323b872dd60e01b8652816004528260245283604452858060648180855af11561447e5750505050604052606052565b85853d6144a5575b5063f486bc879052602052604052606052608052600160a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116144d8575b505060205a9101106144d05785614486565b3d81803e3d90fd5b8080600392028380020360091c920302010186806144be565b83635f15d6726000526020526024601cfd5b9392919091843b156145d257604051936080519160a0519360c05195600098637921219560e11b8a528160045282602452836044528460645260a06084528960a452898060c48180855af11561456957505050505060805260a05260c052604052606052565b89893d61458e575b5063f486bc87905260205260405260605260805260a05260a4601cfd5b601f3d0160051c9060051c9080600302918082116145b9575b505060205a9101106144d05786614571565b8080600392028380020360091c920302010187806145a7565b84635f15d6726000526020526024601cfd5b919042811142841115169283156111a8575050565b9291903384146147095761460b611f59565b9361462d828661190160f01b6000526002526022526042600020906000602252565b908351926002601f601d860116106102e2606219860110166000146146fb57600180851690816041039260059260401990880101831c93808952880160209384820151928560238560e81c94019460e31c1690815285845191185283925b8684106146db575050505050966146d59161054a97986146af604060002092614878565b6000525260406000209061190160f01b6000526002526022526042600020906000602252565b9061470f565b85859101938684821c841b1660406000208152878651911852019261468b565b5061054a949550819061470f565b50509050565b90929192600094858052805195601f1982018051918860410390809160018111968715614826575b50505085148515151697881561476d575b50505050505050501561475757565b61475f612033565b634f7fb80d6000526004601cfd5b90919293949580979850845260408252604319840193845195603f198201976020600060648b519c630b135d3f60e11b9e8f8c528d520189845afa9a8b6147c4575b50505050505252523880808080808080614748565b600051036147d257806147af565b3b61475f5761481857606001906041640101000000835160001a1a159114166148035763815e1d646000526004601cfd5b631f003d0a6000525160001a6020526024601cfd5b638baa579f6000526004601cfd5b9091925060408601908151926060880151851a9061485e575b8752845260208360808660015afa508484528a86525251388080614737565b506001600160ff1b038316825260ff83901c601b0161483f565b60098110614b1057601181106149cc576015811061492e57601781106148e35760177f403be09941a31d05cfc2f896505811353d45d38743288b016630cce39435476a9114027f1d51df90cba8de7637ca3e8fe1e3511d1dc2f23487d05dbdecb781860c21ac1c1890565b60157fbb40bf8cea3a5a716e2b6eb08bbdac8ec159f82f380783db3c56904f15a43d049114027f3bd8cff538aba49a9c374c806d277181e9651624b3e31111bc0624574f8bca1d1890565b601381106149815760137f54b3212a178782f104e0d514b41a9a5c4ca9c980bf6597c3cecbf280917e202a9114027f5a4f867d3d458dabecad65f6201ceeaba0096df2d0c491cc32e6ea4e643500171890565b60117f2d7a3ed6dab270fdb8e054b2ad525f0ce2a8b89cc76c17f0965434740f673a559114027fc3939feff011e53ab8c35ca3370aad54c5df1fc2938cd62543174fa6e7d858771890565b600d8110614a7257600f8110614a2757600f7fcc4886e37eedd9aacd6c1c2c9247197a621a71282e87a7cbc673f3736d9aa1419114027f1da3eed3ecef6ebaa6e5023c057ec2c75150693fd0dac5c90f4a142f9879fde81890565b600d7f8df51df98847160517f5b1186b4bc3f418d98b8a7f17f1292f392d79d600d79e9114027f6b5b04cbae4fcb1a9d78e7b2dfc51a36933d023cf6e347e03d517b472a8525901890565b600b8110614ac557600b7f32f4e7485d6485f9f6c255929b9905c62ba919758bbe231f231eaeecf33d810c9114027fbb98d87cc12922b83759626c5f07d72266da9702d19ffad6a514c73a89002f5f1890565b60097f6f0ec38c21f6f583ab7f3c5413c773ffd5344c34fde1d390958e438bf667448f9114027fd1d97d1ef5eaa37a4ee5fbf234e6f6d64eb511eb562221cd7edfbdde0848da051890565b60058110614bb65760078110614b6b5760077fb58d772fb09b426b9dece637f61ca9065f2b994f1464b51e9207f55f7c8f59489114027f7ff98d9d4e55d876c5cfac10b43c04039522f3ddfb0ea9bfe70c68cfb5c7cc141890565b60057f25d02425402d882d211a7ab774c0ed6eca048c4d03d9af40132475744753b2a39114027f1c19f71958cdd8f081b4c31f7caf5c010b29d12950be2fa1c95070dc47e30b551890565b60038110614c095760037ff3e8417a785f980bdaf134fa0274a6bf891eeb8195cd94b09d2aa651046e28bc9114027fa02eb7ff164c884e5e2c336dc85f81c6a93329d8e9adf214b32729b894de2af11890565b60017f832c58a5b611aadcfa6a082ac9d04bace53d8278387f10040347b7e98eb5b3029114027fbf8e29b89f29ed9b529c154a63038ffca562f8d7cd1e2545dda53a1b582dde301890565b905460ff8160081c16614c9d576001600160781b038160101c169081614c7d575b505050600190565b60881c1115614c8e575b8080614c75565b614c97906151b8565b38614c87565b50631a5155746000526020526024601cfd5b906000905460ff8160081c16614d06576001600160781b038160101c169081614cdc575b50505050600190565b60881c1115614cec578080614cd3565b614cf7575b50600090565b614d00906151b8565b38614cf1565b50905050600090565b919060808201908135614d218161052c565b3314159060046001821191101616614d3857505050565b61054a92614d666131446060604051956317b1f9428752602080880152846040880152338288015201610e54565b6080840152606061014461012085013761014060a08401526101e060c0840152614de9601c61032461026435614db260a08202918261016001906101808a019060051b610200016150d0565b6102a0810160e08801528461032082890160006102e08201526102c084016101008b01526001610300820152015201940192610e54565b615046565b919082519060808201918251926005841015614e9b575b614e28602083019460018060a01b03865116331415906004600182119110161690565b15614e50575090614e4291608061054a9601519085614f2c565b91519263fb5014fc93615095565b60049194935051614e60816122c8565b614e69816122c8565b03614e955761054a93614e899184519460808660601b9301519085614ea8565b91639397928593615095565b50505050565b614ea361054c565b614e05565b9493919260c060a494614f18614116946040519663f4dd92ce8852601c88019a1860a088015260a06020880152614f026060614eeb6040840151878b0190614134565b928360a00160408b0152015185838a010190614ffe565b019160a08301606088015283838801019061411b565b01809460a082016080820152010190614fe2565b9392614116906101649392604051936317b1f9428552601c85019760208087015260408601523360608601528151608086015260a082015161012086015260c082015190610140918287015260e08301516101608701528160a0870152614fd2604084015193614fbd6060614fa761018097888c0190614134565b9283870160c08c0152015186838b010190614ffe565b019183830160e089015284838901019061411b565b0194859182016101008201520101905b6122ff602092839283815180845260051b9485930191016150d0565b8051908183526020928380808401938560051b01019101915b8181106150285750505060a0020190565b60a090818481835160045afa153d15176101a4578501920191615017565b60209093919363ffffffff60e01b845116926000948580938180525af19082511490156150865715615076575050565b63fb5014fc90526020526024601cfd5b5063fb5014fc90611cf6612033565b6020909493919463ffffffff60e01b845116926000948580938180525af19082511490156150c75715611cf657505050565b50611cf6612033565b829060045afa153d15176101a457565b50635a052b326000526004601cfd5b63a5f542086000526020526040526060526064601cfd5b50638ffff9806000526004601cfd5b5063fed398fc6000526004601cfd5b631cf99b266000526020526040526044601cfd5b6369f958276000526020526024601cfd5b63a61be9f06000526020526024601cfd5b506312d3f5a36000526004601cfd5b506309bde3396000526004601cfd5b63939792856000526020526024601cfd5b63bced929d6000526020526024601cfd5b5063d5da9a1b6000526004601cfd5b506398e9db6e6000526004601cfd5b6310fda3e16000526020526024601cfd5b63133c37c66000526020526024601cfd5b5063a11b63ff6000526004601cfd5b63a8930e9a6000526020526040526044601cfd5b63d69293326000526020526040526044601cfd5b50636ab37ce76000526004601cfd5b50632165628a6000526004601cfd5b60009081906080803d1090600090819082809185156152d2575b851561525a575b5050505050929190565b91939750919550602094939480920196604051918360c08302840101604052818352839160010160051b98898401905b8a84106152af57505050506152a493949596509501614054565b913880808080615250565b60a083879284878901528181863e6060850151828601520192019301929061528a565b9450909150604081803e5190602051913d81113d84111794856152495794508093506020915060003e60005191602082813e602051903d8260a0028560071b0186011161ffff83861711179460008052615249565b908135641fffffffe08160051b169060405191602091828285010160405263ffffffff809116845260005b8281106153625750929450505050565b8061537885848180958c010135168a01016115e6565b8282880101520161535256fea264697066735822122094a10c007a8d4264c24366738dee6abde662b04bcee11bac251e3848903bd78464736f6c63430008110033"
+
+const seaportAbi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "conduitController",
+				type: "address",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "constructor",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "uint256",
+				name: "newCounter",
+				type: "uint256",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "offerer",
+				type: "address",
+			},
+		],
+		name: "CounterIncremented",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "offerer",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "zone",
+				type: "address",
+			},
+		],
+		name: "OrderCancelled",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "offerer",
+				type: "address",
+			},
+			{
+				indexed: true,
+				internalType: "address",
+				name: "zone",
+				type: "address",
+			},
+			{
+				indexed: false,
+				internalType: "address",
+				name: "recipient",
+				type: "address",
+			},
+			{
+				components: [
+					{
+						internalType: "enum ItemType",
+						name: "itemType",
+						type: "uint8",
+					},
+					{
+						internalType: "address",
+						name: "token",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "identifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+				],
+				indexed: false,
+				internalType: "struct SpentItem[]",
+				name: "offer",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						internalType: "enum ItemType",
+						name: "itemType",
+						type: "uint8",
+					},
+					{
+						internalType: "address",
+						name: "token",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "identifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "amount",
+						type: "uint256",
+					},
+					{
+						internalType: "address payable",
+						name: "recipient",
+						type: "address",
+					},
+				],
+				indexed: false,
+				internalType: "struct ReceivedItem[]",
+				name: "consideration",
+				type: "tuple[]",
+			},
+		],
+		name: "OrderFulfilled",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "zone",
+						type: "address",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OfferItem[]",
+						name: "offer",
+						type: "tuple[]",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ConsiderationItem[]",
+						name: "consideration",
+						type: "tuple[]",
+					},
+					{
+						internalType: "enum OrderType",
+						name: "orderType",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "zoneHash",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "salt",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "totalOriginalConsiderationItems",
+						type: "uint256",
+					},
+				],
+				indexed: false,
+				internalType: "struct OrderParameters",
+				name: "orderParameters",
+				type: "tuple",
+			},
+		],
+		name: "OrderValidated",
+		type: "event",
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: "bytes32[]",
+				name: "orderHashes",
+				type: "bytes32[]",
+			},
+		],
+		name: "OrdersMatched",
+		type: "event",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "zone",
+						type: "address",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OfferItem[]",
+						name: "offer",
+						type: "tuple[]",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ConsiderationItem[]",
+						name: "consideration",
+						type: "tuple[]",
+					},
+					{
+						internalType: "enum OrderType",
+						name: "orderType",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "zoneHash",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "salt",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "counter",
+						type: "uint256",
+					},
+				],
+				internalType: "struct OrderComponents[]",
+				name: "orders",
+				type: "tuple[]",
+			},
+		],
+		name: "cancel",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "cancelled",
+				type: "bool",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "uint120",
+						name: "numerator",
+						type: "uint120",
+					},
+					{
+						internalType: "uint120",
+						name: "denominator",
+						type: "uint120",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+					{
+						internalType: "bytes",
+						name: "extraData",
+						type: "bytes",
+					},
+				],
+				internalType: "struct AdvancedOrder",
+				name: "",
+				type: "tuple",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "enum Side",
+						name: "side",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "index",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "identifier",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32[]",
+						name: "criteriaProof",
+						type: "bytes32[]",
+					},
+				],
+				internalType: "struct CriteriaResolver[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				internalType: "bytes32",
+				name: "fulfillerConduitKey",
+				type: "bytes32",
+			},
+			{
+				internalType: "address",
+				name: "recipient",
+				type: "address",
+			},
+		],
+		name: "fulfillAdvancedOrder",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "fulfilled",
+				type: "bool",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "uint120",
+						name: "numerator",
+						type: "uint120",
+					},
+					{
+						internalType: "uint120",
+						name: "denominator",
+						type: "uint120",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+					{
+						internalType: "bytes",
+						name: "extraData",
+						type: "bytes",
+					},
+				],
+				internalType: "struct AdvancedOrder[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "enum Side",
+						name: "side",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "index",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "identifier",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32[]",
+						name: "criteriaProof",
+						type: "bytes32[]",
+					},
+				],
+				internalType: "struct CriteriaResolver[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "itemIndex",
+						type: "uint256",
+					},
+				],
+				internalType: "struct FulfillmentComponent[][]",
+				name: "",
+				type: "tuple[][]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "itemIndex",
+						type: "uint256",
+					},
+				],
+				internalType: "struct FulfillmentComponent[][]",
+				name: "",
+				type: "tuple[][]",
+			},
+			{
+				internalType: "bytes32",
+				name: "fulfillerConduitKey",
+				type: "bytes32",
+			},
+			{
+				internalType: "address",
+				name: "recipient",
+				type: "address",
+			},
+			{
+				internalType: "uint256",
+				name: "maximumFulfilled",
+				type: "uint256",
+			},
+		],
+		name: "fulfillAvailableAdvancedOrders",
+		outputs: [
+			{
+				internalType: "bool[]",
+				name: "",
+				type: "bool[]",
+			},
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifier",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ReceivedItem",
+						name: "item",
+						type: "tuple",
+					},
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct Execution[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Order[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "itemIndex",
+						type: "uint256",
+					},
+				],
+				internalType: "struct FulfillmentComponent[][]",
+				name: "",
+				type: "tuple[][]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "itemIndex",
+						type: "uint256",
+					},
+				],
+				internalType: "struct FulfillmentComponent[][]",
+				name: "",
+				type: "tuple[][]",
+			},
+			{
+				internalType: "bytes32",
+				name: "fulfillerConduitKey",
+				type: "bytes32",
+			},
+			{
+				internalType: "uint256",
+				name: "maximumFulfilled",
+				type: "uint256",
+			},
+		],
+		name: "fulfillAvailableOrders",
+		outputs: [
+			{
+				internalType: "bool[]",
+				name: "",
+				type: "bool[]",
+			},
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifier",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ReceivedItem",
+						name: "item",
+						type: "tuple",
+					},
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct Execution[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "considerationToken",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "considerationIdentifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "considerationAmount",
+						type: "uint256",
+					},
+					{
+						internalType: "address payable",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "zone",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "offerToken",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "offerIdentifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "offerAmount",
+						type: "uint256",
+					},
+					{
+						internalType: "enum BasicOrderType",
+						name: "basicOrderType",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "zoneHash",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "salt",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "offererConduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "fulfillerConduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "totalOriginalAdditionalRecipients",
+						type: "uint256",
+					},
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct AdditionalRecipient[]",
+						name: "additionalRecipients",
+						type: "tuple[]",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct BasicOrderParameters",
+				name: "parameters",
+				type: "tuple",
+			},
+		],
+		name: "fulfillBasicOrder",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "fulfilled",
+				type: "bool",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "considerationToken",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "considerationIdentifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "considerationAmount",
+						type: "uint256",
+					},
+					{
+						internalType: "address payable",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "zone",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "offerToken",
+						type: "address",
+					},
+					{
+						internalType: "uint256",
+						name: "offerIdentifier",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "offerAmount",
+						type: "uint256",
+					},
+					{
+						internalType: "enum BasicOrderType",
+						name: "basicOrderType",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "zoneHash",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "salt",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "offererConduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "bytes32",
+						name: "fulfillerConduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "totalOriginalAdditionalRecipients",
+						type: "uint256",
+					},
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct AdditionalRecipient[]",
+						name: "additionalRecipients",
+						type: "tuple[]",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct BasicOrderParameters",
+				name: "parameters",
+				type: "tuple",
+			},
+		],
+		name: "fulfillBasicOrder_efficient_6GL6yc",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "fulfilled",
+				type: "bool",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Order",
+				name: "",
+				type: "tuple",
+			},
+			{
+				internalType: "bytes32",
+				name: "fulfillerConduitKey",
+				type: "bytes32",
+			},
+		],
+		name: "fulfillOrder",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "fulfilled",
+				type: "bool",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "contractOfferer",
+				type: "address",
+			},
+		],
+		name: "getContractOffererNonce",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "nonce",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "offerer",
+				type: "address",
+			},
+		],
+		name: "getCounter",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "counter",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "address",
+						name: "zone",
+						type: "address",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OfferItem[]",
+						name: "offer",
+						type: "tuple[]",
+					},
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifierOrCriteria",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "startAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endAmount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ConsiderationItem[]",
+						name: "consideration",
+						type: "tuple[]",
+					},
+					{
+						internalType: "enum OrderType",
+						name: "orderType",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "startTime",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "endTime",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "zoneHash",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "salt",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+					{
+						internalType: "uint256",
+						name: "counter",
+						type: "uint256",
+					},
+				],
+				internalType: "struct OrderComponents",
+				name: "",
+				type: "tuple",
+			},
+		],
+		name: "getOrderHash",
+		outputs: [
+			{
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "bytes32",
+				name: "orderHash",
+				type: "bytes32",
+			},
+		],
+		name: "getOrderStatus",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "isValidated",
+				type: "bool",
+			},
+			{
+				internalType: "bool",
+				name: "isCancelled",
+				type: "bool",
+			},
+			{
+				internalType: "uint256",
+				name: "totalFilled",
+				type: "uint256",
+			},
+			{
+				internalType: "uint256",
+				name: "totalSize",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "incrementCounter",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "newCounter",
+				type: "uint256",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "information",
+		outputs: [
+			{
+				internalType: "string",
+				name: "version",
+				type: "string",
+			},
+			{
+				internalType: "bytes32",
+				name: "domainSeparator",
+				type: "bytes32",
+			},
+			{
+				internalType: "address",
+				name: "conduitController",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "uint120",
+						name: "numerator",
+						type: "uint120",
+					},
+					{
+						internalType: "uint120",
+						name: "denominator",
+						type: "uint120",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+					{
+						internalType: "bytes",
+						name: "extraData",
+						type: "bytes",
+					},
+				],
+				internalType: "struct AdvancedOrder[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						internalType: "uint256",
+						name: "orderIndex",
+						type: "uint256",
+					},
+					{
+						internalType: "enum Side",
+						name: "side",
+						type: "uint8",
+					},
+					{
+						internalType: "uint256",
+						name: "index",
+						type: "uint256",
+					},
+					{
+						internalType: "uint256",
+						name: "identifier",
+						type: "uint256",
+					},
+					{
+						internalType: "bytes32[]",
+						name: "criteriaProof",
+						type: "bytes32[]",
+					},
+				],
+				internalType: "struct CriteriaResolver[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "orderIndex",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "itemIndex",
+								type: "uint256",
+							},
+						],
+						internalType: "struct FulfillmentComponent[]",
+						name: "offerComponents",
+						type: "tuple[]",
+					},
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "orderIndex",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "itemIndex",
+								type: "uint256",
+							},
+						],
+						internalType: "struct FulfillmentComponent[]",
+						name: "considerationComponents",
+						type: "tuple[]",
+					},
+				],
+				internalType: "struct Fulfillment[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				internalType: "address",
+				name: "recipient",
+				type: "address",
+			},
+		],
+		name: "matchAdvancedOrders",
+		outputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifier",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ReceivedItem",
+						name: "item",
+						type: "tuple",
+					},
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct Execution[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Order[]",
+				name: "",
+				type: "tuple[]",
+			},
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "orderIndex",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "itemIndex",
+								type: "uint256",
+							},
+						],
+						internalType: "struct FulfillmentComponent[]",
+						name: "offerComponents",
+						type: "tuple[]",
+					},
+					{
+						components: [
+							{
+								internalType: "uint256",
+								name: "orderIndex",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "itemIndex",
+								type: "uint256",
+							},
+						],
+						internalType: "struct FulfillmentComponent[]",
+						name: "considerationComponents",
+						type: "tuple[]",
+					},
+				],
+				internalType: "struct Fulfillment[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		name: "matchOrders",
+		outputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "enum ItemType",
+								name: "itemType",
+								type: "uint8",
+							},
+							{
+								internalType: "address",
+								name: "token",
+								type: "address",
+							},
+							{
+								internalType: "uint256",
+								name: "identifier",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "amount",
+								type: "uint256",
+							},
+							{
+								internalType: "address payable",
+								name: "recipient",
+								type: "address",
+							},
+						],
+						internalType: "struct ReceivedItem",
+						name: "item",
+						type: "tuple",
+					},
+					{
+						internalType: "address",
+						name: "offerer",
+						type: "address",
+					},
+					{
+						internalType: "bytes32",
+						name: "conduitKey",
+						type: "bytes32",
+					},
+				],
+				internalType: "struct Execution[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "name",
+		outputs: [
+			{
+				internalType: "string",
+				name: "",
+				type: "string",
+			},
+		],
+		stateMutability: "pure",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: "address",
+								name: "offerer",
+								type: "address",
+							},
+							{
+								internalType: "address",
+								name: "zone",
+								type: "address",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+								],
+								internalType: "struct OfferItem[]",
+								name: "offer",
+								type: "tuple[]",
+							},
+							{
+								components: [
+									{
+										internalType: "enum ItemType",
+										name: "itemType",
+										type: "uint8",
+									},
+									{
+										internalType: "address",
+										name: "token",
+										type: "address",
+									},
+									{
+										internalType: "uint256",
+										name: "identifierOrCriteria",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "startAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "uint256",
+										name: "endAmount",
+										type: "uint256",
+									},
+									{
+										internalType: "address payable",
+										name: "recipient",
+										type: "address",
+									},
+								],
+								internalType: "struct ConsiderationItem[]",
+								name: "consideration",
+								type: "tuple[]",
+							},
+							{
+								internalType: "enum OrderType",
+								name: "orderType",
+								type: "uint8",
+							},
+							{
+								internalType: "uint256",
+								name: "startTime",
+								type: "uint256",
+							},
+							{
+								internalType: "uint256",
+								name: "endTime",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "zoneHash",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "salt",
+								type: "uint256",
+							},
+							{
+								internalType: "bytes32",
+								name: "conduitKey",
+								type: "bytes32",
+							},
+							{
+								internalType: "uint256",
+								name: "totalOriginalConsiderationItems",
+								type: "uint256",
+							},
+						],
+						internalType: "struct OrderParameters",
+						name: "parameters",
+						type: "tuple",
+					},
+					{
+						internalType: "bytes",
+						name: "signature",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Order[]",
+				name: "",
+				type: "tuple[]",
+			},
+		],
+		name: "validate",
+		outputs: [
+			{
+				internalType: "bool",
+				name: "",
+				type: "bool",
+			},
+		],
+		stateMutability: "nonpayable",
+		type: "function",
+	},
+]
+
+/**
+ * Deploy Seaport 1.5, conduit controller is required by Seaport constructor (see deployConduitController)
+ */
+export async function deploySeaport(web3: Web3, conduitController: Address) {
+	const empty = createSeaport(web3)
+	const [address] = await web3.eth.getAccounts()
+	return empty
+		.deploy({ data: seaportBytecode, arguments: [conduitController] })
+		.send({ from: address, gas: 9000000, gasPrice: "0" })
+}
+
+export function createSeaport(web3: Web3, address?: Address): Contract {
+	return new web3.eth.Contract(seaportAbi, address)
+}
@@ -0,0 +1,97 @@
+import type Web3 from "web3"
+import type { AbiItem } from "../common/abi-item"
+
+/**
+ * Multicall3 compatible contract: aggregate3, getEthBalance and getBlockNumber
+ */
+const abi: AbiItem[] = [
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: "address",
+						name: "target",
+						type: "address",
+					},
+					{
+						internalType: "bool",
+						name: "allowFailure",
+						type: "bool",
+					},
+					{
+						internalType: "bytes",
+						name: "callData",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Multicall3.Call3[]",
+				name: "calls",
+				type: "tuple[]",
+			},
+		],
+		name: "aggregate3",
+		outputs: [
+			{
+				components: [
+					{
+						internalType: "bool",
+						name: "success",
+						type: "bool",
+					},
+					{
+						internalType: "bytes",
+						name: "returnData",
+						type: "bytes",
+					},
+				],
+				internalType: "struct Multicall3.Result[]",
+				name: "returnData",
+				type: "tuple[]",
+			},
+		],
+		stateMutability: "payable",
+		type: "function",
+	},
+	{
+		inputs: [],
+		name: "getBlockNumber",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "blockNumber",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+	{
+		inputs: [
+			{
+				internalType: "address",
+				name: "addr",
+				type: "address",
+			},
+		],
+		name: "getEthBalance",
+		outputs: [
+			{
+				internalType: "uint256",
+				name: "balance",
+				type: "uint256",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+const bytecode =
+	"0x608060405234801561001057600080fd5b5061052d806100206000396000f3fe6080604052600436106100345760003560e01c806342cbb15c146100395780634d2301cc1461005b57806382ad56cb14610083575b600080fd5b34801561004557600080fd5b50435b6040519081526020015b60405180910390f35b34801561006757600080fd5b506100486100763660046102b3565b6001600160a01b03163190565b6100966100913660046102e3565b6100a3565b6040516100529190610358565b60608167ffffffffffffffff8111156100be576100be610404565b60405190808252806020026020018201604052801561010457816020015b6040805180820190915260008152606060208201528152602001906001900390816100dc5790505b50905060005b828110156102ac576000808585848181106101275761012761041a565b90506020028101906101399190610430565b6101479060208101906102b3565b6001600160a01b03168686858181106101625761016261041a565b90506020028101906101749190610430565b610182906040810190610450565b60405161019092919061049e565b6000604051808303816000865af19150503d80600081146101cd576040519150601f19603f3d011682016040523d82523d6000602084013e6101d2565b606091505b5091509150818061021357508585848181106101f0576101f061041a565b90506020028101906102029190610430565b6102139060408101906020016104ae565b6102635760405162461bcd60e51b815260206004820152601760248201527f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000604482015260640160405180910390fd5b604051806040016040528083151581526020018281525084848151811061028c5761028c61041a565b6020026020010181905250505080806102a4906104d0565b91505061010a565b5092915050565b6000602082840312156102c557600080fd5b81356001600160a01b03811681146102dc57600080fd5b9392505050565b600080602083850312156102f657600080fd5b823567ffffffffffffffff8082111561030e57600080fd5b818501915085601f83011261032257600080fd5b81358181111561033157600080fd5b8660208260051b850101111561034657600080fd5b60209290920196919550909350505050565b60006020808301818452808551808352604092508286019150828160051b8701018488016000805b848110156103f557898403603f1901865282518051151585528801518885018890528051888601819052835b818110156103c8578281018b0151878201606001528a016103ac565b508581016060908101859052978a0197601f909101601f1916909501909401935091870191600101610380565b50919998505050505050505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b60008235605e1983360301811261044657600080fd5b9190910192915050565b6000808335601e1984360301811261046757600080fd5b83018035915067ffffffffffffffff82111561048257600080fd5b60200191503681900382131561049757600080fd5b9250929050565b8183823760009101908152919050565b6000602082840312156104c057600080fd5b813580151581146102dc57600080fd5b6000600182016104f057634e487b7160e01b600052601160045260246000fd5b506001019056fea2646970667358221220e2f46ba62a82e1247fd45b74b7144675383c4411416a7127a7b53c6fb093c6f464736f6c63430008110033"
+
+export async function deployTestMulticall3(web3: Web3) {
+	const empty = new web3.eth.Contract(abi)
+	const [address] = await web3.eth.getAccounts()
+	return empty.deploy({ data: bytecode }).send({ from: address, gas: 4000000, gasPrice: "0" })
+}
@@ -0,0 +1,30 @@
+import type Web3 from "web3"
+import type { AbiItem } from "../common/abi-item"
+
+/**
+ * Contract with view which returns msg.sender
+ */
+const abi: AbiItem[] = [
+	{
+		inputs: [],
+		name: "sender",
+		outputs: [
+			{
+				internalType: "address",
+				name: "",
+				type: "address",
+			},
+		],
+		stateMutability: "view",
+		type: "function",
+	},
+]
+
+const bytecode =
+	"0x6080604052348015600f57600080fd5b50607680601d6000396000f3fe6080604052348015600f57600080fd5b506004361060285760003560e01c806367e404ce14602d575b600080fd5b6040805133815290519081900360200190f3fea26469706673582212208180f2c65057577f2dd5ec8ee66ac35a0f32c7c3e68a1cedca92d5b7c7bd478364736f6c63430008110033"
+
+export async function deployTestSender(web3: Web3) {
+	const empty = new web3.eth.Contract(abi)
+	const [address] = await web3.eth.getAccounts()
+	return empty.deploy({ data: bytecode }).send({ from: address, gas: 200000, gasPrice: "0" })
+}
@@ -2,6 +2,7 @@ export { createE2eProvider, createE2eWallet } from "./create-e2e-provider"
 export { createGanacheProvider } from "./create-ganache-provider"
 export { testTypedSignature } from "./test-typed-signature"
 export { testPersonalSign } from "./test-personal-sign"
-export { testSimpleContract } from "./test-contract"
+export { testSimpleContract, testTransactionReplacement } from "./test-contract"
+export { testMulticall } from "./test-multicall"
 export { awaitAll } from "./await-all"
 export * from "./contracts"
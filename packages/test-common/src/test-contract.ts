@@ -19,6 +19,58 @@ export async function testSimpleContract(web3: Web3, ethereum: Ethereum) {
 	expect(valueCallInfo.contract).toEqual(deployed.options.address)
 }
 
+/**
+ * Send transactions while mining is stopped, replace them with speedUp and cancel
+ * and check that wait() of the original transaction returns receipt of the replacement
+ */
+export async function testTransactionReplacement(web3: Web3, ethereum: Ethereum) {
+	const deployed = await deployTestContract(web3)
+	const contract = ethereum.createContract(SIMPLE_TEST_ABI, deployed.options.address)
+	const valueCall = contract.functionCall("value")
+
+	const tx = await whileMiningStopped(web3, async () => {
+		const original = await contract.functionCall("setValue", 20).send({ gasPrice: 1000000000 })
+		const spedUp = await original.speedUp()
+		expect(spedUp.hash).not.toBe(original.hash)
+		expect(spedUp.nonce).toBe(original.nonce)
+		return { original, replacement: spedUp }
+	})
+	expect((await tx.original.wait()).transactionHash).toBe(tx.replacement.hash)
+	expect((await valueCall.call()).toString()).toBe("20")
+
+	const cancelled = await whileMiningStopped(web3, async () => {
+		const original = await contract.functionCall("setValue", 30).send({ gasPrice: 1000000000 })
+		const cancellation = await original.cancel()
+		expect(cancellation.nonce).toBe(original.nonce)
+		return { original, replacement: cancellation }
+	})
+	const receipt = await cancelled.original.wait()
+	expect(receipt.transactionHash).toBe(cancelled.replacement.hash)
+	expect(receipt.to.toLowerCase()).toBe(cancelled.original.from.toLowerCase())
+	expect((await valueCall.call()).toString()).toBe("20")
+}
+
+async function whileMiningStopped<T>(web3: Web3, run: () => Promise<T>): Promise<T> {
+	await sendRpc(web3, "miner_stop")
+	try {
+		return await run()
+	} finally {
+		await sendRpc(web3, "miner_start")
+	}
+}
+
+function sendRpc(web3: Web3, method: string): Promise<unknown> {
+	return new Promise((resolve, reject) => {
+		(web3.currentProvider as any).send({ jsonrpc: "2.0", id: Date.now(), method, params: [] }, (err: any, res: any) => {
+			if (err || res?.error) {
+				reject(err || res.error)
+			} else {
+				resolve(res.result)
+			}
+		})
+	})
+}
+
 async function deployTestContract(web3: Web3) {
 	const c = new web3.eth.Contract(SIMPLE_TEST_ABI as any)
 	const [from] = await web3.eth.getAccounts()
@@ -0,0 +1,56 @@
+import type Web3 from "web3"
+import type { Ethereum } from "@rarible/ethereum-provider"
+import { MulticallEthereum } from "@rarible/ethereum-provider"
+import { deployTestMulticall3 } from "./contracts/test-multicall3"
+import { deployTestErc20 } from "./contracts/test-erc20"
+import { deployTestSender } from "./contracts/test-sender"
+
+/**
+ * Check that concurrent calls are batched into one aggregate3 request of deployed Multicall3
+ * and results are decoded the same way as results of direct calls.
+ * Calls of functions which aren't in the allow-list are not batched
+ */
+export async function testMulticall(web3: Web3, ethereum: Ethereum) {
+	const [owner] = await web3.eth.getAccounts()
+	const multicall = await deployTestMulticall3(web3)
+	const token = await deployTestErc20(web3, "TEST", "TEST")
+	const senderContract = await deployTestSender(web3)
+	await token.methods.mint(owner, 100).send({ from: owner, gas: 200000, gasPrice: "0" })
+
+	const createContract = jest.spyOn(ethereum, "createContract")
+	try {
+		const multicallEthereum = new MulticallEthereum(ethereum, { address: multicall.options.address })
+		const aggregate3 = jest.spyOn(createContract.mock.results[0].value, "functionCall")
+		const contract = multicallEthereum.createContract(token.options.jsonInterface, token.options.address)
+		const sender = multicallEthereum
+			.createContract(senderContract.options.jsonInterface, senderContract.options.address)
+
+		// there is no contract at owner address, so call of it fails
+		const notContract = multicallEthereum.createContract(token.options.jsonInterface, owner)
+
+		const [name, decimals, balance, failed, msgSender] = await Promise.all([
+			contract.functionCall("name").call(),
+			contract.functionCall("decimals").call(),
+			contract.functionCall("balanceOf", owner).call(),
+			notContract.functionCall("name").call().catch((e: any) => e),
+			// view which depends on msg.sender isn't in the allow-list
+			sender.functionCall("sender").call(),
+		])
+		expect(aggregate3).toHaveBeenCalledTimes(1)
+		expect(aggregate3.mock.calls[0][1]).toHaveLength(4)
+		expect(msgSender.toLowerCase()).not.toBe(multicall.options.address.toLowerCase())
+
+		expect(name).toBe("TEST")
+		expect(decimals.toString()).toBe("18")
+		expect(balance.toString()).toBe("100")
+		// call which fails inside the batch is made directly, so its error is the same
+		const directError = await ethereum.createContract(token.options.jsonInterface, owner)
+			.functionCall("name")
+			.call()
+			.catch((e: any) => e)
+		expect(failed).toBeInstanceOf(Error)
+		expect(failed.message).toBe(directError.message)
+	} finally {
+		createContract.mockRestore()
+	}
+}
@@ -2,6 +2,7 @@ import Web3 from "web3"
 import * as common from "@rarible/ethereum-sdk-test-common"
 import { SeaportABI } from "@rarible/ethereum-sdk-test-common/build/contracts/opensea/test-seaport"
 import { toAddress } from "@rarible/types"
+import { MulticallEthereum } from "@rarible/ethereum-provider"
 import { parseRequestError } from "./utils/parse-request-error"
 import { Web3Ethereum, Web3Transaction } from "./index"
 
@@ -38,6 +39,18 @@ describe("Web3Ethereum", () => {
 		await common.testSimpleContract(web3, ganacheEthereum)
 	})
 
+	test("replaces pending transaction with speedUp and cancel", async () => {
+		await common.testTransactionReplacement(web3, ganacheEthereum)
+	})
+
+	test("multicall ethereum calls functions directly if multicall is not deployed", async () => {
+		await common.testSimpleContract(web3, new MulticallEthereum(ganacheEthereum))
+	})
+
+	test("multicall ethereum batches calls into aggregate3 of deployed multicall", async () => {
+		await common.testMulticall(web3, ganacheEthereum)
+	})
+
 	test("getNetwork", async () => {
 		const network = await e2eEthereum.getChainId()
 		expect(network).toBe(300500)
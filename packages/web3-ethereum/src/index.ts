@@ -1,7 +1,7 @@
 import type { Contract, ContractSendMethod } from "web3-eth-contract"
 import type Web3 from "web3"
-import type { PromiEvent, TransactionReceipt } from "web3-core"
-import { signTypedData } from "@rarible/ethereum-provider"
+import type { PromiEvent, Transaction, TransactionReceipt } from "web3-core"
+import { getReplacementFees, signTypedData, waitConfirmations } from "@rarible/ethereum-provider"
 import type { MessageTypes, TypedMessage } from "@rarible/ethereum-provider"
 import type { Address, BigNumber, Binary, Word } from "@rarible/types"
 import { toAddress, toBigNumber, toBinary, toWord } from "@rarible/types"
@@ -126,7 +126,8 @@ export class Web3FunctionCall implements EthereumProvider.EthereumFunctionCall {
 				data,
 				gas: this.config.gas || options.gas,
 				value: options.value,
-				gasPrice: options.gasPrice?.toString(),
+				nonce: options.nonce,
+				...getFeeOptions(options),
 			})
 			const { hash, receipt } = toPromises(promiEvent)
 			const hashValue = await hash
@@ -139,7 +140,8 @@ export class Web3FunctionCall implements EthereumProvider.EthereumFunctionCall {
 				tx.nonce,
 				from,
 				toAddress(this.contract.options.address),
-				this.contract.options.jsonInterface
+				this.contract.options.jsonInterface,
+				this.config.web3,
 			)
 		}
 
@@ -147,7 +149,8 @@ export class Web3FunctionCall implements EthereumProvider.EthereumFunctionCall {
 			from,
 			gas: this.config.gas || options.gas,
 			value: options.value,
-			gasPrice: options.gasPrice?.toString(),
+			nonce: options.nonce,
+			...getFeeOptions(options),
 		})
 		const { hash, receipt } = toPromises(promiEvent)
 		const hashValue = await hash
@@ -158,7 +161,9 @@ export class Web3FunctionCall implements EthereumProvider.EthereumFunctionCall {
 			toBinary(await this.getData()),
 			tx.nonce,
 			from,
-			toAddress(this.contract.options.address)
+			toAddress(this.contract.options.address),
+			undefined,
+			this.config.web3,
 		)
 	}
 
@@ -183,6 +188,12 @@ export class Web3FunctionCall implements EthereumProvider.EthereumFunctionCall {
 }
 
 export class Web3Transaction implements EthereumProvider.EthereumTransaction {
+	private replacement: Web3Transaction | undefined = undefined
+	private resolveReplacement!: (tx: Web3Transaction) => void
+	private readonly replaced = new Promise<Web3Transaction>(resolve => {
+		this.resolveReplacement = resolve
+	})
+
 	constructor(
 		private readonly receipt: Promise<TransactionReceipt>,
 		public readonly hash: Word,
@@ -191,22 +202,138 @@ export class Web3Transaction implements EthereumProvider.EthereumTransaction {
 		public readonly from: Address,
 		public readonly to?: Address,
 		private readonly contractAbi?: AbiItem[],
+		private readonly web3?: Web3,
 	) {}
 
-	async wait(): Promise<EthereumProvider.EthereumTransactionReceipt> {
-		return await this.receipt
+	async wait(
+		options?: EthereumProvider.EthereumTransactionWaitOptions,
+	): Promise<EthereumProvider.EthereumTransactionReceipt> {
+		if (!options) {
+			return await this.getReceipt()
+		}
+		return waitConfirmations({
+			hash: this.hash,
+			from: this.from,
+			nonce: this.nonce,
+			firstReceipt: this.getReceipt(),
+			source: this.getConfirmationSource(),
+		}, options)
 	}
 
 	async getEvents(): Promise<EthereumProvider.EthereumTransactionEvent[]> {
 		if (this.to && this.contractAbi) {
 			return getTransactionReceiptEvents(
-				this.receipt,
+				this.getReceipt(),
 				this.to,
 				this.contractAbi
 			)
 		}
-		return await getContractMethodReceiptEvents(this.receipt) || []
+		return await getContractMethodReceiptEvents(this.getReceipt()) || []
+	}
+
+	async speedUp(fees?: EthereumProvider.EthereumTransactionFees): Promise<EthereumProvider.EthereumTransaction> {
+		if (this.replacement) {
+			return this.replacement.speedUp(fees)
+		}
+		const original = await this.getOriginal()
+		return this.replace({
+			to: original.to ?? undefined,
+			data: original.input,
+			value: original.value,
+			gas: original.gas,
+		}, original, fees, this.contractAbi)
+	}
+
+	async cancel(fees?: EthereumProvider.EthereumTransactionFees): Promise<EthereumProvider.EthereumTransaction> {
+		if (this.replacement) {
+			return this.replacement.cancel(fees)
+		}
+		const original = await this.getOriginal()
+		return this.replace({
+			to: this.from,
+			data: "0x",
+			value: "0",
+			gas: 21000,
+		}, original, fees)
+	}
+
+	private async replace(
+		request: { to?: string, data: string, value: string, gas: number },
+		original: Transaction,
+		fees: EthereumProvider.EthereumTransactionFees | undefined,
+		contractAbi?: AbiItem[],
+	): Promise<Web3Transaction> {
+		const web3 = this.getWeb3()
+		const promiEvent = web3.eth.sendTransaction({
+			...request,
+			from: this.from,
+			nonce: this.nonce,
+			...getReplacementFees({
+				gasPrice: original.gasPrice,
+				maxFeePerGas: original.maxFeePerGas?.toString(),
+				maxPriorityFeePerGas: original.maxPriorityFeePerGas?.toString(),
+			}, fees),
+		})
+		const { hash, receipt } = toPromises(promiEvent)
+		const replacement = new Web3Transaction(
+			receipt,
+			toWord(await hash),
+			toBinary(request.data),
+			this.nonce,
+			this.from,
+			request.to ? toAddress(request.to) : undefined,
+			contractAbi,
+			web3,
+		)
+		this.replacement = replacement
+		this.resolveReplacement(replacement)
+		return replacement
+	}
+
+	private getReceipt(): Promise<TransactionReceipt> {
+		// receipt of the original transaction or of the one which replaced it
+		return Promise.race([
+			this.receipt,
+			this.replaced.then(tx => tx.getReceipt()),
+		])
+	}
+
+	private getConfirmationSource(): EthereumProvider.TransactionConfirmationSource {
+		return {
+			getReceipt: async hash => await this.getWeb3().eth.getTransactionReceipt(hash) ?? undefined,
+			isPending: async hash => !!await this.getWeb3().eth.getTransaction(hash),
+			getTransactionCount: address => this.getWeb3().eth.getTransactionCount(address, "latest"),
+			getBlockNumber: () => this.getWeb3().eth.getBlockNumber(),
+		}
+	}
+
+	private async getOriginal(): Promise<Transaction> {
+		const original = await this.getWeb3().eth.getTransaction(this.hash)
+		if (!original) {
+			throw new Error(`Transaction ${this.hash} is not found`)
+		}
+		if (original.blockNumber !== null) {
+			throw new Error(`Transaction ${this.hash} is already mined`)
+		}
+		return original
+	}
+
+	private getWeb3(): Web3 {
+		if (!this.web3) {
+			throw new Error("Web3 instance is required to replace transaction")
+		}
+		return this.web3
+	}
+}
+
+function getFeeOptions(options: EthereumProvider.EthereumSendOptions) {
+	if (options.maxFeePerGas !== undefined || options.maxPriorityFeePerGas !== undefined) {
+		return {
+			maxFeePerGas: options.maxFeePerGas?.toString(),
+			maxPriorityFeePerGas: options.maxPriorityFeePerGas?.toString(),
+		}
 	}
+	return { gasPrice: options.gasPrice?.toString() }
 }
 
 async function getFrom(web3: Web3, from: string | undefined): Promise<string> {